@@ -9,6 +9,11 @@ import { TimeService } from "./services/TimeService";
 import { QueryService } from "./services/QueryService";
 import { SelectionServiceImpl } from "./services/SelectionService";
 import { PositionBufferService } from "./services/PositionBufferService";
+import { FrameConversionService } from "./services/FrameConversionService";
+import { AccessService } from "./services/AccessService";
+import { ConjunctionService } from "./services/ConjunctionService";
+import { SensorService } from "./services/SensorService";
+import { AssetService } from "./services/AssetService";
 
 export class Engine implements IEngine {
     private entityManager: EntityManager;
@@ -46,11 +51,34 @@ export class Engine implements IEngine {
         const timeService = services.time || new TimeService();
         this.services.set("time", timeService);
 
+        // Frame conversion service (TEME/J2000/ECEF -> render space)
+        const frameService = services.frame || new FrameConversionService(timeService);
+        this.services.set("frame", frameService);
+
         // Query service
         const queryService = services.query || new QueryService();
         queryService.setComponentRegistry(this.componentRegistry);
         this.services.set("query", queryService as Service);
 
+        // Access service (ground station line-of-sight intervals)
+        const accessService = new AccessService(frameService);
+        accessService.setComponentRegistry(this.componentRegistry);
+        this.services.set("access", accessService as Service);
+
+        // Conjunction service (close-approach screening in a worker)
+        const conjunctionService = new ConjunctionService();
+        conjunctionService.setComponentRegistry(this.componentRegistry);
+        this.services.set("conjunction", conjunctionService as Service);
+
+        // Sensor service (pointing and field-of-view queries)
+        const sensorService = new SensorService(frameService, timeService);
+        sensorService.setComponentRegistry(this.componentRegistry);
+        this.services.set("sensor", sensorService as Service);
+
+        // Asset service (glTF/GLB models)
+        const assetService = new AssetService();
+        this.services.set("assets", assetService as Service);
+
         // Selection service (always created)
         const selectionService = new SelectionServiceImpl();
         this.services.set("selection", selectionService as Service);
@@ -77,12 +105,28 @@ export class Engine implements IEngine {
         return this.entityManager.create();
     }
 
-    destroyEntity(entity: EntityId): void {
+    /**
+     * Destroy an entity
+     * @param cascade Also destroy its children (recursively); otherwise children are detached and stay where they are
+     */
+    destroyEntity(entity: EntityId, cascade: boolean = false): void {
         if (!this.entityManager.exists(entity)) {
             console.warn(`Attempting to destroy non-existent entity: ${entity}`);
             return;
         }
 
+        // Detach first so a parent cycle cannot recurse back into this entity
+        this.componentRegistry.removeComponent(entity, ComponentType.HIERARCHY);
+
+        const children = this.getQueryService().getChildren(entity);
+        for (const child of children) {
+            if (cascade) {
+                this.destroyEntity(child, true);
+            } else {
+                this.componentRegistry.removeComponent(child, ComponentType.HIERARCHY);
+            }
+        }
+
         this.componentRegistry.removeAllComponents(entity);
         this.entityManager.destroy(entity);
     }
@@ -0,0 +1,379 @@
+// CCSDS Entity Factory
+// Turns imported OEM/OPM/OMM messages into renderable entities, and samples entities back into OEMs
+
+import type {
+    EntityId,
+    IEngine,
+    IFrameConversionService,
+    KeplerianElements,
+    OrbitalElementsComponent,
+    PropagatorComponent,
+    TLE,
+} from "../types";
+import { ComponentType, OrbitalFormat, ReferenceFrame } from "../types";
+import { EphemerisPropagator, type EphemerisSample } from "../propagators/EphemerisPropagator";
+import { KeplerianPropagator } from "../propagators/KeplerianPropagator";
+import { NumericalPropagator } from "../propagators/NumericalPropagator";
+import { AtmosphericDragForce, SolarRadiationPressureForce, ZonalHarmonicsForce, type ForceModel } from "../propagators/ForceModels";
+import { createRSO } from "./RSOFactory";
+import { ommToTLE, type OEMMessage, type OEMSegment, type OMMMessage, type OPMMessage } from "../utils/CCSDSMessages";
+import { degreesToRadians, MU_EARTH } from "../utils/OrbitalMath";
+
+export interface CCSDSEntityConfig {
+    /**
+     * Billboard color (default: 0x00ff00 - green)
+     */
+    color?: number;
+
+    /**
+     * Billboard size (default: 50)
+     */
+    size?: number;
+}
+
+export interface OEMEntityConfig extends CCSDSEntityConfig {
+    /**
+     * Behaviour outside the ephemeris coverage (default: "flag" - the entity is not propagated)
+     */
+    outOfCoverage?: "clamp" | "flag";
+}
+
+export interface OEMExportOptions {
+    start: number; // UTC Unix ms
+    stop: number; // UTC Unix ms
+    step: number; // ms between samples
+    refFrame?: string; // CCSDS frame name (default: "EME2000")
+    objectName?: string;
+    objectId?: string;
+    originator?: string;
+}
+
+/**
+ * Map a CCSDS reference frame name onto the engine's frames
+ */
+export function ccsdsFrameToReferenceFrame(refFrame: string): ReferenceFrame {
+    const name = refFrame.trim().toUpperCase();
+
+    if (name === "EME2000" || name === "J2000" || name === "GCRF" || name === "ICRF") {
+        return ReferenceFrame.J2000;
+    }
+    if (name === "TEME") {
+        return ReferenceFrame.TEME;
+    }
+    if (name.startsWith("ITRF") || name === "EFG" || name === "ECEF") {
+        return ReferenceFrame.ECEF;
+    }
+
+    throw new Error(`Unsupported CCSDS reference frame: ${refFrame}`);
+}
+
+/**
+ * Map an engine frame onto its CCSDS name
+ */
+export function referenceFrameToCCSDS(frame: ReferenceFrame): string {
+    switch (frame) {
+        case ReferenceFrame.ECI:
+        case ReferenceFrame.J2000:
+            return "EME2000";
+        case ReferenceFrame.TEME:
+            return "TEME";
+        case ReferenceFrame.ECEF:
+            return "ITRF2000";
+        default:
+            throw new Error(`Frame ${frame} has no CCSDS equivalent`);
+    }
+}
+
+/**
+ * ECI and J2000 name the same frame in the engine (frame bias is ignored)
+ */
+function inertialAlias(frame: ReferenceFrame): ReferenceFrame {
+    return frame === ReferenceFrame.ECI ? ReferenceFrame.J2000 : frame;
+}
+
+function requireEarthCenter(centerName: string): void {
+    if (centerName.trim().toUpperCase() !== "EARTH") {
+        throw new Error(`Only Earth-centred messages are supported (CENTER_NAME = ${centerName})`);
+    }
+}
+
+function addRenderComponents(engine: IEngine, entity: EntityId, config: CCSDSEntityConfig): void {
+    engine.addComponent(entity, {
+        type: ComponentType.BILLBOARD,
+        size: config.size ?? 50,
+        color: config.color ?? 0x00ff00,
+        sizeAttenuation: true,
+    });
+}
+
+/**
+ * Create an entity that interpolates one OEM segment
+ */
+export function createRSOFromOEM(engine: IEngine, segment: OEMSegment, config: OEMEntityConfig = {}): EntityId {
+    requireEarthCenter(segment.metadata.centerName);
+
+    // Hermite needs velocities on every state; fall back to Lagrange otherwise
+    const hermite = segment.metadata.interpolation?.toUpperCase() === "HERMITE" && segment.states.every((state) => state.velocity);
+    const propagator = new EphemerisPropagator(segment.states, {
+        interpolation: hermite ? "hermite" : "lagrange",
+        order: segment.metadata.interpolationDegree,
+        frame: ccsdsFrameToReferenceFrame(segment.metadata.refFrame),
+        outOfCoverage: config.outOfCoverage ?? "flag",
+    });
+
+    const first = segment.states[0];
+    const entity = engine.createEntity();
+
+    engine.addComponent(entity, {
+        type: ComponentType.ORBITAL_ELEMENTS,
+        format: OrbitalFormat.CARTESIAN,
+        data: { position: [...first.position], velocity: first.velocity ? [...first.velocity] : [0, 0, 0] },
+        epoch: first.time,
+    });
+
+    engine.addComponent(entity, {
+        type: ComponentType.PROPAGATOR,
+        propagator,
+    });
+
+    addRenderComponents(engine, entity, config);
+
+    return entity;
+}
+
+/**
+ * Create one entity per OEM segment
+ */
+export function createRSOsFromOEM(engine: IEngine, message: OEMMessage, config: OEMEntityConfig = {}): EntityId[] {
+    return message.segments.map((segment) => createRSOFromOEM(engine, segment, config));
+}
+
+/**
+ * Create an entity from an OPM state vector
+ * The state is integrated numerically with J2, plus drag and radiation pressure when the
+ * spacecraft parameters are given; maneuvers are applied as impulses at ignition
+ */
+export function createRSOFromOPM(engine: IEngine, opm: OPMMessage, config: CCSDSEntityConfig = {}): EntityId {
+    requireEarthCenter(opm.metadata.centerName);
+
+    const frameService = engine.getService<IFrameConversionService>("frame");
+    const frame = ccsdsFrameToReferenceFrame(opm.metadata.refFrame);
+
+    // Integrate in ECI
+    let position = { x: opm.position[0], y: opm.position[1], z: opm.position[2] };
+    let velocity = { vx: opm.velocity[0], vy: opm.velocity[1], vz: opm.velocity[2] };
+    if (frame !== ReferenceFrame.J2000) {
+        if (!frameService) {
+            throw new Error(`Frame service required to convert an OPM from ${opm.metadata.refFrame}`);
+        }
+        velocity = frameService.convertVelocity(velocity, position, frame, ReferenceFrame.ECI, opm.epoch);
+        position = frameService.convert(position, frame, ReferenceFrame.ECI, opm.epoch);
+    }
+
+    const forces: ForceModel[] = [new ZonalHarmonicsForce(2)];
+    const spacecraft = opm.spacecraft;
+    if (spacecraft?.mass && spacecraft.dragArea) {
+        forces.push(new AtmosphericDragForce({ area: spacecraft.dragArea, mass: spacecraft.mass, dragCoefficient: spacecraft.dragCoeff }));
+    }
+    if (spacecraft?.mass && spacecraft.solarRadArea) {
+        forces.push(new SolarRadiationPressureForce({ area: spacecraft.solarRadArea, mass: spacecraft.mass, reflectivity: spacecraft.solarRadCoeff }));
+    }
+
+    const data = {
+        position: [position.x, position.y, position.z] as [number, number, number],
+        velocity: [velocity.vx, velocity.vy, velocity.vz] as [number, number, number],
+    };
+    const propagator = new NumericalPropagator({ epoch: opm.epoch, forces }, data);
+
+    // Maneuvers in order, so local-frame burns see the state after earlier burns
+    const maneuvers = [...opm.maneuvers].sort((a, b) => a.epochIgnition - b.epochIgnition);
+    for (const maneuver of maneuvers) {
+        const localFrame = maneuver.refFrame.trim().toUpperCase();
+        let deltaV = { vx: maneuver.deltaV[0], vy: maneuver.deltaV[1], vz: maneuver.deltaV[2] };
+
+        if (localFrame === "RSW" || localFrame === "RTN" || localFrame === "TNW") {
+            const state = propagator.getStateAt(maneuver.epochIgnition);
+            deltaV = localToInertial(deltaV, state, localFrame === "TNW");
+        } else {
+            const maneuverFrame = ccsdsFrameToReferenceFrame(maneuver.refFrame);
+            if (maneuverFrame !== ReferenceFrame.J2000) {
+                if (!frameService || maneuverFrame === ReferenceFrame.ECEF) {
+                    throw new Error(`Unsupported maneuver frame: ${maneuver.refFrame}`);
+                }
+                const rotation = frameService.getRotationMatrix(maneuverFrame, ReferenceFrame.ECI, maneuver.epochIgnition).elements;
+                const { vx, vy, vz } = deltaV;
+                deltaV = {
+                    vx: rotation[0] * vx + rotation[3] * vy + rotation[6] * vz,
+                    vy: rotation[1] * vx + rotation[4] * vy + rotation[7] * vz,
+                    vz: rotation[2] * vx + rotation[5] * vy + rotation[8] * vz,
+                };
+            }
+        }
+
+        propagator.addManeuver({ time: maneuver.epochIgnition, deltaV: [deltaV.vx, deltaV.vy, deltaV.vz] });
+    }
+
+    const entity = engine.createEntity();
+
+    engine.addComponent(entity, {
+        type: ComponentType.ORBITAL_ELEMENTS,
+        format: OrbitalFormat.CARTESIAN,
+        data,
+        epoch: opm.epoch,
+    });
+
+    engine.addComponent(entity, {
+        type: ComponentType.PROPAGATOR,
+        propagator,
+    });
+
+    addRenderComponents(engine, entity, config);
+
+    return entity;
+}
+
+/**
+ * Rotate a delta-v from the satellite's local frame (RSW, or TNW) into the inertial frame
+ */
+function localToInertial(deltaV: { vx: number; vy: number; vz: number }, state: Float64Array, velocityAligned: boolean): { vx: number; vy: number; vz: number } {
+    const r = [state[0], state[1], state[2]];
+    const v = [state[3], state[4], state[5]];
+    const normalize = (a: number[]) => {
+        const length = Math.hypot(a[0], a[1], a[2]);
+        return [a[0] / length, a[1] / length, a[2] / length];
+    };
+    const cross = (a: number[], b: number[]) => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+
+    // W is the orbit normal; the first axis is radial (RSW) or along velocity (TNW)
+    const w = normalize(cross(r, v));
+    const first = normalize(velocityAligned ? v : r);
+    const second = cross(w, first);
+
+    return {
+        vx: deltaV.vx * first[0] + deltaV.vy * second[0] + deltaV.vz * w[0],
+        vy: deltaV.vx * first[1] + deltaV.vy * second[1] + deltaV.vz * w[1],
+        vz: deltaV.vx * first[2] + deltaV.vy * second[2] + deltaV.vz * w[2],
+    };
+}
+
+/**
+ * Create an entity from an OMM
+ * SGP4 element sets become TLE entities; other theories are propagated as osculating Keplerian elements with J2
+ */
+export function createRSOFromOMM(engine: IEngine, omm: OMMMessage, config: CCSDSEntityConfig = {}): EntityId {
+    requireEarthCenter(omm.metadata.centerName);
+
+    const theory = omm.metadata.meanElementTheory.trim().toUpperCase();
+    if (theory.startsWith("SGP") && omm.tle && omm.meanMotion !== undefined) {
+        const tle: TLE = ommToTLE(omm);
+        return createRSO(engine, { tle, color: config.color, size: config.size });
+    }
+
+    const frame = ccsdsFrameToReferenceFrame(omm.metadata.refFrame);
+    if (frame === ReferenceFrame.ECEF) {
+        throw new Error("Mean elements must be given in an inertial frame");
+    }
+
+    const mu = omm.gm ?? MU_EARTH;
+    let a = omm.semiMajorAxis;
+    if (a === undefined && omm.meanMotion !== undefined) {
+        const n = (omm.meanMotion * 2 * Math.PI) / 86400;
+        a = Math.cbrt(mu / (n * n));
+    }
+
+    const elements: KeplerianElements = {
+        a: a!,
+        e: omm.eccentricity,
+        i: degreesToRadians(omm.inclination),
+        omega: degreesToRadians(omm.argumentOfPericenter),
+        Omega: degreesToRadians(omm.raan),
+        M: degreesToRadians(omm.meanAnomaly),
+    };
+
+    const propagator = new KeplerianPropagator({ epoch: omm.epoch, useJ2: true, mu }, elements);
+    propagator.frame = frame;
+
+    const entity = engine.createEntity();
+
+    engine.addComponent(entity, {
+        type: ComponentType.ORBITAL_ELEMENTS,
+        format: OrbitalFormat.KEPLERIAN,
+        data: elements,
+        epoch: omm.epoch,
+    });
+
+    engine.addComponent(entity, {
+        type: ComponentType.PROPAGATOR,
+        propagator,
+    });
+
+    addRenderComponents(engine, entity, config);
+
+    return entity;
+}
+
+/**
+ * Sample an entity's propagator into an OEM
+ */
+export function createOEMFromEntity(engine: IEngine, entity: EntityId, options: OEMExportOptions): OEMMessage {
+    const orbital = engine.getComponent<OrbitalElementsComponent>(entity, ComponentType.ORBITAL_ELEMENTS);
+    const propagatorComponent = engine.getComponent<PropagatorComponent>(entity, ComponentType.PROPAGATOR);
+    if (!orbital || !propagatorComponent) {
+        throw new Error(`Entity ${entity} has no orbital elements or propagator`);
+    }
+
+    if (options.step <= 0 || options.stop < options.start) {
+        throw new Error("Invalid OEM export range");
+    }
+
+    const refFrame = options.refFrame ?? "EME2000";
+    const targetFrame = ccsdsFrameToReferenceFrame(refFrame);
+    const frameService = engine.getService<IFrameConversionService>("frame");
+
+    const states: EphemerisSample[] = [];
+    for (let time = options.start; time <= options.stop; time += options.step) {
+        const state = propagatorComponent.propagator.propagate(orbital.data, time);
+
+        let position = state.position;
+        let velocity = state.velocity;
+        if (inertialAlias(state.frame) !== inertialAlias(targetFrame)) {
+            if (!frameService) {
+                throw new Error(`Frame service required to convert an OEM to ${refFrame}`);
+            }
+            velocity = frameService.convertVelocity(velocity, position, state.frame, targetFrame, time);
+            position = frameService.convert(position, state.frame, targetFrame, time);
+        }
+
+        states.push({
+            time,
+            position: [position.x, position.y, position.z],
+            velocity: [velocity.vx, velocity.vy, velocity.vz],
+        });
+    }
+
+    if (states.length === 0) {
+        throw new Error("OEM export produced no states");
+    }
+
+    const tle = orbital.format === OrbitalFormat.TLE ? (orbital.data as TLE) : null;
+
+    return {
+        header: { version: "2.0", creationDate: Date.now(), originator: options.originator ?? "gorb-bro" },
+        segments: [
+            {
+                metadata: {
+                    objectName: options.objectName ?? tle?.name ?? `ENTITY ${entity}`,
+                    objectId: options.objectId ?? "",
+                    centerName: "EARTH",
+                    refFrame,
+                    timeSystem: "UTC",
+                    startTime: states[0].time,
+                    stopTime: states[states.length - 1].time,
+                    interpolation: "HERMITE",
+                    interpolationDegree: 5,
+                },
+                states,
+            },
+        ],
+    };
+}
@@ -11,8 +11,12 @@ import type {
     PositionComponent,
     MeshComponent,
     IPropagator,
+    IFrameConversionService,
 } from "../types";
 import { ComponentType, OrbitalFormat, ReferenceFrame } from "../types";
+import { geodeticToECEF } from "../utils/ReferenceFrames";
+import type { EphemerisSample } from "../propagators/EphemerisPropagator";
+import { fitTLEToEphemeris, fitTLEToState, type TLEFitOptions, type TLEFitResult, type TLEStateVector } from "../utils/TLEFitting";
 
 // ============================================================================
 // Simple Mock Propagator for demonstration
@@ -92,12 +96,15 @@ export function createRSO(engine: IEngine, tle: TLE): EntityId {
 
 /**
  * Creates a ground station entity
+ * @param lat Geodetic latitude in degrees
+ * @param lon Longitude in degrees
+ * @param alt Altitude above the WGS84 ellipsoid in metres
  */
 export function createGroundStation(engine: IEngine, lat: number, lon: number, alt: number, name?: string): EntityId {
     const entity = engine.createEntity();
 
-    // Convert LLA to ECEF (simplified conversion for demo)
-    const ecef = llaToECEF(lat, lon, alt);
+    // Ground stations live in ECEF (km); the frame service rotates them with the Earth
+    const ecef = geodeticToECEF(lat, lon, alt / 1000);
 
     // Add position component
     const position: PositionComponent = {
@@ -229,31 +236,6 @@ export function createMeshEntity(
 // Utility Functions
 // ============================================================================
 
-/**
- * Converts Latitude, Longitude, Altitude to ECEF coordinates
- * Simplified version for demonstration
- */
-function llaToECEF(lat: number, lon: number, alt: number): { x: number; y: number; z: number } {
-    // WGS84 constants
-    const a = 6378137.0; // Earth semi-major axis in meters
-    const f = 1 / 298.257223563; // Flattening
-    const e2 = 2 * f - f * f; // Square of eccentricity
-
-    // Convert to radians
-    const latRad = (lat * Math.PI) / 180;
-    const lonRad = (lon * Math.PI) / 180;
-
-    // Calculate radius of curvature
-    const N = a / Math.sqrt(1 - e2 * Math.sin(latRad) * Math.sin(latRad));
-
-    // Calculate ECEF coordinates
-    const x = (N + alt) * Math.cos(latRad) * Math.cos(lonRad);
-    const y = (N + alt) * Math.cos(latRad) * Math.sin(lonRad);
-    const z = (N * (1 - e2) + alt) * Math.sin(latRad);
-
-    return { x, y, z };
-}
-
 /**
  * Parses a TLE string into a TLE object
  */
@@ -276,3 +258,26 @@ export function parseTLEString(tleString: string): TLE {
 
     return tle;
 }
+
+/**
+ * Generates a TLE from a state vector by fitting SGP4 mean elements
+ * Non-TEME input frames are converted with the engine's frame service
+ */
+export function createTLEFromStateVector(engine: IEngine, state: TLEStateVector, options: TLEFitOptions = {}): TLEFitResult {
+    return fitTLEToState(state, withFrameService(engine, options));
+}
+
+/**
+ * Generates a TLE from ephemeris points by fitting SGP4 mean elements
+ * Non-TEME input frames are converted with the engine's frame service
+ */
+export function createTLEFromEphemeris(engine: IEngine, samples: EphemerisSample[], options: TLEFitOptions = {}): TLEFitResult {
+    return fitTLEToEphemeris(samples, withFrameService(engine, options));
+}
+
+function withFrameService(engine: IEngine, options: TLEFitOptions): TLEFitOptions {
+    if (options.frameService) {
+        return options;
+    }
+    return { ...options, frameService: engine.getService<IFrameConversionService>("frame") };
+}
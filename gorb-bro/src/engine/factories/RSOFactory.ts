@@ -1,7 +1,7 @@
 // RSO (Resident Space Object) Entity Factory
 // Simplifies creation of satellite entities with all necessary components
 
-import type { IEngine, EntityId, TLE } from "../types";
+import type { IEngine, EntityId, TLE, TrailComponent } from "../types";
 import { ComponentType, OrbitalFormat } from "../types";
 import { HybridK2SGP4Propagator } from "../propagators/HybridK2SGP4Propagator";
 
@@ -21,6 +21,16 @@ export interface RSOConfig {
      */
     size?: number;
 
+    /**
+     * Billboard icon name in the instanced icon atlas, e.g. iconForObjectName(tle.name) (default: plain circle)
+     */
+    icon?: string;
+
+    /**
+     * Orbit trail drawn by TrailSystem: true for the system defaults, or per-entity lead/lag seconds and color (default: none)
+     */
+    trail?: boolean | Omit<TrailComponent, "type">;
+
     /**
      * SGP4 update interval in milliseconds (default: 60000 - 60 seconds)
      */
@@ -68,8 +78,16 @@ export function createRSO(engine: IEngine, config: RSOConfig): EntityId {
         size: config.size ?? 50,
         color: config.color ?? 0x00ff00,
         sizeAttenuation: true,
+        texture: config.icon,
     });
 
+    if (config.trail) {
+        engine.addComponent(entity, {
+            type: ComponentType.TRAIL,
+            ...(config.trail === true ? {} : config.trail),
+        });
+    }
+
     return entity;
 }
 
@@ -14,6 +14,11 @@ export { TimeService } from "./services/TimeService";
 export { RenderingService } from "./services/RenderingService";
 export { QueryService } from "./services/QueryService";
 export { SelectionServiceImpl, type SelectionService } from "./services/SelectionService";
+export { FrameConversionService } from "./services/FrameConversionService";
+export { AccessService } from "./services/AccessService";
+export { ConjunctionService } from "./services/ConjunctionService";
+export { SensorService } from "./services/SensorService";
+export { AssetService } from "./services/AssetService";
 
 // Systems
 export { PropagationSystem } from "./systems/PropagationSystem";
@@ -21,7 +26,16 @@ export { TransformSystem } from "./systems/TransformSystem";
 export { RenderSystem } from "./systems/RenderSystem";
 export { SelectionSystem } from "./systems/SelectionSystem";
 export { CelestialUpdateSystem } from "./systems/CelestialUpdateSystem";
-export { InstancedSatelliteSystem } from "./systems/InstancedSatelliteSystem";
+export { InstancedSatelliteSystem, type EclipseShading } from "./systems/InstancedSatelliteSystem";
+export { EclipseSystem } from "./systems/EclipseSystem";
+export { GroundTrackSystem, type GroundTrackOptions } from "./systems/GroundTrackSystem";
+export { SensorSystem } from "./systems/SensorSystem";
+export { AttitudeSystem } from "./systems/AttitudeSystem";
+export { ModelSystem } from "./systems/ModelSystem";
+export { LabelSystem, type LabelSystemOptions } from "./systems/LabelSystem";
+export { LODSystem, type LODSystemOptions } from "./systems/LODSystem";
+export { TimeVisibilitySystem, type AvailabilityChangeEvent } from "./systems/TimeVisibilitySystem";
+export { TrailSystem, type TrailSystemOptions } from "./systems/TrailSystem";
 
 // Utilities
 export { ComponentPool } from "./utils/ComponentPool";
@@ -36,11 +50,38 @@ export { createSolarSystem } from "./objects/factories";
 // Propagators
 export { SGP4Propagator } from "./propagators/SGP4Propagator";
 export { HybridK2SGP4Propagator, type HybridK2SGP4Config } from "./propagators/HybridK2SGP4Propagator";
+export { KeplerianPropagator, type KeplerianPropagatorConfig } from "./propagators/KeplerianPropagator";
+export { NumericalPropagator, type NumericalPropagatorConfig, type ImpulsiveManeuver } from "./propagators/NumericalPropagator";
+export * from "./propagators/ForceModels";
+export {
+    EphemerisPropagator,
+    type EphemerisPropagatorConfig,
+    type EphemerisSample,
+    type EphemerisInterpolation,
+} from "./propagators/EphemerisPropagator";
 
 // Utilities
-export { TLELoader } from "./utils/TLELoader";
+export { TLELoader, type ParsedTLE, type RejectedTLE, type TLEParseReport } from "./utils/TLELoader";
+export * from "./utils/TLEValidation";
+export * from "./utils/TLEFitting";
+export { EntityStateSampler, type SampledState } from "./utils/EntityStateSampler";
+export * from "./utils/TLEFormat";
+export * from "./utils/CCSDSMessages";
 export { OrbitVisualizer, type OrbitVisualizerOptions } from "./utils/OrbitVisualizer";
+export { ConjunctionScreener, type ConjunctionObject } from "./utils/ConjunctionScreening";
+export { ConjunctionVisualizer, type ConjunctionVisualizerOptions } from "./utils/ConjunctionVisualizer";
 export * from "./utils/OrbitalMath";
+export * from "./utils/ReferenceFrames";
+export * from "./utils/TimeScales";
+export * from "./utils/Ephemeris";
+export * from "./utils/GroundTrack";
+export * from "./utils/SensorGeometry";
+export * from "./utils/Attitude";
+export * from "./utils/IconAtlas";
+export * from "./utils/GlyphAtlas";
+export * from "./utils/TimeVisibility";
+export * from "./utils/Integrators";
 
 // RSO Factory
 export { createRSO, createRSOBatch, type RSOConfig } from "./factories/RSOFactory";
+export * from "./factories/CCSDSFactory";
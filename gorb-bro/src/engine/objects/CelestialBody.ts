@@ -1,8 +1,9 @@
 // Base class for celestial bodies
 
 import * as THREE from "three";
-import type { IEngine, EntityId } from "../types";
-import { ComponentType, ReferenceFrame } from "../types";
+import type { IEngine, EntityId, IFrameConversionService, ITimeService } from "../types";
+import { ComponentType, ReferenceFrame, TimeSystem } from "../types";
+import { julianDateFromUnix } from "../utils/ReferenceFrames";
 
 export interface CelestialBodyConfig {
     radius: number;
@@ -46,6 +47,12 @@ export abstract class CelestialBody {
         // Create mesh
         this.mesh = new THREE.Mesh(geometry, material);
 
+        // Geometry is modelled in km; scale it into render units like entity positions
+        const frameService = engine.getService<IFrameConversionService>("frame");
+        if (frameService) {
+            this.mesh.scale.setScalar(frameService.getRenderFrameConfig().unitsPerKm);
+        }
+
         // Store entity ID in userData for selection
         this.mesh.userData.entityId = this.entity;
 
@@ -131,12 +138,33 @@ export abstract class CelestialBody {
             frame: frame ?? this.config.frame!,
         });
 
-        // Update mesh position directly
+        // Update mesh position directly (meshes live in render space)
         if (this.mesh) {
-            this.mesh.position.set(x, y, z);
+            const frameService = this.engine.getService<IFrameConversionService>("frame");
+            if (frameService) {
+                frameService.convert({ x, y, z }, frame ?? this.config.frame!, ReferenceFrame.RENDER, undefined, this.mesh.position);
+            } else {
+                this.mesh.position.set(x, y, z);
+            }
         }
     }
 
+    /**
+     * Current simulation time (UTC ms), falling back to the wall clock without a time service
+     */
+    protected getSimulationTime(): number {
+        return this.engine?.getService<ITimeService>("time")?.getCurrentTime() ?? Date.now();
+    }
+
+    /**
+     * Julian Date on the TT scale for a UTC timestamp, as used by the ephemerides
+     */
+    protected julianDateTT(time: number): number {
+        // Without a time service the ~69 s TT-UTC offset is ignored
+        const timeService = this.engine?.getService<ITimeService>("time");
+        return julianDateFromUnix(timeService?.convert(time, TimeSystem.UTC, TimeSystem.TT) ?? time);
+    }
+
     /**
      * Update the celestial body's rotation
      */
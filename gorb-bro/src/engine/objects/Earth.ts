@@ -2,17 +2,25 @@
 
 import * as THREE from "three";
 import { CelestialBody, type CelestialBodyConfig } from "./CelestialBody";
+import type { IFrameConversionService } from "../types";
+import { ReferenceFrame } from "../types";
+import { normalizeAngle } from "../utils/OrbitalMath";
+
+// Sphere geometry is Y-up with longitude 0 on +X and 90E on -Z: mesh (x, y, z) -> ECEF (x, -z, y)
+const MESH_TO_ECEF = new THREE.Matrix4().set(1, 0, 0, 0, 0, 0, -1, 0, 0, 1, 0, 0, 0, 0, 0, 1);
 
 export interface EarthConfig extends Partial<CelestialBodyConfig> {
     dayTextureUrl?: string;
     nightTextureUrl?: string;
     cloudsTextureUrl?: string;
     bumpMapUrl?: string;
-    rotationSpeed?: number; // radians per millisecond
+    cloudDriftRate?: number; // Cloud layer drift relative to the ground (radians per millisecond)
+    /** @deprecated Earth is oriented from GMST; sets the cloud drift to 20% of this rate, as the old spin did */
+    rotationSpeed?: number;
 }
 
 export class Earth extends CelestialBody {
-    private rotationSpeed: number;
+    private cloudDriftRate: number;
     private cloudsMesh: THREE.Mesh | null = null;
 
     constructor(config: EarthConfig = {}) {
@@ -24,8 +32,15 @@ export class Earth extends CelestialBody {
             ...config,
         });
 
-        // Earth rotates once per day (2π radians / 86400000 ms)
-        this.rotationSpeed = config.rotationSpeed ?? (2 * Math.PI) / 86400000;
+        // Clouds drift at 20% of Earth's rotation rate relative to the ground
+        this.cloudDriftRate = config.cloudDriftRate ?? 0.2 * (config.rotationSpeed ?? (2 * Math.PI) / 86400000);
+    }
+
+    /**
+     * @deprecated Earth's spin now follows GMST; the spin rate whose old cloud drift (20%) matches the current one
+     */
+    get rotationSpeed(): number {
+        return this.cloudDriftRate / 0.2;
     }
 
     protected async createMaterial(): Promise<THREE.Material> {
@@ -91,27 +106,41 @@ export class Earth extends CelestialBody {
     }
 
     /**
-     * Update Earth's rotation based on elapsed time
+     * Orient Earth for a simulation time (UTC ms, defaults to the current simulation time)
+     * The mesh is treated as the ECEF body frame, so the GMST rotation from the frame service
+     * keeps ground features under ECI satellites at any rate, pause or time jump
      */
-    updateRotation(deltaTime?: number): void {
-        if (!this.mesh) return;
+    updateRotation(time?: number): void {
+        if (!this.mesh || !this.engine) return;
 
-        if (deltaTime !== undefined) {
-            // Rotate around Y axis (polar axis)
-            this.mesh.rotation.y += this.rotationSpeed * deltaTime;
+        const frameService = this.engine.getService<IFrameConversionService>("frame");
+        if (!frameService) return;
 
-            // Also rotate clouds slightly faster for effect
-            if (this.cloudsMesh) {
-                this.cloudsMesh.rotation.y += this.rotationSpeed * deltaTime * 1.2;
-            }
+        const t = time ?? this.getSimulationTime();
+
+        // Full ECEF render transform: orientation plus the unitsPerKm scale applied to satellite positions
+        this.mesh.matrixAutoUpdate = false;
+        this.mesh.matrix.copy(frameService.getRenderMatrix(ReferenceFrame.ECEF, t)).multiply(MESH_TO_ECEF);
+        this.mesh.matrixWorldNeedsUpdate = true;
+
+        // Clouds are a child of the Earth mesh, so only their drift over the ground is applied here
+        if (this.cloudsMesh) {
+            this.cloudsMesh.rotation.y = normalizeAngle(this.cloudDriftRate * t);
         }
     }
 
     /**
-     * Set rotation speed
+     * Set how fast the cloud layer drifts over the ground (radians per millisecond)
+     */
+    setCloudDriftRate(rate: number): void {
+        this.cloudDriftRate = rate;
+    }
+
+    /**
+     * @deprecated Use setCloudDriftRate; Earth's spin now follows GMST and only the cloud drift (20% of speed) is kept
      */
     setRotationSpeed(speed: number): void {
-        this.rotationSpeed = speed;
+        this.cloudDriftRate = 0.2 * speed;
     }
 
     destroy(): void {
@@ -3,6 +3,7 @@
 import * as SunCalc from "suncalc";
 import { CelestialBody, type CelestialBodyConfig } from "./CelestialBody";
 import { ReferenceFrame } from "../types";
+import { moonPositionECI } from "../utils/Ephemeris";
 
 export interface MoonConfig extends Partial<CelestialBodyConfig> {
     autoPosition?: boolean; // Automatically position based on current time
@@ -12,6 +13,7 @@ export interface MoonConfig extends Partial<CelestialBodyConfig> {
 
 export class Moon extends CelestialBody {
     private autoPosition: boolean;
+    private useRealDistance: boolean;
     private visualDistance: number;
 
     constructor(config: MoonConfig = {}) {
@@ -24,6 +26,7 @@ export class Moon extends CelestialBody {
         });
 
         this.autoPosition = config.autoPosition ?? true;
+        this.useRealDistance = config.useRealDistance ?? false;
         this.visualDistance = config.useRealDistance ? 384400 : config.visualDistance ?? 50000;
     }
 
@@ -39,25 +42,20 @@ export class Moon extends CelestialBody {
     }
 
     /**
-     * Update moon position based on current time
+     * Update moon position from the analytic lunar ephemeris
+     * Defaults to the current simulation time
      */
     updateMoonPosition(time?: Date): void {
         if (!this.engine) return;
 
-        const date = time ?? new Date();
+        const utc = time?.getTime() ?? this.getSimulationTime();
+        const moon = moonPositionECI(this.julianDateTT(utc));
 
-        // Get moon position using SunCalc
-        const moonPosition = SunCalc.getMoonPosition(date, 0, 0);
+        // Keep the true direction; only the distance is scaled for visualization
+        const distance = Math.sqrt(moon.x * moon.x + moon.y * moon.y + moon.z * moon.z);
+        const scale = this.useRealDistance ? 1 : this.visualDistance / distance;
 
-        // Convert to Cartesian coordinates similar to sun
-        const azimuth = moonPosition.azimuth;
-        const altitude = moonPosition.altitude;
-
-        const x = this.visualDistance * Math.cos(altitude) * Math.sin(azimuth);
-        const y = this.visualDistance * Math.sin(altitude);
-        const z = this.visualDistance * Math.cos(altitude) * Math.cos(azimuth);
-
-        this.updatePosition(x, y, z);
+        this.updatePosition(moon.x * scale, moon.y * scale, moon.z * scale, ReferenceFrame.ECI);
     }
 
     /**
@@ -3,7 +3,9 @@
 import * as THREE from "three";
 import * as SunCalc from "suncalc";
 import { CelestialBody, type CelestialBodyConfig } from "./CelestialBody";
+import type { IRenderingService } from "../types";
 import { ReferenceFrame } from "../types";
+import { sunPositionECI } from "../utils/Ephemeris";
 
 export interface SunConfig extends Partial<CelestialBodyConfig> {
     autoPosition?: boolean; // Automatically position based on current time
@@ -13,7 +15,9 @@ export interface SunConfig extends Partial<CelestialBodyConfig> {
 
 export class Sun extends CelestialBody {
     private autoPosition: boolean;
+    private useRealDistance: boolean;
     private visualDistance: number;
+    private sunLight: THREE.DirectionalLight | null = null;
 
     constructor(config: SunConfig = {}) {
         super({
@@ -27,6 +31,7 @@ export class Sun extends CelestialBody {
         });
 
         this.autoPosition = config.autoPosition ?? true;
+        this.useRealDistance = config.useRealDistance ?? false;
         this.visualDistance = config.useRealDistance ? 149600000 : config.visualDistance ?? 200000;
     }
 
@@ -58,32 +63,25 @@ export class Sun extends CelestialBody {
     }
 
     /**
-     * Update sun position based on current time
+     * Update sun position from the analytic solar ephemeris
+     * Defaults to the current simulation time
      */
     updateSunPosition(time?: Date): void {
         if (!this.engine) return;
 
-        const date = time ?? new Date();
+        const utc = time?.getTime() ?? this.getSimulationTime();
+        const sun = sunPositionECI(this.julianDateTT(utc));
 
-        // Get sun position using SunCalc
-        // Note: SunCalc gives azimuth and altitude from Earth's perspective
-        // We need to convert this to 3D coordinates
+        // Keep the true direction; only the distance is scaled for visualization
+        const distance = Math.sqrt(sun.x * sun.x + sun.y * sun.y + sun.z * sun.z);
+        const scale = this.useRealDistance ? 1 : this.visualDistance / distance;
 
-        // For simplicity, we'll use a fixed position relative to Earth
-        // In a real implementation, you'd want to use proper astronomical calculations
-        const sunPosition = SunCalc.getPosition(date, 0, 0); // Latitude, Longitude
+        this.updatePosition(sun.x * scale, sun.y * scale, sun.z * scale, ReferenceFrame.ECI);
 
-        // Convert to Cartesian coordinates
-        // Azimuth is measured from south, going west
-        // Altitude is angle above horizon
-        const azimuth = sunPosition.azimuth;
-        const altitude = sunPosition.altitude;
-
-        const x = this.visualDistance * Math.cos(altitude) * Math.sin(azimuth);
-        const y = this.visualDistance * Math.sin(altitude);
-        const z = this.visualDistance * Math.cos(altitude) * Math.cos(azimuth);
-
-        this.updatePosition(x, y, z);
+        // Directional light shines from the sun towards the origin (Earth)
+        if (this.sunLight && this.mesh) {
+            this.sunLight.position.copy(this.mesh.position);
+        }
     }
 
     /**
@@ -100,6 +98,14 @@ export class Sun extends CelestialBody {
         sunLight.castShadow = true;
 
         (renderingService as any).addObject(sunLight);
+        this.sunLight = sunLight;
+    }
+
+    /**
+     * Get the directional light that tracks the sun
+     */
+    getLight(): THREE.DirectionalLight | null {
+        return this.sunLight;
     }
 
     /**
@@ -115,4 +121,14 @@ export class Sun extends CelestialBody {
     static getSunTimes(date: Date, latitude: number, longitude: number) {
         return SunCalc.getTimes(date, latitude, longitude);
     }
+
+    destroy(): void {
+        if (this.sunLight && this.engine) {
+            this.engine.getService<IRenderingService>("rendering")?.removeObject(this.sunLight);
+            this.sunLight.dispose();
+            this.sunLight = null;
+        }
+
+        super.destroy();
+    }
 }
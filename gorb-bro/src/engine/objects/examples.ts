@@ -10,9 +10,9 @@ import { CelestialBody, type CelestialBodyConfig } from "./CelestialBody";
 export async function exampleSimpleSolarSystem(engine: IEngine) {
     const { earth, sun, moon } = await createSolarSystem(engine);
 
-    // Earth rotation update (call this in your animation loop)
-    const updateEarthRotation = (deltaTime: number) => {
-        earth.object.updateRotation(deltaTime);
+    // Earth orientation update (call this in your animation loop with the simulation time)
+    const updateEarthRotation = (time: number) => {
+        earth.object.updateRotation(time);
     };
 
     return { earth, sun, moon, updateEarthRotation };
@@ -0,0 +1,296 @@
+// Ephemeris Propagator
+// Interpolates a precomputed, time-ordered table of position/velocity samples (Lagrange or Hermite)
+
+import type { IPropagator, OrbitalData, PropagationResult } from "../types";
+import { ReferenceFrame } from "../types";
+
+export interface EphemerisSample {
+    time: number; // UTC Unix timestamp in milliseconds
+    position: [number, number, number]; // km
+    velocity?: [number, number, number]; // km/s (required for Hermite interpolation)
+}
+
+export type EphemerisInterpolation = "lagrange" | "hermite";
+
+export interface EphemerisPropagatorConfig {
+    /**
+     * Interpolation scheme; Hermite also matches the sampled velocities
+     * Default: "lagrange"
+     */
+    interpolation?: EphemerisInterpolation;
+
+    /**
+     * Polynomial degree. Lagrange uses degree + 1 samples, Hermite uses (degree + 1) / 2 samples
+     * Default: 7 for Lagrange, 5 for Hermite
+     */
+    order?: number;
+
+    /**
+     * Frame of the table samples
+     * Default: ReferenceFrame.ECI
+     */
+    frame?: ReferenceFrame;
+
+    /**
+     * Behaviour outside the table: "clamp" holds the nearest end sample, "flag" reports failure, which PropagationSystem turns into PropagatorComponent.outOfRange (hidden)
+     * Default: "flag"
+     */
+    outOfCoverage?: "clamp" | "flag";
+}
+
+export class EphemerisPropagator implements IPropagator {
+    frame: ReferenceFrame;
+
+    private interpolation: EphemerisInterpolation;
+    private order: number;
+    private outOfCoverage: "clamp" | "flag";
+    private samples: EphemerisSample[] = [];
+
+    // Scratch buffers sized for the largest window, reused on every call
+    private nodes: Float64Array = new Float64Array(0);
+    private weights: Float64Array = new Float64Array(0);
+    private derivativeWeights: Float64Array = new Float64Array(0);
+    private coefficients: Float64Array = new Float64Array(0);
+    private position: [number, number, number] = [0, 0, 0];
+    private velocity: [number, number, number] = [0, 0, 0];
+
+    constructor(samples: EphemerisSample[] = [], config: EphemerisPropagatorConfig = {}) {
+        this.interpolation = config.interpolation ?? "lagrange";
+        this.order = config.order ?? (this.interpolation === "hermite" ? 5 : 7);
+        this.frame = config.frame ?? ReferenceFrame.ECI;
+        this.outOfCoverage = config.outOfCoverage ?? "flag";
+
+        if (this.order < 1) {
+            throw new Error("Interpolation order must be at least 1");
+        }
+
+        if (samples.length > 0) {
+            this.setSamples(samples);
+        }
+    }
+
+    /**
+     * Replace the ephemeris table (samples are sorted by time; duplicate times are dropped)
+     */
+    setSamples(samples: EphemerisSample[]): void {
+        const sorted = [...samples].sort((a, b) => a.time - b.time);
+        const unique = sorted.filter((sample, i) => i === 0 || sample.time !== sorted[i - 1].time);
+
+        if (unique.length < 2) {
+            throw new Error("Ephemeris table needs at least two samples");
+        }
+
+        if (this.interpolation === "hermite" && unique.some((sample) => !sample.velocity)) {
+            throw new Error("Hermite interpolation requires velocities on every sample");
+        }
+
+        this.samples = unique;
+
+        const windowSize = this.getWindowSize();
+        const nodeCount = this.interpolation === "hermite" ? windowSize * 2 : windowSize;
+        this.nodes = new Float64Array(nodeCount);
+        this.weights = new Float64Array(windowSize);
+        this.derivativeWeights = new Float64Array(windowSize);
+        this.coefficients = new Float64Array(nodeCount);
+    }
+
+    /**
+     * Time range covered by the table (UTC Unix ms)
+     */
+    getCoverage(): { start: number; end: number } | null {
+        if (this.samples.length === 0) return null;
+        return { start: this.samples[0].time, end: this.samples[this.samples.length - 1].time };
+    }
+
+    /**
+     * Check whether a time lies within the table
+     */
+    isInCoverage(time: number): boolean {
+        const coverage = this.getCoverage();
+        return coverage !== null && time >= coverage.start && time <= coverage.end;
+    }
+
+    getSampleCount(): number {
+        return this.samples.length;
+    }
+
+    /**
+     * Number of samples per interpolation window, limited by the table size
+     */
+    private getWindowSize(): number {
+        const wanted = this.interpolation === "hermite" ? Math.ceil((this.order + 1) / 2) : this.order + 1;
+        return Math.max(2, Math.min(wanted, this.samples.length));
+    }
+
+    /**
+     * Interpolate into this.position / this.velocity
+     * @returns false when the time is outside the table and the propagator flags it
+     */
+    private interpolate(time: number): boolean {
+        const samples = this.samples;
+        if (samples.length === 0) return false;
+
+        const start = samples[0].time;
+        const end = samples[samples.length - 1].time;
+        if (time < start || time > end) {
+            if (this.outOfCoverage === "flag") return false;
+            time = Math.min(end, Math.max(start, time));
+        }
+
+        // Binary search for the interval containing the time
+        let lo = 0;
+        let hi = samples.length - 1;
+        while (hi - lo > 1) {
+            const mid = (lo + hi) >> 1;
+            if (samples[mid].time <= time) {
+                lo = mid;
+            } else {
+                hi = mid;
+            }
+        }
+
+        // Centre the window on the interval
+        const windowSize = this.getWindowSize();
+        const first = Math.max(0, Math.min(samples.length - windowSize, lo - Math.floor((windowSize - 1) / 2)));
+
+        // Work in seconds from the window centre for conditioning
+        const origin = samples[first + Math.floor(windowSize / 2)].time;
+        const t = (time - origin) / 1000;
+
+        if (this.interpolation === "hermite") {
+            this.interpolateHermite(first, windowSize, origin, t);
+        } else {
+            this.interpolateLagrange(first, windowSize, origin, t);
+        }
+
+        return true;
+    }
+
+    private interpolateLagrange(first: number, windowSize: number, origin: number, t: number): void {
+        const x = this.nodes;
+        const w = this.weights;
+        const dw = this.derivativeWeights;
+
+        for (let i = 0; i < windowSize; i++) {
+            x[i] = (this.samples[first + i].time - origin) / 1000;
+        }
+
+        // Basis weights L_i(t) and their derivatives
+        for (let i = 0; i < windowSize; i++) {
+            let weight = 1;
+            let derivative = 0;
+            for (let j = 0; j < windowSize; j++) {
+                if (j === i) continue;
+                const denominator = x[i] - x[j];
+
+                // d/dt of the running product (product rule)
+                derivative = (derivative * (t - x[j]) + weight) / denominator;
+                weight *= (t - x[j]) / denominator;
+            }
+            w[i] = weight;
+            dw[i] = derivative;
+        }
+
+        const hasVelocity = this.samples[first].velocity !== undefined;
+        for (let axis = 0; axis < 3; axis++) {
+            let position = 0;
+            let velocity = 0;
+            for (let i = 0; i < windowSize; i++) {
+                const sample = this.samples[first + i];
+                position += w[i] * sample.position[axis];
+                velocity += hasVelocity && sample.velocity ? w[i] * sample.velocity[axis] : dw[i] * sample.position[axis];
+            }
+            this.position[axis] = position;
+            this.velocity[axis] = velocity;
+        }
+    }
+
+    private interpolateHermite(first: number, windowSize: number, origin: number, t: number): void {
+        const z = this.nodes;
+        const q = this.coefficients;
+        const nodeCount = windowSize * 2;
+
+        for (let i = 0; i < windowSize; i++) {
+            const node = (this.samples[first + i].time - origin) / 1000;
+            z[2 * i] = node;
+            z[2 * i + 1] = node;
+        }
+
+        for (let axis = 0; axis < 3; axis++) {
+            // Newton divided differences with doubled nodes (first differences are the velocities)
+            for (let i = 0; i < windowSize; i++) {
+                const sample = this.samples[first + i];
+                q[2 * i] = sample.position[axis];
+                q[2 * i + 1] = sample.position[axis];
+            }
+            for (let i = nodeCount - 1; i >= 1; i--) {
+                if (i % 2 === 1) {
+                    q[i] = this.samples[first + (i - 1) / 2].velocity![axis];
+                } else {
+                    q[i] = (q[i] - q[i - 1]) / (z[i] - z[i - 1]);
+                }
+            }
+            for (let level = 2; level < nodeCount; level++) {
+                for (let i = nodeCount - 1; i >= level; i--) {
+                    q[i] = (q[i] - q[i - 1]) / (z[i] - z[i - level]);
+                }
+            }
+
+            // Horner evaluation of the Newton form and its derivative
+            let value = q[nodeCount - 1];
+            let derivative = 0;
+            for (let i = nodeCount - 2; i >= 0; i--) {
+                derivative = derivative * (t - z[i]) + value;
+                value = value * (t - z[i]) + q[i];
+            }
+
+            this.position[axis] = value;
+            this.velocity[axis] = derivative;
+        }
+    }
+
+    /**
+     * ZERO-COPY: Propagate directly to position array (no return)
+     */
+    propagateDirect(_elements: OrbitalData, time: number, positionArray: Float32Array, index: number): boolean {
+        if (!this.interpolate(time)) return false;
+
+        // Write directly to array at index (in km, no scaling)
+        const i3 = index * 3;
+        positionArray[i3] = this.position[0];
+        positionArray[i3 + 1] = this.position[1];
+        positionArray[i3 + 2] = this.position[2];
+
+        return true;
+    }
+
+    /**
+     * Legacy: Propagate to a specific time (returns values)
+     */
+    propagate(_elements: OrbitalData, time: number): PropagationResult {
+        if (!this.interpolate(time)) {
+            throw new Error(`Time ${new Date(time).toISOString()} is outside the ephemeris coverage`);
+        }
+
+        return {
+            position: {
+                x: this.position[0],
+                y: this.position[1],
+                z: this.position[2],
+            },
+            velocity: {
+                vx: this.velocity[0],
+                vy: this.velocity[1],
+                vz: this.velocity[2],
+            },
+            frame: this.frame,
+        };
+    }
+
+    /**
+     * Check if propagator is initialized
+     */
+    isInitialized(): boolean {
+        return this.samples.length >= 2;
+    }
+}
@@ -0,0 +1,420 @@
+// Force Models - perturbing accelerations for the numerical propagator
+// All models work in the J2000 (ECI) frame with km, km/s and km/s^2
+
+import { EARTH_EQUATORIAL_RADIUS, MU_EARTH } from "../utils/OrbitalMath";
+import { EARTH_ROTATION_RATE, ecefToGeodetic, julianDateFromUnix } from "../utils/ReferenceFrames";
+import { AU, moonPositionECI, sunlightFraction, sunPositionECI } from "../utils/Ephemeris";
+import { TimeScaleConverter } from "../utils/TimeScales";
+import { TimeSystem } from "../types";
+
+type Vec3 = { x: number; y: number; z: number };
+
+/**
+ * Gravitational parameter of the Sun in km^3/s^2
+ */
+export const MU_SUN = 1.32712440018e11;
+
+/**
+ * Gravitational parameter of the Moon in km^3/s^2
+ */
+export const MU_MOON = 4902.800066;
+
+/**
+ * Solar radiation pressure at 1 AU in N/m^2
+ */
+export const SOLAR_PRESSURE_1AU = 4.56e-6;
+
+/**
+ * Unnormalized zonal coefficients J2..J6 (EGM-96)
+ */
+export const EARTH_ZONAL_HARMONICS = [0, 0, 1.08262668e-3, -2.53265649e-6, -1.61962159e-6, -2.27296083e-7, 5.40681239e-7];
+
+const timeScales = new TimeScaleConverter();
+
+/**
+ * Per-evaluation context shared by all force models
+ * Sun and Moon positions are computed lazily, at most once per evaluation time
+ */
+export class ForceContext {
+    time: number = NaN; // UTC Unix ms
+    private sun: Vec3 | null = null;
+    private moon: Vec3 | null = null;
+    private jdTT: number = NaN;
+
+    setTime(time: number): void {
+        if (time === this.time) return;
+        this.time = time;
+        this.sun = null;
+        this.moon = null;
+        this.jdTT = julianDateFromUnix(timeScales.convert(time, TimeSystem.UTC, TimeSystem.TT));
+    }
+
+    getSunPosition(): Vec3 {
+        if (!this.sun) this.sun = sunPositionECI(this.jdTT);
+        return this.sun;
+    }
+
+    getMoonPosition(): Vec3 {
+        if (!this.moon) this.moon = moonPositionECI(this.jdTT);
+        return this.moon;
+    }
+}
+
+export interface ForceModel {
+    readonly name: string;
+
+    /**
+     * Add this model's acceleration (km/s^2) for the ECI state [x, y, z, vx, vy, vz] to out[0..2]
+     */
+    addAcceleration(context: ForceContext, state: Float64Array, out: Float64Array): void;
+}
+
+/**
+ * Zonal harmonics J2..Jn (n <= 6) of an axisymmetric Earth
+ * The Earth's pole is taken as the J2000 Z axis (precession is neglected)
+ */
+export class ZonalHarmonicsForce implements ForceModel {
+    readonly name = "zonalHarmonics";
+    private degree: number;
+    private mu: number;
+    private legendre: Float64Array;
+    private legendreDerivative: Float64Array;
+
+    constructor(degree: number = 2, mu: number = MU_EARTH) {
+        if (degree < 2 || degree > 6) {
+            throw new Error("Zonal harmonics degree must be between 2 and 6");
+        }
+        this.degree = degree;
+        this.mu = mu;
+        this.legendre = new Float64Array(degree + 1);
+        this.legendreDerivative = new Float64Array(degree + 1);
+    }
+
+    addAcceleration(_context: ForceContext, state: Float64Array, out: Float64Array): void {
+        const x = state[0];
+        const y = state[1];
+        const z = state[2];
+        const r = Math.sqrt(x * x + y * y + z * z);
+        const u = z / r; // sin(geocentric latitude)
+
+        // Legendre polynomials and their derivatives by recursion
+        const P = this.legendre;
+        const dP = this.legendreDerivative;
+        P[0] = 1;
+        P[1] = u;
+        dP[0] = 0;
+        dP[1] = 1;
+        for (let n = 2; n <= this.degree; n++) {
+            P[n] = ((2 * n - 1) * u * P[n - 1] - (n - 1) * P[n - 2]) / n;
+            dP[n] = dP[n - 2] + (2 * n - 1) * P[n - 1];
+        }
+
+        // a_n = mu Jn R^n / r^(n+2) * [((n+1) Pn + u Pn') r_hat - Pn' z_hat]
+        const radiusRatio = EARTH_EQUATORIAL_RADIUS / r;
+        let radial = 0;
+        let axial = 0;
+        let scale = (this.mu / (r * r)) * radiusRatio;
+        for (let n = 2; n <= this.degree; n++) {
+            scale *= radiusRatio; // mu R^n / r^(n+2)
+            const term = EARTH_ZONAL_HARMONICS[n] * scale;
+            radial += term * ((n + 1) * P[n] + u * dP[n]);
+            axial += term * dP[n];
+        }
+
+        out[0] += (radial * x) / r;
+        out[1] += (radial * y) / r;
+        out[2] += (radial * z) / r - axial;
+    }
+}
+
+export type AtmosphereModel = "exponential" | "harrisPriester";
+
+export interface DragConfig {
+    area: number; // Cross-sectional area in m^2
+    mass: number; // Mass in kg
+    dragCoefficient?: number; // Default: 2.2
+    atmosphere?: AtmosphereModel; // Default: "exponential"
+    /**
+     * Harris-Priester cosine exponent: 2 for low-inclination orbits, up to 6 for polar orbits
+     * Default: 4
+     */
+    harrisPriesterExponent?: number;
+}
+
+// Exponential atmosphere (Vallado table 8-4): base altitude km, density kg/m^3, scale height km
+const EXPONENTIAL_ATMOSPHERE: [number, number, number][] = [
+    [0, 1.225, 7.249],
+    [25, 3.899e-2, 6.349],
+    [30, 1.774e-2, 6.682],
+    [40, 3.972e-3, 7.554],
+    [50, 1.057e-3, 8.382],
+    [60, 3.206e-4, 7.714],
+    [70, 8.77e-5, 6.549],
+    [80, 1.905e-5, 5.799],
+    [90, 3.396e-6, 5.382],
+    [100, 5.297e-7, 5.877],
+    [110, 9.661e-8, 7.263],
+    [120, 2.438e-8, 9.473],
+    [130, 8.484e-9, 12.636],
+    [140, 3.845e-9, 16.149],
+    [150, 2.07e-9, 22.523],
+    [180, 5.464e-10, 29.74],
+    [200, 2.789e-10, 37.105],
+    [250, 7.248e-11, 45.546],
+    [300, 2.418e-11, 53.628],
+    [350, 9.518e-12, 53.298],
+    [400, 3.725e-12, 58.515],
+    [450, 1.585e-12, 60.828],
+    [500, 6.967e-13, 63.822],
+    [600, 1.454e-13, 71.835],
+    [700, 3.614e-14, 88.667],
+    [800, 1.17e-14, 124.64],
+    [900, 5.245e-15, 181.05],
+    [1000, 3.019e-15, 268.0],
+];
+
+// Harris-Priester (Montenbruck & Gill table 3.8, mean solar activity): altitude km, min/max density g/km^3
+const HARRIS_PRIESTER: [number, number, number][] = [
+    [100, 497400.0, 497400.0],
+    [120, 24900.0, 24900.0],
+    [130, 8377.0, 8710.0],
+    [140, 3899.0, 4059.0],
+    [150, 2122.0, 2215.0],
+    [160, 1263.0, 1344.0],
+    [170, 800.8, 875.8],
+    [180, 528.3, 601.0],
+    [190, 361.7, 429.7],
+    [200, 255.7, 316.2],
+    [210, 183.9, 239.6],
+    [220, 134.1, 185.3],
+    [230, 99.49, 145.5],
+    [240, 74.88, 115.7],
+    [250, 57.09, 93.08],
+    [260, 44.03, 75.55],
+    [270, 34.3, 61.82],
+    [280, 26.97, 50.95],
+    [290, 21.39, 42.26],
+    [300, 17.08, 35.26],
+    [320, 10.99, 25.11],
+    [340, 7.214, 18.19],
+    [360, 4.824, 13.37],
+    [380, 3.274, 9.955],
+    [400, 2.249, 7.492],
+    [420, 1.558, 5.684],
+    [440, 1.091, 4.355],
+    [460, 0.7701, 3.362],
+    [480, 0.5474, 2.612],
+    [500, 0.3916, 2.042],
+    [520, 0.2819, 1.605],
+    [540, 0.2042, 1.267],
+    [560, 0.1488, 1.005],
+    [580, 0.1092, 0.7997],
+    [600, 0.0807, 0.639],
+    [620, 0.06012, 0.5123],
+    [640, 0.04519, 0.4121],
+    [660, 0.0343, 0.3325],
+    [680, 0.02632, 0.2691],
+    [700, 0.02043, 0.2185],
+    [720, 0.01607, 0.1779],
+    [740, 0.01281, 0.1452],
+    [760, 0.01036, 0.119],
+    [780, 0.008496, 0.09776],
+    [800, 0.007069, 0.08059],
+    [840, 0.00468, 0.05741],
+    [880, 0.0032, 0.0421],
+    [920, 0.00221, 0.0313],
+    [960, 0.00156, 0.0236],
+    [1000, 0.00115, 0.0181],
+];
+
+// Lag of the diurnal bulge apex behind the Sun (30 deg)
+const HARRIS_PRIESTER_LAG = Math.PI / 6;
+
+/**
+ * Exponential atmosphere density in kg/m^3 at a geodetic altitude in km
+ */
+export function exponentialDensity(altitude: number): number {
+    if (altitude < 0) altitude = 0;
+
+    let i = EXPONENTIAL_ATMOSPHERE.length - 1;
+    while (i > 0 && altitude < EXPONENTIAL_ATMOSPHERE[i][0]) i--;
+
+    const [base, density, scaleHeight] = EXPONENTIAL_ATMOSPHERE[i];
+    return density * Math.exp(-(altitude - base) / scaleHeight);
+}
+
+/**
+ * Harris-Priester atmosphere density in kg/m^3 (0 above 1000 km)
+ * @param position ECI position in km
+ * @param altitude Geodetic altitude in km
+ * @param sun Geocentric Sun position in km
+ * @param exponent Cosine exponent (2-6)
+ */
+export function harrisPriesterDensity(position: Vec3, altitude: number, sun: Vec3, exponent: number = 4): number {
+    const table = HARRIS_PRIESTER;
+    if (altitude >= table[table.length - 1][0]) return 0;
+    if (altitude < table[0][0]) altitude = table[0][0];
+
+    let i = 0;
+    while (i < table.length - 2 && altitude >= table[i + 1][0]) i++;
+
+    const [h0, min0, max0] = table[i];
+    const [h1, min1, max1] = table[i + 1];
+
+    // Exponential interpolation between table heights
+    const minScale = (h0 - h1) / Math.log(min1 / min0);
+    const maxScale = (h0 - h1) / Math.log(max1 / max0);
+    const rhoMin = min0 * Math.exp((h0 - altitude) / minScale);
+    const rhoMax = max0 * Math.exp((h0 - altitude) / maxScale);
+
+    // Apex of the diurnal bulge
+    const sunDistance = Math.sqrt(sun.x * sun.x + sun.y * sun.y + sun.z * sun.z);
+    const declination = Math.asin(sun.z / sunDistance);
+    const rightAscension = Math.atan2(sun.y, sun.x) + HARRIS_PRIESTER_LAG;
+    const cosDec = Math.cos(declination);
+    const r = Math.sqrt(position.x * position.x + position.y * position.y + position.z * position.z);
+    const cosPsi =
+        (position.x * cosDec * Math.cos(rightAscension) + position.y * cosDec * Math.sin(rightAscension) + position.z * Math.sin(declination)) /
+        r;
+
+    const cosHalfPsiSquared = Math.max(0, 0.5 + 0.5 * cosPsi);
+    const density = rhoMin + (rhoMax - rhoMin) * Math.pow(cosHalfPsiSquared, exponent / 2);
+
+    // g/km^3 -> kg/m^3
+    return density * 1e-12;
+}
+
+/**
+ * Atmospheric drag against an atmosphere co-rotating with the Earth
+ */
+export class AtmosphericDragForce implements ForceModel {
+    readonly name = "drag";
+    private config: Required<DragConfig>;
+
+    constructor(config: DragConfig) {
+        this.config = {
+            area: config.area,
+            mass: config.mass,
+            dragCoefficient: config.dragCoefficient ?? 2.2,
+            atmosphere: config.atmosphere ?? "exponential",
+            harrisPriesterExponent: config.harrisPriesterExponent ?? 4,
+        };
+    }
+
+    /**
+     * Atmospheric density (kg/m^3) at an ECI position
+     */
+    getDensity(context: ForceContext, position: Vec3): number {
+        // Altitude depends only on the distance from the pole axis and z, so ECI works directly
+        const altitude = ecefToGeodetic(position.x, position.y, position.z).alt;
+
+        if (this.config.atmosphere === "harrisPriester") {
+            return harrisPriesterDensity(position, altitude, context.getSunPosition(), this.config.harrisPriesterExponent);
+        }
+        return exponentialDensity(altitude);
+    }
+
+    addAcceleration(context: ForceContext, state: Float64Array, out: Float64Array): void {
+        const x = state[0];
+        const y = state[1];
+        const z = state[2];
+
+        const density = this.getDensity(context, { x, y, z });
+        if (density === 0) return;
+
+        // Velocity relative to the rotating atmosphere: v - omega x r
+        const vx = state[3] + EARTH_ROTATION_RATE * y;
+        const vy = state[4] - EARTH_ROTATION_RATE * x;
+        const vz = state[5];
+        const speed = Math.sqrt(vx * vx + vy * vy + vz * vz);
+
+        // -1/2 Cd A/m rho |v| v, with v in m/s and the result converted back to km/s^2
+        const { dragCoefficient, area, mass } = this.config;
+        const scale = -0.5 * dragCoefficient * (area / mass) * density * speed * 1000;
+
+        out[0] += scale * vx;
+        out[1] += scale * vy;
+        out[2] += scale * vz;
+    }
+}
+
+export interface SolarRadiationPressureConfig {
+    area: number; // Sun-facing area in m^2
+    mass: number; // Mass in kg
+    reflectivity?: number; // Radiation pressure coefficient Cr (1 = absorbing, 2 = mirror), default: 1.3
+    shadow?: boolean; // Apply the Earth's conical shadow, default: true
+}
+
+/**
+ * Solar radiation pressure on a cannonball, attenuated in the Earth's shadow
+ */
+export class SolarRadiationPressureForce implements ForceModel {
+    readonly name = "solarRadiationPressure";
+    private config: Required<SolarRadiationPressureConfig>;
+
+    constructor(config: SolarRadiationPressureConfig) {
+        this.config = {
+            area: config.area,
+            mass: config.mass,
+            reflectivity: config.reflectivity ?? 1.3,
+            shadow: config.shadow ?? true,
+        };
+    }
+
+    addAcceleration(context: ForceContext, state: Float64Array, out: Float64Array): void {
+        const sun = context.getSunPosition();
+        const position = { x: state[0], y: state[1], z: state[2] };
+
+        const fraction = this.config.shadow ? sunlightFraction(position, sun) : 1;
+        if (fraction === 0) return;
+
+        // Sun -> satellite direction
+        const dx = position.x - sun.x;
+        const dy = position.y - sun.y;
+        const dz = position.z - sun.z;
+        const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+
+        // Pressure scales with 1/d^2; N/kg = m/s^2 -> km/s^2
+        const { reflectivity, area, mass } = this.config;
+        const pressure = SOLAR_PRESSURE_1AU * (AU / distance) * (AU / distance);
+        const scale = (fraction * pressure * reflectivity * (area / mass)) / 1000 / distance;
+
+        out[0] += scale * dx;
+        out[1] += scale * dy;
+        out[2] += scale * dz;
+    }
+}
+
+export type ThirdBody = "sun" | "moon";
+
+/**
+ * Point-mass third-body perturbation (Sun or Moon) on a geocentric orbit
+ */
+export class ThirdBodyForce implements ForceModel {
+    readonly name: string;
+    private body: ThirdBody;
+    private mu: number;
+
+    constructor(body: ThirdBody) {
+        this.body = body;
+        this.name = `thirdBody:${body}`;
+        this.mu = body === "sun" ? MU_SUN : MU_MOON;
+    }
+
+    addAcceleration(context: ForceContext, state: Float64Array, out: Float64Array): void {
+        const s = this.body === "sun" ? context.getSunPosition() : context.getMoonPosition();
+
+        // mu * [(s - r)/|s - r|^3 - s/|s|^3]
+        const dx = s.x - state[0];
+        const dy = s.y - state[1];
+        const dz = s.z - state[2];
+        const d = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        const d3 = d * d * d;
+        const sMag = Math.sqrt(s.x * s.x + s.y * s.y + s.z * s.z);
+        const s3 = sMag * sMag * sMag;
+
+        out[0] += this.mu * (dx / d3 - s.x / s3);
+        out[1] += this.mu * (dy / d3 - s.y / s3);
+        out[2] += this.mu * (dz / d3 - s.z / s3);
+    }
+}
@@ -36,6 +36,7 @@ export interface HybridK2SGP4Config {
 }
 
 export class HybridK2SGP4Propagator implements IPropagator {
+    frame = ReferenceFrame.TEME;
     private satrec: satellite.SatRec | null = null;
     private config: Required<HybridK2SGP4Config>;
 
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { KeplerianPropagator } from "./KeplerianPropagator";
+import { degreesToRadians, MU_EARTH, orbitalPeriod, radiansToDegrees } from "../utils/OrbitalMath";
+import type { PropagationResult } from "../types";
+
+const epoch = Date.UTC(2024, 0, 1);
+const elements = { a: 7000, e: 0.01, i: 0.9, omega: 1.2, Omega: 2.5, M: 0.3 };
+
+function specificEnergy(state: PropagationResult): number {
+    const { position: r, velocity: v } = state;
+    return (v.vx * v.vx + v.vy * v.vy + v.vz * v.vz) / 2 - MU_EARTH / Math.hypot(r.x, r.y, r.z);
+}
+
+describe("KeplerianPropagator", () => {
+    it("keeps the two-body energy at -mu/2a", () => {
+        const propagator = new KeplerianPropagator({ epoch }, elements);
+        for (const hours of [0, 1, 7, 24]) {
+            const state = propagator.propagate(elements, epoch + hours * 3600000);
+            expect(specificEnergy(state)).toBeCloseTo(-MU_EARTH / (2 * elements.a), 9);
+        }
+    });
+
+    it("returns to the initial position after one period", () => {
+        const propagator = new KeplerianPropagator({ epoch }, elements);
+        expect(propagator.getOrbitalPeriod()! * 60).toBeCloseTo(orbitalPeriod(elements.a), 6);
+
+        const start = propagator.propagate(elements, epoch).position;
+        const end = propagator.propagate(elements, epoch + orbitalPeriod(elements.a) * 1000).position;
+        expect(Math.hypot(end.x - start.x, end.y - start.y, end.z - start.z)).toBeLessThan(1e-6);
+    });
+
+    it("precesses a sun-synchronous orbit's node by about 0.9856 deg/day with J2", () => {
+        const sunSynchronous = { a: 7178, e: 0.001, i: degreesToRadians(98.6), omega: 0, Omega: 0, M: 0 };
+        const propagator = new KeplerianPropagator({ epoch, useJ2: true }, sunSynchronous);
+        const raan = radiansToDegrees(propagator.getElementsAt(epoch + 86400000).Omega);
+        expect(raan).toBeGreaterThan(0.96);
+        expect(raan).toBeLessThan(1.01);
+    });
+
+    it("writes the same position through propagateDirect", () => {
+        const propagator = new KeplerianPropagator({ epoch }, elements);
+        const positions = new Float32Array(6);
+        expect(propagator.propagateDirect(elements, epoch + 600000, positions, 1)).toBe(true);
+
+        const { position } = propagator.propagate(elements, epoch + 600000);
+        expect(positions[3]).toBeCloseTo(position.x, 2);
+        expect(positions[4]).toBeCloseTo(position.y, 2);
+        expect(positions[5]).toBeCloseTo(position.z, 2);
+    });
+});
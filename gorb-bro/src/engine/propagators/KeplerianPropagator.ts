@@ -0,0 +1,195 @@
+// Keplerian Propagator
+// Analytic two-body propagation with optional J2 secular drift of RAAN, argument of perigee and mean anomaly
+
+import type { CartesianElements, IPropagator, KeplerianElements, OrbitalData, PropagationResult } from "../types";
+import { ReferenceFrame } from "../types";
+import {
+    EARTH_EQUATORIAL_RADIUS,
+    J2_EARTH,
+    MU_EARTH,
+    cartesianToKeplerian,
+    keplerianToCartesian,
+    normalizeAngle,
+} from "../utils/OrbitalMath";
+
+export interface KeplerianPropagatorConfig {
+    /**
+     * Epoch of the elements (UTC Unix timestamp in milliseconds)
+     */
+    epoch: number;
+
+    /**
+     * Apply J2 secular rates to RAAN, argument of perigee and mean anomaly
+     * Default: false (pure two-body)
+     */
+    useJ2?: boolean;
+
+    /**
+     * Gravitational parameter in km^3/s^2
+     * Default: MU_EARTH
+     */
+    mu?: number;
+}
+
+export class KeplerianPropagator implements IPropagator {
+    frame = ReferenceFrame.ECI;
+
+    private config: Required<KeplerianPropagatorConfig>;
+
+    // Elements at epoch, derived once per OrbitalData object
+    private sourceElements: OrbitalData | null = null;
+    private elements: KeplerianElements | null = null;
+    private meanMotion: number = 0; // rad/s
+    private raanRate: number = 0; // rad/s
+    private argPerigeeRate: number = 0; // rad/s
+    private meanAnomalyRate: number = 0; // rad/s
+
+    constructor(config: KeplerianPropagatorConfig, elements?: KeplerianElements | CartesianElements) {
+        this.config = {
+            epoch: config.epoch,
+            useJ2: config.useJ2 ?? false,
+            mu: config.mu ?? MU_EARTH,
+        };
+
+        if (elements) {
+            this.initializeFromElements(elements);
+        }
+    }
+
+    /**
+     * Initialize the propagator from Keplerian or Cartesian elements at the configured epoch
+     */
+    initializeFromElements(elements: OrbitalData): void {
+        let keplerian: KeplerianElements;
+
+        if ("a" in elements) {
+            keplerian = { ...elements };
+        } else if ("position" in elements) {
+            keplerian = cartesianToKeplerian(elements.position, elements.velocity, this.config.mu);
+        } else {
+            throw new Error("KeplerianPropagator requires Keplerian or Cartesian elements");
+        }
+
+        if (keplerian.e < 0 || keplerian.e >= 1 || keplerian.a <= 0) {
+            throw new Error("KeplerianPropagator supports elliptical orbits only");
+        }
+
+        this.sourceElements = elements;
+        this.elements = keplerian;
+        this.meanMotion = Math.sqrt(this.config.mu / (keplerian.a * keplerian.a * keplerian.a));
+        this.computeRates();
+    }
+
+    /**
+     * Secular rates (Vallado eq. 9-41): two-body mean motion plus optional J2 drift
+     */
+    private computeRates(): void {
+        if (!this.elements) return;
+
+        const n = this.meanMotion;
+        this.raanRate = 0;
+        this.argPerigeeRate = 0;
+        this.meanAnomalyRate = n;
+
+        if (!this.config.useJ2) return;
+
+        const { a, e, i } = this.elements;
+        const p = a * (1 - e * e);
+        const factor = n * J2_EARTH * (EARTH_EQUATORIAL_RADIUS / p) * (EARTH_EQUATORIAL_RADIUS / p);
+        const cosi = Math.cos(i);
+
+        this.raanRate = -1.5 * factor * cosi;
+        this.argPerigeeRate = 0.75 * factor * (5 * cosi * cosi - 1);
+        this.meanAnomalyRate = n + 0.75 * factor * Math.sqrt(1 - e * e) * (3 * cosi * cosi - 1);
+    }
+
+    /**
+     * Elements advanced to a time (UTC Unix ms)
+     */
+    getElementsAt(time: number): KeplerianElements {
+        if (!this.elements) {
+            throw new Error("KeplerianPropagator not initialized with elements");
+        }
+
+        const dt = (time - this.config.epoch) / 1000;
+        const el = this.elements;
+
+        return {
+            a: el.a,
+            e: el.e,
+            i: el.i,
+            omega: normalizeAngle(el.omega + this.argPerigeeRate * dt),
+            Omega: normalizeAngle(el.Omega + this.raanRate * dt),
+            M: normalizeAngle(el.M + this.meanAnomalyRate * dt),
+        };
+    }
+
+    private ensureInitialized(elements: OrbitalData): void {
+        if (elements !== this.sourceElements && ("a" in elements || "position" in elements)) {
+            this.initializeFromElements(elements);
+        }
+    }
+
+    /**
+     * ZERO-COPY: Propagate directly to position array (no return)
+     */
+    propagateDirect(elements: OrbitalData, time: number, positionArray: Float32Array, index: number): boolean {
+        try {
+            this.ensureInitialized(elements);
+        } catch {
+            return false;
+        }
+        if (!this.elements) return false;
+
+        const state = keplerianToCartesian(this.getElementsAt(time), this.config.mu);
+        if (isNaN(state.position[0]) || isNaN(state.position[1]) || isNaN(state.position[2])) {
+            return false;
+        }
+
+        // Write directly to array at index (in km, no scaling)
+        const i3 = index * 3;
+        positionArray[i3] = state.position[0];
+        positionArray[i3 + 1] = state.position[1];
+        positionArray[i3 + 2] = state.position[2];
+
+        return true;
+    }
+
+    /**
+     * Legacy: Propagate to a specific time (returns values)
+     */
+    propagate(elements: OrbitalData, time: number): PropagationResult {
+        this.ensureInitialized(elements);
+
+        const state = keplerianToCartesian(this.getElementsAt(time), this.config.mu);
+
+        return {
+            position: {
+                x: state.position[0],
+                y: state.position[1],
+                z: state.position[2],
+            },
+            velocity: {
+                vx: state.velocity[0],
+                vy: state.velocity[1],
+                vz: state.velocity[2],
+            },
+            frame: this.frame,
+        };
+    }
+
+    /**
+     * Check if propagator is initialized
+     */
+    isInitialized(): boolean {
+        return this.elements !== null;
+    }
+
+    /**
+     * Get orbital period in minutes (anomalistic, including J2 drift when enabled)
+     */
+    getOrbitalPeriod(): number | null {
+        if (!this.elements || this.meanAnomalyRate === 0) return null;
+        return (2 * Math.PI) / this.meanAnomalyRate / 60;
+    }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { NumericalPropagator } from "./NumericalPropagator";
+import { KeplerianPropagator } from "./KeplerianPropagator";
+import { ZonalHarmonicsForce } from "./ForceModels";
+import { cartesianToKeplerian, degreesToRadians, MU_EARTH, orbitalPeriod, radiansToDegrees } from "../utils/OrbitalMath";
+import type { PropagationResult } from "../types";
+
+const epoch = Date.UTC(2024, 0, 1);
+const day = 86400000;
+const elements = { a: 7000, e: 0.01, i: 0.9, omega: 1.2, Omega: 2.5, M: 0.3 };
+
+function specificEnergy(state: PropagationResult): number {
+    const { position: r, velocity: v } = state;
+    return (v.vx * v.vx + v.vy * v.vy + v.vz * v.vz) / 2 - MU_EARTH / Math.hypot(r.x, r.y, r.z);
+}
+
+describe("NumericalPropagator", () => {
+    for (const integrator of ["rk45", "rk78"] as const) {
+        describe(integrator, () => {
+            it("conserves two-body energy over a day", () => {
+                const propagator = new NumericalPropagator({ epoch, integrator }, elements);
+                const energy = -MU_EARTH / (2 * elements.a);
+                for (const time of [epoch + day / 4, epoch + day]) {
+                    expect(Math.abs(specificEnergy(propagator.propagate(elements, time)) / energy - 1)).toBeLessThan(1e-8);
+                }
+            });
+
+            it("returns to the initial position after one period", () => {
+                const propagator = new NumericalPropagator({ epoch, integrator }, elements);
+                const start = propagator.propagate(elements, epoch).position;
+                const end = propagator.propagate(elements, epoch + orbitalPeriod(elements.a) * 1000).position;
+                expect(Math.hypot(end.x - start.x, end.y - start.y, end.z - start.z)).toBeLessThan(1e-3);
+            });
+
+            it("agrees with the Keplerian solution after scrubbing back and forth", () => {
+                const propagator = new NumericalPropagator({ epoch, integrator }, elements);
+                const kepler = new KeplerianPropagator({ epoch }, elements);
+                for (const time of [epoch + day, epoch + day / 3, epoch - day / 2]) {
+                    const a = propagator.propagate(elements, time).position;
+                    const b = kepler.propagate(elements, time).position;
+                    expect(Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z)).toBeLessThan(0.01);
+                }
+            });
+        });
+    }
+
+    it("precesses a sun-synchronous orbit's node by about 0.9856 deg/day under J2", () => {
+        const sunSynchronous = { a: 7178, e: 0.001, i: degreesToRadians(98.6), omega: 0, Omega: 0, M: 0 };
+        const propagator = new NumericalPropagator({ epoch, forces: [new ZonalHarmonicsForce(2)] }, sunSynchronous);
+        const state = propagator.propagate(sunSynchronous, epoch + 10 * day);
+        const { position: r, velocity: v } = state;
+        const osculating = cartesianToKeplerian([r.x, r.y, r.z], [v.vx, v.vy, v.vz]);
+        const rate = radiansToDegrees(osculating.Omega) / 10;
+        expect(rate).toBeGreaterThan(0.95);
+        expect(rate).toBeLessThan(1.02);
+    });
+});
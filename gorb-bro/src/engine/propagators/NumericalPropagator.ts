@@ -0,0 +1,367 @@
+// Numerical Propagator
+// Integrates the equations of motion with an adaptive Runge-Kutta scheme and pluggable force models
+
+import type { CartesianElements, IPropagator, KeplerianElements, OrbitalData, PropagationResult } from "../types";
+import { ReferenceFrame } from "../types";
+import { AdaptiveIntegrator, type AdaptiveStepOptions, type IntegratorMethod } from "../utils/Integrators";
+import { EARTH_EQUATORIAL_RADIUS, MU_EARTH, keplerianToCartesian } from "../utils/OrbitalMath";
+import { ForceContext, type ForceModel } from "./ForceModels";
+
+export interface NumericalPropagatorConfig {
+    /**
+     * Epoch of the initial state (UTC Unix timestamp in milliseconds)
+     */
+    epoch: number;
+
+    /**
+     * Integration scheme
+     * Default: "rk78"
+     */
+    integrator?: IntegratorMethod;
+
+    /**
+     * Perturbations applied on top of point-mass gravity
+     * Default: none (two-body)
+     */
+    forces?: ForceModel[];
+
+    /**
+     * Gravitational parameter in km^3/s^2
+     * Default: MU_EARTH
+     */
+    mu?: number;
+
+    /**
+     * Step-size control tolerances (relative, and absolute in km / km/s)
+     * Default: 1e-10 and 1e-9
+     */
+    relativeTolerance?: number;
+    absoluteTolerance?: number;
+
+    /**
+     * Step-size limits in seconds
+     * Default: 0.01 and 300
+     */
+    minStep?: number;
+    maxStep?: number;
+
+    /**
+     * Spacing of cached states in milliseconds, so scrubbing does not re-integrate from epoch
+     * Default: 3600000 (1 hour)
+     */
+    checkpointInterval?: number;
+}
+
+export interface ImpulsiveManeuver {
+    time: number; // UTC Unix ms
+    deltaV: [number, number, number]; // ECI km/s
+}
+
+export class NumericalPropagator implements IPropagator {
+    frame = ReferenceFrame.ECI;
+
+    private config: Required<Omit<NumericalPropagatorConfig, "forces" | "integrator">>;
+    private forces: ForceModel[];
+    private integrator: AdaptiveIntegrator;
+    private stepOptions: AdaptiveStepOptions;
+    private context: ForceContext = new ForceContext();
+    private acceleration: Float64Array = new Float64Array(3);
+    private maneuvers: ImpulsiveManeuver[] = [];
+
+    // Initial state and the OrbitalData it came from
+    private sourceElements: OrbitalData | null = null;
+    private initialState: Float64Array | null = null;
+
+    // Checkpoints keyed by whole intervals from epoch, plus the most recent state
+    // Each state records how many of the sorted maneuvers it already includes
+    private checkpoints: Map<number, { state: Float64Array; appliedManeuvers: number }> = new Map();
+    private currentTime: number = 0;
+    private currentState: Float64Array = new Float64Array(6);
+    private appliedManeuvers: number = 0;
+
+    constructor(config: NumericalPropagatorConfig, elements?: KeplerianElements | CartesianElements) {
+        this.config = {
+            epoch: config.epoch,
+            mu: config.mu ?? MU_EARTH,
+            relativeTolerance: config.relativeTolerance ?? 1e-10,
+            absoluteTolerance: config.absoluteTolerance ?? 1e-9,
+            minStep: config.minStep ?? 0.01,
+            maxStep: config.maxStep ?? 300,
+            checkpointInterval: config.checkpointInterval ?? 3600000,
+        };
+        this.forces = config.forces ?? [];
+        this.integrator = new AdaptiveIntegrator(config.integrator ?? "rk78");
+        this.stepOptions = {
+            relativeTolerance: this.config.relativeTolerance,
+            absoluteTolerance: this.config.absoluteTolerance,
+            minStep: this.config.minStep,
+            maxStep: this.config.maxStep,
+        };
+
+        if (elements) {
+            this.initializeFromElements(elements);
+        }
+    }
+
+    /**
+     * Initialize the propagator from Keplerian or Cartesian elements at the configured epoch
+     */
+    initializeFromElements(elements: OrbitalData): void {
+        let state: [number, number, number, number, number, number];
+
+        if ("position" in elements) {
+            state = [...elements.position, ...elements.velocity];
+        } else if ("a" in elements) {
+            const cartesian = keplerianToCartesian(elements, this.config.mu);
+            state = [...cartesian.position, ...cartesian.velocity];
+        } else {
+            throw new Error("NumericalPropagator requires Keplerian or Cartesian elements");
+        }
+
+        this.sourceElements = elements;
+        this.initialState = new Float64Array(state);
+        this.resetCache();
+    }
+
+    /**
+     * Add a force model (invalidates cached states)
+     */
+    addForce(force: ForceModel): void {
+        this.forces.push(force);
+        this.resetCache();
+    }
+
+    /**
+     * Remove a force model by name (invalidates cached states)
+     */
+    removeForce(name: string): void {
+        this.forces = this.forces.filter((force) => force.name !== name);
+        this.resetCache();
+    }
+
+    getForces(): ForceModel[] {
+        return [...this.forces];
+    }
+
+    /**
+     * Schedule an impulsive maneuver; the delta-v is part of the state from its time onward
+     * Maneuvers before the epoch are assumed to be included in the initial state
+     */
+    addManeuver(maneuver: ImpulsiveManeuver): void {
+        this.maneuvers.push({ time: maneuver.time, deltaV: [...maneuver.deltaV] });
+        this.maneuvers.sort((a, b) => a.time - b.time);
+        this.resetCache();
+    }
+
+    clearManeuvers(): void {
+        this.maneuvers = [];
+        this.resetCache();
+    }
+
+    /**
+     * ECI state [x, y, z, vx, vy, vz] (km, km/s) at a time (UTC Unix ms)
+     */
+    getStateAt(time: number): Float64Array {
+        if (!this.initialState) {
+            throw new Error("NumericalPropagator not initialized with elements");
+        }
+
+        // Start from the checkpoint nearest the target on the epoch side, unless the last state is closer
+        const interval = this.config.checkpointInterval;
+        let k = Math.trunc((time - this.config.epoch) / interval);
+        while (k !== 0 && !this.checkpoints.has(k)) {
+            k -= Math.sign(k);
+        }
+        const checkpointTime = this.config.epoch + k * interval;
+
+        if (Math.abs(time - checkpointTime) < Math.abs(time - this.currentTime)) {
+            const checkpoint = this.checkpoints.get(k)!;
+            this.currentTime = checkpointTime;
+            this.currentState.set(checkpoint.state);
+            this.appliedManeuvers = checkpoint.appliedManeuvers;
+        }
+
+        this.advanceTo(time);
+
+        const r = Math.sqrt(this.currentState[0] ** 2 + this.currentState[1] ** 2 + this.currentState[2] ** 2);
+        if (r < EARTH_EQUATORIAL_RADIUS * 0.99) {
+            throw new Error("NumericalPropagator state is below the Earth's surface (decayed)");
+        }
+
+        return this.currentState;
+    }
+
+    /**
+     * Integrate the current state to a time, stopping at checkpoints and maneuvers
+     */
+    private advanceTo(time: number): void {
+        const epoch = this.config.epoch;
+        const interval = this.config.checkpointInterval;
+        const forward = time >= this.currentTime;
+
+        while (this.currentTime !== time) {
+            // Next checkpoint boundary in the direction of travel
+            const position = (this.currentTime - epoch) / interval;
+            const nextIndex = forward ? Math.floor(position) + 1 : Math.ceil(position) - 1;
+            let target = epoch + nextIndex * interval;
+            if (forward ? target > time : target < time) target = time;
+
+            // Stop at the next maneuver in the way: applied at t >= its time, undone below it
+            const maneuver = forward ? this.maneuvers[this.appliedManeuvers] : this.maneuvers[this.appliedManeuvers - 1];
+            const crossesManeuver = maneuver !== undefined && (forward ? maneuver.time <= target : maneuver.time > target);
+            if (crossesManeuver) target = maneuver.time;
+
+            this.integrate(this.currentTime, target);
+            this.currentTime = target;
+
+            if (crossesManeuver) {
+                this.applyManeuver(maneuver, forward ? 1 : -1);
+                continue;
+            }
+
+            const index = (target - epoch) / interval;
+            if (Number.isInteger(index) && !this.checkpoints.has(index)) {
+                this.checkpoints.set(index, { state: new Float64Array(this.currentState), appliedManeuvers: this.appliedManeuvers });
+            }
+        }
+
+        // Maneuvers exactly at the target time are part of the state there
+        while (this.appliedManeuvers < this.maneuvers.length && this.maneuvers[this.appliedManeuvers].time === time) {
+            this.applyManeuver(this.maneuvers[this.appliedManeuvers], 1);
+        }
+    }
+
+    private applyManeuver(maneuver: ImpulsiveManeuver, sign: number): void {
+        this.currentState[3] += sign * maneuver.deltaV[0];
+        this.currentState[4] += sign * maneuver.deltaV[1];
+        this.currentState[5] += sign * maneuver.deltaV[2];
+        this.appliedManeuvers += sign;
+        this.integrator.reset();
+    }
+
+    private integrate(from: number, to: number): void {
+        if (from === to) return;
+
+        // Integrator time is seconds from the segment start
+        const derivative = (t: number, state: Float64Array, out: Float64Array) => this.derivative(from + t * 1000, state, out);
+        this.integrator.integrate(derivative, 0, this.currentState, (to - from) / 1000, this.stepOptions);
+    }
+
+    /**
+     * Equations of motion: point-mass gravity plus the configured perturbations
+     */
+    private derivative(time: number, state: Float64Array, out: Float64Array): void {
+        const x = state[0];
+        const y = state[1];
+        const z = state[2];
+        const r = Math.sqrt(x * x + y * y + z * z);
+        const muOverR3 = -this.config.mu / (r * r * r);
+
+        const acceleration = this.acceleration;
+        acceleration[0] = muOverR3 * x;
+        acceleration[1] = muOverR3 * y;
+        acceleration[2] = muOverR3 * z;
+
+        if (this.forces.length > 0) {
+            this.context.setTime(time);
+            for (const force of this.forces) {
+                force.addAcceleration(this.context, state, acceleration);
+            }
+        }
+
+        out[0] = state[3];
+        out[1] = state[4];
+        out[2] = state[5];
+        out[3] = acceleration[0];
+        out[4] = acceleration[1];
+        out[5] = acceleration[2];
+    }
+
+    private resetCache(): void {
+        this.checkpoints.clear();
+        this.integrator.reset();
+        this.currentTime = this.config.epoch;
+
+        if (this.initialState) {
+            // The initial state includes maneuvers before the epoch; those at the epoch are applied on top
+            this.currentState.set(this.initialState);
+            this.appliedManeuvers = this.maneuvers.filter((maneuver) => maneuver.time < this.config.epoch).length;
+            while (this.appliedManeuvers < this.maneuvers.length && this.maneuvers[this.appliedManeuvers].time === this.config.epoch) {
+                this.applyManeuver(this.maneuvers[this.appliedManeuvers], 1);
+            }
+            this.checkpoints.set(0, { state: new Float64Array(this.currentState), appliedManeuvers: this.appliedManeuvers });
+        }
+    }
+
+    private ensureInitialized(elements: OrbitalData): void {
+        if (elements !== this.sourceElements && ("a" in elements || "position" in elements)) {
+            this.initializeFromElements(elements);
+        }
+    }
+
+    /**
+     * ZERO-COPY: Propagate directly to position array (no return)
+     */
+    propagateDirect(elements: OrbitalData, time: number, positionArray: Float32Array, index: number): boolean {
+        let state: Float64Array;
+        try {
+            this.ensureInitialized(elements);
+            state = this.getStateAt(time);
+        } catch {
+            return false;
+        }
+
+        if (isNaN(state[0]) || isNaN(state[1]) || isNaN(state[2])) {
+            return false;
+        }
+
+        // Write directly to array at index (in km, no scaling)
+        const i3 = index * 3;
+        positionArray[i3] = state[0];
+        positionArray[i3 + 1] = state[1];
+        positionArray[i3 + 2] = state[2];
+
+        return true;
+    }
+
+    /**
+     * Legacy: Propagate to a specific time (returns values)
+     */
+    propagate(elements: OrbitalData, time: number): PropagationResult {
+        this.ensureInitialized(elements);
+
+        const state = this.getStateAt(time);
+
+        return {
+            position: {
+                x: state[0],
+                y: state[1],
+                z: state[2],
+            },
+            velocity: {
+                vx: state[3],
+                vy: state[4],
+                vz: state[5],
+            },
+            frame: this.frame,
+        };
+    }
+
+    /**
+     * Check if propagator is initialized
+     */
+    isInitialized(): boolean {
+        return this.initialState !== null;
+    }
+
+    /**
+     * Integrator statistics (accepted/rejected steps since construction)
+     */
+    getStats(): { acceptedSteps: number; rejectedSteps: number; checkpoints: number } {
+        return {
+            acceptedSteps: this.integrator.acceptedSteps,
+            rejectedSteps: this.integrator.rejectedSteps,
+            checkpoints: this.checkpoints.size,
+        };
+    }
+}
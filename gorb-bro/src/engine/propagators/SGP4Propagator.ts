@@ -3,8 +3,10 @@
 import * as satellite from "satellite.js";
 import type { IPropagator, OrbitalData, PropagationResult, TLE } from "../types";
 import { ReferenceFrame } from "../types";
+import { validateTLELines } from "../utils/TLEValidation";
 
 export class SGP4Propagator implements IPropagator {
+    frame = ReferenceFrame.TEME;
     private satrec: satellite.SatRec | null = null;
 
     constructor(tle?: TLE) {
@@ -145,9 +147,13 @@ export class SGP4Propagator implements IPropagator {
     }
 
     /**
-     * Validate TLE lines
+     * Validate TLE lines (format checks, then SGP4 initialization)
      */
     static validateTLE(line1: string, line2: string): boolean {
+        if (!validateTLELines(line1.trim(), line2.trim()).valid) {
+            return false;
+        }
+
         try {
             const satrec = satellite.twoline2satrec(line1, line2);
             return satrec.error === 0;
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import * as satellite from "satellite.js";
+import { Engine } from "../Engine";
+import { createRSO } from "../factories/RSOFactory";
+import type { GeodeticLocation, IAccessService } from "../types";
+
+const iss = {
+    name: "ISS",
+    line1: "1 25544U 98067A   08264.51782528 -.00002182  00000-0 -11606-4 0  2927",
+    line2: "2 25544  51.6416 247.4627 0006703 130.5360 325.0288 15.72125391563537",
+};
+const observer: GeodeticLocation = { lat: 40, lon: -105, alt: 1.6 };
+const start = Date.UTC(2008, 8, 20, 12);
+const hours = 24;
+const minElevation = 10;
+const sampleStep = 2000;
+
+interface BruteForcePass {
+    aos: number;
+    los: number;
+    maxElevation: number;
+}
+
+// Elevation from satellite.js alone, sampled every 2 s
+function bruteForcePasses(): BruteForcePass[] {
+    const satrec = satellite.twoline2satrec(iss.line1, iss.line2);
+    const site = { latitude: satellite.degreesToRadians(observer.lat), longitude: satellite.degreesToRadians(observer.lon), height: observer.alt };
+    const passes: BruteForcePass[] = [];
+    let current: BruteForcePass | null = null;
+
+    for (let time = start; time <= start + hours * 3600000; time += sampleStep) {
+        const date = new Date(time);
+        const state = satellite.propagate(satrec, date);
+        if (!state?.position) throw new Error("SGP4 failed");
+        const look = satellite.ecfToLookAngles(site, satellite.eciToEcf(state.position, satellite.gstime(date)));
+        const elevation = satellite.radiansToDegrees(look.elevation);
+
+        if (elevation >= minElevation) {
+            current ??= { aos: time, los: time, maxElevation: elevation };
+            current.los = time;
+            current.maxElevation = Math.max(current.maxElevation, elevation);
+        } else if (current) {
+            passes.push(current);
+            current = null;
+        }
+    }
+    if (current) passes.push(current);
+    return passes;
+}
+
+describe("AccessService", () => {
+    it("predicts AOS, LOS and maximum elevation like brute-force sampling", () => {
+        const engine = new Engine();
+        const target = createRSO(engine, { tle: iss });
+        const access = engine.getService<IAccessService>("access")!;
+
+        const passes = access.predictPasses(observer, [target], start, hours, { minElevation });
+        const expected = bruteForcePasses();
+        expect(expected.length).toBeGreaterThan(0);
+        expect(passes).toHaveLength(expected.length);
+
+        passes.forEach((pass, i) => {
+            // The sampled rise falls at most one step after the true one, the sampled set at most one step before
+            expect(pass.aos).toBeGreaterThan(expected[i].aos - sampleStep);
+            expect(pass.aos).toBeLessThanOrEqual(expected[i].aos + 200);
+            expect(pass.los).toBeGreaterThanOrEqual(expected[i].los - 200);
+            expect(pass.los).toBeLessThan(expected[i].los + sampleStep);
+            expect(pass.maxElevation).toBeGreaterThanOrEqual(expected[i].maxElevation - 0.01);
+            expect(pass.maxElevation).toBeLessThan(expected[i].maxElevation + 0.1);
+            expect(pass.aosLook.elevation).toBeCloseTo(minElevation, 1);
+            expect(pass.tca).toBeGreaterThan(pass.aos);
+            expect(pass.tca).toBeLessThan(pass.los);
+        });
+    });
+
+    it("rejects a non-positive span", () => {
+        const engine = new Engine();
+        const access = engine.getService<IAccessService>("access")!;
+        expect(() => access.predictPasses(observer, [], start, 0)).toThrow("Pass prediction span must be positive");
+    });
+});
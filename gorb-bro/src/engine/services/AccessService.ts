@@ -0,0 +1,398 @@
+// Access Service - ground station line-of-sight intervals (rise, culmination, set) and pass predictions
+
+import type {
+    AccessComponent,
+    AccessInterval,
+    AccessObserver,
+    AccessOptions,
+    ElevationMaskPoint,
+    EntityId,
+    IAccessService,
+    IComponentRegistry,
+    IFrameConversionService,
+    LookAngles,
+    PassPredictionOptions,
+    PassTrackPoint,
+    SatellitePass,
+    TimeInterval,
+    TimeVisibilityComponent,
+} from "../types";
+import { ComponentType, ReferenceFrame } from "../types";
+import { EntityStateSampler } from "../utils/EntityStateSampler";
+import { ecefToGeodetic, geodeticToECEF } from "../utils/ReferenceFrames";
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+// Speed of light (km/s) for Doppler offsets
+const SPEED_OF_LIGHT = 299792.458;
+
+// Golden-section ratio for the culmination search
+const GOLDEN = (Math.sqrt(5) - 1) / 2;
+
+/**
+ * Topocentric frame of an observer: ECEF position and east/north/up unit vectors
+ */
+interface StationFrame {
+    x: number;
+    y: number;
+    z: number;
+    east: [number, number, number];
+    north: [number, number, number];
+    up: [number, number, number];
+}
+
+export class AccessService implements IAccessService {
+    private componentRegistry: IComponentRegistry | null = null;
+    private frameService: IFrameConversionService;
+    private sampler: EntityStateSampler | null = null;
+
+    constructor(frameService: IFrameConversionService) {
+        this.frameService = frameService;
+    }
+
+    setComponentRegistry(registry: IComponentRegistry): void {
+        this.componentRegistry = registry;
+        this.sampler = new EntityStateSampler(registry, this.frameService);
+    }
+
+    private ensureRegistry(): IComponentRegistry {
+        if (!this.componentRegistry) {
+            throw new Error("ComponentRegistry not set in AccessService");
+        }
+        return this.componentRegistry;
+    }
+
+    private ensureSampler(): EntityStateSampler {
+        this.ensureRegistry();
+        return this.sampler!;
+    }
+
+    /**
+     * Compute access intervals from a station to each target over [start, end]
+     * Results replace the station's previous intervals for these targets and are stored in its ACCESS component
+     */
+    computeAccess(station: EntityId, targets: EntityId[], start: number, end: number, options: AccessOptions = {}): AccessInterval[] {
+        if (!(end > start)) {
+            throw new Error("Access window end must be after its start");
+        }
+
+        const registry = this.ensureRegistry();
+        const intervals: AccessInterval[] = [];
+
+        for (const target of targets) {
+            const passes: TimeInterval[] = [];
+            for (const [rise, set] of this.findIntervals(station, target, start, end, options)) {
+                const culmination = this.findCulmination(station, target, rise, set);
+                intervals.push({ target, start: rise, end: set, culminationTime: culmination.time, maxElevation: culmination.elevation });
+                passes.push({ start: rise, end: set });
+            }
+
+            if (options.applyVisibility) {
+                this.applyVisibility(registry, target, passes);
+            }
+        }
+
+        intervals.sort((a, b) => a.start - b.start);
+        this.storeIntervals(registry, station, targets, start, end, intervals);
+
+        return intervals;
+    }
+
+    /**
+     * Predict passes of each target over an observer for the next `hours` from `start`
+     * Passes are sorted by AOS; they are not stored on the observer
+     */
+    predictPasses(observer: AccessObserver, targets: EntityId[], start: number, hours: number, options: PassPredictionOptions = {}): SatellitePass[] {
+        if (!(hours > 0)) {
+            throw new Error("Pass prediction span must be positive");
+        }
+
+        const end = start + hours * 3600000;
+        const trackStep = options.trackStep ?? 10000;
+        const tolerance = options.tolerance ?? 100;
+        const passes: SatellitePass[] = [];
+
+        for (const target of targets) {
+            for (const [aos, los] of this.findIntervals(observer, target, start, end, options)) {
+                const look = (time: number): PassTrackPoint | null => {
+                    const angles = this.getLookAngles(observer, target, time);
+                    if (!angles) return null;
+                    const point: PassTrackPoint = { time, ...angles };
+                    if (options.frequency !== undefined) {
+                        point.doppler = (-options.frequency * angles.rangeRate) / SPEED_OF_LIGHT;
+                    }
+                    return point;
+                };
+
+                const aosLook = look(aos);
+                const losLook = look(los);
+                if (!aosLook || !losLook) continue;
+
+                const culmination = this.findCulmination(observer, target, aos, los);
+
+                // Closest approach is where the range rate turns from approaching to receding;
+                // passes clipped by the window may not contain it
+                let tca = culmination.time;
+                if (aosLook.rangeRate < 0 && losLook.rangeRate > 0) {
+                    const rangeRate = (time: number) => this.getLookAngles(observer, target, time)?.rangeRate ?? NaN;
+                    tca = findCrossing((time) => rangeRate(time) >= 0, aos, los, tolerance);
+                }
+                const tcaLook = look(tca) ?? aosLook;
+
+                const track: PassTrackPoint[] = [];
+                for (let time = aos; time < los; time += trackStep) {
+                    const point = time === aos ? aosLook : look(time);
+                    if (point) track.push(point);
+                }
+                track.push(losLook);
+
+                passes.push({
+                    target,
+                    aos,
+                    tca,
+                    los,
+                    culminationTime: culmination.time,
+                    maxElevation: culmination.elevation,
+                    aosAzimuth: aosLook.azimuth,
+                    losAzimuth: losLook.azimuth,
+                    aosLook,
+                    tcaLook,
+                    losLook,
+                    track,
+                });
+            }
+        }
+
+        return passes.sort((a, b) => a.aos - b.aos);
+    }
+
+    /**
+     * Azimuth, elevation, slant range and range rate of a target seen from an observer
+     * @returns null when either cannot be positioned at the time
+     */
+    getLookAngles(observer: AccessObserver, target: EntityId, time: number): LookAngles | null {
+        const sampler = this.ensureSampler();
+        const site = this.getStationFrame(sampler, observer, time);
+        const state = sampler.getState(target, time, ReferenceFrame.ECEF);
+        if (!site || !state) return null;
+
+        const dx = state.position.x - site.x;
+        const dy = state.position.y - site.y;
+        const dz = state.position.z - site.z;
+        const range = Math.sqrt(dx * dx + dy * dy + dz * dz);
+
+        const e = dx * site.east[0] + dy * site.east[1] + dz * site.east[2];
+        const n = dx * site.north[0] + dy * site.north[1] + dz * site.north[2];
+        const u = dx * site.up[0] + dy * site.up[1] + dz * site.up[2];
+
+        let azimuth = Math.atan2(e, n) * RAD_TO_DEG;
+        if (azimuth < 0) azimuth += 360;
+
+        // The observer is fixed in ECEF, so the target's ECEF velocity is the relative velocity
+        const v = state.velocity;
+        const rangeRate = v ? (dx * v.vx + dy * v.vy + dz * v.vz) / range : 0;
+
+        return { azimuth, elevation: Math.asin(u / range) * RAD_TO_DEG, range, rangeRate };
+    }
+
+    /**
+     * Remove all stored intervals for a station
+     */
+    clearAccess(station: EntityId): void {
+        const registry = this.ensureRegistry();
+        if (registry.hasComponent(station, ComponentType.ACCESS)) {
+            registry.removeComponent(station, ComponentType.ACCESS);
+        }
+    }
+
+    /**
+     * Coarse-step search for the [rise, set] intervals where the target is above the observer's mask
+     */
+    private findIntervals(observer: AccessObserver, target: EntityId, start: number, end: number, options: AccessOptions): [number, number][] {
+        const minElevation = options.minElevation ?? 0;
+        const step = options.step ?? 60000;
+        const tolerance = options.tolerance ?? 100;
+        const mask = options.terrainMask ? [...options.terrainMask].sort((a, b) => a.azimuth - b.azimuth) : null;
+
+        // Elevation above the mask; a target that cannot be propagated has no access
+        const visible = (time: number): boolean => {
+            const look = this.getLookAngles(observer, target, time);
+            if (!look) return false;
+            const horizon = mask ? Math.max(minElevation, maskElevation(mask, look.azimuth)) : minElevation;
+            return look.elevation >= horizon;
+        };
+
+        const intervals: [number, number][] = [];
+        let previousTime = start;
+        let riseTime: number | null = visible(start) ? start : null;
+
+        for (let time = Math.min(start + step, end); ; time = Math.min(time + step, end)) {
+            const current = visible(time);
+
+            if (riseTime === null && current) {
+                riseTime = findCrossing(visible, previousTime, time, tolerance);
+            } else if (riseTime !== null && !current) {
+                const setTime = findCrossing((t) => !visible(t), previousTime, time, tolerance);
+                intervals.push([riseTime, setTime]);
+                riseTime = null;
+            }
+
+            previousTime = time;
+            if (time >= end) break;
+        }
+
+        if (riseTime !== null) {
+            intervals.push([riseTime, end]);
+        }
+
+        return intervals;
+    }
+
+    /**
+     * Locate the maximum elevation within an interval
+     */
+    private findCulmination(observer: AccessObserver, target: EntityId, startTime: number, endTime: number): { time: number; elevation: number } {
+        const elevation = (time: number): number => this.getLookAngles(observer, target, time)?.elevation ?? -90;
+
+        // Elevation is unimodal over a single pass, so a golden-section search converges on the peak
+        let a = startTime;
+        let b = endTime;
+        let c = b - GOLDEN * (b - a);
+        let d = a + GOLDEN * (b - a);
+        let ec = elevation(c);
+        let ed = elevation(d);
+
+        while (b - a > 1000) {
+            if (ec > ed) {
+                b = d;
+                d = c;
+                ed = ec;
+                c = b - GOLDEN * (b - a);
+                ec = elevation(c);
+            } else {
+                a = c;
+                c = d;
+                ec = ed;
+                d = a + GOLDEN * (b - a);
+                ed = elevation(d);
+            }
+        }
+
+        // Passes clipped by the window can peak at an edge
+        let best = { time: startTime, elevation: -Infinity };
+        for (const time of [startTime, endTime, (a + b) / 2]) {
+            const value = elevation(time);
+            if (value > best.elevation) {
+                best = { time, elevation: value };
+            }
+        }
+
+        return best;
+    }
+
+    private storeIntervals(registry: IComponentRegistry, station: EntityId, targets: EntityId[], start: number, end: number, intervals: AccessInterval[]): void {
+        const existing = registry.getComponent<AccessComponent>(station, ComponentType.ACCESS);
+
+        // Same window: keep results for other targets
+        if (existing && existing.windowStart === start && existing.windowEnd === end) {
+            const updated = new Set(targets);
+            existing.intervals = existing.intervals.filter((interval) => !updated.has(interval.target)).concat(intervals);
+            existing.intervals.sort((a, b) => a.start - b.start);
+            registry.markDirty(station);
+            return;
+        }
+
+        const component: AccessComponent = {
+            type: ComponentType.ACCESS,
+            windowStart: start,
+            windowEnd: end,
+            intervals: [...intervals],
+        };
+        registry.addComponent(station, component);
+    }
+
+    /**
+     * Show the target only during its passes (replaces any availability it had)
+     */
+    private applyVisibility(registry: IComponentRegistry, target: EntityId, passes: TimeInterval[]): void {
+        const visibility = registry.getComponent<TimeVisibilityComponent>(target, ComponentType.TIME_VISIBILITY);
+        if (visibility) {
+            visibility.startTime = undefined;
+            visibility.endTime = undefined;
+            visibility.intervals = passes;
+            registry.markDirty(target);
+            return;
+        }
+
+        registry.addComponent(target, { type: ComponentType.TIME_VISIBILITY, intervals: passes });
+    }
+
+    private getStationFrame(sampler: EntityStateSampler, observer: AccessObserver, time: number): StationFrame | null {
+        let ecef: { x: number; y: number; z: number } | null;
+        let lat: number;
+        let lon: number;
+
+        if (typeof observer === "number") {
+            ecef = sampler.getPosition(observer, time, ReferenceFrame.ECEF);
+            if (!ecef) return null;
+            const geodetic = ecefToGeodetic(ecef.x, ecef.y, ecef.z);
+            lat = geodetic.lat / RAD_TO_DEG;
+            lon = geodetic.lon / RAD_TO_DEG;
+        } else {
+            ecef = geodeticToECEF(observer.lat, observer.lon, observer.alt);
+            lat = observer.lat / RAD_TO_DEG;
+            lon = observer.lon / RAD_TO_DEG;
+        }
+
+        const sinLat = Math.sin(lat);
+        const cosLat = Math.cos(lat);
+        const sinLon = Math.sin(lon);
+        const cosLon = Math.cos(lon);
+
+        return {
+            x: ecef.x,
+            y: ecef.y,
+            z: ecef.z,
+            east: [-sinLon, cosLon, 0],
+            north: [-sinLat * cosLon, -sinLat * sinLon, cosLat],
+            up: [cosLat * cosLon, cosLat * sinLon, sinLat],
+        };
+    }
+}
+
+/**
+ * Bisect a false -> true transition of a predicate in [t0, t1] (rise or set) down to the tolerance
+ * @returns The first time (within tolerance) where the predicate holds
+ */
+function findCrossing(predicate: (time: number) => boolean, t0: number, t1: number, tolerance: number): number {
+    while (t1 - t0 > tolerance) {
+        const mid = (t0 + t1) / 2;
+        if (predicate(mid)) {
+            t1 = mid;
+        } else {
+            t0 = mid;
+        }
+    }
+    return t1;
+}
+
+/**
+ * Horizon elevation of an azimuth/elevation mask at an azimuth (linear, wrapping through north)
+ */
+function maskElevation(mask: ElevationMaskPoint[], azimuth: number): number {
+    if (mask.length === 0) return -90;
+    if (mask.length === 1) return mask[0].elevation;
+
+    let upper = mask.findIndex((point) => point.azimuth >= azimuth);
+    if (upper === -1) upper = 0;
+    const lower = upper === 0 ? mask.length - 1 : upper - 1;
+
+    const a = mask[lower];
+    const b = mask[upper];
+    let span = b.azimuth - a.azimuth;
+    let offset = azimuth - a.azimuth;
+    if (span <= 0) span += 360;
+    if (offset < 0) offset += 360;
+
+    return a.elevation + ((b.elevation - a.elevation) * offset) / span;
+}
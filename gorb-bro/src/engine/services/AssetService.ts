@@ -0,0 +1,135 @@
+// Asset Service - loads and caches glTF/GLB models (Draco and KTX2 when configured) and hands out instances
+
+import * as THREE from "three";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { DRACOLoader } from "three/examples/jsm/loaders/DRACOLoader.js";
+import { KTX2Loader } from "three/examples/jsm/loaders/KTX2Loader.js";
+import type { AssetDecoderOptions, IAssetService } from "../types";
+
+export class AssetService implements IAssetService {
+    private models: Map<string, THREE.Object3D> = new Map();
+    private pending: Map<string, Promise<THREE.Object3D>> = new Map();
+    private decoders: AssetDecoderOptions = {};
+    private loader: GLTFLoader | null = null;
+    private dracoLoader: DRACOLoader | null = null;
+    private ktx2Loader: KTX2Loader | null = null;
+
+    /**
+     * Enable compressed-asset decoders; applies to models loaded afterwards
+     */
+    configureDecoders(options: AssetDecoderOptions): void {
+        this.decoders = { ...this.decoders, ...options };
+        this.disposeLoaders();
+    }
+
+    /**
+     * Load a model under an ID; loading the same ID again returns the cached (or in-flight) model
+     * @param source URL of a .gltf/.glb file, or the bytes of a GLB
+     */
+    loadModel(id: string, source: string | ArrayBuffer): Promise<THREE.Object3D> {
+        const cached = this.models.get(id);
+        if (cached) return Promise.resolve(cached);
+
+        const inFlight = this.pending.get(id);
+        if (inFlight) return inFlight;
+
+        const loader = this.getLoader();
+        const request = (typeof source === "string" ? loader.loadAsync(source) : loader.parseAsync(source, ""))
+            .then((gltf) => {
+                this.models.set(id, gltf.scene);
+                return gltf.scene;
+            })
+            .finally(() => {
+                this.pending.delete(id);
+            });
+
+        this.pending.set(id, request);
+        return request;
+    }
+
+    hasModel(id: string): boolean {
+        return this.models.has(id);
+    }
+
+    /**
+     * The cached template (do not add it to the scene; use createInstance)
+     */
+    getModel(id: string): THREE.Object3D | undefined {
+        return this.models.get(id);
+    }
+
+    /**
+     * A copy of a loaded model that shares its geometries, materials and textures
+     * @returns null until the model is loaded
+     */
+    createInstance(id: string): THREE.Object3D | null {
+        return this.models.get(id)?.clone(true) ?? null;
+    }
+
+    /**
+     * Drop a model from the cache and free its GPU resources (instances stop rendering correctly)
+     */
+    releaseModel(id: string): void {
+        const model = this.models.get(id);
+        if (!model) return;
+
+        disposeObject(model);
+        this.models.delete(id);
+    }
+
+    private getLoader(): GLTFLoader {
+        if (this.loader) return this.loader;
+
+        this.loader = new GLTFLoader();
+
+        if (this.decoders.dracoDecoderPath) {
+            this.dracoLoader = new DRACOLoader().setDecoderPath(this.decoders.dracoDecoderPath);
+            this.loader.setDRACOLoader(this.dracoLoader);
+        }
+
+        if (this.decoders.ktx2TranscoderPath) {
+            if (this.decoders.renderer) {
+                this.ktx2Loader = new KTX2Loader().setTranscoderPath(this.decoders.ktx2TranscoderPath).detectSupport(this.decoders.renderer);
+                this.loader.setKTX2Loader(this.ktx2Loader);
+            } else {
+                console.warn("[AssetService] ⚠️ KTX2 needs a renderer to detect GPU support, KTX2 disabled");
+            }
+        }
+
+        return this.loader;
+    }
+
+    private disposeLoaders(): void {
+        this.dracoLoader?.dispose();
+        this.ktx2Loader?.dispose();
+        this.loader = null;
+        this.dracoLoader = null;
+        this.ktx2Loader = null;
+    }
+
+    cleanup(): void {
+        for (const id of Array.from(this.models.keys())) {
+            this.releaseModel(id);
+        }
+        this.pending.clear();
+        this.disposeLoaders();
+    }
+}
+
+/**
+ * Dispose every geometry, material and texture under an object
+ */
+function disposeObject(root: THREE.Object3D): void {
+    root.traverse((object) => {
+        if (!(object instanceof THREE.Mesh)) return;
+
+        object.geometry.dispose();
+        const materials: THREE.Material[] = Array.isArray(object.material) ? object.material : [object.material];
+        for (const material of materials) {
+            for (const value of Object.values(material)) {
+                if (value instanceof THREE.Texture) value.dispose();
+            }
+            material.dispose();
+        }
+    });
+}
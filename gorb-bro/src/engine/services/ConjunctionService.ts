@@ -0,0 +1,196 @@
+// Conjunction Service - screens TLE catalog objects for close approaches in a background worker
+// Events are stored in CONJUNCTION components on both objects as they are found
+
+import type {
+    ConjunctionComponent,
+    ConjunctionEvent,
+    ConjunctionProgress,
+    ConjunctionScreeningOptions,
+    EntityId,
+    IComponentRegistry,
+    IConjunctionService,
+    OrbitalElementsComponent,
+} from "../types";
+import { ComponentType, OrbitalFormat } from "../types";
+import { ConjunctionScreener, type ConjunctionObject } from "../utils/ConjunctionScreening";
+import type { ConjunctionWorkerRequest, ConjunctionWorkerResponse } from "../workers/ConjunctionWorker";
+
+// Main-thread fallback budget per frame when workers are unavailable
+const FALLBACK_SLICE_MS = 4;
+
+interface ScreeningRun {
+    id: number;
+    start: number;
+    end: number;
+    events: ConjunctionEvent[];
+    progress: ConjunctionProgress | null;
+    resolve: (events: ConjunctionEvent[]) => void;
+    reject: (error: Error) => void;
+    screener: ConjunctionScreener | null; // Set when screening on the main thread
+}
+
+export class ConjunctionService implements IConjunctionService {
+    private componentRegistry: IComponentRegistry | null = null;
+    private worker: Worker | null = null;
+    private run: ScreeningRun | null = null;
+    private nextRunId = 1;
+    private progressCallbacks: Set<(progress: ConjunctionProgress, events: ConjunctionEvent[]) => void> = new Set();
+    private entitiesWithEvents: Set<EntityId> = new Set();
+
+    setComponentRegistry(registry: IComponentRegistry): void {
+        this.componentRegistry = registry;
+    }
+
+    private ensureRegistry(): IComponentRegistry {
+        if (!this.componentRegistry) {
+            throw new Error("ComponentRegistry not set in ConjunctionService");
+        }
+        return this.componentRegistry;
+    }
+
+    /**
+     * Screen TLE entities (all of them when entities is null) for approaches under the threshold in [start, end]
+     * Replaces previous results and cancels a screening in progress; resolves with every event found,
+     * or with the events found so far if cancelled; rejects on an invalid window or a missing registry
+     */
+    async screenConjunctions(entities: EntityId[] | null, start: number, end: number, options: ConjunctionScreeningOptions = {}): Promise<ConjunctionEvent[]> {
+        if (!(end > start)) {
+            throw new Error("Conjunction window end must be after its start");
+        }
+
+        const registry = this.ensureRegistry();
+        this.cancelScreening();
+        this.clearConjunctions();
+
+        const objects: ConjunctionObject[] = [];
+        for (const entity of entities ?? registry.getEntitiesWithComponent(ComponentType.ORBITAL_ELEMENTS)) {
+            const elements = registry.getComponent<OrbitalElementsComponent>(entity, ComponentType.ORBITAL_ELEMENTS);
+            if (!elements || elements.format !== OrbitalFormat.TLE || !("line1" in elements.data && "line2" in elements.data)) continue;
+            objects.push({ id: entity, line1: elements.data.line1, line2: elements.data.line2 });
+        }
+
+        return new Promise((resolve, reject) => {
+            const run: ScreeningRun = { id: this.nextRunId++, start, end, events: [], progress: null, resolve, reject, screener: null };
+            this.run = run;
+
+            if (typeof Worker === "undefined") {
+                run.screener = new ConjunctionScreener(objects, start, end, options);
+                return;
+            }
+
+            const request: ConjunctionWorkerRequest = { type: "start", runId: run.id, objects, start, end, options };
+            this.ensureWorker().postMessage(request);
+        });
+    }
+
+    cancelScreening(): void {
+        const run = this.run;
+        if (!run) return;
+
+        this.run = null;
+        if (!run.screener && this.worker) {
+            // Terminating is the only way to interrupt a slice already under way
+            this.worker.terminate();
+            this.worker = null;
+        }
+        run.resolve(run.events);
+    }
+
+    isScreening(): boolean {
+        return this.run !== null;
+    }
+
+    getProgress(): ConjunctionProgress | null {
+        return this.run?.progress ?? null;
+    }
+
+    onProgress(callback: (progress: ConjunctionProgress, events: ConjunctionEvent[]) => void): () => void {
+        this.progressCallbacks.add(callback);
+
+        // Return unsubscribe function
+        return () => {
+            this.progressCallbacks.delete(callback);
+        };
+    }
+
+    /**
+     * Remove stored events from every entity
+     */
+    clearConjunctions(): void {
+        const registry = this.ensureRegistry();
+        for (const entity of this.entitiesWithEvents) {
+            if (registry.hasComponent(entity, ComponentType.CONJUNCTION)) {
+                registry.removeComponent(entity, ComponentType.CONJUNCTION);
+            }
+        }
+        this.entitiesWithEvents.clear();
+    }
+
+    update(): void {
+        const run = this.run;
+        if (!run?.screener) return;
+
+        const events = run.screener.step(FALLBACK_SLICE_MS);
+        this.handleProgress(run, run.screener.getProgress(), events);
+    }
+
+    cleanup(): void {
+        this.cancelScreening();
+        this.progressCallbacks.clear();
+    }
+
+    private ensureWorker(): Worker {
+        if (!this.worker) {
+            this.worker = new Worker(new URL("../workers/ConjunctionWorker.ts", import.meta.url), { type: "module" });
+            this.worker.onmessage = (event: MessageEvent<ConjunctionWorkerResponse>) => {
+                const response = event.data;
+                const run = this.run;
+                if (!run || run.id !== response.runId) return; // Stale message from a cancelled run
+
+                if (response.type === "error") {
+                    this.run = null;
+                    run.reject(new Error(`Conjunction screening failed: ${response.message}`));
+                    return;
+                }
+
+                this.handleProgress(run, response.progress, response.events);
+            };
+        }
+        return this.worker;
+    }
+
+    private handleProgress(run: ScreeningRun, progress: ConjunctionProgress, events: ConjunctionEvent[]): void {
+        run.progress = progress;
+        for (const event of events) {
+            run.events.push(event);
+            this.storeEvent(event.primary, event, run);
+            this.storeEvent(event.secondary, event, run);
+        }
+
+        this.progressCallbacks.forEach((callback) => callback(progress, events));
+
+        if (progress.done) {
+            this.run = null;
+            run.resolve(run.events);
+        }
+    }
+
+    private storeEvent(entity: EntityId, event: ConjunctionEvent, run: ScreeningRun): void {
+        const registry = this.ensureRegistry();
+        let component = registry.getComponent<ConjunctionComponent>(entity, ComponentType.CONJUNCTION);
+        if (!component) {
+            // Entity may have been destroyed while the screening ran
+            if (!registry.hasComponent(entity, ComponentType.ORBITAL_ELEMENTS)) return;
+
+            component = { type: ComponentType.CONJUNCTION, windowStart: run.start, windowEnd: run.end, events: [] };
+            registry.addComponent(entity, component);
+            this.entitiesWithEvents.add(entity);
+        }
+
+        // Keep sorted by TCA
+        const events = component.events;
+        let index = events.length;
+        while (index > 0 && events[index - 1].tca > event.tca) index--;
+        events.splice(index, 0, event);
+    }
+}
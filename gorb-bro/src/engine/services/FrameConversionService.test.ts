@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import * as satellite from "satellite.js";
+import { FrameConversionService } from "./FrameConversionService";
+import { ReferenceFrame } from "../types";
+
+// Vallado, Fundamentals of Astrodynamics, example 3-15 (TEME state at 2004-04-06 07:51:28.386 UTC)
+const time = Date.UTC(2004, 3, 6, 7, 51, 28, 386);
+const position = { x: 5094.1801621, y: 6127.6446595, z: 6380.3445327 };
+const velocity = { vx: -4.746131487, vy: 0.785818041, vz: 5.531931288 };
+
+function distance(a: { x: number; y: number; z: number }, b: { x: number; y: number; z: number }): number {
+    return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+describe("FrameConversionService", () => {
+    const frames = new FrameConversionService();
+
+    it("matches satellite.js for TEME -> ECEF", () => {
+        const ecef = frames.convert(position, ReferenceFrame.TEME, ReferenceFrame.ECEF, time);
+        const expected = satellite.eciToEcf(position, satellite.gstime(new Date(time)));
+        expect(distance(ecef, expected)).toBeLessThan(1e-6);
+    });
+
+    it("matches satellite.js for ECEF -> TEME", () => {
+        const gmst = satellite.gstime(new Date(time));
+        const ecef = satellite.eciToEcf(position, gmst);
+        const teme = frames.convert(ecef, ReferenceFrame.ECEF, ReferenceFrame.TEME, time);
+        expect(distance(teme, position)).toBeLessThan(1e-6);
+    });
+
+    it("rotates TEME into J2000 within a metre of Vallado's result", () => {
+        const j2000 = frames.convert(position, ReferenceFrame.TEME, ReferenceFrame.J2000, time);
+        expect(distance(j2000, { x: 5102.508958, y: 6123.011401, z: 6378.136928 })).toBeLessThan(1e-3);
+    });
+
+    it("treats ECI as J2000", () => {
+        const eci = frames.convert(position, ReferenceFrame.TEME, ReferenceFrame.ECI, time);
+        const j2000 = frames.convert(position, ReferenceFrame.TEME, ReferenceFrame.J2000, time);
+        expect(distance(eci, j2000)).toBe(0);
+    });
+
+    it("includes Earth rotation in ECEF velocities and round-trips them", () => {
+        const ecef = frames.convert(position, ReferenceFrame.TEME, ReferenceFrame.ECEF, time);
+        const ecefVelocity = frames.convertVelocity(velocity, position, ReferenceFrame.TEME, ReferenceFrame.ECEF, time);
+        expect(ecefVelocity.vx).toBeCloseTo(-3.2257, 3);
+        expect(ecefVelocity.vy).toBeCloseTo(-2.8723, 3);
+        expect(ecefVelocity.vz).toBeCloseTo(5.5319, 3);
+
+        const back = frames.convertVelocity(ecefVelocity, ecef, ReferenceFrame.ECEF, ReferenceFrame.TEME, time);
+        expect(Math.hypot(back.vx - velocity.vx, back.vy - velocity.vy, back.vz - velocity.vz)).toBeLessThan(1e-9);
+    });
+
+    it("scales render positions by unitsPerKm and maps north onto Y when yUp is set", () => {
+        const render = new FrameConversionService(undefined, { unitsPerKm: 0.001, yUp: true });
+        const north = render.convert({ x: 0, y: 0, z: 7000 }, ReferenceFrame.J2000, ReferenceFrame.RENDER, time);
+        expect(north.x).toBeCloseTo(0, 9);
+        expect(north.y).toBeCloseTo(7, 9);
+        expect(north.z).toBeCloseTo(0, 9);
+
+        const back = render.convert(north, ReferenceFrame.RENDER, ReferenceFrame.J2000, time);
+        expect(distance(back, { x: 0, y: 0, z: 7000 })).toBeLessThan(1e-9);
+    });
+
+    it("writes into the out parameter", () => {
+        const out = { x: 0, y: 0, z: 0 };
+        const result = frames.convert(position, ReferenceFrame.TEME, ReferenceFrame.ECEF, time, out);
+        expect(result).toBe(out);
+    });
+});
@@ -0,0 +1,278 @@
+// Frame Conversion Service - converts positions between TEME, ECI/J2000, ECEF and render space
+
+import * as THREE from "three";
+import type { IFrameConversionService, ITimeService, RenderFrameConfig } from "../types";
+import { ReferenceFrame, TimeSystem } from "../types";
+import {
+    EARTH_ROTATION_RATE,
+    equationOfEquinoxes,
+    greenwichMeanSiderealTime,
+    julianCenturies,
+    julianDateFromUnix,
+    nutationAngles,
+    nutationMatrix,
+    precessionMatrix,
+    rot3,
+} from "../utils/ReferenceFrames";
+import { TimeScaleConverter } from "../utils/TimeScales";
+
+type Vec3 = { x: number; y: number; z: number };
+type Vec3Velocity = { vx: number; vy: number; vz: number };
+
+/**
+ * FrameConversionService implements the FK5 reduction between the engine's frames.
+ * J2000 is the hub frame; ECI is treated as J2000 (frame bias is ignored) and
+ * ECEF ignores polar motion. RENDER is the configured base frame with an optional
+ * Y-up axis swap and a km -> scene unit scale applied on top. The swap is off by default,
+ * so render space keeps the frame's axes as positions had before the service existed.
+ */
+export class FrameConversionService implements IFrameConversionService {
+    private timeService: ITimeService | null;
+    private fallbackTimeScales: TimeScaleConverter = new TimeScaleConverter();
+    private renderConfig: RenderFrameConfig;
+
+    // Per-time caches (most conversions in a frame share the same time)
+    private cacheTime: number = NaN;
+    private toJ2000: Map<ReferenceFrame, THREE.Matrix3> = new Map();
+    private rotationCache: Map<string, THREE.Matrix3> = new Map();
+    private renderCache: Map<ReferenceFrame, THREE.Matrix4> = new Map();
+
+    private tempVector: THREE.Vector3 = new THREE.Vector3();
+    private tempPosition: THREE.Vector3 = new THREE.Vector3();
+    private basePosition: Vec3 = { x: 0, y: 0, z: 0 };
+    private baseVelocity: Vec3Velocity = { vx: 0, vy: 0, vz: 0 };
+    private tempMatrix: THREE.Matrix4 = new THREE.Matrix4();
+    private readonly identityMatrix: THREE.Matrix4 = new THREE.Matrix4();
+
+    constructor(timeService?: ITimeService, config: Partial<RenderFrameConfig> = {}) {
+        this.timeService = timeService ?? null;
+        this.renderConfig = {
+            baseFrame: config.baseFrame ?? ReferenceFrame.ECI,
+            unitsPerKm: config.unitsPerKm ?? 1,
+            yUp: config.yUp ?? false,
+        };
+
+        if (this.renderConfig.baseFrame === ReferenceFrame.RENDER) {
+            throw new Error("Render base frame must be a physical frame");
+        }
+    }
+
+    /**
+     * Convert a position between frames (km, or scene units for RENDER)
+     * @param out Written and returned instead of a new object, for per-frame callers
+     */
+    convert(position: Vec3, from: ReferenceFrame, to: ReferenceFrame, time?: number, out: Vec3 = { x: 0, y: 0, z: 0 }): Vec3 {
+        if (from === to) {
+            out.x = position.x;
+            out.y = position.y;
+            out.z = position.z;
+            return out;
+        }
+
+        const t = this.resolveTime(time);
+        const v = this.tempVector.set(position.x, position.y, position.z);
+
+        if (to === ReferenceFrame.RENDER) {
+            v.applyMatrix4(this.getRenderMatrix(from, t));
+        } else if (from === ReferenceFrame.RENDER) {
+            v.applyMatrix4(this.tempMatrix.copy(this.getRenderMatrix(to, t)).invert());
+        } else {
+            v.applyMatrix3(this.getRotationMatrix(from, to, t));
+        }
+
+        out.x = v.x;
+        out.y = v.y;
+        out.z = v.z;
+        return out;
+    }
+
+    /**
+     * Convert a velocity between frames, accounting for Earth rotation when ECEF is involved
+     * @param position Position in the source frame (needed for the omega x r term)
+     * @param out Written and returned instead of a new object, for per-frame callers
+     */
+    convertVelocity(
+        velocity: Vec3Velocity,
+        position: Vec3,
+        from: ReferenceFrame,
+        to: ReferenceFrame,
+        time?: number,
+        out: Vec3Velocity = { vx: 0, vy: 0, vz: 0 }
+    ): Vec3Velocity {
+        if (from === to) {
+            out.vx = velocity.vx;
+            out.vy = velocity.vy;
+            out.vz = velocity.vz;
+            return out;
+        }
+
+        const t = this.resolveTime(time);
+        const base = this.renderConfig.baseFrame;
+
+        // Route RENDER through its base frame
+        if (from === ReferenceFrame.RENDER) {
+            const basePosition = this.convert(position, ReferenceFrame.RENDER, base, t, this.basePosition);
+            const inverse = this.tempMatrix.copy(this.getRenderMatrix(base, t)).invert();
+            const v = this.tempVector.set(velocity.vx, velocity.vy, velocity.vz).applyMatrix4(inverse);
+            const baseVelocity = this.baseVelocity;
+            baseVelocity.vx = v.x;
+            baseVelocity.vy = v.y;
+            baseVelocity.vz = v.z;
+            return this.convertVelocity(baseVelocity, basePosition, base, to, t, out);
+        }
+
+        if (to === ReferenceFrame.RENDER) {
+            const baseVelocity = this.convertVelocity(velocity, position, from, base, t, out);
+            const v = this.tempVector.set(baseVelocity.vx, baseVelocity.vy, baseVelocity.vz);
+            if (this.renderConfig.yUp) {
+                v.set(v.x, v.z, -v.y);
+            }
+            v.multiplyScalar(this.renderConfig.unitsPerKm);
+            out.vx = v.x;
+            out.vy = v.y;
+            out.vz = v.z;
+            return out;
+        }
+
+        let vx = velocity.vx;
+        let vy = velocity.vy;
+        const vz = velocity.vz;
+
+        // ECEF -> inertial: add the transport term omega x r before rotating
+        if (from === ReferenceFrame.ECEF) {
+            vx -= EARTH_ROTATION_RATE * position.y;
+            vy += EARTH_ROTATION_RATE * position.x;
+        }
+
+        const rotation = this.getRotationMatrix(from, to, t);
+        const v = this.tempVector.set(vx, vy, vz).applyMatrix3(rotation);
+
+        // Inertial -> ECEF: remove omega x r in the rotated frame
+        if (to === ReferenceFrame.ECEF) {
+            const r = this.tempPosition.set(position.x, position.y, position.z).applyMatrix3(rotation);
+            v.x += EARTH_ROTATION_RATE * r.y;
+            v.y -= EARTH_ROTATION_RATE * r.x;
+        }
+
+        out.vx = v.x;
+        out.vy = v.y;
+        out.vz = v.z;
+        return out;
+    }
+
+    /**
+     * Get the rotation taking vectors from one physical frame to another
+     * The returned matrix is cached and must not be modified
+     */
+    getRotationMatrix(from: ReferenceFrame, to: ReferenceFrame, time?: number): THREE.Matrix3 {
+        if (from === ReferenceFrame.RENDER || to === ReferenceFrame.RENDER) {
+            throw new Error("Use getRenderMatrix for conversions involving the render frame");
+        }
+
+        const t = this.resolveTime(time);
+        this.ensureCache(t);
+
+        const key = `${from}->${to}`;
+        let matrix = this.rotationCache.get(key);
+        if (!matrix) {
+            // r_to = (to -> J2000)^T * (from -> J2000) * r_from
+            matrix = this.toJ2000.get(to)!.clone().transpose().multiply(this.toJ2000.get(from)!);
+            this.rotationCache.set(key, matrix);
+        }
+
+        return matrix;
+    }
+
+    /**
+     * Get the affine matrix taking a position in a physical frame to render space
+     * The returned matrix is cached and must not be modified
+     */
+    getRenderMatrix(from: ReferenceFrame, time?: number): THREE.Matrix4 {
+        if (from === ReferenceFrame.RENDER) {
+            return this.identityMatrix;
+        }
+
+        const t = this.resolveTime(time);
+        this.ensureCache(t);
+
+        let matrix = this.renderCache.get(from);
+        if (!matrix) {
+            const rotation = this.getRotationMatrix(from, this.renderConfig.baseFrame, t);
+            matrix = new THREE.Matrix4().setFromMatrix3(rotation);
+
+            if (this.renderConfig.yUp) {
+                // (x, y, z) -> (x, z, -y): Z-up physical frame to Y-up scene
+                matrix.premultiply(new THREE.Matrix4().set(1, 0, 0, 0, 0, 0, 1, 0, 0, -1, 0, 0, 0, 0, 0, 1));
+            }
+
+            const scale = this.renderConfig.unitsPerKm;
+            matrix.premultiply(new THREE.Matrix4().makeScale(scale, scale, scale));
+
+            this.renderCache.set(from, matrix);
+        }
+
+        return matrix;
+    }
+
+    setRenderFrameConfig(config: Partial<RenderFrameConfig>): void {
+        if (config.baseFrame === ReferenceFrame.RENDER) {
+            throw new Error("Render base frame must be a physical frame");
+        }
+
+        this.renderConfig = { ...this.renderConfig, ...config };
+        this.renderCache.clear();
+    }
+
+    getRenderFrameConfig(): RenderFrameConfig {
+        return { ...this.renderConfig };
+    }
+
+    private resolveTime(time?: number): number {
+        return time ?? this.timeService?.getCurrentTime() ?? Date.now();
+    }
+
+    private convertTime(utc: number, system: TimeSystem): number {
+        return this.timeService ? this.timeService.convert(utc, TimeSystem.UTC, system) : this.fallbackTimeScales.convert(utc, TimeSystem.UTC, system);
+    }
+
+    /**
+     * Rebuild the frame -> J2000 rotations when the time changes
+     */
+    private ensureCache(time: number): void {
+        if (time === this.cacheTime) return;
+
+        this.cacheTime = time;
+        this.rotationCache.clear();
+        this.renderCache.clear();
+
+        // Precession/nutation run on TT, Earth rotation on UT1
+        const jdUT1 = julianDateFromUnix(this.convertTime(time, TimeSystem.UT1));
+        const tTT = julianCenturies(julianDateFromUnix(this.convertTime(time, TimeSystem.TT)));
+
+        const nutation = nutationAngles(tTT);
+        const gmst = greenwichMeanSiderealTime(jdUT1);
+
+        // MOD -> J2000 and TOD -> MOD
+        const precessionNutation = precessionMatrix(tTT).multiply(nutationMatrix(nutation));
+
+        // TEME -> TOD is a rotation by the equation of the equinoxes
+        const temeToJ2000 = precessionNutation.clone().multiply(rot3(-equationOfEquinoxes(nutation)));
+
+        // ECEF (PEF, no polar motion) -> TEME is a rotation by GMST
+        const ecefToJ2000 = temeToJ2000.clone().multiply(rot3(-gmst));
+
+        const identity = new THREE.Matrix3();
+        this.toJ2000.set(ReferenceFrame.J2000, identity);
+        this.toJ2000.set(ReferenceFrame.ECI, identity);
+        this.toJ2000.set(ReferenceFrame.TEME, temeToJ2000);
+        this.toJ2000.set(ReferenceFrame.ECEF, ecefToJ2000);
+    }
+
+    cleanup(): void {
+        this.toJ2000.clear();
+        this.rotationCache.clear();
+        this.renderCache.clear();
+        this.cacheTime = NaN;
+        this.timeService = null;
+    }
+}
@@ -1,8 +1,9 @@
 // Query Service - advanced entity querying capabilities
 
 import * as THREE from "three";
-import type { IQueryService, EntityId, IComponentRegistry, PositionComponent, TimeVisibilityComponent } from "../types";
+import type { IQueryService, EntityId, IComponentRegistry, PositionComponent, TimeVisibilityComponent, AccessComponent, AccessInterval, ConjunctionComponent, ConjunctionEvent, HierarchyComponent } from "../types";
 import { ComponentType, ReferenceFrame } from "../types";
+import { isAvailableAt, isAvailableDuring } from "../utils/TimeVisibility";
 
 export class QueryService implements IQueryService {
     private componentRegistry: IComponentRegistry | null = null;
@@ -66,7 +67,7 @@ export class QueryService implements IQueryService {
         return entitiesWithTimeVisibility.filter((entity) => {
             const visibility = registry.getComponent<TimeVisibilityComponent>(entity, ComponentType.TIME_VISIBILITY);
             if (!visibility) return false;
-            return time >= visibility.startTime && time <= visibility.endTime;
+            return isAvailableAt(visibility, time);
         });
     }
 
@@ -78,11 +79,104 @@ export class QueryService implements IQueryService {
             const visibility = registry.getComponent<TimeVisibilityComponent>(entity, ComponentType.TIME_VISIBILITY);
             if (!visibility) return false;
 
-            // Check if visibility range overlaps with query range
-            return !(visibility.endTime < start || visibility.startTime > end);
+            // Check if any availability interval overlaps with query range
+            return isAvailableDuring(visibility, start, end);
         });
     }
 
+    // Access queries
+    findInAccessAt(time: number, station?: EntityId): EntityId[] {
+        const registry = this.ensureRegistry();
+        const stations = station !== undefined ? [station] : registry.getEntitiesWithComponent(ComponentType.ACCESS);
+        const targets = new Set<EntityId>();
+
+        for (const entity of stations) {
+            const access = registry.getComponent<AccessComponent>(entity, ComponentType.ACCESS);
+            if (!access) continue;
+
+            for (const interval of access.intervals) {
+                if (interval.start > time) break; // Sorted by start time
+                if (time <= interval.end) {
+                    targets.add(interval.target);
+                }
+            }
+        }
+
+        return Array.from(targets);
+    }
+
+    getAccessIntervals(station: EntityId, target?: EntityId): AccessInterval[] {
+        const registry = this.ensureRegistry();
+        const access = registry.getComponent<AccessComponent>(station, ComponentType.ACCESS);
+        if (!access) return [];
+
+        return target !== undefined ? access.intervals.filter((interval) => interval.target === target) : [...access.intervals];
+    }
+
+    // Conjunction queries
+    getConjunctions(entity?: EntityId): ConjunctionEvent[] {
+        const registry = this.ensureRegistry();
+
+        if (entity !== undefined) {
+            const conjunction = registry.getComponent<ConjunctionComponent>(entity, ComponentType.CONJUNCTION);
+            return conjunction ? [...conjunction.events] : [];
+        }
+
+        // Each event is shared by both objects' components
+        const events = new Set<ConjunctionEvent>();
+        for (const holder of registry.getEntitiesWithComponent(ComponentType.CONJUNCTION)) {
+            const conjunction = registry.getComponent<ConjunctionComponent>(holder, ComponentType.CONJUNCTION);
+            conjunction?.events.forEach((event) => events.add(event));
+        }
+
+        return Array.from(events).sort((a, b) => a.tca - b.tca);
+    }
+
+    findConjunctionsInRange(start: number, end: number, maxMissDistance: number = Infinity): ConjunctionEvent[] {
+        return this.getConjunctions().filter((event) => event.tca >= start && event.tca <= end && event.missDistance <= maxMissDistance);
+    }
+
+    // Hierarchy queries
+    /**
+     * Entities attached to a parent
+     * @param recursive Include grandchildren and below (breadth-first order)
+     */
+    getChildren(entity: EntityId, recursive: boolean = false): EntityId[] {
+        const registry = this.ensureRegistry();
+        const attached = registry.getEntitiesWithComponent(ComponentType.HIERARCHY);
+        const childrenOf = (parent: EntityId) => attached.filter((child) => registry.getComponent<HierarchyComponent>(child, ComponentType.HIERARCHY)?.parent === parent);
+
+        const children = childrenOf(entity);
+        if (!recursive) return children;
+
+        // Guard against parent cycles
+        const visited = new Set<EntityId>([entity, ...children]);
+        for (let i = 0; i < children.length; i++) {
+            for (const child of childrenOf(children[i])) {
+                if (!visited.has(child)) {
+                    visited.add(child);
+                    children.push(child);
+                }
+            }
+        }
+        return children;
+    }
+
+    /**
+     * Parent chain of an entity, nearest first
+     */
+    getAncestors(entity: EntityId): EntityId[] {
+        const registry = this.ensureRegistry();
+        const ancestors: EntityId[] = [];
+
+        let hierarchy = registry.getComponent<HierarchyComponent>(entity, ComponentType.HIERARCHY);
+        while (hierarchy && hierarchy.parent !== entity && !ancestors.includes(hierarchy.parent)) {
+            ancestors.push(hierarchy.parent);
+            hierarchy = registry.getComponent<HierarchyComponent>(hierarchy.parent, ComponentType.HIERARCHY);
+        }
+        return ancestors;
+    }
+
     // Spatial queries
     findInRadius(center: THREE.Vector3, radius: number, frame?: ReferenceFrame): EntityId[] {
         const registry = this.ensureRegistry();
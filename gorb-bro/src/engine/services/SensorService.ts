@@ -0,0 +1,148 @@
+// Sensor Service - sensor pointing (nadir, body-fixed, target tracking) and field-of-view queries
+
+import type { EntityId, IComponentRegistry, IFrameConversionService, ISensorService, ITimeService, SensorComponent, SensorFrame } from "../types";
+import { ComponentType, ReferenceFrame, SensorPointing } from "../types";
+import { AttitudeEvaluator, axesFromQuaternion, lvlhAxes } from "../utils/Attitude";
+import { EntityStateSampler } from "../utils/EntityStateSampler";
+import { WGS84_A, WGS84_F } from "../utils/ReferenceFrames";
+import { isDirectionInFieldOfView, isLineOfSightClear } from "../utils/SensorGeometry";
+
+type Vec3 = [number, number, number];
+
+// Polar radius: the occlusion sphere must not hide anything sitting on the ellipsoid
+const OCCLUSION_RADIUS = WGS84_A * (1 - WGS84_F);
+
+export class SensorService implements ISensorService {
+    private componentRegistry: IComponentRegistry | null = null;
+    private frameService: IFrameConversionService;
+    private timeService: ITimeService | null;
+    private sampler: EntityStateSampler | null = null;
+    private attitudes: AttitudeEvaluator | null = null;
+
+    constructor(frameService: IFrameConversionService, timeService: ITimeService | null = null) {
+        this.frameService = frameService;
+        this.timeService = timeService;
+    }
+
+    setComponentRegistry(registry: IComponentRegistry): void {
+        this.componentRegistry = registry;
+        this.sampler = new EntityStateSampler(registry, this.frameService);
+        this.attitudes = new AttitudeEvaluator(registry, this.frameService, this.timeService);
+    }
+
+    private ensureRegistry(): IComponentRegistry {
+        if (!this.componentRegistry) {
+            throw new Error("ComponentRegistry not set in SensorService");
+        }
+        return this.componentRegistry;
+    }
+
+    /**
+     * Sensor axes at a time (J2000)
+     * The body frame comes from the entity's attitude (or its parent's); without one it is local vertical/local
+     * horizontal: +X along velocity, +Z towards the Earth's centre
+     * @returns null when the sensor (or its tracked target) cannot be positioned
+     */
+    getSensorFrame(sensor: EntityId, time: number): SensorFrame | null {
+        const registry = this.ensureRegistry();
+        const component = registry.getComponent<SensorComponent>(sensor, ComponentType.SENSOR);
+        const state = this.sampler!.getState(sensor, time, ReferenceFrame.J2000);
+        if (!component || !state) return null;
+
+        const origin: Vec3 = [state.position.x, state.position.y, state.position.z];
+        const velocity: Vec3 | null = state.velocity ? [state.velocity.vx, state.velocity.vy, state.velocity.vz] : null;
+        const orientation = this.attitudes!.getOrientation(sensor, time);
+        const body = orientation ? axesFromQuaternion(orientation) : lvlhAxes(origin, velocity);
+
+        let boresight: Vec3;
+        switch (component.pointing) {
+            case SensorPointing.FIXED: {
+                const [bx, by, bz] = component.boresight ?? [0, 0, 1];
+                boresight = normalize([
+                    bx * body.x[0] + by * body.y[0] + bz * body.z[0],
+                    bx * body.x[1] + by * body.y[1] + bz * body.z[1],
+                    bx * body.x[2] + by * body.y[2] + bz * body.z[2],
+                ]);
+                break;
+            }
+            case SensorPointing.TARGET: {
+                if (component.target === undefined) return null;
+                const target = this.sampler!.getPosition(component.target, time, ReferenceFrame.J2000);
+                if (!target) return null;
+                boresight = normalize([target.x - origin[0], target.y - origin[1], target.z - origin[2]]);
+                break;
+            }
+            default:
+                boresight = body.z;
+        }
+
+        // Sensor X follows body X; body Z stands in when the boresight lies along body X
+        const reference = Math.abs(dot(body.x, boresight)) < 0.999 ? body.x : body.z;
+        const xAxis = normalize(subtractScaled(reference, boresight, dot(reference, boresight)));
+
+        return {
+            origin: { x: origin[0], y: origin[1], z: origin[2] },
+            boresight,
+            xAxis,
+            yAxis: cross(boresight, xAxis),
+        };
+    }
+
+    /**
+     * Whether a target is inside the sensor's FOV and range limits, with the Earth not in the way
+     */
+    isInFieldOfView(sensor: EntityId, target: EntityId, time: number): boolean {
+        const frame = this.getSensorFrame(sensor, time);
+        if (!frame) return false;
+
+        return this.testTarget(sensor, frame, target, time);
+    }
+
+    /**
+     * Entities inside the sensor's FOV at a time
+     * @param candidates Entities to test (default: every propagated or positioned entity)
+     */
+    findInFieldOfView(sensor: EntityId, time: number, candidates?: EntityId[]): EntityId[] {
+        const registry = this.ensureRegistry();
+        const frame = this.getSensorFrame(sensor, time);
+        if (!frame) return [];
+
+        const entities = candidates ?? Array.from(new Set([...registry.getEntitiesWithComponent(ComponentType.PROPAGATOR), ...registry.getEntitiesWithComponent(ComponentType.POSITION)]));
+
+        return entities.filter((target) => target !== sensor && this.testTarget(sensor, frame, target, time));
+    }
+
+    private testTarget(sensor: EntityId, frame: SensorFrame, target: EntityId, time: number): boolean {
+        const component = this.ensureRegistry().getComponent<SensorComponent>(sensor, ComponentType.SENSOR);
+        const position = this.sampler!.getPosition(target, time, ReferenceFrame.J2000);
+        if (!component || !position) return false;
+
+        const origin: Vec3 = [frame.origin.x, frame.origin.y, frame.origin.z];
+        const offset: Vec3 = [position.x - origin[0], position.y - origin[1], position.z - origin[2]];
+        const range = Math.sqrt(dot(offset, offset));
+        if (range < (component.minRange ?? 0) || range > (component.maxRange ?? Infinity)) return false;
+
+        if (!isDirectionInFieldOfView(component, dot(offset, frame.xAxis), dot(offset, frame.yAxis), dot(offset, frame.boresight))) {
+            return false;
+        }
+
+        return isLineOfSightClear(origin, [position.x, position.y, position.z], OCCLUSION_RADIUS);
+    }
+}
+
+function dot(a: Vec3, b: Vec3): number {
+    return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+    return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function normalize(v: Vec3): Vec3 {
+    const length = Math.sqrt(dot(v, v)) || 1;
+    return [v[0] / length, v[1] / length, v[2] / length];
+}
+
+function subtractScaled(a: Vec3, b: Vec3, scale: number): Vec3 {
+    return [a[0] - b[0] * scale, a[1] - b[1] * scale, a[2] - b[2] * scale];
+}
@@ -1,17 +1,24 @@
 // Time Service - manages simulation time and time system conversions
 
-import type { ITimeService, TimeConverter } from "../types";
+import type { EOPEntry, ITimeService, TimeConverter } from "../types";
 import { TimeSystem } from "../types";
+import { TimeScaleConverter, formatTimeScale } from "../utils/TimeScales";
 
 export class TimeService implements ITimeService {
     private currentTime: number;
     private rate: number = 1.0;
     private isPlaying: boolean = false;
     private converters: Map<string, TimeConverter> = new Map();
+    private timeScales: TimeScaleConverter = new TimeScaleConverter();
     private callbacks: Set<(time: number) => void> = new Set();
 
     constructor(initialTime?: number) {
         this.currentTime = initialTime ?? Date.now();
+
+        // Built-in scales; addTimeSystem can override any of them
+        for (const system of Object.values(TimeSystem)) {
+            this.converters.set(system, this.timeScales);
+        }
     }
 
     getCurrentTime(): number {
@@ -35,17 +42,42 @@ export class TimeService implements ITimeService {
         this.converters.set(name, converter);
     }
 
+    /**
+     * Convert a time value between scales (see utils/TimeScales for the value conventions)
+     */
     convert(time: number, from: TimeSystem, to: TimeSystem): number {
         if (from === to) return time;
 
-        // For now, simple pass-through
-        // In a full implementation, this would do proper time system conversions
-        const converter = this.converters.get(from);
-        if (converter) {
-            return converter.convert(time, from, to);
-        }
+        const converter = this.converters.get(from) ?? this.timeScales;
+        return converter.convert(time, from, to);
+    }
+
+    /**
+     * Get the simulation time (or a given UTC timestamp) expressed in another scale
+     */
+    getTimeIn(system: TimeSystem, time: number = this.currentTime): number {
+        return this.convert(time, TimeSystem.UTC, system);
+    }
+
+    /**
+     * Format the simulation time (or a given UTC timestamp) in another scale for display
+     */
+    formatTime(system: TimeSystem, time: number = this.currentTime): string {
+        return formatTimeScale(this.getTimeIn(system, time), system);
+    }
+
+    /**
+     * Load Earth Orientation Parameters so UT1 (and Earth rotation) track the real Earth
+     */
+    loadEOP(entries: EOPEntry[]): void {
+        this.timeScales.loadEOP(entries);
+    }
 
-        return time;
+    /**
+     * Access the built-in leap-second/EOP converter
+     */
+    getTimeScaleConverter(): TimeScaleConverter {
+        return this.timeScales;
     }
 
     play(): void {
@@ -0,0 +1,54 @@
+// Attitude System - evaluates each entity's attitude law so TransformSystem can orient it
+
+import type { System, EntityId, IEngine, IFrameConversionService, ITimeService, AttitudeComponent } from "../types";
+import { ComponentType } from "../types";
+import { AttitudeEvaluator } from "../utils/Attitude";
+
+export class AttitudeSystem implements System {
+    name = "attitude";
+    priority = 150; // After propagation (100), before TransformSystem (200)
+    requiredComponents = [ComponentType.ATTITUDE];
+
+    private engine: IEngine | null = null;
+    private timeService: ITimeService | null = null;
+    private evaluator: AttitudeEvaluator | null = null;
+    public attitudeTime: number = 0; // Exposed for stats
+
+    init(engine: IEngine): void {
+        this.engine = engine;
+        this.timeService = engine.getService<ITimeService>("time") ?? null;
+
+        const frameService = engine.getService<IFrameConversionService>("frame");
+        if (frameService) {
+            this.evaluator = new AttitudeEvaluator(engine.getComponentRegistry(), frameService, this.timeService);
+        } else {
+            console.warn("[AttitudeSystem] ⚠️ Frame conversion service not found, attitudes disabled");
+        }
+    }
+
+    update(_deltaTime: number, entities: EntityId[]): void {
+        if (!this.engine || !this.evaluator) return;
+
+        const startTime = performance.now();
+        const time = this.timeService?.getCurrentTime() ?? Date.now();
+
+        for (const entity of entities) {
+            const attitude = this.engine.getComponent<AttitudeComponent>(entity, ComponentType.ATTITUDE);
+            const result = attitude && this.evaluator.getAttitude(entity, time);
+
+            // Keep the last orientation when the law cannot be evaluated (e.g. target not positioned)
+            if (!attitude || !result) continue;
+
+            attitude.quaternion = result.quaternion;
+            attitude.angularRate = result.angularRate;
+        }
+
+        this.attitudeTime = performance.now() - startTime;
+    }
+
+    cleanup(): void {
+        this.engine = null;
+        this.timeService = null;
+        this.evaluator = null;
+    }
+}
@@ -1,6 +1,6 @@
 // System to update celestial bodies (Earth rotation, Sun/Moon positions)
 
-import type { System, EntityId, IEngine } from "../types";
+import type { System, IEngine, ITimeService } from "../types";
 import type { Earth } from "../objects/Earth";
 import type { Sun } from "../objects/Sun";
 import type { Moon } from "../objects/Moon";
@@ -17,12 +17,13 @@ export class CelestialUpdateSystem implements System {
     requiredComponents = [];
 
     private celestialBodies: CelestialBodies = {};
-    private lastSunMoonUpdate: number = 0;
-    private sunMoonUpdateInterval: number = 60000; // Update every minute
+    private timeService: ITimeService | null = null;
+    private lastSunMoonUpdate: number = NaN;
+    private sunMoonUpdateInterval: number = 0; // Simulation ms between updates (0 = every frame)
     public celestialUpdateTime: number = 0; // Exposed for stats
 
-    init(_engine: IEngine): void {
-        // No initialization needed
+    init(engine: IEngine): void {
+        this.timeService = engine.getService<ITimeService>("time") ?? null;
     }
 
     /**
@@ -33,32 +34,34 @@ export class CelestialUpdateSystem implements System {
     }
 
     /**
-     * Set how often sun/moon positions update (in milliseconds)
+     * Set how often sun/moon positions update (in simulation milliseconds)
      */
     setSunMoonUpdateInterval(interval: number): void {
         this.sunMoonUpdateInterval = interval;
     }
 
-    update(deltaTime: number, _entities: EntityId[]): void {
+    update(): void {
         const startTime = performance.now();
-        const now = Date.now();
+        const simTime = this.timeService?.getCurrentTime() ?? Date.now();
 
-        // Update Earth rotation
+        // Orient Earth from GMST at the simulation time
         if (this.celestialBodies.earth) {
-            this.celestialBodies.earth.updateRotation(deltaTime);
+            this.celestialBodies.earth.updateRotation(simTime);
         }
 
-        // Update Sun and Moon positions periodically
-        if (now - this.lastSunMoonUpdate >= this.sunMoonUpdateInterval) {
+        // Update Sun (and its light) and Moon from simulation time; abs() catches backward scrubs
+        if (isNaN(this.lastSunMoonUpdate) || Math.abs(simTime - this.lastSunMoonUpdate) >= this.sunMoonUpdateInterval) {
+            const date = new Date(simTime);
+
             if (this.celestialBodies.sun) {
-                this.celestialBodies.sun.updateSunPosition(new Date(now));
+                this.celestialBodies.sun.updateSunPosition(date);
             }
 
             if (this.celestialBodies.moon) {
-                this.celestialBodies.moon.updateMoonPosition(new Date(now));
+                this.celestialBodies.moon.updateMoonPosition(date);
             }
 
-            this.lastSunMoonUpdate = now;
+            this.lastSunMoonUpdate = simTime;
         }
 
         this.celestialUpdateTime = performance.now() - startTime;
@@ -66,5 +69,6 @@ export class CelestialUpdateSystem implements System {
 
     cleanup(): void {
         this.celestialBodies = {};
+        this.timeService = null;
     }
 }
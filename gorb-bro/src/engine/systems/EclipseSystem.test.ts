@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import * as satellite from "satellite.js";
+import { Engine } from "../Engine";
+import { createRSO } from "../factories/RSOFactory";
+import { EclipseSystem } from "./EclipseSystem";
+import { PropagationSystem } from "./PropagationSystem";
+import { SUN_RADIUS, sunPositionECI } from "../utils/Ephemeris";
+import { julianDateFromUnix, WGS84_A } from "../utils/ReferenceFrames";
+import { ComponentType, EclipseState, ReferenceFrame, TimeSystem } from "../types";
+import type { EclipseComponent, IFrameConversionService, ITimeService } from "../types";
+
+const tle = {
+    name: "ISS",
+    line1: "1 25544U 98067A   25292.51782528  .00012081  00000+0  21990-3 0  9993",
+    line2: "2 25544  51.6330 141.5513 0004371  79.4578 280.6859 15.49788734534361",
+};
+const start = Date.UTC(2025, 9, 20);
+
+function setup() {
+    const engine = new Engine();
+    const entity = createRSO(engine, { tle });
+    engine.addSystem(new PropagationSystem());
+    const eclipse = new EclipseSystem();
+    engine.addSystem(eclipse);
+    const time = engine.getService<ITimeService>("time")!;
+    time.pause();
+    return { engine, entity, eclipse, time };
+}
+
+/**
+ * Shadow from the apparent disks: umbra when the Sun's disk is fully behind the Earth's, penumbra when they overlap
+ */
+function shadowAt(engine: Engine, time: number): EclipseState {
+    const frames = engine.getService<IFrameConversionService>("frame")!;
+    const timeService = engine.getService<ITimeService>("time")!;
+    const state = satellite.propagate(satellite.twoline2satrec(tle.line1, tle.line2), new Date(time));
+    if (!state?.position) throw new Error("SGP4 failed");
+
+    const r = frames.convert(state.position, ReferenceFrame.TEME, ReferenceFrame.J2000, time);
+    const s = sunPositionECI(julianDateFromUnix(timeService.convert(time, TimeSystem.UTC, TimeSystem.TT)));
+    const toSun = { x: s.x - r.x, y: s.y - r.y, z: s.z - r.z };
+    const sunDistance = Math.hypot(toSun.x, toSun.y, toSun.z);
+    const earthDistance = Math.hypot(r.x, r.y, r.z);
+
+    const earthRadius = Math.asin(WGS84_A / earthDistance);
+    const sunRadius = Math.asin(SUN_RADIUS / sunDistance);
+    const separation = Math.acos(-(toSun.x * r.x + toSun.y * r.y + toSun.z * r.z) / (sunDistance * earthDistance));
+
+    if (separation <= earthRadius - sunRadius) return EclipseState.UMBRA;
+    return separation < earthRadius + sunRadius ? EclipseState.PENUMBRA : EclipseState.SUNLIT;
+}
+
+/**
+ * First whole second after from (searching up to 10 s) where the shadow state differs from the one at from
+ */
+function nextChange(engine: Engine, from: number): number {
+    const initial = shadowAt(engine, from);
+    for (let time = from + 1000; time <= from + 10000; time += 1000) {
+        if (shadowAt(engine, time) !== initial) return time;
+    }
+    throw new Error("No shadow change within 10 s");
+}
+
+describe("EclipseSystem", () => {
+    it("finds penumbra and umbra entry and exit times to within a second", () => {
+        const { engine, entity, eclipse } = setup();
+        const intervals = eclipse.getEclipseIntervals(entity, start, start + 6 * 3600000);
+        expect(intervals.length).toBeGreaterThanOrEqual(3);
+
+        for (const interval of intervals) {
+            if (interval.start === start) continue;
+            expect(interval.umbraStart).not.toBeNull();
+            expect(interval.umbraEnd).not.toBeNull();
+
+            // Each boundary lies in the second before the sampled change (the penumbra lasts well over 5 s)
+            for (const boundary of [interval.start, interval.umbraStart!, interval.umbraEnd!, interval.end]) {
+                const change = nextChange(engine, boundary - 5000);
+                expect(boundary).toBeGreaterThan(change - 1100);
+                expect(boundary).toBeLessThan(change + 100);
+            }
+        }
+    });
+
+    it("classifies each frame like the shadow geometry", () => {
+        const { engine, entity, eclipse, time } = setup();
+        const [interval] = eclipse.getEclipseIntervals(entity, start + 3600000, start + 3 * 3600000);
+
+        const penumbra = (interval.start + interval.umbraStart!) / 2;
+        const umbra = (interval.umbraStart! + interval.umbraEnd!) / 2;
+        for (const t of [interval.start - 60000, penumbra, umbra, interval.end + 60000]) {
+            time.setTime(t);
+            engine.update(0);
+            expect(engine.getComponent<EclipseComponent>(entity, ComponentType.ECLIPSE)?.state).toBe(shadowAt(engine, t));
+        }
+    });
+
+    it("leaves time-hidden entities unclassified", () => {
+        const { engine, entity, time } = setup();
+        time.setTime(start);
+        engine.addComponent(entity, { type: ComponentType.TIME_VISIBILITY, available: false });
+        engine.update(0);
+        expect(engine.getComponent<EclipseComponent>(entity, ComponentType.ECLIPSE)).toBeUndefined();
+    });
+});
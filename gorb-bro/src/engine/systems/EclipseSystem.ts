@@ -0,0 +1,200 @@
+// Eclipse System - classifies propagated entities as sunlit, penumbra or umbra (conical Earth shadow)
+// Also finds shadow entry/exit times for one entity over a span
+
+import type {
+    System,
+    EntityId,
+    IEngine,
+    IFrameConversionService,
+    ITimeService,
+    EclipseComponent,
+    EclipseInterval,
+    EclipseSearchOptions,
+    PositionComponent,
+} from "../types";
+import { ComponentType, EclipseState, ReferenceFrame, TimeSystem } from "../types";
+import type { InstancedSatelliteSystem } from "./InstancedSatelliteSystem";
+import { sunlightFraction, sunPositionECI } from "../utils/Ephemeris";
+import { EntityStateSampler } from "../utils/EntityStateSampler";
+import { julianDateFromUnix } from "../utils/ReferenceFrames";
+import { isTimeHidden } from "../utils/TimeVisibility";
+
+export class EclipseSystem implements System {
+    name = "eclipse";
+    priority = 150; // After propagation (100) so positions are current
+    requiredComponents = [ComponentType.PROPAGATOR];
+
+    private engine: IEngine | null = null;
+    private timeService: ITimeService | null = null;
+    private frameService: IFrameConversionService | null = null;
+    private instancedSatelliteSystem: InstancedSatelliteSystem | null = null;
+    private sampler: EntityStateSampler | null = null;
+
+    // Reused per entity to keep the frame loop allocation-free
+    private position = { x: 0, y: 0, z: 0 };
+    public eclipseTime: number = 0; // Exposed for stats
+
+    init(engine: IEngine): void {
+        this.engine = engine;
+        this.timeService = engine.getService<ITimeService>("time") ?? null;
+        this.frameService = engine.getService<IFrameConversionService>("frame") ?? null;
+        this.instancedSatelliteSystem = (engine.getSystem("instancedSatellite") as InstancedSatelliteSystem | undefined) ?? null;
+
+        if (this.frameService) {
+            this.sampler = new EntityStateSampler(engine.getComponentRegistry(), this.frameService);
+        } else {
+            console.warn("[EclipseSystem] ⚠️ Frame conversion service not found, eclipse states disabled");
+        }
+    }
+
+    update(_deltaTime: number, entities: EntityId[]): void {
+        if (!this.engine || !this.timeService || !this.frameService) return;
+
+        const startTime = performance.now();
+        const time = this.timeService.getCurrentTime();
+
+        // Work in render axes scaled back to km: the geometry only needs Earth-centred distances and angles
+        const kmPerUnit = 1 / this.frameService.getRenderFrameConfig().unitsPerKm;
+        const sun = this.frameService.convert(this.sunPosition(time), ReferenceFrame.J2000, ReferenceFrame.RENDER, time);
+        sun.x *= kmPerUnit;
+        sun.y *= kmPerUnit;
+        sun.z *= kmPerUnit;
+
+        const positionArray = this.instancedSatelliteSystem?.getPositionArray();
+
+        for (const entity of entities) {
+            // Unavailable and out-of-range entities have no real position (instanced ones sit at the origin)
+            if (isTimeHidden(this.engine, entity)) continue;
+
+            const index = this.instancedSatelliteSystem?.getEntityIndex(entity);
+            const position = this.position;
+
+            if (positionArray && index !== undefined && index >= 0) {
+                const i3 = index * 3;
+                position.x = positionArray[i3] * kmPerUnit;
+                position.y = positionArray[i3 + 1] * kmPerUnit;
+                position.z = positionArray[i3 + 2] * kmPerUnit;
+            } else {
+                // Without instanced rendering, propagation writes position components in the propagator frame
+                const component = this.engine.getComponent<PositionComponent>(entity, ComponentType.POSITION);
+                if (!component) continue;
+
+                this.frameService.convert(component, component.frame, ReferenceFrame.RENDER, time, position);
+                position.x *= kmPerUnit;
+                position.y *= kmPerUnit;
+                position.z *= kmPerUnit;
+            }
+
+            const fraction = sunlightFraction(position, sun);
+            const state = classify(fraction);
+
+            const eclipse = this.engine.getComponent<EclipseComponent>(entity, ComponentType.ECLIPSE);
+            if (eclipse) {
+                eclipse.state = state;
+                eclipse.sunlightFraction = fraction;
+            } else {
+                this.engine.addComponent(entity, { type: ComponentType.ECLIPSE, state, sunlightFraction: fraction });
+            }
+        }
+
+        this.eclipseTime = performance.now() - startTime;
+    }
+
+    /**
+     * Shadow passes of one entity over [start, end], from a coarse scan refined by bisection
+     * Uses an analysis propagator, so results do not depend on the render loop
+     */
+    getEclipseIntervals(entity: EntityId, start: number, end: number, options: EclipseSearchOptions = {}): EclipseInterval[] {
+        if (!this.sampler) {
+            throw new Error("EclipseSystem not initialized");
+        }
+        if (!(end > start)) {
+            throw new Error("Eclipse search end must be after its start");
+        }
+
+        const step = options.step ?? 30000;
+        const tolerance = options.tolerance ?? 100;
+        const sampler = this.sampler;
+
+        const fractionAt = (time: number): number => {
+            const position = sampler.getPosition(entity, time, ReferenceFrame.J2000);
+            return position ? sunlightFraction(position, this.sunPosition(time)) : NaN;
+        };
+
+        const intervals: EclipseInterval[] = [];
+        let previous = fractionAt(start);
+        if (isNaN(previous)) return intervals;
+
+        let current: EclipseInterval | null = previous < 1 ? { start, end, umbraStart: previous === 0 ? start : null, umbraEnd: null } : null;
+        let previousTime = start;
+
+        while (previousTime < end) {
+            const time = Math.min(previousTime + step, end);
+            const fraction = fractionAt(time);
+            if (isNaN(fraction)) break;
+
+            // Shadow is entered before the umbra and left after it; one coarse step may hold both crossings
+            if (previous === 1 && fraction < 1) {
+                current = { start: findCrossing((t) => fractionAt(t) < 1, previousTime, time, tolerance), end, umbraStart: null, umbraEnd: null };
+            }
+            if (current && previous > 0 && fraction === 0) {
+                current.umbraStart = findCrossing((t) => fractionAt(t) === 0, previousTime, time, tolerance);
+            }
+            if (current && previous === 0 && fraction > 0) {
+                current.umbraEnd = findCrossing((t) => fractionAt(t) > 0, previousTime, time, tolerance);
+            }
+            if (current && previous < 1 && fraction === 1) {
+                current.end = findCrossing((t) => fractionAt(t) === 1, previousTime, time, tolerance);
+                intervals.push(current);
+                current = null;
+            }
+
+            previousTime = time;
+            previous = fraction;
+        }
+
+        // Still in shadow at the end of the span
+        if (current) {
+            current.end = previousTime;
+            if (current.umbraStart !== null && current.umbraEnd === null) {
+                current.umbraEnd = previousTime;
+            }
+            intervals.push(current);
+        }
+
+        return intervals;
+    }
+
+    private sunPosition(time: number): { x: number; y: number; z: number } {
+        const tt = this.timeService ? this.timeService.convert(time, TimeSystem.UTC, TimeSystem.TT) : time;
+        return sunPositionECI(julianDateFromUnix(tt));
+    }
+
+    cleanup(): void {
+        this.engine = null;
+        this.timeService = null;
+        this.frameService = null;
+        this.instancedSatelliteSystem = null;
+        this.sampler = null;
+    }
+}
+
+function classify(fraction: number): EclipseState {
+    if (fraction >= 1) return EclipseState.SUNLIT;
+    return fraction <= 0 ? EclipseState.UMBRA : EclipseState.PENUMBRA;
+}
+
+/**
+ * First time in (t0, t1] where the predicate holds, assuming it switches from false to true once
+ */
+function findCrossing(predicate: (time: number) => boolean, t0: number, t1: number, tolerance: number): number {
+    while (t1 - t0 > tolerance) {
+        const mid = (t0 + t1) / 2;
+        if (predicate(mid)) {
+            t1 = mid;
+        } else {
+            t0 = mid;
+        }
+    }
+    return t1;
+}
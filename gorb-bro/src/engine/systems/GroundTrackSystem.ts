@@ -0,0 +1,327 @@
+// Ground Track System - draws the selected entity's sub-satellite track (and optional sensor swath) on the globe
+
+import * as THREE from "three";
+import type { System, EntityId, IEngine, IFrameConversionService, ITimeService } from "../types";
+import { ReferenceFrame, TimeSystem } from "../types";
+import type { RenderingService } from "../services/RenderingService";
+import type { SelectionService } from "../services/SelectionService";
+import { sunPositionECI } from "../utils/Ephemeris";
+import { EntityStateSampler } from "../utils/EntityStateSampler";
+import { computeGroundTrack, computeSwath, splitAtAntimeridian, type GroundSwath, type GroundTrackPoint } from "../utils/GroundTrack";
+import { EARTH_RADIUS } from "../utils/OrbitalMath";
+import { geodeticToECEF, julianDateFromUnix, WGS84_A, WGS84_F } from "../utils/ReferenceFrames";
+import { isTimeHidden } from "../utils/TimeVisibility";
+
+export interface GroundTrackOptions {
+    /**
+     * Track window before and after the current time (ms)
+     * Default: 45 minutes before, 90 minutes after
+     */
+    before?: number;
+    after?: number;
+
+    /**
+     * Track sample spacing (ms); the track is also rebuilt once the clock has moved this far
+     * Default: 30000
+     */
+    step?: number;
+
+    /**
+     * Track colors where the ground point is in daylight / at night
+     * Default: 0xffd060 / 0x4070ff
+     */
+    dayColor?: number;
+    nightColor?: number;
+
+    /**
+     * Sensor half-angle from nadir (degrees) for the swath band; no swath when unset
+     * Default: undefined
+     */
+    swathHalfAngle?: number;
+
+    /**
+     * Swath band color and opacity
+     * Default: 0x40ff80, 0.2
+     */
+    swathColor?: number;
+    swathOpacity?: number;
+}
+
+// Height above the WGS84 ellipsoid (km): clears the spherical globe mesh at the poles by 8 km so the lines do not z-fight with it
+const SURFACE_OFFSET = EARTH_RADIUS - WGS84_A * (1 - WGS84_F) + 8;
+
+export class GroundTrackSystem implements System {
+    name = "groundTrack";
+    priority = 900; // Before RenderSystem (1000)
+    requiredComponents = [];
+
+    private engine: IEngine | null = null;
+    private renderingService: RenderingService | null = null;
+    private selectionService: SelectionService | null = null;
+    private timeService: ITimeService | null = null;
+    private frameService: IFrameConversionService | null = null;
+    private sampler: EntityStateSampler | null = null;
+    private unsubscribeSelection: (() => void) | null = null;
+
+    private options: GroundTrackOptions;
+    private entity: EntityId | null = null;
+    private computedAt: number = NaN;
+    private track: GroundTrackPoint[] = [];
+    private swath: GroundSwath | null = null;
+
+    // Geometry is built in ECEF km on the globe sphere; the group carries the ECEF render transform (orientation and scale)
+    private group: THREE.Group = new THREE.Group();
+    private trackLines: THREE.LineSegments | null = null;
+    private swathMesh: THREE.Mesh | null = null;
+    private dayColor: THREE.Color = new THREE.Color();
+    private nightColor: THREE.Color = new THREE.Color();
+    public groundTrackTime: number = 0; // Exposed for stats
+
+    constructor(options: GroundTrackOptions = {}) {
+        this.options = { ...options };
+        this.group.matrixAutoUpdate = false;
+    }
+
+    init(engine: IEngine): void {
+        this.engine = engine;
+        this.renderingService = engine.getService<RenderingService>("rendering") ?? null;
+        this.selectionService = engine.getService<SelectionService>("selection") ?? null;
+        this.timeService = engine.getService<ITimeService>("time") ?? null;
+        this.frameService = engine.getService<IFrameConversionService>("frame") ?? null;
+
+        if (!this.frameService || !this.selectionService) {
+            console.warn("GroundTrackSystem requires FrameConversionService and SelectionService");
+            return;
+        }
+
+        this.sampler = new EntityStateSampler(engine.getComponentRegistry(), this.frameService);
+
+        this.unsubscribeSelection = this.selectionService.onSelectionChange((entityId) => {
+            this.entity = entityId;
+            this.computedAt = NaN;
+        });
+        this.entity = this.selectionService.getSelectedEntity();
+
+        this.renderingService?.getScene().add(this.group);
+    }
+
+    /**
+     * Change options; the track is rebuilt on the next update
+     */
+    setOptions(options: GroundTrackOptions): void {
+        this.options = { ...this.options, ...options };
+        this.computedAt = NaN;
+    }
+
+    /**
+     * Current track of the selected entity (empty when nothing is selected)
+     */
+    getGroundTrack(): GroundTrackPoint[] {
+        return this.track;
+    }
+
+    /**
+     * Current track split at the antimeridian, for 2D map views
+     */
+    getGroundTrackSegments(): GroundTrackPoint[][] {
+        return splitAtAntimeridian(this.track);
+    }
+
+    /**
+     * Current swath edges, or null when no swath half-angle is configured
+     */
+    getSwath(): GroundSwath | null {
+        return this.swath;
+    }
+
+    update(): void {
+        if (!this.frameService || !this.sampler) return;
+
+        const startTime = performance.now();
+        const time = this.timeService?.getCurrentTime() ?? Date.now();
+        const step = this.options.step ?? 30000;
+
+        if (this.entity === null) {
+            if (this.track.length > 0) {
+                this.track = [];
+                this.swath = null;
+                this.rebuildGeometry();
+            }
+            return;
+        }
+
+        // Hidden with the entity outside its availability; the track catches up once it is visible again
+        this.group.visible = !(this.engine && isTimeHidden(this.engine, this.entity));
+        if (!this.group.visible) return;
+
+        // abs() catches backward scrubs
+        if (isNaN(this.computedAt) || Math.abs(time - this.computedAt) >= step) {
+            this.computeTrack(this.entity, time, step);
+            this.rebuildGeometry();
+            this.computedAt = time;
+        }
+
+        // Follow the globe (same transform as Earth.updateRotation), including the render scale
+        this.group.matrix.copy(this.frameService.getRenderMatrix(ReferenceFrame.ECEF, time));
+        this.group.matrixWorldNeedsUpdate = true;
+
+        this.groundTrackTime = performance.now() - startTime;
+    }
+
+    private computeTrack(entity: EntityId, time: number, step: number): void {
+        const sampler = this.sampler!;
+        const frameService = this.frameService!;
+
+        const sunAt = (t: number) => {
+            const tt = this.timeService ? this.timeService.convert(t, TimeSystem.UTC, TimeSystem.TT) : t;
+            return frameService.convert(sunPositionECI(julianDateFromUnix(tt)), ReferenceFrame.J2000, ReferenceFrame.ECEF, t);
+        };
+
+        const start = time - (this.options.before ?? 45 * 60000);
+        const end = time + (this.options.after ?? 90 * 60000);
+
+        // Align samples to the step so consecutive rebuilds share sample times
+        const alignedStart = Math.floor(start / step) * step;
+        this.track = computeGroundTrack((t) => sampler.getPosition(entity, t, ReferenceFrame.ECEF), sunAt, alignedStart, end, step);
+        this.swath = this.options.swathHalfAngle !== undefined ? computeSwath(this.track, this.options.swathHalfAngle) : null;
+    }
+
+    /**
+     * Write the track (and swath) into the line and mesh buffers, which are only reallocated when they need to grow
+     */
+    private rebuildGeometry(): void {
+        if (this.track.length < 2) {
+            if (this.trackLines) this.trackLines.visible = false;
+            if (this.swathMesh) this.swathMesh.visible = false;
+            return;
+        }
+
+        const dayColor = this.dayColor.setHex(this.options.dayColor ?? 0xffd060);
+        const nightColor = this.nightColor.setHex(this.options.nightColor ?? 0x4070ff);
+
+        // Track: one segment per consecutive pair, colored at each end by daylight
+        const trackLines = this.ensureTrackLines(2 * (this.track.length - 1));
+        const positions = trackLines.geometry.getAttribute("position") as THREE.BufferAttribute;
+        const colors = trackLines.geometry.getAttribute("color") as THREE.BufferAttribute;
+        let vertex = 0;
+        for (let i = 1; i < this.track.length; i++) {
+            for (let j = i - 1; j <= i; j++) {
+                const point = this.track[j];
+                setSurfacePoint(positions, vertex, point, SURFACE_OFFSET);
+                const color = point.daylight ? dayColor : nightColor;
+                colors.setXYZ(vertex++, color.r, color.g, color.b);
+            }
+        }
+        positions.needsUpdate = true;
+        colors.needsUpdate = true;
+        trackLines.geometry.setDrawRange(0, vertex);
+        trackLines.geometry.computeBoundingSphere();
+        trackLines.visible = true;
+
+        // Swath: a strip between the edges, slightly below the track line
+        if (!this.swath || this.swath.left.length < 2) {
+            if (this.swathMesh) this.swathMesh.visible = false;
+            return;
+        }
+
+        const { left, right } = this.swath;
+        const swathMesh = this.ensureSwathMesh(left.length);
+        const swathPositions = swathMesh.geometry.getAttribute("position") as THREE.BufferAttribute;
+        for (let i = 0; i < left.length; i++) {
+            setSurfacePoint(swathPositions, 2 * i, left[i], SURFACE_OFFSET - 1);
+            setSurfacePoint(swathPositions, 2 * i + 1, right[i], SURFACE_OFFSET - 1);
+        }
+        swathPositions.needsUpdate = true;
+        swathMesh.geometry.setDrawRange(0, 6 * (left.length - 1));
+        swathMesh.geometry.computeBoundingSphere();
+
+        const material = swathMesh.material as THREE.MeshBasicMaterial;
+        material.color.setHex(this.options.swathColor ?? 0x40ff80);
+        material.opacity = this.options.swathOpacity ?? 0.2;
+        swathMesh.visible = true;
+    }
+
+    /**
+     * Track line segments with room for at least the given vertex count
+     */
+    private ensureTrackLines(vertices: number): THREE.LineSegments {
+        const capacity = (this.trackLines?.geometry.getAttribute("position") as THREE.BufferAttribute | undefined)?.count ?? 0;
+        if (this.trackLines && capacity >= vertices) return this.trackLines;
+
+        this.disposeObject(this.trackLines);
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute("position", new THREE.BufferAttribute(new Float32Array(vertices * 3), 3));
+        geometry.setAttribute("color", new THREE.BufferAttribute(new Float32Array(vertices * 3), 3));
+        this.trackLines = new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ vertexColors: true }));
+        this.group.add(this.trackLines);
+        return this.trackLines;
+    }
+
+    /**
+     * Swath strip with room for at least the given number of edge point pairs; the triangle indices are fixed
+     */
+    private ensureSwathMesh(pairs: number): THREE.Mesh {
+        const capacity = (this.swathMesh?.geometry.getAttribute("position") as THREE.BufferAttribute | undefined)?.count ?? 0;
+        if (this.swathMesh && capacity >= 2 * pairs) return this.swathMesh;
+
+        this.disposeObject(this.swathMesh);
+        const indices = new Uint32Array(6 * (pairs - 1));
+        for (let i = 1; i < pairs; i++) {
+            const a = 2 * (i - 1);
+            indices.set([a, a + 1, a + 2, a + 1, a + 3, a + 2], 6 * (i - 1));
+        }
+
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute("position", new THREE.BufferAttribute(new Float32Array(pairs * 2 * 3), 3));
+        geometry.setIndex(new THREE.BufferAttribute(indices, 1));
+        this.swathMesh = new THREE.Mesh(
+            geometry,
+            new THREE.MeshBasicMaterial({
+                transparent: true,
+                side: THREE.DoubleSide,
+                depthWrite: false,
+            })
+        );
+        this.group.add(this.swathMesh);
+        return this.swathMesh;
+    }
+
+    private disposeObject(object: THREE.Mesh | THREE.LineSegments | null): void {
+        if (!object) return;
+        this.group.remove(object);
+        object.geometry.dispose();
+        (object.material as THREE.Material).dispose();
+    }
+
+    private disposeGeometry(): void {
+        this.disposeObject(this.trackLines);
+        this.disposeObject(this.swathMesh);
+        this.trackLines = null;
+        this.swathMesh = null;
+    }
+
+    cleanup(): void {
+        this.disposeGeometry();
+        this.renderingService?.getScene().remove(this.group);
+        this.unsubscribeSelection?.();
+
+        this.unsubscribeSelection = null;
+        this.engine = null;
+        this.renderingService = null;
+        this.selectionService = null;
+        this.timeService = null;
+        this.frameService = null;
+        this.sampler = null;
+        this.track = [];
+        this.swath = null;
+    }
+}
+
+/**
+ * Write a geodetic point as ECEF coordinates (WGS84, like station and satellite positions)
+ * @param altitude Height above the ellipsoid in km
+ */
+function setSurfacePoint(target: THREE.BufferAttribute, index: number, point: GroundTrackPoint, altitude: number): void {
+    const ecef = geodeticToECEF(point.lat, point.lon, altitude);
+    target.setXYZ(index, ecef.x, ecef.y, ecef.z);
+}
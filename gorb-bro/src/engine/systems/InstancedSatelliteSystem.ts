@@ -2,9 +2,36 @@
 // Based on the EntityManager approach with InstancedBufferGeometry
 
 import * as THREE from "three";
-import type { System, EntityId, IEngine, BillboardComponent } from "../types";
-import { ComponentType } from "../types";
+import type { System, EntityId, IEngine, BillboardComponent, EclipseComponent, PropagatorComponent, TimeVisibilityComponent } from "../types";
+import { ComponentType, EclipseState } from "../types";
 import type { RenderingService } from "../services/RenderingService";
+import type { IconAtlas } from "../utils/IconAtlas";
+import type { LODSystem } from "./LODSystem";
+import type { ModelSystem } from "./ModelSystem";
+
+/**
+ * Eclipse-driven instance coloring (needs the EclipseSystem)
+ */
+export interface EclipseShading {
+    /**
+     * "dim" scales the billboard color by the visible fraction of the Sun,
+     * "recolor" swaps in fixed colors for shadowed instances
+     */
+    mode: "dim" | "recolor";
+
+    /**
+     * Brightness in umbra for "dim"; penumbra interpolates up to full brightness
+     * Default: 0.25
+     */
+    umbraBrightness?: number;
+
+    /**
+     * Colors for "recolor"
+     * Default: 0xffa040 in penumbra, 0x4060ff in umbra
+     */
+    penumbraColor?: number;
+    umbraColor?: number;
+}
 
 export class InstancedSatelliteSystem implements System {
     name = "instancedSatellite";
@@ -24,6 +51,9 @@ export class InstancedSatelliteSystem implements System {
     private positions: Float32Array;
     private colors: Float32Array;
     private sizes: Float32Array;
+    private baseSizes: Float32Array; // Size each slot returns to after a propagation failure: its billboard's, or 1 without one
+    private icons: Float32Array; // Atlas index per instance, -1 for the plain circle
+    private rotations: Float32Array; // Icon rotation in radians
 
     // Entity tracking
     private entityToIndex: Map<EntityId, number> = new Map();
@@ -32,6 +62,8 @@ export class InstancedSatelliteSystem implements System {
     private freeIndices: number[] = [];
 
     private tempColor: THREE.Color = new THREE.Color();
+    private eclipseShading: Required<EclipseShading> | null = null;
+    private iconAtlas: IconAtlas | null = null;
     private needsUpdate: boolean = false;
     public renderTime: number = 0; // Exposed for stats
 
@@ -40,6 +72,9 @@ export class InstancedSatelliteSystem implements System {
         this.positions = new Float32Array(maxSatellites * 3);
         this.colors = new Float32Array(maxSatellites * 3);
         this.sizes = new Float32Array(maxSatellites);
+        this.baseSizes = new Float32Array(maxSatellites);
+        this.icons = new Float32Array(maxSatellites);
+        this.rotations = new Float32Array(maxSatellites);
 
         // Initialize to hidden state
         this.initializeArrays();
@@ -58,6 +93,9 @@ export class InstancedSatelliteSystem implements System {
             this.colors[i3 + 2] = 0;
             // Default size
             this.sizes[i] = 1;
+            this.baseSizes[i] = 1;
+            // Plain circle
+            this.icons[i] = -1;
         }
     }
 
@@ -124,43 +162,73 @@ export class InstancedSatelliteSystem implements System {
         this.satelliteGeometry.setAttribute("translate", new THREE.InstancedBufferAttribute(this.positions, 3));
         this.satelliteGeometry.setAttribute("color", new THREE.InstancedBufferAttribute(this.colors, 3));
         this.satelliteGeometry.setAttribute("size", new THREE.InstancedBufferAttribute(this.sizes, 1));
+        this.satelliteGeometry.setAttribute("icon", new THREE.InstancedBufferAttribute(this.icons, 1));
+        this.satelliteGeometry.setAttribute("rotation", new THREE.InstancedBufferAttribute(this.rotations, 1));
 
         // Create raw shader material for billboard behavior
         this.satelliteMaterial = new THREE.RawShaderMaterial({
             uniforms: {
                 time: { value: 0.0 },
+                atlas: { value: this.iconAtlas?.texture ?? null },
+                atlasColumns: { value: this.iconAtlas?.columns ?? 1 },
             },
             vertexShader: `
                 precision highp float;
                 uniform mat4 modelViewMatrix;
                 uniform mat4 projectionMatrix;
                 uniform float time;
+                uniform float atlasColumns;
 
                 attribute vec3 position;
                 attribute vec2 uv;
                 attribute vec3 translate;
                 attribute vec3 color;
                 attribute float size;
+                attribute float icon;
+                attribute float rotation;
 
                 varying vec2 vUv;
+                varying vec2 vAtlasUv;
                 varying vec3 vColor;
+                varying float vIcon;
 
                 void main() {
                     vec4 mvPosition = modelViewMatrix * vec4(translate, 1.0);
                     // Billboard size - satellites at ~7000km from origin
                     // size = 50, scale by 3 → 150km wide billboards (visible but not huge)
-                    mvPosition.xyz += position * (size * 3.0);
+                    float c = cos(rotation);
+                    float s = sin(rotation);
+                    vec2 corner = vec2(c * position.x - s * position.y, s * position.x + c * position.y);
+                    mvPosition.xy += corner * (size * 3.0);
                     vUv = uv;
                     vColor = color;
+                    vIcon = icon;
+
+                    // Atlas cells run left to right, top to bottom; the canvas texture is flipped in V
+                    float column = mod(icon, atlasColumns);
+                    float row = floor(icon / atlasColumns);
+                    vAtlasUv = vec2((column + uv.x) / atlasColumns, 1.0 - (row + 1.0 - uv.y) / atlasColumns);
+
                     gl_Position = projectionMatrix * mvPosition;
                 }
             `,
             fragmentShader: `
                 precision highp float;
+                uniform sampler2D atlas;
                 varying vec2 vUv;
+                varying vec2 vAtlasUv;
                 varying vec3 vColor;
+                varying float vIcon;
 
                 void main() {
+                    // Icon instances: atlas texel tinted by the instance color
+                    if (vIcon >= 0.0) {
+                        vec4 texel = texture2D(atlas, vAtlasUv);
+                        if (texel.a < 0.05) discard;
+                        gl_FragColor = vec4(vColor * texel.rgb, texel.a);
+                        return;
+                    }
+
                     vec2 center = vUv - 0.5;
                     float dist = length(center);
                     if (dist > 0.5) discard;
@@ -206,6 +274,7 @@ export class InstancedSatelliteSystem implements System {
 
         this.entityToIndex.set(entity, index);
         this.indexToEntity.set(index, entity);
+        this.sizes[index] = this.baseSizes[index];
         return index;
     }
 
@@ -273,6 +342,67 @@ export class InstancedSatelliteSystem implements System {
 
         this.sizes[index] = size;
         this.needsUpdate = true;
+
+        // Writers running after this system (e.g. PropagationSystem hiding failed entities) still reach this frame's draw
+        const sizeAttr = this.satelliteGeometry?.getAttribute("size");
+        if (sizeAttr) sizeAttr.needsUpdate = true;
+    }
+
+    /**
+     * Put an instance back at its stored size, e.g. once its propagator is back in range after writeSizeDirect(entity, 0)
+     */
+    public restoreSize(entity: EntityId): void {
+        const index = this.entityToIndex.get(entity);
+        if (index === undefined) return;
+
+        this.writeSizeDirect(entity, this.baseSizes[index]);
+    }
+
+    /**
+     * Atlas that billboard texture names resolve against (null: every instance draws as a plain circle)
+     * Instances stay in one draw call; icons come from a single atlas texture
+     */
+    public setIconAtlas(atlas: IconAtlas | null): void {
+        this.iconAtlas = atlas;
+
+        if (this.satelliteMaterial) {
+            this.satelliteMaterial.uniforms.atlas.value = atlas?.texture ?? null;
+            this.satelliteMaterial.uniforms.atlasColumns.value = atlas?.columns ?? 1;
+        }
+    }
+
+    /**
+     * Enable or disable (null) eclipse shading of instances
+     * Eclipse states come from the EclipseSystem, which runs after this system, so shading lags one frame
+     */
+    public setEclipseShading(shading: EclipseShading | null): void {
+        this.eclipseShading = shading
+            ? {
+                  mode: shading.mode,
+                  umbraBrightness: shading.umbraBrightness ?? 0.25,
+                  penumbraColor: shading.penumbraColor ?? 0xffa040,
+                  umbraColor: shading.umbraColor ?? 0x4060ff,
+              }
+            : null;
+    }
+
+    /**
+     * Billboard color adjusted for the entity's eclipse state into tempColor
+     */
+    private shadeColor(entity: EntityId, color: number): void {
+        this.tempColor.setHex(color);
+
+        const shading = this.eclipseShading;
+        if (!shading || !this.engine) return;
+
+        const eclipse = this.engine.getComponent<EclipseComponent>(entity, ComponentType.ECLIPSE);
+        if (!eclipse || eclipse.state === EclipseState.SUNLIT) return;
+
+        if (shading.mode === "dim") {
+            this.tempColor.multiplyScalar(shading.umbraBrightness + (1 - shading.umbraBrightness) * eclipse.sunlightFraction);
+        } else {
+            this.tempColor.setHex(eclipse.state === EclipseState.UMBRA ? shading.umbraColor : shading.penumbraColor);
+        }
     }
 
     private freeIndex(entity: EntityId): void {
@@ -292,6 +422,9 @@ export class InstancedSatelliteSystem implements System {
         this.colors[i3 + 1] = 0;
         this.colors[i3 + 2] = 0;
         this.sizes[index] = 0;
+        this.baseSizes[index] = 1;
+        this.icons[index] = -1;
+        this.rotations[index] = 0;
     }
 
     update(_deltaTime: number, entities: EntityId[]): void {
@@ -304,6 +437,10 @@ export class InstancedSatelliteSystem implements System {
 
         const startTime = performance.now();
 
+        // Models and LOD levels override billboards through their systems' state, not the component
+        const modelSystem = this.engine.getSystem("model") as ModelSystem | undefined;
+        const lodSystem = this.engine.getSystem("lod") as LODSystem | undefined;
+
         // Register new entities and update colors/sizes from billboard components
         for (const entity of entities) {
             const billboard = this.engine.getComponent<BillboardComponent>(entity, ComponentType.BILLBOARD);
@@ -315,7 +452,7 @@ export class InstancedSatelliteSystem implements System {
             const i3 = index * 3;
 
             // Update color if changed
-            this.tempColor.setHex(billboard.color);
+            this.shadeColor(entity, billboard.color);
             if (this.colors[i3] !== this.tempColor.r || this.colors[i3 + 1] !== this.tempColor.g || this.colors[i3 + 2] !== this.tempColor.b) {
                 this.colors[i3] = this.tempColor.r;
                 this.colors[i3 + 1] = this.tempColor.g;
@@ -323,9 +460,28 @@ export class InstancedSatelliteSystem implements System {
                 this.needsUpdate = true;
             }
 
-            // Update size if changed
-            if (this.sizes[index] !== billboard.size) {
-                this.sizes[index] = billboard.size;
+            // Update size if changed (hidden or unavailable billboards collapse to zero size)
+            // The base size leaves out propagation failures, which PropagationSystem undoes through restoreSize
+            const hidden =
+                billboard.visible === false ||
+                this.engine.getComponent<TimeVisibilityComponent>(entity, ComponentType.TIME_VISIBILITY)?.available === false ||
+                modelSystem?.isShowingModel(entity) === true ||
+                lodSystem?.isBillboardHidden(entity) === true;
+            const pointSize = lodSystem?.getPointSize(entity);
+            this.baseSizes[index] = hidden ? 0 : (pointSize ?? billboard.size);
+            const outOfRange = this.engine.getComponent<PropagatorComponent>(entity, ComponentType.PROPAGATOR)?.outOfRange === true;
+            const size = outOfRange ? 0 : this.baseSizes[index];
+            if (this.sizes[index] !== size) {
+                this.sizes[index] = size;
+                this.needsUpdate = true;
+            }
+
+            // Update icon and rotation if changed (unknown icon names draw the plain circle)
+            const icon = billboard.texture !== undefined && pointSize === undefined ? (this.iconAtlas?.getIconIndex(billboard.texture) ?? -1) : -1;
+            const rotation = billboard.rotation ?? 0;
+            if (this.icons[index] !== icon || this.rotations[index] !== rotation) {
+                this.icons[index] = icon;
+                this.rotations[index] = rotation;
                 this.needsUpdate = true;
             }
         }
@@ -348,9 +504,13 @@ export class InstancedSatelliteSystem implements System {
         if (this.needsUpdate) {
             const colorAttr = this.satelliteGeometry.getAttribute("color") as THREE.InstancedBufferAttribute;
             const sizeAttr = this.satelliteGeometry.getAttribute("size") as THREE.InstancedBufferAttribute;
+            const iconAttr = this.satelliteGeometry.getAttribute("icon") as THREE.InstancedBufferAttribute;
+            const rotationAttr = this.satelliteGeometry.getAttribute("rotation") as THREE.InstancedBufferAttribute;
 
             colorAttr.needsUpdate = true;
             sizeAttr.needsUpdate = true;
+            iconAttr.needsUpdate = true;
+            rotationAttr.needsUpdate = true;
 
             this.needsUpdate = false;
         }
@@ -0,0 +1,305 @@
+// LOD System - switches each entity's visual components by camera distance, projected size or screen density
+
+import * as THREE from "three";
+import type { System, EntityId, IEngine, IFrameConversionService, Component, LODComponent, LODLevel } from "../types";
+import { ComponentType, LODStrategy } from "../types";
+import type { RenderingService } from "../services/RenderingService";
+import type { InstancedSatelliteSystem } from "./InstancedSatelliteSystem";
+import { readRenderPosition } from "../utils/RenderPosition";
+
+export interface LODSystemOptions {
+    /**
+     * Fraction a metric may stray outside the active level's range before switching, so entities near a boundary do not flicker
+     * Default: 0.1
+     */
+    hysteresis?: number;
+
+    /**
+     * Screen cell in pixels; the DENSITY metric is how many other DENSITY entities share an entity's cell
+     * Default: 32
+     */
+    densityCellSize?: number;
+}
+
+interface LODState {
+    levels: LODLevel[]; // Levels the managed types were collected from
+    managed: ComponentType[]; // Every component type any level lists
+    stash: Map<ComponentType, Component>; // Detached components, re-attached when a level lists them again
+    level: number; // -2 until the first level is applied
+    billboardHidden: boolean; // The level leaves out a managed billboard
+    modelHidden: boolean; // The level leaves out a managed model
+    pointSize: number | undefined; // The level draws the billboard as a plain point of this size
+    frame: number; // Last update that saw the entity
+}
+
+const NO_COMPONENTS: ComponentType[] = [];
+const UNAPPLIED = -2;
+
+export class LODSystem implements System {
+    name = "lod";
+    priority = 975; // After TransformSystem (200), before ModelSystem (980) so models switch on the same frame
+    requiredComponents = [ComponentType.LOD];
+
+    private engine: IEngine | null = null;
+    private renderingService: RenderingService | null = null;
+    private frameService: IFrameConversionService | null = null;
+    private hysteresis: number;
+    private densityCellSize: number;
+    private states: Map<EntityId, LODState> = new Map();
+    private frame: number = 0;
+
+    // Per-entity scratch, grown with the entity count
+    private metrics: Float64Array = new Float64Array(0); // NaN when the entity has no position or is off screen
+    private cells: Int32Array = new Int32Array(0); // Density grid cell, -1 off screen
+    private cellCounts: Uint32Array = new Uint32Array(0);
+
+    private point: THREE.Vector3 = new THREE.Vector3();
+    private viewProjection: THREE.Matrix4 = new THREE.Matrix4();
+    private viewport: THREE.Vector2 = new THREE.Vector2(1, 1);
+    public lodTime: number = 0; // Exposed for stats
+
+    constructor(options: LODSystemOptions = {}) {
+        this.hysteresis = options.hysteresis ?? 0.1;
+        this.densityCellSize = options.densityCellSize ?? 32;
+    }
+
+    init(engine: IEngine): void {
+        this.engine = engine;
+        this.renderingService = engine.getService<RenderingService>("rendering") ?? null;
+        this.frameService = engine.getService<IFrameConversionService>("frame") ?? null;
+
+        if (!this.renderingService) {
+            console.warn("[LODSystem] ⚠️ RenderingService not found!");
+        }
+    }
+
+    update(_deltaTime: number, entities: EntityId[]): void {
+        if (!this.engine || !this.renderingService) return;
+
+        const startTime = performance.now();
+        const engine = this.engine;
+        this.frame++;
+
+        const camera = this.renderingService.getCamera();
+        camera.updateMatrixWorld();
+        this.viewProjection.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+        this.renderingService.getRenderer().getSize(this.viewport);
+
+        this.measure(entities, camera);
+
+        for (let i = 0; i < entities.length; i++) {
+            const entity = entities[i];
+            const lod = engine.getComponent<LODComponent>(entity, ComponentType.LOD)!;
+            const state = this.getState(entity, lod);
+            state.frame = this.frame;
+
+            // Without a metric (no position, or off screen for DENSITY) the entity keeps its level
+            let metric = this.metrics[i];
+            if (lod.strategy === LODStrategy.DENSITY && this.cells[i] >= 0) metric = this.cellCounts[this.cells[i]] - 1;
+            if (!Number.isNaN(metric)) {
+                const level = this.selectLevel(lod.levels, metric, state.level);
+                if (level !== state.level) this.applyLevel(entity, state, level);
+            }
+
+            lod.level = state.level === UNAPPLIED ? -1 : state.level;
+        }
+
+        // Entities that lost their LOD component get every component back
+        if (this.states.size > 0) this.states.forEach(this.releaseUnseen);
+
+        this.lodTime = performance.now() - startTime;
+    }
+
+    /**
+     * Whether the entity's current level hides its billboard
+     */
+    isBillboardHidden(entity: EntityId): boolean {
+        return this.states.get(entity)?.billboardHidden ?? false;
+    }
+
+    /**
+     * Whether the entity's current level hides its model
+     */
+    isModelHidden(entity: EntityId): boolean {
+        return this.states.get(entity)?.modelHidden ?? false;
+    }
+
+    /**
+     * Point size the entity's current level draws its billboard at (without its icon), or undefined to draw it as set
+     */
+    getPointSize(entity: EntityId): number | undefined {
+        return this.states.get(entity)?.pointSize;
+    }
+
+    /**
+     * Fill the per-entity metric: camera distance in km, projected diameter in pixels, or the density cell
+     */
+    private measure(entities: EntityId[], camera: THREE.Camera): void {
+        const engine = this.engine!;
+        const count = entities.length;
+        if (this.metrics.length < count) {
+            const capacity = Math.max(count, this.metrics.length * 2, 256);
+            this.metrics = new Float64Array(capacity);
+            this.cells = new Int32Array(capacity);
+        }
+
+        const columns = Math.max(1, Math.ceil(this.viewport.x / this.densityCellSize));
+        const rows = Math.max(1, Math.ceil(this.viewport.y / this.densityCellSize));
+        if (this.cellCounts.length !== columns * rows) this.cellCounts = new Uint32Array(columns * rows);
+        this.cellCounts.fill(0);
+
+        const instanced = engine.getSystem("instancedSatellite") as InstancedSatelliteSystem | undefined;
+        const unitsPerKm = this.frameService?.getRenderFrameConfig().unitsPerKm ?? 1;
+        // Screen pixels per render unit: falls off with distance for perspective cameras, fixed for orthographic ones
+        const perspective = camera instanceof THREE.PerspectiveCamera;
+        const pixelsPerRadian = perspective ? this.viewport.y / (2 * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2)) : 0;
+        const pixelsPerUnit = camera instanceof THREE.OrthographicCamera ? (this.viewport.y * camera.zoom) / (camera.top - camera.bottom) : 0;
+        const cameraPosition = camera.position;
+        const point = this.point;
+
+        for (let i = 0; i < count; i++) {
+            const entity = entities[i];
+            this.cells[i] = -1;
+            if (!readRenderPosition(engine, entity, instanced, this.frameService, point)) {
+                this.metrics[i] = NaN;
+                continue;
+            }
+
+            const lod = engine.getComponent<LODComponent>(entity, ComponentType.LOD)!;
+            const distance = point.distanceTo(cameraPosition);
+
+            switch (lod.strategy) {
+                case LODStrategy.DISTANCE:
+                    this.metrics[i] = distance / unitsPerKm;
+                    break;
+                case LODStrategy.SCREEN_SIZE: {
+                    const size = (lod.size ?? 0.01) * unitsPerKm;
+                    this.metrics[i] = !perspective ? size * pixelsPerUnit : distance > 0 ? (size / distance) * pixelsPerRadian : Infinity;
+                    break;
+                }
+                case LODStrategy.DENSITY: {
+                    this.metrics[i] = NaN;
+                    point.applyMatrix4(this.viewProjection);
+                    if (point.z > 1 || point.z < -1 || Math.abs(point.x) > 1 || Math.abs(point.y) > 1) break;
+
+                    const column = Math.min(columns - 1, Math.floor(((point.x + 1) / 2) * columns));
+                    const row = Math.min(rows - 1, Math.floor(((point.y + 1) / 2) * rows));
+                    this.cells[i] = row * columns + column;
+                    this.cellCounts[this.cells[i]]++;
+                    break;
+                }
+            }
+        }
+    }
+
+    /**
+     * Keep the current level while the metric is within its range widened by the hysteresis, else the first matching level
+     */
+    private selectLevel(levels: LODLevel[], metric: number, current: number): number {
+        if (current >= 0 && current < levels.length) {
+            const level = levels[current];
+            if (metric >= level.minDistance * (1 - this.hysteresis) && metric < level.maxDistance * (1 + this.hysteresis)) return current;
+        }
+
+        for (let i = 0; i < levels.length; i++) {
+            if (metric >= levels[i].minDistance && metric < levels[i].maxDistance) return i;
+        }
+        return -1;
+    }
+
+    /**
+     * Attach the level's components and detach the other managed ones; billboards are hidden rather than detached
+     * so instanced satellites keep their slot (and propagated position), and models so their instance is kept
+     */
+    private applyLevel(entity: EntityId, state: LODState, level: number): void {
+        state.level = level;
+        const active = level >= 0 ? state.levels[level].components : NO_COMPONENTS;
+
+        for (const type of state.managed) {
+            if (type === ComponentType.BILLBOARD || type === ComponentType.MODEL) continue;
+            if (active.includes(type)) {
+                this.attach(entity, state, type);
+            } else {
+                this.detach(entity, state, type);
+            }
+        }
+
+        // Renderers combine these with the component, which stays as the application set it
+        state.billboardHidden = state.managed.includes(ComponentType.BILLBOARD) && !active.includes(ComponentType.BILLBOARD);
+        state.modelHidden = state.managed.includes(ComponentType.MODEL) && !active.includes(ComponentType.MODEL);
+        state.pointSize = !state.billboardHidden && level >= 0 ? state.levels[level].pointSize : undefined;
+    }
+
+    private attach(entity: EntityId, state: LODState, type: ComponentType): void {
+        const component = state.stash.get(type);
+        if (!component) return;
+
+        state.stash.delete(type);
+        if (!this.engine!.hasComponent(entity, type)) this.engine!.addComponent(entity, component);
+    }
+
+    private detach(entity: EntityId, state: LODState, type: ComponentType): void {
+        const component = this.engine!.getComponent<Component>(entity, type);
+        if (!component) return;
+
+        state.stash.set(type, component);
+        this.engine!.removeComponent(entity, type);
+    }
+
+    /**
+     * The entity's LOD state, rebuilt (restoring the entity first) when its levels array is replaced
+     */
+    private getState(entity: EntityId, lod: LODComponent): LODState {
+        const existing = this.states.get(entity);
+        if (existing && existing.levels === lod.levels) return existing;
+        if (existing) this.release(entity, existing);
+
+        const managed: ComponentType[] = [];
+        for (const level of lod.levels) {
+            for (const type of level.components) {
+                if (type !== ComponentType.LOD && !managed.includes(type)) managed.push(type);
+            }
+        }
+
+        const state: LODState = {
+            levels: lod.levels,
+            managed,
+            stash: new Map(),
+            level: UNAPPLIED,
+            billboardHidden: false,
+            modelHidden: false,
+            pointSize: undefined,
+            frame: this.frame,
+        };
+        this.states.set(entity, state);
+        return state;
+    }
+
+    private releaseUnseen = (state: LODState, entity: EntityId): void => {
+        if (state.frame !== this.frame) this.release(entity, state);
+    };
+
+    /**
+     * Put back the components the LOD system detached from an entity and forget it (its billboard overrides go with the state)
+     */
+    private release(entity: EntityId, state: LODState): void {
+        const engine = this.engine;
+        this.states.delete(entity);
+        if (!engine) return;
+
+        // Destroyed entities have no components left to restore onto
+        if (engine.getComponentRegistry().getAllComponents(entity).length === 0) return;
+
+        for (const type of Array.from(state.stash.keys())) {
+            this.attach(entity, state, type);
+        }
+    }
+
+    cleanup(): void {
+        this.states.forEach((state, entity) => this.release(entity, state));
+        this.states.clear();
+        this.engine = null;
+        this.renderingService = null;
+        this.frameService = null;
+    }
+}
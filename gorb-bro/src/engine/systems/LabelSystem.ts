@@ -0,0 +1,611 @@
+// Label System - draws every entity label from one glyph atlas in a single instanced draw, decluttered in screen space
+
+import * as THREE from "three";
+import type { System, EntityId, IEngine, IFrameConversionService, LabelComponent } from "../types";
+import { ComponentType } from "../types";
+import type { RenderingService } from "../services/RenderingService";
+import type { SelectionService } from "../services/SelectionService";
+import type { InstancedSatelliteSystem } from "./InstancedSatelliteSystem";
+import { SDFGlyphAtlas, layoutText, TEXT_QUAD_STRIDE } from "../utils/GlyphAtlas";
+import type { FontAtlas, TextLayout } from "../utils/GlyphAtlas";
+import { EARTH_RADIUS } from "../utils/OrbitalMath";
+import { readRenderPosition } from "../utils/RenderPosition";
+import { isTimeHidden } from "../utils/TimeVisibility";
+
+export interface LabelSystemOptions {
+    /**
+     * Glyph source for every label (LabelStyle.fontFamily is not applied per label)
+     * Default: an SDFGlyphAtlas with the canvas sans-serif font
+     */
+    atlas?: FontAtlas;
+
+    /**
+     * Glyph and background quads drawn per frame; labels that would overflow are dropped
+     * Default: 65536
+     */
+    maxQuads?: number;
+
+    /**
+     * Hide labels whose boxes overlap a higher-priority label (selected entity first, then nearest to the camera)
+     * Default: true
+     */
+    declutter?: boolean;
+
+    /**
+     * Hide labels of entities behind the Earth
+     * Default: true
+     */
+    occludeByEarth?: boolean;
+
+    /**
+     * Dark outline around glyphs in pixels, keeps labels without a background readable
+     * Default: 1
+     */
+    outlineWidth?: number;
+}
+
+interface CachedLayout {
+    text: string;
+    fontSize: number;
+    layout: TextLayout;
+}
+
+const BUCKETS = 256; // Distance buckets for the priority sort
+const GRID_CELL = 64; // Declutter grid cell in pixels
+
+export class LabelSystem implements System {
+    name = "label";
+    priority = 1050; // After RenderSystem (1000) so every position and transform is final
+    requiredComponents = [ComponentType.LABEL];
+
+    private engine: IEngine | null = null;
+    private renderingService: RenderingService | null = null;
+    private frameService: IFrameConversionService | null = null;
+    private selectionService: SelectionService | null = null;
+    private atlas: FontAtlas | null;
+    private maxQuads: number;
+    private declutter: boolean;
+    private occludeByEarth: boolean;
+    private outlineWidth: number;
+
+    private mesh: THREE.Mesh | null = null;
+    private geometry: THREE.InstancedBufferGeometry | null = null;
+    private material: THREE.ShaderMaterial | null = null;
+    private attributes: THREE.InstancedBufferAttribute[] = [];
+
+    // Instance data, written front to back each frame
+    private anchors: Float32Array;
+    private rects: Float32Array; // x, y, width, height in pixels from the anchor's screen point
+    private uvRects: Float32Array;
+    private colors: Float32Array;
+    private pxRanges: Float32Array; // Field range in screen pixels, 0 for solid background quads
+
+    // Per-candidate scratch, grown with the label count
+    private candidates: EntityId[] = [];
+    private candidateAnchors: Float32Array = new Float32Array(0);
+    private candidateScreen: Float32Array = new Float32Array(0); // x, y in pixels (y up)
+    private candidateDistances: Float32Array = new Float32Array(0);
+    private order: Uint32Array = new Uint32Array(0);
+    private bucketCounts: Uint32Array = new Uint32Array(BUCKETS + 1);
+
+    // Screen grid of placed boxes for the overlap test
+    private placedBoxes: Float32Array = new Float32Array(0); // minX, minY, maxX, maxY
+    private cellHeads: Int32Array = new Int32Array(0);
+    private cellEntries: Int32Array = new Int32Array(0); // Pairs of box index, next entry
+    private cellEntryCount: number = 0;
+    private gridColumns: number = 0;
+    private gridRows: number = 0;
+
+    private layouts: Map<EntityId, CachedLayout> = new Map();
+    private parsedColors: Map<string, [number, number, number, number]> = new Map();
+    private tempColor: THREE.Color = new THREE.Color();
+    private tempRgb: { r: number; g: number; b: number } = { r: 0, g: 0, b: 0 };
+    private tempRange: [number, number, number, number] = [0, 0, 0, 0];
+    private tempVector: THREE.Vector3 = new THREE.Vector3();
+    private viewProjection: THREE.Matrix4 = new THREE.Matrix4();
+    private viewport: THREE.Vector2 = new THREE.Vector2(1, 1);
+    public visibleLabels: number = 0; // Exposed for stats
+    public labelTime: number = 0; // Exposed for stats
+
+    constructor(options: LabelSystemOptions = {}) {
+        this.atlas = options.atlas ?? null;
+        this.maxQuads = options.maxQuads ?? 65536;
+        this.declutter = options.declutter ?? true;
+        this.occludeByEarth = options.occludeByEarth ?? true;
+        this.outlineWidth = options.outlineWidth ?? 1;
+
+        this.anchors = new Float32Array(this.maxQuads * 3);
+        this.rects = new Float32Array(this.maxQuads * 4);
+        this.uvRects = new Float32Array(this.maxQuads * 4);
+        this.colors = new Float32Array(this.maxQuads * 4);
+        this.pxRanges = new Float32Array(this.maxQuads);
+    }
+
+    init(engine: IEngine): void {
+        this.engine = engine;
+        this.renderingService = engine.getService<RenderingService>("rendering") ?? null;
+        this.frameService = engine.getService<IFrameConversionService>("frame") ?? null;
+        this.selectionService = engine.getService<SelectionService>("selection") ?? null;
+
+        if (!this.renderingService) {
+            console.warn("[LabelSystem] ⚠️ RenderingService not found!");
+            return;
+        }
+
+        this.atlas ??= new SDFGlyphAtlas();
+        this.createMesh(this.atlas);
+    }
+
+    private createMesh(atlas: FontAtlas): void {
+        this.geometry = new THREE.InstancedBufferGeometry();
+
+        // Unit quad, stretched per instance in the vertex shader
+        this.geometry.setAttribute("position", new THREE.BufferAttribute(new Float32Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0]), 3));
+        this.geometry.setIndex([0, 1, 2, 0, 2, 3]);
+
+        const data: Array<[string, Float32Array, number]> = [
+            ["anchor", this.anchors, 3],
+            ["rect", this.rects, 4],
+            ["uvRect", this.uvRects, 4],
+            ["labelColor", this.colors, 4],
+            ["pxRange", this.pxRanges, 1],
+        ];
+        this.attributes = data.map(([name, array, size]) => {
+            const attribute = new THREE.InstancedBufferAttribute(array, size);
+            attribute.setUsage(THREE.DynamicDrawUsage);
+            this.geometry!.setAttribute(name, attribute);
+            return attribute;
+        });
+        this.geometry.instanceCount = 0;
+
+        this.material = new THREE.ShaderMaterial({
+            uniforms: {
+                atlas: { value: atlas.texture },
+                viewport: { value: this.viewport },
+                outlineWidth: { value: this.outlineWidth },
+            },
+            defines: atlas.msdf ? { MSDF: "" } : {},
+            vertexShader: `
+                uniform vec2 viewport;
+
+                attribute vec3 anchor;
+                attribute vec4 rect;
+                attribute vec4 uvRect;
+                attribute vec4 labelColor;
+                attribute float pxRange;
+
+                varying vec2 vUv;
+                varying vec4 vColor;
+                varying float vPxRange;
+
+                void main() {
+                    // Quads are sized in pixels around the projected anchor
+                    vec4 clip = projectionMatrix * modelViewMatrix * vec4(anchor, 1.0);
+                    vec2 pixel = rect.xy + position.xy * rect.zw;
+                    clip.xy += pixel * 2.0 / viewport * clip.w;
+
+                    vUv = mix(uvRect.xy, uvRect.zw, position.xy);
+                    vColor = labelColor;
+                    vPxRange = pxRange;
+                    gl_Position = clip;
+                }
+            `,
+            fragmentShader: `
+                uniform sampler2D atlas;
+                uniform float outlineWidth;
+
+                varying vec2 vUv;
+                varying vec4 vColor;
+                varying float vPxRange;
+
+                void main() {
+                    // Background quads are solid
+                    if (vPxRange <= 0.0) {
+                        gl_FragColor = vColor;
+                        return;
+                    }
+
+                    vec4 texel = texture2D(atlas, vUv);
+                    #ifdef MSDF
+                        float field = max(min(texel.r, texel.g), min(max(texel.r, texel.g), texel.b));
+                    #else
+                        float field = texel.a;
+                    #endif
+
+                    // Signed distance to the glyph edge in screen pixels
+                    float edge = vPxRange * (field - 0.5);
+                    float fill = clamp(edge + 0.5, 0.0, 1.0);
+                    float outline = clamp(edge + outlineWidth + 0.5, 0.0, 1.0);
+                    float alpha = max(fill, outline) * vColor.a;
+                    if (alpha < 0.01) discard;
+
+                    gl_FragColor = vec4(vColor.rgb * fill, alpha);
+                }
+            `,
+            transparent: true,
+            depthTest: false, // Earth occlusion is decided on the CPU; labels draw over everything else
+            depthWrite: false,
+        });
+
+        this.mesh = new THREE.Mesh(this.geometry, this.material);
+        this.mesh.frustumCulled = false; // Instances are spread over the whole scene
+        this.mesh.renderOrder = 1000;
+        this.renderingService!.addObject(this.mesh);
+    }
+
+    update(_deltaTime: number, entities: EntityId[]): void {
+        if (!this.engine || !this.renderingService || !this.geometry || !this.atlas) return;
+
+        const startTime = performance.now();
+        const camera = this.renderingService.getCamera();
+        camera.updateMatrixWorld();
+        this.viewProjection.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+        this.renderingService.getRenderer().getSize(this.viewport);
+
+        const count = this.collectCandidates(entities, camera.position);
+        const quadCount = this.placeLabels(count);
+
+        this.geometry.instanceCount = quadCount;
+        for (const attribute of this.attributes) {
+            attribute.clearUpdateRanges();
+            attribute.addUpdateRange(0, quadCount * attribute.itemSize);
+            attribute.needsUpdate = true;
+        }
+
+        // Drop layouts of entities that lost their label
+        if (this.layouts.size > entities.length) {
+            const active = new Set(entities);
+            for (const entity of Array.from(this.layouts.keys())) {
+                if (!active.has(entity)) this.layouts.delete(entity);
+            }
+        }
+
+        this.labelTime = performance.now() - startTime;
+    }
+
+    /**
+     * Project every label anchor and keep those on screen and in front of the Earth
+     * @returns Number of candidates
+     */
+    private collectCandidates(entities: EntityId[], cameraPosition: THREE.Vector3): number {
+        this.ensureCandidateCapacity(entities.length);
+
+        const halfWidth = this.viewport.x / 2;
+        const halfHeight = this.viewport.y / 2;
+        const unitsPerKm = this.frameService?.getRenderFrameConfig().unitsPerKm ?? 1;
+        const earthRadius = EARTH_RADIUS * unitsPerKm * 0.99; // Slightly inside so surface stations stay visible
+        const instanced = this.engine!.getSystem("instancedSatellite") as InstancedSatelliteSystem | undefined;
+        const point = this.tempVector;
+        let count = 0;
+
+        for (const entity of entities) {
+            if (isTimeHidden(this.engine!, entity)) continue;
+            if (!readRenderPosition(this.engine!, entity, instanced, this.frameService, point)) continue;
+
+            const anchorX = point.x;
+            const anchorY = point.y;
+            const anchorZ = point.z;
+            if (this.occludeByEarth && isBehindSphere(cameraPosition, point, earthRadius)) continue;
+
+            // Behind the camera or outside the clip volume
+            point.applyMatrix4(this.viewProjection);
+            if (point.z > 1 || point.z < -1 || point.x < -1.2 || point.x > 1.2 || point.y < -1.2 || point.y > 1.2) continue;
+
+            this.candidates[count] = entity;
+            this.candidateAnchors[count * 3] = anchorX;
+            this.candidateAnchors[count * 3 + 1] = anchorY;
+            this.candidateAnchors[count * 3 + 2] = anchorZ;
+            this.candidateScreen[count * 2] = (point.x + 1) * halfWidth;
+            this.candidateScreen[count * 2 + 1] = (point.y + 1) * halfHeight;
+            this.candidateDistances[count] = Math.hypot(anchorX - cameraPosition.x, anchorY - cameraPosition.y, anchorZ - cameraPosition.z);
+            count++;
+        }
+
+        return count;
+    }
+
+    /**
+     * Greedily place labels in priority order, writing quads for those that do not collide
+     * @returns Number of quads written
+     */
+    private placeLabels(count: number): number {
+        const engine = this.engine!;
+        const atlas = this.atlas!;
+        this.sortByPriority(count);
+        this.resetGrid();
+
+        let quadCount = 0;
+        let placed = 0;
+
+        for (let i = 0; i < count; i++) {
+            const candidate = this.order[i];
+            const entity = this.candidates[candidate];
+            const label = engine.getComponent<LabelComponent>(entity, ComponentType.LABEL)!;
+            const layout = this.getLayout(entity, label);
+            const style = label.style;
+            const hasBackground = style.backgroundColor !== undefined;
+            const padding = style.padding ?? (hasBackground ? 2 : 0);
+
+            const needed = layout.glyphCount + (hasBackground ? 1 : 0);
+            if (needed === 0 || quadCount + needed > this.maxQuads) continue;
+
+            // Box centred above (or wherever offset puts it) the anchor, in pixels from the anchor
+            const boxWidth = layout.width + padding * 2;
+            const boxHeight = layout.height + padding * 2;
+            const boxX = label.offset[0] - boxWidth / 2;
+            const boxY = label.offset[1];
+
+            const screenX = this.candidateScreen[candidate * 2];
+            const screenY = this.candidateScreen[candidate * 2 + 1];
+            const minX = screenX + boxX;
+            const minY = screenY + boxY;
+            const maxX = minX + boxWidth;
+            const maxY = minY + boxHeight;
+
+            if (this.declutter && this.overlapsPlaced(minX, minY, maxX, maxY)) continue;
+            this.insertPlaced(placed++, minX, minY, maxX, maxY);
+
+            const ax = this.candidateAnchors[candidate * 3];
+            const ay = this.candidateAnchors[candidate * 3 + 1];
+            const az = this.candidateAnchors[candidate * 3 + 2];
+
+            if (hasBackground) {
+                const [r, g, b, a] = this.parseColor(style.backgroundColor!);
+                this.writeQuad(quadCount++, ax, ay, az, boxX, boxY, boxWidth, boxHeight, 0, 0, 0, 0, r, g, b, a, 0);
+            }
+
+            const [r, g, b, a] = this.parseColor(style.color);
+            const pxRange = atlas.distanceRange * (style.fontSize / atlas.fontSize);
+            const quads = layout.quads;
+            for (let q = 0; q < layout.glyphCount; q++) {
+                const o = q * TEXT_QUAD_STRIDE;
+                this.writeQuad(
+                    quadCount++,
+                    ax,
+                    ay,
+                    az,
+                    boxX + padding + quads[o],
+                    boxY + padding + quads[o + 1],
+                    quads[o + 2],
+                    quads[o + 3],
+                    quads[o + 4],
+                    quads[o + 5],
+                    quads[o + 6],
+                    quads[o + 7],
+                    r,
+                    g,
+                    b,
+                    a,
+                    pxRange
+                );
+            }
+        }
+
+        this.visibleLabels = placed;
+        return quadCount;
+    }
+
+    /**
+     * Order candidates by camera distance (bucketed counting sort, no allocation), with the selected entity first
+     */
+    private sortByPriority(count: number): void {
+        let nearest = Infinity;
+        let farthest = 0;
+        for (let i = 0; i < count; i++) {
+            const distance = this.candidateDistances[i];
+            if (distance < nearest) nearest = distance;
+            if (distance > farthest) farthest = distance;
+        }
+
+        const selected = this.selectionService?.getSelectedEntity() ?? null;
+        const scale = farthest > nearest ? (BUCKETS - 1) / (farthest - nearest) : 0;
+        const counts = this.bucketCounts;
+        counts.fill(0);
+
+        // Bucket 0 is reserved for the selected entity
+        for (let i = 0; i < count; i++) {
+            counts[this.bucketOf(i, selected, nearest, scale) + 1]++;
+        }
+        for (let b = 1; b <= BUCKETS; b++) counts[b] += counts[b - 1];
+        for (let i = 0; i < count; i++) {
+            this.order[counts[this.bucketOf(i, selected, nearest, scale)]++] = i;
+        }
+    }
+
+    private bucketOf(candidate: number, selected: EntityId | null, nearest: number, scale: number): number {
+        if (this.candidates[candidate] === selected) return 0;
+        return 1 + Math.min(BUCKETS - 2, Math.floor((this.candidateDistances[candidate] - nearest) * scale));
+    }
+
+    private resetGrid(): void {
+        const columns = Math.max(1, Math.ceil(this.viewport.x / GRID_CELL));
+        const rows = Math.max(1, Math.ceil(this.viewport.y / GRID_CELL));
+        if (columns * rows !== this.cellHeads.length) this.cellHeads = new Int32Array(columns * rows);
+
+        this.gridColumns = columns;
+        this.gridRows = rows;
+        this.cellHeads.fill(-1);
+        this.cellEntryCount = 0;
+    }
+
+    private overlapsPlaced(minX: number, minY: number, maxX: number, maxY: number): boolean {
+        const [c0, c1, r0, r1] = this.cellRange(minX, minY, maxX, maxY);
+        const boxes = this.placedBoxes;
+
+        for (let row = r0; row <= r1; row++) {
+            for (let column = c0; column <= c1; column++) {
+                for (let entry = this.cellHeads[row * this.gridColumns + column]; entry !== -1; entry = this.cellEntries[entry * 2 + 1]) {
+                    const o = this.cellEntries[entry * 2] * 4;
+                    if (minX < boxes[o + 2] && maxX > boxes[o] && minY < boxes[o + 3] && maxY > boxes[o + 1]) return true;
+                }
+            }
+        }
+        return false;
+    }
+
+    private insertPlaced(index: number, minX: number, minY: number, maxX: number, maxY: number): void {
+        const o = index * 4;
+        this.placedBoxes[o] = minX;
+        this.placedBoxes[o + 1] = minY;
+        this.placedBoxes[o + 2] = maxX;
+        this.placedBoxes[o + 3] = maxY;
+
+        const [c0, c1, r0, r1] = this.cellRange(minX, minY, maxX, maxY);
+        for (let row = r0; row <= r1; row++) {
+            for (let column = c0; column <= c1; column++) {
+                if ((this.cellEntryCount + 1) * 2 > this.cellEntries.length) {
+                    const grown = new Int32Array(Math.max(1024, this.cellEntries.length * 2));
+                    grown.set(this.cellEntries);
+                    this.cellEntries = grown;
+                }
+
+                const cell = row * this.gridColumns + column;
+                const entry = this.cellEntryCount++;
+                this.cellEntries[entry * 2] = index;
+                this.cellEntries[entry * 2 + 1] = this.cellHeads[cell];
+                this.cellHeads[cell] = entry;
+            }
+        }
+    }
+
+    private cellRange(minX: number, minY: number, maxX: number, maxY: number): [number, number, number, number] {
+        const range = this.tempRange;
+        range[0] = clampIndex(Math.floor(minX / GRID_CELL), this.gridColumns);
+        range[1] = clampIndex(Math.floor(maxX / GRID_CELL), this.gridColumns);
+        range[2] = clampIndex(Math.floor(minY / GRID_CELL), this.gridRows);
+        range[3] = clampIndex(Math.floor(maxY / GRID_CELL), this.gridRows);
+        return range;
+    }
+
+    private writeQuad(
+        index: number,
+        ax: number,
+        ay: number,
+        az: number,
+        x: number,
+        y: number,
+        width: number,
+        height: number,
+        u0: number,
+        v0: number,
+        u1: number,
+        v1: number,
+        r: number,
+        g: number,
+        b: number,
+        a: number,
+        pxRange: number
+    ): void {
+        const i3 = index * 3;
+        const i4 = index * 4;
+        this.anchors[i3] = ax;
+        this.anchors[i3 + 1] = ay;
+        this.anchors[i3 + 2] = az;
+        this.rects[i4] = x;
+        this.rects[i4 + 1] = y;
+        this.rects[i4 + 2] = width;
+        this.rects[i4 + 3] = height;
+        this.uvRects[i4] = u0;
+        this.uvRects[i4 + 1] = v0;
+        this.uvRects[i4 + 2] = u1;
+        this.uvRects[i4 + 3] = v1;
+        this.colors[i4] = r;
+        this.colors[i4 + 1] = g;
+        this.colors[i4 + 2] = b;
+        this.colors[i4 + 3] = a;
+        this.pxRanges[index] = pxRange;
+    }
+
+    /**
+     * Cached glyph layout, redone when the text or font size changes
+     */
+    private getLayout(entity: EntityId, label: LabelComponent): TextLayout {
+        const cached = this.layouts.get(entity);
+        if (cached && cached.text === label.text && cached.fontSize === label.style.fontSize) return cached.layout;
+
+        const layout = layoutText(this.atlas!, label.text, label.style.fontSize);
+        this.layouts.set(entity, { text: label.text, fontSize: label.style.fontSize, layout });
+        return layout;
+    }
+
+    /**
+     * CSS color to sRGB RGBA (alpha from rgba()/hsla() or #rrggbbaa), cached per string
+     * The shader writes these straight to the canvas, so they match the same color in CSS
+     */
+    private parseColor(style: string): [number, number, number, number] {
+        let rgba = this.parsedColors.get(style);
+        if (rgba) return rgba;
+
+        let alpha = 1;
+        let css = style.trim();
+        const functional = /^(rgba?|hsla?)\((.*)\)$/i.exec(css);
+        const hex = /^#([0-9a-f]{8})$/i.exec(css);
+        if (functional) {
+            const parts = functional[2].split(/[\s,/]+/).filter((part) => part.length > 0);
+            if (parts.length === 4) {
+                alpha = parts[3].endsWith("%") ? parseFloat(parts[3]) / 100 : parseFloat(parts[3]);
+                css = `${functional[1].slice(0, 3)}(${parts.slice(0, 3).join(", ")})`;
+            }
+        } else if (hex) {
+            alpha = parseInt(hex[1].slice(6), 16) / 255;
+            css = `#${hex[1].slice(0, 6)}`;
+        }
+
+        const rgb = this.tempColor.setStyle(css).getRGB(this.tempRgb, THREE.SRGBColorSpace);
+        rgba = [rgb.r, rgb.g, rgb.b, Number.isFinite(alpha) ? alpha : 1];
+        this.parsedColors.set(style, rgba);
+        return rgba;
+    }
+
+    private ensureCandidateCapacity(count: number): void {
+        if (this.order.length >= count) return;
+
+        const capacity = Math.max(count, this.order.length * 2, 256);
+        this.candidateAnchors = new Float32Array(capacity * 3);
+        this.candidateScreen = new Float32Array(capacity * 2);
+        this.candidateDistances = new Float32Array(capacity);
+        this.order = new Uint32Array(capacity);
+        this.placedBoxes = new Float32Array(capacity * 4);
+        this.candidates.length = capacity;
+    }
+
+    cleanup(): void {
+        if (this.mesh) this.renderingService?.removeObject(this.mesh);
+        this.geometry?.dispose();
+        this.material?.dispose();
+        this.atlas?.dispose();
+
+        this.mesh = null;
+        this.geometry = null;
+        this.material = null;
+        this.attributes = [];
+        this.layouts.clear();
+        this.parsedColors.clear();
+        this.engine = null;
+        this.renderingService = null;
+        this.frameService = null;
+        this.selectionService = null;
+    }
+}
+
+function clampIndex(value: number, size: number): number {
+    return value < 0 ? 0 : value >= size ? size - 1 : value;
+}
+
+/**
+ * Whether the segment from the camera to a point passes through a sphere at the origin
+ */
+function isBehindSphere(camera: THREE.Vector3, point: THREE.Vector3, radius: number): boolean {
+    const dx = point.x - camera.x;
+    const dy = point.y - camera.y;
+    const dz = point.z - camera.z;
+    const lengthSq = dx * dx + dy * dy + dz * dz;
+    if (lengthSq === 0) return false;
+
+    // Closest approach of the segment to the origin
+    const t = Math.max(0, Math.min(1, -(camera.x * dx + camera.y * dy + camera.z * dz) / lengthSq));
+    const cx = camera.x + dx * t;
+    const cy = camera.y + dy * t;
+    const cz = camera.z + dz * t;
+    return cx * cx + cy * cy + cz * cz < radius * radius;
+}
@@ -0,0 +1,149 @@
+// Model System - draws glTF models at entity transforms, falling back to the billboard beyond a camera distance
+
+import * as THREE from "three";
+import type { System, EntityId, IEngine, IAssetService, IFrameConversionService, ModelComponent, TransformComponent } from "../types";
+import { ComponentType } from "../types";
+import type { RenderingService } from "../services/RenderingService";
+import { isTimeHidden } from "../utils/TimeVisibility";
+import type { LODSystem } from "./LODSystem";
+
+interface ModelInstance {
+    model: string; // Asset ID the instance was created from
+    group: THREE.Group; // Carries the entity transform and model scale
+}
+
+export class ModelSystem implements System {
+    name = "model";
+    priority = 980; // After LODSystem (975), before RenderSystem (1000)
+    requiredComponents = [ComponentType.MODEL];
+
+    private engine: IEngine | null = null;
+    private renderingService: RenderingService | null = null;
+    private assetService: IAssetService | null = null;
+    private frameService: IFrameConversionService | null = null;
+    private instances: Map<EntityId, ModelInstance> = new Map();
+    private requested: Set<string> = new Set(); // Asset IDs this system started loading
+    private modelShown: Set<EntityId> = new Set(); // Entities drawing their model, whose billboard renderers hide
+    private active: Set<EntityId> = new Set(); // Entities seen this update, refilled each frame
+    private scaleMatrix: THREE.Matrix4 = new THREE.Matrix4();
+    private worldPosition: THREE.Vector3 = new THREE.Vector3();
+    public modelTime: number = 0; // Exposed for stats
+
+    init(engine: IEngine): void {
+        this.engine = engine;
+        this.renderingService = engine.getService<RenderingService>("rendering") ?? null;
+        this.assetService = engine.getService<IAssetService>("assets") ?? null;
+        this.frameService = engine.getService<IFrameConversionService>("frame") ?? null;
+
+        if (!this.renderingService || !this.assetService) {
+            console.warn("ModelSystem requires RenderingService and AssetService");
+        }
+    }
+
+    update(_deltaTime: number, entities: EntityId[]): void {
+        if (!this.engine || !this.renderingService || !this.assetService) return;
+
+        const startTime = performance.now();
+        const cameraPosition = this.renderingService.getCamera().position;
+        const unitsPerKm = this.frameService?.getRenderFrameConfig().unitsPerKm ?? 1;
+        const lodSystem = this.engine.getSystem("lod") as LODSystem | undefined;
+        this.active.clear();
+
+        for (const entity of entities) {
+            this.active.add(entity);
+            const model = this.engine.getComponent<ModelComponent>(entity, ComponentType.MODEL)!;
+            const transform = this.engine.getComponent<TransformComponent>(entity, ComponentType.TRANSFORM);
+            const instance = this.getInstance(entity, model);
+
+            // Unavailable entities show neither (InstancedSatelliteSystem hides the billboard)
+            let showModel = false;
+            if (instance && transform && !isTimeHidden(this.engine, entity) && !lodSystem?.isModelHidden(entity)) {
+                this.worldPosition.setFromMatrixPosition(transform.matrix);
+                const fallback = model.fallbackDistance !== undefined ? model.fallbackDistance * unitsPerKm : Infinity;
+                showModel = this.worldPosition.distanceTo(cameraPosition) <= fallback;
+
+                const scale = model.scale ?? 1;
+                this.scaleMatrix.makeScale(scale, scale, scale);
+                instance.group.matrix.multiplyMatrices(transform.matrix, this.scaleMatrix);
+                instance.group.matrixWorldNeedsUpdate = true;
+            }
+
+            if (instance) instance.group.visible = showModel;
+            if (showModel) {
+                this.modelShown.add(entity);
+            } else {
+                this.modelShown.delete(entity);
+            }
+        }
+
+        // Remove instances for entities that lost their model
+        if (this.instances.size > 0) this.instances.forEach(this.removeInactive);
+
+        this.modelTime = performance.now() - startTime;
+    }
+
+    /**
+     * Whether the entity draws its model rather than its billboard as of the last update
+     */
+    isShowingModel(entity: EntityId): boolean {
+        return this.modelShown.has(entity);
+    }
+
+    /**
+     * The entity's instance, created once its asset is loaded (and its loading started if the component has a URL)
+     */
+    private getInstance(entity: EntityId, model: ModelComponent): ModelInstance | null {
+        const existing = this.instances.get(entity);
+        if (existing && existing.model === model.model) return existing;
+        if (existing) this.removeInstance(entity);
+
+        const assets = this.assetService!;
+        if (!assets.hasModel(model.model)) {
+            if (model.url && !this.requested.has(model.model)) {
+                this.requested.add(model.model);
+                assets.loadModel(model.model, model.url).catch((error) => {
+                    console.warn(`[ModelSystem] ⚠️ Failed to load model "${model.model}" from ${model.url}:`, error);
+                });
+            }
+            return null;
+        }
+
+        const object = assets.createInstance(model.model)!;
+        const group = new THREE.Group();
+        group.matrixAutoUpdate = false;
+        group.userData.entityId = entity; // Store entity ID for selection
+        group.add(object);
+        this.renderingService!.addObject(group);
+
+        const instance = { model: model.model, group };
+        this.instances.set(entity, instance);
+        return instance;
+    }
+
+    private removeInactive = (_instance: ModelInstance, entity: EntityId): void => {
+        if (!this.active.has(entity)) this.removeInstance(entity);
+    };
+
+    private removeInstance(entity: EntityId): void {
+        const instance = this.instances.get(entity);
+        if (!instance) return;
+
+        // Geometry and materials belong to the asset service cache
+        this.renderingService?.removeObject(instance.group);
+        this.instances.delete(entity);
+        this.modelShown.delete(entity);
+    }
+
+    cleanup(): void {
+        for (const entity of Array.from(this.instances.keys())) {
+            this.removeInstance(entity);
+        }
+
+        this.requested.clear();
+        this.active.clear();
+        this.engine = null;
+        this.renderingService = null;
+        this.assetService = null;
+        this.frameService = null;
+    }
+}
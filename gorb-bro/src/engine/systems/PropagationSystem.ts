@@ -1,7 +1,16 @@
 // Propagation System - updates entity positions based on orbital elements
 
-import type { System, EntityId, IEngine, OrbitalElementsComponent, PropagatorComponent, PositionComponent, VelocityComponent } from "../types";
-import { ComponentType } from "../types";
+import type {
+    System,
+    EntityId,
+    IEngine,
+    IFrameConversionService,
+    OrbitalElementsComponent,
+    PropagatorComponent,
+    PositionComponent,
+    VelocityComponent,
+} from "../types";
+import { ComponentType, ReferenceFrame } from "../types";
 import { TimeService } from "../services/TimeService";
 import type { InstancedSatelliteSystem } from "./InstancedSatelliteSystem";
 
@@ -13,6 +22,7 @@ export class PropagationSystem implements System {
 
     private engine: IEngine | null = null;
     private timeService: TimeService | null = null;
+    private frameService: IFrameConversionService | null = null;
     private instancedSatelliteSystem: InstancedSatelliteSystem | null = null;
     public propagationTime: number = 0; // Exposed for stats
 
@@ -20,6 +30,7 @@ export class PropagationSystem implements System {
         console.log("[PropagationSystem] Initializing...");
         this.engine = engine;
         this.timeService = engine.getService<TimeService>("time") || null;
+        this.frameService = engine.getService<IFrameConversionService>("frame") || null;
 
         // Get InstancedSatelliteSystem for direct array manipulation
         this.instancedSatelliteSystem = engine.getSystem("instancedSatellite") as InstancedSatelliteSystem | null;
@@ -52,13 +63,15 @@ export class PropagationSystem implements System {
                     const positionArray = this.instancedSatelliteSystem.getPositionArray();
                     const index = this.instancedSatelliteSystem.getEntityIndex(entity);
 
-                    if (index !== undefined && index >= 0) {
-                        propagationSuccess = propagator.propagator.propagateDirect(orbital.data, currentTime, positionArray, index);
-                    } else {
-                        // Allocate index for new entity
-                        const newIndex = this.instancedSatelliteSystem.allocateIndex(entity);
-                        if (newIndex >= 0) {
-                            propagationSuccess = propagator.propagator.propagateDirect(orbital.data, currentTime, positionArray, newIndex);
+                    // Allocate index for new entity
+                    const slot = index !== undefined && index >= 0 ? index : this.instancedSatelliteSystem.allocateIndex(entity);
+
+                    if (slot >= 0) {
+                        propagationSuccess = propagator.propagator.propagateDirect(orbital.data, currentTime, positionArray, slot);
+
+                        // Propagators write in their native frame; move the slot into render space in place
+                        if (propagationSuccess) {
+                            this.toRenderInPlace(positionArray, slot, propagator.propagator.frame ?? ReferenceFrame.TEME, currentTime);
                         }
                     }
                 }
@@ -69,7 +82,10 @@ export class PropagationSystem implements System {
 
                     // Try to write via high-level API
                     if (this.instancedSatelliteSystem) {
-                        this.instancedSatelliteSystem.writePositionDirect(entity, state.position.x, state.position.y, state.position.z);
+                        const renderPos = this.frameService
+                            ? this.frameService.convert(state.position, state.frame, ReferenceFrame.RENDER, currentTime)
+                            : state.position;
+                        this.instancedSatelliteSystem.writePositionDirect(entity, renderPos.x, renderPos.y, renderPos.z);
                     }
 
                     // Update position component for compatibility
@@ -108,7 +124,16 @@ export class PropagationSystem implements System {
                         });
                     }
                 }
+
+                if (propagator.outOfRange) {
+                    propagator.outOfRange = false;
+                    this.instancedSatelliteSystem?.restoreSize(entity);
+                }
             } catch (error) {
+                // Flag the entity so renderers hide it instead of leaving it at its last position
+                propagator.outOfRange = true;
+                this.instancedSatelliteSystem?.writeSizeDirect(entity, 0);
+
                 // Silently skip entities with propagation errors to avoid console spam
                 if (Math.random() < 0.001) {
                     console.warn(`[PropagationSystem] Propagation error for entity ${entity}:`, error);
@@ -119,9 +144,28 @@ export class PropagationSystem implements System {
         this.propagationTime = performance.now() - startTime;
     }
 
+    /**
+     * Apply the frame's render matrix to one xyz slot of a position array
+     */
+    private toRenderInPlace(positionArray: Float32Array, index: number, frame: ReferenceFrame, time: number): void {
+        if (!this.frameService || frame === ReferenceFrame.RENDER) return;
+
+        const e = this.frameService.getRenderMatrix(frame, time).elements;
+        const i3 = index * 3;
+        const x = positionArray[i3];
+        const y = positionArray[i3 + 1];
+        const z = positionArray[i3 + 2];
+
+        // Column-major affine transform (no translation)
+        positionArray[i3] = e[0] * x + e[4] * y + e[8] * z;
+        positionArray[i3 + 1] = e[1] * x + e[5] * y + e[9] * z;
+        positionArray[i3 + 2] = e[2] * x + e[6] * y + e[10] * z;
+    }
+
     cleanup(): void {
         this.engine = null;
         this.timeService = null;
+        this.frameService = null;
         this.instancedSatelliteSystem = null;
     }
 }
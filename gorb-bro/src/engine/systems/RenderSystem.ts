@@ -1,15 +1,18 @@
 // Render System - manages visual representation of entities
 
 import * as THREE from "three";
-import type { System, EntityId, IEngine, PositionComponent, BillboardComponent, MeshComponent, LabelComponent } from "../types";
+import type { System, EntityId, IEngine, PositionComponent, BillboardComponent, MeshComponent, TransformComponent } from "../types";
 import { ComponentType } from "../types";
 import { RenderingService } from "../services/RenderingService";
+import { isTimeHidden } from "../utils/TimeVisibility";
+import type { LODSystem } from "./LODSystem";
+import type { ModelSystem } from "./ModelSystem";
 
 export class RenderSystem implements System {
     name = "render";
     priority = 1000;
     requiredComponents = [ComponentType.POSITION];
-    optionalComponents = [ComponentType.BILLBOARD, ComponentType.MESH, ComponentType.LABEL];
+    optionalComponents = [ComponentType.BILLBOARD, ComponentType.MESH]; // Labels are drawn by LabelSystem
 
     private engine: IEngine | null = null;
     private renderingService: RenderingService | null = null;
@@ -67,12 +70,9 @@ export class RenderSystem implements System {
                 this.updateBillboard(entity, position, billboard);
             } else if (mesh) {
                 this.updateMesh(entity, position, mesh);
-            }
-
-            // Handle labels separately
-            const label = this.engine.getComponent<LabelComponent>(entity, ComponentType.LABEL);
-            if (label) {
-                this.updateLabel(entity, position, label);
+            } else {
+                // Representation removed (e.g. by LODSystem)
+                this.removeRenderObject(entity);
             }
         }
 
@@ -87,6 +87,12 @@ export class RenderSystem implements System {
 
         let object = this.renderObjects.get(entity);
 
+        // Switching from a mesh: replace the object
+        if (object && !(object instanceof THREE.Sprite)) {
+            this.removeRenderObject(entity);
+            object = undefined;
+        }
+
         if (!object) {
             // Create new sprite
             const sprite = new THREE.Sprite(
@@ -104,12 +110,22 @@ export class RenderSystem implements System {
         }
 
         // Update position
-        object.position.set(position.x, position.y, position.z);
+        this.applyPosition(entity, object, position);
+
+        // Models and LOD levels override billboards through their systems' state, not the component
+        const modelSystem = this.engine!.getSystem("model") as ModelSystem | undefined;
+        const lodSystem = this.engine!.getSystem("lod") as LODSystem | undefined;
 
         // Update scale if changed
+        const size = lodSystem?.getPointSize(entity) ?? billboard.size;
         if (object instanceof THREE.Sprite) {
-            object.scale.set(billboard.size, billboard.size, 1);
+            object.scale.set(size, size, 1);
         }
+        object.visible =
+            billboard.visible !== false &&
+            !isTimeHidden(this.engine!, entity) &&
+            modelSystem?.isShowingModel(entity) !== true &&
+            lodSystem?.isBillboardHidden(entity) !== true;
     }
 
     private updateMesh(entity: EntityId, position: PositionComponent, meshComponent: MeshComponent): void {
@@ -117,6 +133,12 @@ export class RenderSystem implements System {
 
         let object = this.renderObjects.get(entity);
 
+        // Switching from a billboard: replace the object
+        if (object && !(object instanceof THREE.Mesh)) {
+            this.removeRenderObject(entity);
+            object = undefined;
+        }
+
         if (!object) {
             // Create new mesh
             const geometry = this.renderingService.getGeometry(meshComponent.geometry) || new THREE.BoxGeometry(1, 1, 1);
@@ -132,18 +154,26 @@ export class RenderSystem implements System {
         }
 
         // Update position
-        object.position.set(position.x, position.y, position.z);
+        this.applyPosition(entity, object, position);
 
         // Update scale if changed
         if (object instanceof THREE.Mesh) {
             object.scale.set(...meshComponent.scale);
         }
+        object.visible = !isTimeHidden(this.engine!, entity);
     }
 
-    private updateLabel(_entity: EntityId, _position: PositionComponent, _label: LabelComponent): void {
-        // Label rendering would require HTML/CSS overlays or sprite text
-        // For now, this is a placeholder
-        // In a full implementation, this would create DOM elements or canvas sprites
+    /**
+     * Position (and orient) an object from its render-frame transform, falling back to the raw position
+     */
+    private applyPosition(entity: EntityId, object: THREE.Object3D, position: PositionComponent): void {
+        const transform = this.engine?.getComponent<TransformComponent>(entity, ComponentType.TRANSFORM);
+        if (transform) {
+            object.position.setFromMatrixPosition(transform.matrix);
+            object.quaternion.setFromRotationMatrix(transform.matrix);
+        } else {
+            object.position.set(position.x, position.y, position.z);
+        }
     }
 
     private cleanupRemovedEntities(activeEntities: EntityId[]): void {
@@ -152,18 +182,25 @@ export class RenderSystem implements System {
         const activeSet = new Set(activeEntities);
 
         // Find entities that have render objects but are no longer active
-        for (const [entity, object] of this.renderObjects.entries()) {
+        for (const entity of Array.from(this.renderObjects.keys())) {
             if (!activeSet.has(entity)) {
-                this.renderingService.removeObject(object);
-                this.renderObjects.delete(entity);
-
-                // Dispose geometry and material if they're not shared
-                if (object instanceof THREE.Mesh) {
-                    if (object.geometry) object.geometry.dispose();
-                    if (object.material instanceof THREE.Material) {
-                        object.material.dispose();
-                    }
-                }
+                this.removeRenderObject(entity);
+            }
+        }
+    }
+
+    private removeRenderObject(entity: EntityId): void {
+        const object = this.renderObjects.get(entity);
+        if (!object || !this.renderingService) return;
+
+        this.renderingService.removeObject(object);
+        this.renderObjects.delete(entity);
+
+        // Dispose geometry and material if they're not shared
+        if (object instanceof THREE.Mesh) {
+            if (object.geometry) object.geometry.dispose();
+            if (object.material instanceof THREE.Material) {
+                object.material.dispose();
             }
         }
     }
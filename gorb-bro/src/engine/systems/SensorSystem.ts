@@ -0,0 +1,194 @@
+// Sensor System - renders each sensor's translucent FOV volume and its footprint on the globe
+
+import * as THREE from "three";
+import type { System, EntityId, IEngine, IFrameConversionService, ISensorService, ITimeService, SensorComponent } from "../types";
+import { ComponentType, ReferenceFrame } from "../types";
+import type { RenderingService } from "../services/RenderingService";
+import { EARTH_RADIUS } from "../utils/OrbitalMath";
+import { fieldOfViewBoundary, footprintPoint, type FootprintPoint } from "../utils/SensorGeometry";
+import { isTimeHidden } from "../utils/TimeVisibility";
+
+// Boundary rays per sensor
+const BOUNDARY_SEGMENTS = 64;
+
+// Footprint height above the globe mesh (km) so it does not z-fight with the surface
+const FOOTPRINT_OFFSET = 5;
+
+interface SensorVisual {
+    group: THREE.Group; // Carries the J2000 -> render matrix
+    volume: THREE.Mesh; // Apex plus boundary ring, as a triangle fan
+    footprint: THREE.LineLoop;
+    rays: number; // Boundary ray count the buffers were sized for
+}
+
+export class SensorSystem implements System {
+    name = "sensor";
+    priority = 950; // Before RenderSystem (1000)
+    requiredComponents = [ComponentType.SENSOR];
+
+    private engine: IEngine | null = null;
+    private renderingService: RenderingService | null = null;
+    private sensorService: ISensorService | null = null;
+    private timeService: ITimeService | null = null;
+    private frameService: IFrameConversionService | null = null;
+    private visuals: Map<EntityId, SensorVisual> = new Map();
+
+    // Scratch buffers reused for every sensor each frame
+    private boundary: [number, number, number][] = [];
+    private origin: [number, number, number] = [0, 0, 0];
+    private direction: [number, number, number] = [0, 0, 0];
+    private ground: FootprintPoint = { point: [0, 0, 0], distance: 0, hit: false };
+    private active: Set<EntityId> = new Set();
+    public sensorTime: number = 0; // Exposed for stats
+
+    init(engine: IEngine): void {
+        this.engine = engine;
+        this.renderingService = engine.getService<RenderingService>("rendering") ?? null;
+        this.sensorService = engine.getService<ISensorService>("sensor") ?? null;
+        this.timeService = engine.getService<ITimeService>("time") ?? null;
+        this.frameService = engine.getService<IFrameConversionService>("frame") ?? null;
+
+        if (!this.renderingService || !this.sensorService || !this.frameService) {
+            console.warn("SensorSystem requires RenderingService, SensorService and FrameConversionService");
+        }
+    }
+
+    update(_deltaTime: number, entities: EntityId[]): void {
+        if (!this.engine || !this.renderingService || !this.sensorService || !this.frameService) return;
+
+        const startTime = performance.now();
+        const time = this.timeService?.getCurrentTime() ?? Date.now();
+        const renderMatrix = this.frameService.getRenderMatrix(ReferenceFrame.J2000, time);
+
+        for (const entity of entities) {
+            const sensor = this.engine.getComponent<SensorComponent>(entity, ComponentType.SENSOR);
+            const frame = sensor && !isTimeHidden(this.engine, entity) ? this.sensorService.getSensorFrame(entity, time) : null;
+            const boundary = sensor && frame ? fieldOfViewBoundary(sensor, BOUNDARY_SEGMENTS, this.boundary) : null;
+
+            let visual = this.visuals.get(entity);
+            if (!sensor || !frame || !boundary || boundary.length < 3) {
+                if (visual) visual.group.visible = false;
+                continue;
+            }
+
+            if (!visual || visual.rays !== boundary.length) {
+                this.removeVisual(entity);
+                visual = this.createVisual(boundary.length);
+                this.visuals.set(entity, visual);
+            }
+
+            // Volume color and opacity follow the component
+            const color = sensor.color ?? 0x00ffff;
+            const volumeMaterial = visual.volume.material as THREE.MeshBasicMaterial;
+            volumeMaterial.color.setHex(color);
+            volumeMaterial.opacity = sensor.opacity ?? 0.15;
+            (visual.footprint.material as THREE.LineBasicMaterial).color.setHex(color);
+
+            const volumePositions = visual.volume.geometry.getAttribute("position") as THREE.BufferAttribute;
+            const footprintPositions = visual.footprint.geometry.getAttribute("position") as THREE.BufferAttribute;
+            const origin = this.origin;
+            const direction = this.direction;
+            const ground = this.ground;
+            origin[0] = frame.origin.x;
+            origin[1] = frame.origin.y;
+            origin[2] = frame.origin.z;
+            const maxRange = sensor.maxRange ?? Infinity;
+            const lift = (EARTH_RADIUS + FOOTPRINT_OFFSET) / EARTH_RADIUS;
+            let reachesGround = false;
+
+            volumePositions.setXYZ(0, origin[0], origin[1], origin[2]);
+
+            for (let i = 0; i < boundary.length; i++) {
+                const [bx, by, bz] = boundary[i];
+
+                // Sensor frame -> J2000
+                direction[0] = bx * frame.xAxis[0] + by * frame.yAxis[0] + bz * frame.boresight[0];
+                direction[1] = bx * frame.xAxis[1] + by * frame.yAxis[1] + bz * frame.boresight[1];
+                direction[2] = bx * frame.xAxis[2] + by * frame.yAxis[2] + bz * frame.boresight[2];
+
+                // Volume ends at the globe (or the limb) unless the range limit cuts it shorter
+                footprintPoint(origin, direction, EARTH_RADIUS, ground);
+                const length = Math.min(ground.distance, maxRange);
+                reachesGround ||= ground.hit && ground.distance <= maxRange;
+
+                volumePositions.setXYZ(i + 1, origin[0] + direction[0] * length, origin[1] + direction[1] * length, origin[2] + direction[2] * length);
+                footprintPositions.setXYZ(i, ground.point[0] * lift, ground.point[1] * lift, ground.point[2] * lift);
+            }
+
+            volumePositions.needsUpdate = true;
+            footprintPositions.needsUpdate = true;
+            visual.volume.geometry.computeBoundingSphere();
+            visual.footprint.geometry.computeBoundingSphere();
+            visual.footprint.visible = reachesGround;
+
+            visual.group.matrix.copy(renderMatrix);
+            visual.group.matrixWorldNeedsUpdate = true;
+            visual.group.visible = true;
+        }
+
+        // Remove visuals for entities that lost their sensor
+        const active = this.active;
+        active.clear();
+        for (const entity of entities) active.add(entity);
+        for (const entity of this.visuals.keys()) {
+            if (!active.has(entity)) {
+                this.removeVisual(entity);
+            }
+        }
+
+        this.sensorTime = performance.now() - startTime;
+    }
+
+    private createVisual(rays: number): SensorVisual {
+        const volumeGeometry = new THREE.BufferGeometry();
+        volumeGeometry.setAttribute("position", new THREE.BufferAttribute(new Float32Array((rays + 1) * 3), 3));
+
+        // Fan of side faces from the apex
+        const indices: number[] = [];
+        for (let i = 0; i < rays; i++) {
+            indices.push(0, i + 1, ((i + 1) % rays) + 1);
+        }
+        volumeGeometry.setIndex(indices);
+
+        const volume = new THREE.Mesh(
+            volumeGeometry,
+            new THREE.MeshBasicMaterial({ transparent: true, side: THREE.DoubleSide, depthWrite: false })
+        );
+
+        const footprintGeometry = new THREE.BufferGeometry();
+        footprintGeometry.setAttribute("position", new THREE.BufferAttribute(new Float32Array(rays * 3), 3));
+        const footprint = new THREE.LineLoop(footprintGeometry, new THREE.LineBasicMaterial());
+
+        const group = new THREE.Group();
+        group.matrixAutoUpdate = false;
+        group.add(volume);
+        group.add(footprint);
+        this.renderingService!.getScene().add(group);
+
+        return { group, volume, footprint, rays };
+    }
+
+    private removeVisual(entity: EntityId): void {
+        const visual = this.visuals.get(entity);
+        if (!visual) return;
+
+        this.renderingService?.getScene().remove(visual.group);
+        for (const object of [visual.volume, visual.footprint]) {
+            object.geometry.dispose();
+            (object.material as THREE.Material).dispose();
+        }
+        this.visuals.delete(entity);
+    }
+
+    cleanup(): void {
+        for (const entity of Array.from(this.visuals.keys())) {
+            this.removeVisual(entity);
+        }
+
+        this.engine = null;
+        this.renderingService = null;
+        this.sensorService = null;
+        this.timeService = null;
+        this.frameService = null;
+    }
+}
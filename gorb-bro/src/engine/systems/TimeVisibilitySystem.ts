@@ -0,0 +1,76 @@
+// Time Visibility System - marks entities available or not at the current time and reports when that changes
+// Rendering systems hide entities whose TimeVisibilityComponent.available is false
+
+import type { System, EntityId, IEngine, ITimeService, TimeVisibilityComponent } from "../types";
+import { ComponentType } from "../types";
+import { isAvailableAt } from "../utils/TimeVisibility";
+
+export interface AvailabilityChangeEvent {
+    entity: EntityId;
+    available: boolean; // true on entering availability, false on leaving it
+    time: number; // Simulation time of the update that noticed the change (UTC Unix ms)
+}
+
+export class TimeVisibilitySystem implements System {
+    name = "timeVisibility";
+    priority = 40; // Before InstancedSatelliteSystem (50) and every other renderer
+    requiredComponents = [ComponentType.TIME_VISIBILITY];
+
+    private engine: IEngine | null = null;
+    private timeService: ITimeService | null = null;
+    private callbacks: Set<(event: AvailabilityChangeEvent) => void> = new Set();
+    public availableCount: number = 0; // Exposed for stats
+
+    init(engine: IEngine): void {
+        this.engine = engine;
+        this.timeService = engine.getService<ITimeService>("time") ?? null;
+
+        if (!this.timeService) {
+            console.warn("[TimeVisibilitySystem] ⚠️ TimeService not found, using wall-clock time");
+        }
+    }
+
+    update(_deltaTime: number, entities: EntityId[]): void {
+        if (!this.engine) return;
+
+        const time = this.timeService?.getCurrentTime() ?? Date.now();
+        let availableCount = 0;
+
+        for (const entity of entities) {
+            const visibility = this.engine.getComponent<TimeVisibilityComponent>(entity, ComponentType.TIME_VISIBILITY)!;
+            const available = isAvailableAt(visibility, time);
+            if (available) availableCount++;
+
+            // The first evaluation only sets the state; events are for changes
+            const previous = visibility.available;
+            visibility.available = available;
+            if (previous !== undefined && previous !== available && this.callbacks.size > 0) {
+                this.notifyCallbacks({ entity, available, time });
+            }
+        }
+
+        this.availableCount = availableCount;
+    }
+
+    /**
+     * Register a callback for entities entering or leaving availability (launches, decays, scrubbing)
+     * Returns an unsubscribe function
+     */
+    onAvailabilityChange(callback: (event: AvailabilityChangeEvent) => void): () => void {
+        this.callbacks.add(callback);
+        return () => {
+            this.callbacks.delete(callback);
+        };
+    }
+
+    private notifyCallbacks(event: AvailabilityChangeEvent): void {
+        this.callbacks.forEach((callback) => callback(event));
+    }
+
+    cleanup(): void {
+        this.callbacks.clear();
+        this.engine = null;
+        this.timeService = null;
+    }
+}
+
@@ -0,0 +1,425 @@
+// Trail System - fading lead/lag orbit paths for many entities, drawn in one instanced line draw
+// Each trail is a ring of samples on a fixed time grid stored in a float texture; when time moves (either way)
+// only the grid samples missing from the ring are propagated, and the vertex shader reads positions and times from the texture
+
+import * as THREE from "three";
+import type { System, EntityId, IEngine, IFrameConversionService, ITimeService, BillboardComponent, OrbitalElementsComponent, OrbitalData, TrailComponent } from "../types";
+import { ComponentType, ReferenceFrame } from "../types";
+import type { RenderingService } from "../services/RenderingService";
+import type { SelectionService } from "../services/SelectionService";
+import { EntityStateSampler } from "../utils/EntityStateSampler";
+import { isTimeHidden } from "../utils/TimeVisibility";
+
+export interface TrailSystemOptions {
+    /**
+     * Trails drawn at once; further entities get no trail
+     * Default: 4096
+     */
+    maxTrails?: number;
+
+    /**
+     * Samples per trail (line vertices along lead + lag)
+     * Default: 64
+     */
+    samples?: number;
+
+    /**
+     * Draw a trail for every propagated entity, not just those with a TrailComponent
+     * Default: false
+     */
+    showAll?: boolean;
+
+    /**
+     * Draw a trail for the selected entity even without a TrailComponent
+     * Default: true
+     */
+    showSelected?: boolean;
+
+    /**
+     * Lead and lag in seconds, and hex color, for trails without their own settings
+     * Default: no lead, 2700 s (about half a low orbit) of lag, the billboard color or white
+     */
+    lead?: number;
+    lag?: number;
+    color?: number;
+
+    /**
+     * Opacity of the lead (future) path relative to the lag path
+     * Default: 0.5
+     */
+    leadOpacity?: number;
+
+    /**
+     * Propagations per frame; after a large time jump trails fill in over a few frames
+     * Default: 20000
+     */
+    maxSamplesPerFrame?: number;
+}
+
+interface TrailState {
+    row: number; // Texture row
+    lead: number; // Seconds
+    lag: number;
+    step: number; // Sample spacing in ms
+    color: number;
+    data: OrbitalData | null; // Orbital data the samples were computed from
+    frame: number; // Last update that drew the trail
+}
+
+const UNWRITTEN = -1e9; // Sample time of empty slots, far from any neighbour so their segments are hidden
+const EPOCH_RANGE = 1e6; // Seconds from the epoch before sample times are rebased (float32 precision)
+
+export class TrailSystem implements System {
+    name = "trail";
+    priority = 910; // Samples the propagators itself; after GroundTrackSystem (900), before RenderSystem (1000)
+    requiredComponents = [ComponentType.TRAIL];
+
+    private engine: IEngine | null = null;
+    private renderingService: RenderingService | null = null;
+    private timeService: ITimeService | null = null;
+    private frameService: IFrameConversionService | null = null;
+    private selectionService: SelectionService | null = null;
+    private sampler: EntityStateSampler | null = null;
+    private options: Required<TrailSystemOptions>;
+
+    private mesh: THREE.LineSegments | null = null;
+    private geometry: THREE.InstancedBufferGeometry | null = null;
+    private material: THREE.ShaderMaterial | null = null;
+    private sampleTexture: THREE.DataTexture;
+    private infoTexture: THREE.DataTexture;
+    private samples: Float32Array; // Per row and slot: x, y, z (render space), time (seconds from epoch)
+    private info: Float32Array; // Per row: r, g, b, lead opacity | lead, lag, step (seconds), active
+    private sampleIndices: Float64Array; // Grid index held by each slot (NaN when empty)
+
+    private states: Map<EntityId, TrailState> = new Map();
+    private freeRows: number[] = [];
+    private nextRow: number = 0;
+    private frame: number = 0;
+    private epoch: number | null = null; // Simulation time (ms) sample times are stored relative to
+    private renderConfigKey: string = "";
+    private sampleBudget: number = 0;
+    private pendingRanges: number = 0;
+    public trailCount: number = 0; // Exposed for stats
+    public trailTime: number = 0; // Exposed for stats
+
+    constructor(options: TrailSystemOptions = {}) {
+        this.options = {
+            maxTrails: options.maxTrails ?? 4096,
+            samples: Math.max(4, options.samples ?? 64),
+            showAll: options.showAll ?? false,
+            showSelected: options.showSelected ?? true,
+            lead: options.lead ?? 0,
+            lag: options.lag ?? 2700,
+            color: options.color ?? 0xffffff,
+            leadOpacity: options.leadOpacity ?? 0.5,
+            maxSamplesPerFrame: options.maxSamplesPerFrame ?? 20000,
+        };
+
+        const { maxTrails, samples } = this.options;
+        this.samples = new Float32Array(maxTrails * samples * 4);
+        this.info = new Float32Array(maxTrails * 2 * 4);
+        this.sampleIndices = new Float64Array(maxTrails * samples).fill(NaN);
+        for (let i = 3; i < this.samples.length; i += 4) this.samples[i] = UNWRITTEN;
+
+        this.sampleTexture = createFloatTexture(this.samples, samples, maxTrails);
+        this.infoTexture = createFloatTexture(this.info, 2, maxTrails);
+    }
+
+    init(engine: IEngine): void {
+        this.engine = engine;
+        this.renderingService = engine.getService<RenderingService>("rendering") ?? null;
+        this.timeService = engine.getService<ITimeService>("time") ?? null;
+        this.frameService = engine.getService<IFrameConversionService>("frame") ?? null;
+        this.selectionService = engine.getService<SelectionService>("selection") ?? null;
+
+        if (!this.renderingService || !this.frameService) {
+            console.warn("[TrailSystem] ⚠️ RenderingService and FrameConversionService are required");
+            return;
+        }
+
+        this.sampler = new EntityStateSampler(engine.getComponentRegistry(), this.frameService);
+        this.createMesh();
+    }
+
+    private createMesh(): void {
+        const { samples, maxTrails } = this.options;
+
+        // One segment per pair of neighbouring ring slots; "position" carries (slot, next slot)
+        const slots = new Float32Array(samples * 2 * 3);
+        for (let s = 0; s < samples; s++) {
+            const next = (s + 1) % samples;
+            slots.set([s, next, 0, next, s, 0], s * 6);
+        }
+
+        const rows = new Float32Array(maxTrails);
+        for (let i = 0; i < maxTrails; i++) rows[i] = i;
+
+        this.geometry = new THREE.InstancedBufferGeometry();
+        this.geometry.setAttribute("position", new THREE.BufferAttribute(slots, 3));
+        this.geometry.setAttribute("row", new THREE.InstancedBufferAttribute(rows, 1));
+        this.geometry.instanceCount = 0;
+
+        this.material = new THREE.ShaderMaterial({
+            uniforms: {
+                samples: { value: this.sampleTexture },
+                info: { value: this.infoTexture },
+                textureSize: { value: new THREE.Vector2(samples, maxTrails) },
+                now: { value: 0 },
+            },
+            vertexShader: `
+                uniform sampler2D samples;
+                uniform sampler2D info;
+                uniform vec2 textureSize;
+                uniform float now;
+
+                attribute float row;
+
+                varying float vTime;
+                varying vec4 vColor;
+                varying vec2 vLimits;
+
+                void main() {
+                    float v = (row + 0.5) / textureSize.y;
+                    vec4 sample = texture2D(samples, vec2((position.x + 0.5) / textureSize.x, v));
+                    vec4 neighbour = texture2D(samples, vec2((position.y + 0.5) / textureSize.x, v));
+                    vec4 color = texture2D(info, vec2(0.25, v));
+                    vec4 limits = texture2D(info, vec2(0.75, v));
+
+                    vTime = sample.w - now;
+                    vColor = color;
+                    vLimits = limits.xy;
+
+                    // Inactive rows, empty slots and the ring seam (newest to oldest sample) collapse off screen
+                    bool connected = abs(neighbour.w - sample.w) < limits.z * 1.5;
+                    if (limits.w < 0.5 || !connected) {
+                        gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+                        return;
+                    }
+
+                    gl_Position = projectionMatrix * modelViewMatrix * vec4(sample.xyz, 1.0);
+                }
+            `,
+            fragmentShader: `
+                varying float vTime;
+                varying vec4 vColor;
+                varying vec2 vLimits;
+
+                void main() {
+                    // Clip exactly at the lead/lag limits (the time is interpolated along each segment)
+                    if (vTime > vLimits.x || vTime < -vLimits.y) discard;
+
+                    // Fade towards both ends; the lead path is dimmer
+                    float fade = vTime >= 0.0 ? vColor.a * (1.0 - vTime / max(vLimits.x, 1e-3)) : 1.0 + vTime / max(vLimits.y, 1e-3);
+                    gl_FragColor = vec4(vColor.rgb, fade);
+                }
+            `,
+            transparent: true,
+            depthWrite: false,
+        });
+
+        this.mesh = new THREE.LineSegments(this.geometry, this.material);
+        this.mesh.frustumCulled = false;
+        this.renderingService!.addObject(this.mesh);
+    }
+
+    update(_deltaTime: number, entities: EntityId[]): void {
+        if (!this.engine || !this.sampler || !this.material) return;
+
+        const startTime = performance.now();
+        const time = this.timeService?.getCurrentTime() ?? Date.now();
+        this.frame++;
+        this.sampleBudget = this.options.maxSamplesPerFrame;
+        this.pendingRanges = 0;
+
+        this.checkInvalidation(time);
+
+        for (const entity of entities) this.updateTrail(entity, time);
+
+        const selected = this.options.showSelected ? (this.selectionService?.getSelectedEntity() ?? null) : null;
+        if (selected !== null && this.engine.hasComponent(selected, ComponentType.ORBITAL_ELEMENTS)) {
+            this.updateTrail(selected, time);
+        }
+
+        if (this.options.showAll) {
+            for (const entity of this.engine.getEntitiesWithComponent(ComponentType.PROPAGATOR)) {
+                this.updateTrail(entity, time);
+            }
+        }
+
+        // Free rows of entities no longer drawn
+        if (this.states.size > 0) this.states.forEach(this.releaseUnseen);
+
+        // Many scattered writes: one full upload beats hundreds of partial ones
+        if (this.pendingRanges > 256) this.sampleTexture.clearUpdateRanges();
+        if (this.pendingRanges > 0) this.sampleTexture.needsUpdate = true;
+
+        this.material.uniforms.now.value = (time - this.epoch!) / 1000;
+        this.geometry!.instanceCount = this.nextRow;
+        this.trailCount = this.states.size;
+        this.trailTime = performance.now() - startTime;
+    }
+
+    /**
+     * Bring one entity's ring up to date for the current time
+     */
+    private updateTrail(entity: EntityId, time: number): void {
+        const engine = this.engine!;
+        let state = this.states.get(entity);
+        if (state?.frame === this.frame) return; // Already drawn this frame (selected and has a trail)
+
+        const orbital = engine.getComponent<OrbitalElementsComponent>(entity, ComponentType.ORBITAL_ELEMENTS);
+        if (!orbital || isTimeHidden(engine, entity)) return;
+
+        const trail = engine.getComponent<TrailComponent>(entity, ComponentType.TRAIL);
+        const billboard = engine.getComponent<BillboardComponent>(entity, ComponentType.BILLBOARD);
+        const lead = Math.max(0, trail?.lead ?? this.options.lead);
+        const lag = Math.max(0, trail?.lag ?? this.options.lag);
+        const color = trail?.color ?? billboard?.color ?? this.options.color;
+        if (lead + lag <= 0) return;
+
+        if (!state) {
+            const row = this.freeRows.pop() ?? (this.nextRow < this.options.maxTrails ? this.nextRow++ : -1);
+            if (row < 0) return;
+            state = { row, lead: -1, lag: -1, step: 0, color: -1, data: null, frame: 0 };
+            this.states.set(entity, state);
+        }
+        state.frame = this.frame;
+
+        // New settings or orbit: the grid spacing or the samples themselves change
+        if (state.lead !== lead || state.lag !== lag || state.data !== orbital.data) {
+            state.lead = lead;
+            state.lag = lag;
+            state.step = ((lead + lag) * 1000) / (this.options.samples - 2);
+            state.data = orbital.data;
+            this.clearRow(state.row);
+            this.writeInfo(state);
+        }
+        if (state.color !== color) {
+            state.color = color;
+            this.writeInfo(state);
+        }
+
+        this.fillRow(entity, state, time);
+    }
+
+    /**
+     * Propagate the grid samples covering [time - lag, time + lead] (plus one on each side) that the ring lacks
+     */
+    private fillRow(entity: EntityId, state: TrailState, time: number): void {
+        const samples = this.options.samples;
+        const first = Math.floor((time - state.lag * 1000) / state.step);
+        const base = state.row * samples;
+        let written = -1;
+        let lastWritten = -1;
+
+        for (let k = first; k < first + samples; k++) {
+            const slot = ((k % samples) + samples) % samples;
+            if (this.sampleIndices[base + slot] === k) continue;
+            if (this.sampleBudget <= 0) break;
+            this.sampleBudget--;
+
+            const sampleTime = k * state.step;
+            const position = this.sampler!.getPosition(entity, sampleTime, ReferenceFrame.RENDER);
+            const o = (base + slot) * 4;
+            if (position) {
+                this.samples[o] = position.x;
+                this.samples[o + 1] = position.y;
+                this.samples[o + 2] = position.z;
+                this.samples[o + 3] = (sampleTime - this.epoch!) / 1000;
+            } else {
+                this.samples[o + 3] = UNWRITTEN; // Not propagatable (e.g. decayed): leave a gap
+            }
+            this.sampleIndices[base + slot] = k;
+
+            // Merge consecutive slots into one upload range
+            if (written >= 0 && slot === lastWritten + 1) {
+                lastWritten = slot;
+                continue;
+            }
+            if (written >= 0) this.addSampleRange(base, written, lastWritten);
+            written = lastWritten = slot;
+        }
+
+        if (written >= 0) this.addSampleRange(base, written, lastWritten);
+    }
+
+    private addSampleRange(base: number, firstSlot: number, lastSlot: number): void {
+        this.sampleTexture.addUpdateRange((base + firstSlot) * 4, (lastSlot - firstSlot + 1) * 4);
+        this.pendingRanges++;
+    }
+
+    private writeInfo(state: TrailState): void {
+        const o = state.row * 8;
+        this.info[o] = ((state.color >> 16) & 0xff) / 255;
+        this.info[o + 1] = ((state.color >> 8) & 0xff) / 255;
+        this.info[o + 2] = (state.color & 0xff) / 255;
+        this.info[o + 3] = this.options.leadOpacity;
+        this.info[o + 4] = state.lead;
+        this.info[o + 5] = state.lag;
+        this.info[o + 6] = state.step / 1000;
+        this.info[o + 7] = 1;
+        this.infoTexture.addUpdateRange(o, 8);
+        this.infoTexture.needsUpdate = true;
+    }
+
+    private clearRow(row: number): void {
+        const samples = this.options.samples;
+        this.sampleIndices.fill(NaN, row * samples, (row + 1) * samples);
+        for (let slot = 0; slot < samples; slot++) this.samples[(row * samples + slot) * 4 + 3] = UNWRITTEN;
+    }
+
+    /**
+     * Drop every sample when they can no longer be reused: render frame changed, or the epoch drifted too far for float32 times
+     */
+    private checkInvalidation(time: number): void {
+        const config = this.frameService!.getRenderFrameConfig();
+        const key = `${config.baseFrame}|${config.unitsPerKm}|${config.yUp}`;
+        const rebase = this.epoch === null || Math.abs(time - this.epoch) / 1000 > EPOCH_RANGE;
+        if (key === this.renderConfigKey && !rebase) return;
+
+        this.renderConfigKey = key;
+        this.epoch = time;
+        this.sampleIndices.fill(NaN);
+        for (let i = 3; i < this.samples.length; i += 4) this.samples[i] = UNWRITTEN;
+        this.sampleTexture.clearUpdateRanges();
+        this.sampleTexture.needsUpdate = true;
+    }
+
+    private releaseUnseen = (state: TrailState, entity: EntityId): void => {
+        if (state.frame === this.frame) return;
+
+        this.states.delete(entity);
+        this.info[state.row * 8 + 7] = 0;
+        this.infoTexture.addUpdateRange(state.row * 8, 8);
+        this.infoTexture.needsUpdate = true;
+        this.freeRows.push(state.row);
+    };
+
+    cleanup(): void {
+        if (this.mesh) this.renderingService?.removeObject(this.mesh);
+        this.geometry?.dispose();
+        this.material?.dispose();
+        this.sampleTexture.dispose();
+        this.infoTexture.dispose();
+
+        this.mesh = null;
+        this.geometry = null;
+        this.material = null;
+        this.states.clear();
+        this.sampler?.clear();
+        this.sampler = null;
+        this.engine = null;
+        this.renderingService = null;
+        this.timeService = null;
+        this.frameService = null;
+        this.selectionService = null;
+    }
+}
+
+function createFloatTexture(data: Float32Array, width: number, height: number): THREE.DataTexture {
+    const texture = new THREE.DataTexture(data, width, height, THREE.RGBAFormat, THREE.FloatType);
+    texture.minFilter = THREE.NearestFilter;
+    texture.magFilter = THREE.NearestFilter;
+    texture.needsUpdate = true;
+    return texture;
+}
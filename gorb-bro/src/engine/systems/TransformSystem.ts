@@ -1,82 +1,272 @@
-// Transform System - converts positions to render coordinates
+// Transform System - converts positions to render coordinates, applies attitudes and places child entities relative to their parents
 
 import * as THREE from "three";
-import type { System, EntityId, IEngine, PositionComponent, TransformComponent } from "../types";
+import type { System, EntityId, IEngine, IFrameConversionService, ITimeService, AttitudeComponent, HierarchyComponent, PositionComponent, TransformComponent } from "../types";
 import { ComponentType, ReferenceFrame } from "../types";
+import type { InstancedSatelliteSystem } from "./InstancedSatelliteSystem";
+
+type Vec3 = { x: number; y: number; z: number };
+
+// Components that make an entity without a position component a root (instanced satellites)
+const ROOT_COMPONENTS = [ComponentType.ATTITUDE, ComponentType.MODEL];
 
 export class TransformSystem implements System {
     name = "transform";
     priority = 200;
     requiredComponents = [ComponentType.POSITION];
-    optionalComponents = [ComponentType.TRANSFORM];
+    optionalComponents = [ComponentType.TRANSFORM, ComponentType.HIERARCHY, ComponentType.ATTITUDE, ComponentType.MODEL];
 
     private engine: IEngine | null = null;
+    private frameService: IFrameConversionService | null = null;
+    private timeService: ITimeService | null = null;
     private transformCache: Map<EntityId, THREE.Matrix4> = new Map();
     private renderFrame: ReferenceFrame = ReferenceFrame.RENDER;
+    private localMatrix: THREE.Matrix4 = new THREE.Matrix4();
+    private localOffset: THREE.Vector3 = new THREE.Vector3();
+    private localRotation: THREE.Quaternion = new THREE.Quaternion();
+    private unitScale: THREE.Vector3 = new THREE.Vector3(1, 1, 1);
+
+    // J2000 -> render rotation, computed on first use each frame
+    private renderRotation: THREE.Quaternion = new THREE.Quaternion();
+    private renderRotationValid: boolean = false;
+    private rotationMatrix: THREE.Matrix4 = new THREE.Matrix4();
+    private parentAxes: THREE.Matrix4 = new THREE.Matrix4();
+    private translation: THREE.Vector3 = new THREE.Vector3();
+
+    // Per-frame scratch
+    private rootPosition: Vec3 = { x: 0, y: 0, z: 0 };
+    private depths: Map<EntityId, number> = new Map();
+    private ordered: EntityId[] = [];
+    private path: EntityId[] = [];
     public transformTime: number = 0; // Exposed for stats
 
     init(engine: IEngine): void {
         this.engine = engine;
+        this.frameService = engine.getService<IFrameConversionService>("frame") ?? null;
+        this.timeService = engine.getService<ITimeService>("time") ?? null;
     }
 
     update(_deltaTime: number, entities: EntityId[]): void {
         if (!this.engine) return;
 
         const startTime = performance.now();
+        this.renderRotationValid = false;
 
+        // Roots first: children read their parent's transform from this frame
         for (const entity of entities) {
-            const position = this.engine.getComponent<PositionComponent>(entity, ComponentType.POSITION);
+            if (!this.engine.hasComponent(entity, ComponentType.HIERARCHY)) {
+                this.updateRoot(entity);
+            }
+        }
+
+        // Oriented or modelled entities without a position component (instanced satellites) are roots too
+        for (const type of ROOT_COMPONENTS) {
+            for (const entity of this.engine.getEntitiesWithComponent(type)) {
+                if (!this.engine.hasComponent(entity, ComponentType.POSITION) && !this.engine.hasComponent(entity, ComponentType.HIERARCHY)) {
+                    this.updateRoot(entity);
+                }
+            }
+        }
+
+        this.updateChildren();
+
+        this.transformTime = performance.now() - startTime;
+    }
+
+    private updateRoot(entity: EntityId): void {
+        const renderPos = this.getRootPosition(entity);
+        if (!renderPos) return;
+
+        // Get or create transform matrix
+        let transform = this.transformCache.get(entity);
+        if (!transform) {
+            transform = new THREE.Matrix4();
+            this.transformCache.set(entity, transform);
+        }
+
+        // Update transform matrix
+        transform.makeTranslation(renderPos.x, renderPos.y, renderPos.z);
+        this.applyAttitude(entity, transform);
+        this.writeTransform(entity, transform);
+    }
+
+    /**
+     * Replace a transform's rotation with the entity's attitude (body -> J2000, turned into render axes)
+     */
+    private applyAttitude(entity: EntityId, matrix: THREE.Matrix4): void {
+        const attitude = this.engine!.getComponent<AttitudeComponent>(entity, ComponentType.ATTITUDE);
+        if (!attitude || !this.frameService) return;
+
+        this.localRotation.fromArray(attitude.quaternion).normalize().premultiply(this.getRenderRotation());
+        this.translation.setFromMatrixPosition(matrix);
+        matrix.compose(this.translation, this.localRotation, this.unitScale);
+    }
+
+    /**
+     * J2000 -> render rotation, computed on first use each frame
+     */
+    private getRenderRotation(): THREE.Quaternion {
+        if (!this.renderRotationValid && this.frameService) {
+            const time = this.timeService?.getCurrentTime() ?? Date.now();
+            this.rotationMatrix.extractRotation(this.frameService.getRenderMatrix(ReferenceFrame.J2000, time));
+            this.renderRotation.setFromRotationMatrix(this.rotationMatrix);
+            this.renderRotationValid = true;
+        }
+        return this.renderRotation;
+    }
+
+    /**
+     * Render-space position of a root entity (written into a scratch object)
+     * Instanced satellites are read from the instanced position buffer, since their position components are not kept current
+     */
+    private getRootPosition(entity: EntityId): Vec3 | null {
+        const instanced = this.engine!.getSystem("instancedSatellite") as InstancedSatelliteSystem | undefined;
+        const index = instanced?.getEntityIndex(entity);
+        if (instanced && index !== undefined && index >= 0) {
+            const positions = instanced.getPositionArray();
+            this.rootPosition.x = positions[index * 3];
+            this.rootPosition.y = positions[index * 3 + 1];
+            this.rootPosition.z = positions[index * 3 + 2];
+            return this.rootPosition;
+        }
+
+        const position = this.engine!.getComponent<PositionComponent>(entity, ComponentType.POSITION);
+        return position ? this.convertToRenderFrame(position) : null;
+    }
 
-            if (!position) continue;
+    /**
+     * Place every child at parent transform x local offset/rotation, parents before children
+     * Children also get a render-frame position component so position-based systems pick them up
+     */
+    private updateChildren(): void {
+        const engine = this.engine!;
+        const children = engine.getEntitiesWithComponent(ComponentType.HIERARCHY);
+        if (children.length === 0) return;
 
-            // For now, simple pass-through transform
-            // In a full implementation, this would convert between reference frames
-            const renderPos = this.convertToRenderFrame(position);
+        const depths = this.depths;
+        const ordered = this.ordered;
+        depths.clear();
+        ordered.length = 0;
+        for (const child of children) {
+            if (this.getDepth(child) > 0) ordered.push(child);
+        }
+        ordered.sort(this.byDepth);
+        const unitsPerKm = this.frameService?.getRenderFrameConfig().unitsPerKm ?? 1;
 
-            // Get or create transform matrix
-            let transform = this.transformCache.get(entity);
-            if (!transform) {
-                transform = new THREE.Matrix4();
-                this.transformCache.set(entity, transform);
+        for (const child of ordered) {
+            const hierarchy = engine.getComponent<HierarchyComponent>(child, ComponentType.HIERARCHY)!;
+
+            // Instanced satellites carry no position component, so they were not among this frame's roots
+            if (depths.get(child) === 1 && !engine.hasComponent(hierarchy.parent, ComponentType.POSITION)) {
+                this.updateRoot(hierarchy.parent);
             }
 
-            // Update transform matrix
-            transform.makeTranslation(renderPos.x, renderPos.y, renderPos.z);
+            const parentTransform = engine.getComponent<TransformComponent>(hierarchy.parent, ComponentType.TRANSFORM);
+            if (!parentTransform) continue;
 
-            // Update or create transform component
-            const existingTransform = this.engine.getComponent<TransformComponent>(entity, ComponentType.TRANSFORM);
+            const offset = hierarchy.offset;
+            this.localOffset.set(offset?.x ?? 0, offset?.y ?? 0, offset?.z ?? 0).multiplyScalar(unitsPerKm);
+            if (hierarchy.rotation) {
+                this.localRotation.fromArray(hierarchy.rotation).normalize();
+            } else {
+                this.localRotation.identity();
+            }
+            this.localMatrix.compose(this.localOffset, this.localRotation, this.unitScale);
 
-            const transformComponent: TransformComponent = {
-                type: ComponentType.TRANSFORM,
-                matrix: transform.clone(),
-            };
+            // A root without an attitude has no axes of its own; its children are laid out in J2000 axes
+            if (!engine.hasComponent(hierarchy.parent, ComponentType.ATTITUDE) && !engine.hasComponent(hierarchy.parent, ComponentType.HIERARCHY)) {
+                this.localMatrix.premultiply(this.parentAxes.makeRotationFromQuaternion(this.getRenderRotation()));
+            }
+            this.localMatrix.premultiply(parentTransform.matrix);
+
+            // An attitude of its own overrides the orientation inherited from the parent
+            this.applyAttitude(child, this.localMatrix);
+            this.writeTransform(child, this.localMatrix);
 
-            if (existingTransform) {
-                existingTransform.matrix.copy(transform);
+            const e = this.localMatrix.elements;
+            const position = engine.getComponent<PositionComponent>(child, ComponentType.POSITION);
+            if (position) {
+                position.x = e[12];
+                position.y = e[13];
+                position.z = e[14];
+                position.frame = ReferenceFrame.RENDER;
             } else {
-                this.engine.addComponent(entity, transformComponent);
+                engine.addComponent(child, { type: ComponentType.POSITION, x: e[12], y: e[13], z: e[14], frame: ReferenceFrame.RENDER });
             }
         }
+    }
 
-        this.transformTime = performance.now() - startTime;
+    private byDepth = (a: EntityId, b: EntityId): number => this.depths.get(a)! - this.depths.get(b)!;
+
+    /**
+     * Number of parent links above an entity (0 for roots), memoized in depths
+     * Entities in a parent cycle get -1 and are not placed
+     */
+    private getDepth(entity: EntityId): number {
+        const depths = this.depths;
+        const path = this.path;
+        path.length = 0;
+        let current = entity;
+        let depth: number;
+
+        for (;;) {
+            const known = depths.get(current);
+            if (known !== undefined) {
+                depth = known;
+                break;
+            }
+
+            const hierarchy = this.engine!.getComponent<HierarchyComponent>(current, ComponentType.HIERARCHY);
+            if (!hierarchy) {
+                depth = 0;
+                break;
+            }
+            if (path.includes(current)) {
+                console.warn(`Hierarchy cycle through entity ${current}`);
+                depth = -1;
+                break;
+            }
+
+            path.push(current);
+            current = hierarchy.parent;
+        }
+
+        // Unwind from the entity nearest the root
+        for (let i = path.length - 1; i >= 0; i--) {
+            if (depth >= 0) depth += 1;
+            depths.set(path[i], depth);
+        }
+        return depths.get(entity)!;
+    }
+
+    private writeTransform(entity: EntityId, matrix: THREE.Matrix4): void {
+        // Update or create transform component
+        const existingTransform = this.engine!.getComponent<TransformComponent>(entity, ComponentType.TRANSFORM);
+
+        if (existingTransform) {
+            existingTransform.matrix.copy(matrix);
+        } else {
+            this.engine!.addComponent(entity, { type: ComponentType.TRANSFORM, matrix: matrix.clone() });
+        }
     }
 
-    private convertToRenderFrame(position: PositionComponent): {
-        x: number;
-        y: number;
-        z: number;
-    } {
-        // Simple conversion - in a full implementation this would use a FrameConverter
-        if (position.frame === this.renderFrame) {
-            return { x: position.x, y: position.y, z: position.z };
+    private convertToRenderFrame(position: PositionComponent): Vec3 {
+        if (position.frame === this.renderFrame || !this.frameService) {
+            this.rootPosition.x = position.x;
+            this.rootPosition.y = position.y;
+            this.rootPosition.z = position.z;
+            return this.rootPosition;
         }
 
-        // For now, just pass through
-        return { x: position.x, y: position.y, z: position.z };
+        return this.frameService.convert(position, position.frame, this.renderFrame, undefined, this.rootPosition);
     }
 
     cleanup(): void {
         this.transformCache.clear();
+        this.depths.clear();
+        this.ordered.length = 0;
         this.engine = null;
+        this.frameService = null;
+        this.timeService = null;
     }
 }
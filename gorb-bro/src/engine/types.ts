@@ -1,6 +1,7 @@
 // Core Type Definitions and Enums for Gorb Bro ECS
 
 import * as THREE from "three";
+import type { TLE } from "./utils/TLEFormat";
 
 // ============================================================================
 // Entity Types
@@ -23,6 +24,14 @@ export enum ComponentType {
     TIME_VISIBILITY = "timeVisibility",
     LOD = "lod",
     TRANSFORM = "transform",
+    ACCESS = "access",
+    CONJUNCTION = "conjunction",
+    ECLIPSE = "eclipse",
+    SENSOR = "sensor",
+    HIERARCHY = "hierarchy",
+    ATTITUDE = "attitude",
+    MODEL = "model",
+    TRAIL = "trail",
 }
 
 export enum ReferenceFrame {
@@ -55,8 +64,38 @@ export enum TimeSystem {
     UTC = "utc",
     TAI = "tai",
     GPS = "gps",
+    TT = "tt", // Terrestrial Time
+    UT1 = "ut1", // Earth rotation time (needs an EOP table, otherwise equals UTC)
     UNIX = "unix",
-    JULIAN = "julian",
+    JULIAN = "julian", // Julian Date (UTC)
+    MJD = "mjd", // Modified Julian Date (UTC)
+}
+
+export enum SensorShape {
+    CONIC = "conic",
+    RECTANGULAR = "rectangular",
+    POLYGON = "polygon",
+}
+
+export enum SensorPointing {
+    NADIR = "nadir", // Boresight towards the Earth's centre
+    FIXED = "fixed", // Boresight fixed in the body frame
+    TARGET = "target", // Boresight tracks another entity
+}
+
+// Body frame convention: +Z is the pointing axis, +X the secondary (velocity-side) axis
+export enum AttitudeLaw {
+    INERTIAL = "inertial", // Fixed (or steadily spinning) orientation in J2000
+    NADIR = "nadir", // +Z towards the Earth's centre, +X along the velocity
+    SUN = "sun", // +Z towards the Sun, +X as close to the velocity as possible
+    TARGET = "target", // +Z towards another entity, +X as close to the velocity as possible
+    TABULATED = "tabulated", // Quaternions at given times, slerp-interpolated
+}
+
+export enum EclipseState {
+    SUNLIT = "sunlit",
+    PENUMBRA = "penumbra", // Sun partially hidden by the Earth
+    UMBRA = "umbra", // Sun fully hidden by the Earth
 }
 
 // ============================================================================
@@ -92,11 +131,7 @@ export interface KeplerianElements {
     M: number; // Mean anomaly (rad)
 }
 
-export interface TLE {
-    line1: string;
-    line2: string;
-    name?: string;
-}
+export type { TLE };
 
 export interface CartesianElements {
     position: [number, number, number];
@@ -113,6 +148,9 @@ export interface OrbitalElementsComponent extends BaseComponent {
 }
 
 export interface IPropagator {
+    // Frame written by propagateDirect (defaults to TEME)
+    frame?: ReferenceFrame;
+
     // ZERO-COPY: Direct array write (optional, for performance)
     propagateDirect?(elements: OrbitalData, time: number, positionArray: Float32Array, index: number): boolean;
 
@@ -129,14 +167,17 @@ export interface PropagationResult {
 export interface PropagatorComponent extends BaseComponent {
     type: ComponentType.PROPAGATOR;
     propagator: IPropagator; // Propagator knows its own algorithm
+    outOfRange?: boolean; // Set by PropagationSystem while the propagator cannot position the entity (e.g. outside ephemeris coverage); renderers hide it
 }
 
 export interface BillboardComponent extends BaseComponent {
     type: ComponentType.BILLBOARD;
-    texture?: string;
+    texture?: string; // Icon name in the instanced satellite icon atlas (plain circle when unset or not registered)
+    rotation?: number; // Icon rotation in radians, counter-clockwise on screen (default 0)
     size: number;
     color: number;
     sizeAttenuation: boolean;
+    visible?: boolean; // false hides the billboard (default true); ModelSystem and LODSystem hide it without touching this flag
 }
 
 export interface MeshComponent extends BaseComponent {
@@ -146,37 +187,129 @@ export interface MeshComponent extends BaseComponent {
     scale: [number, number, number];
 }
 
+// glTF/GLB model from the asset service; drawn at the entity's transform
+export interface ModelComponent extends BaseComponent {
+    type: ComponentType.MODEL;
+    model: string; // Asset ID
+    url?: string; // Loaded on first use when the asset is not cached yet
+    scale?: number; // Scene units per model unit (default 1)
+    fallbackDistance?: number; // Camera distance (km) beyond which the billboard is shown instead (default: never)
+}
+
+export interface TrailComponent extends BaseComponent {
+    type: ComponentType.TRAIL;
+    lead?: number; // Seconds of future path drawn ahead of the entity (TrailSystem default if omitted)
+    lag?: number; // Seconds of past path drawn behind it
+    color?: number; // Hex color (defaults to the billboard color)
+}
+
 export interface LabelStyle {
-    fontSize: number;
-    color: string;
+    fontSize: number; // Pixels
+    color: string; // CSS color, alpha allowed
     fontFamily?: string;
-    backgroundColor?: string;
-    padding?: number;
+    backgroundColor?: string; // CSS color of a box behind the text (none if omitted)
+    padding?: number; // Pixels between text and box edge (default 2 with a background, else 0)
 }
 
 export interface LabelComponent extends BaseComponent {
     type: ComponentType.LABEL;
     text: string;
-    offset: [number, number];
+    offset: [number, number]; // Pixels from the entity to the bottom centre of the label box (x right, y up)
     style: LabelStyle;
 }
 
+export interface TimeInterval {
+    start: number; // UTC Unix ms, inclusive
+    end: number; // UTC Unix ms, inclusive
+}
+
 export interface TimeVisibilityComponent extends BaseComponent {
     type: ComponentType.TIME_VISIBILITY;
-    startTime: number;
-    endTime: number;
+    startTime?: number; // Single availability window, used when intervals is not set (open-ended if omitted)
+    endTime?: number;
+    intervals?: TimeInterval[]; // Availability windows sorted by start, non-overlapping (e.g. launch to decay, maneuver gaps)
+    available?: boolean; // At the current time (written by TimeVisibilitySystem)
+}
+
+// start/end are the rise and set, clipped to the computed window; usable directly as TimeVisibilityComponent intervals
+export interface AccessInterval extends TimeInterval {
+    target: EntityId;
+    culminationTime: number; // Time of maximum elevation
+    maxElevation: number; // Degrees above the local horizon
+}
+
+export interface AccessComponent extends BaseComponent {
+    type: ComponentType.ACCESS;
+    windowStart: number; // UTC Unix ms
+    windowEnd: number; // UTC Unix ms
+    intervals: AccessInterval[]; // Sorted by start time
+}
+
+export interface ConjunctionEvent {
+    primary: EntityId;
+    secondary: EntityId;
+    tca: number; // Time of closest approach (UTC Unix ms)
+    missDistance: number; // km
+    relativeSpeed: number; // km/s
+    relativeVelocity: { vx: number; vy: number; vz: number }; // Secondary relative to primary at TCA (TEME, km/s)
+    primaryPosition: { x: number; y: number; z: number }; // TEME km at TCA
+    secondaryPosition: { x: number; y: number; z: number }; // TEME km at TCA
+}
+
+export interface ConjunctionComponent extends BaseComponent {
+    type: ComponentType.CONJUNCTION;
+    windowStart: number; // UTC Unix ms
+    windowEnd: number; // UTC Unix ms
+    events: ConjunctionEvent[]; // Sorted by TCA; shared with the other object's component
+}
+
+export interface EclipseComponent extends BaseComponent {
+    type: ComponentType.ECLIPSE;
+    state: EclipseState; // Kept from the last classification while the entity is time-hidden or out of range
+    sunlightFraction: number; // Visible fraction of the solar disk (0 in umbra, 1 sunlit)
+}
+
+export interface EclipseInterval {
+    start: number; // Penumbra entry (UTC Unix ms), clipped to the search span
+    end: number; // Penumbra exit (UTC Unix ms), clipped to the search span
+    umbraStart: number | null; // Umbra entry, null for penumbra-only passes
+    umbraEnd: number | null; // Umbra exit
+}
+
+export interface EclipseSearchOptions {
+    step?: number; // Coarse search step in ms (default 30000); shadow passes shorter than this may be missed
+    tolerance?: number; // Entry/exit time precision in ms (default 100)
+}
+
+export interface SensorComponent extends BaseComponent {
+    type: ComponentType.SENSOR;
+    shape: SensorShape;
+    halfAngle?: number; // CONIC: half-angle from the boresight (degrees)
+    halfWidth?: number; // RECTANGULAR: half-angle about the sensor Y axis, across the sensor X axis (degrees)
+    halfHeight?: number; // RECTANGULAR: half-angle about the sensor X axis, across the sensor Y axis (degrees)
+    polygon?: [number, number][]; // POLYGON: vertices as [x, y] angles from the boresight (degrees), in order
+    minRange?: number; // km (default 0)
+    maxRange?: number; // km (default unlimited)
+    pointing: SensorPointing;
+    boresight?: [number, number, number]; // FIXED: boresight direction in the body frame
+    target?: EntityId; // TARGET: entity to track
+    color?: number; // FOV volume and footprint color (default 0x00ffff)
+    opacity?: number; // FOV volume opacity (default 0.15)
 }
 
 export interface LODLevel {
-    minDistance: number;
-    maxDistance: number;
-    components: ComponentType[];
+    minDistance: number; // Lower bound of the strategy metric: camera km (DISTANCE), pixels (SCREEN_SIZE) or neighbours (DENSITY)
+    maxDistance: number; // Upper bound (exclusive)
+    components: ComponentType[]; // Attached at this level; components other levels list are detached (billboards and models are hidden instead)
+    pointSize?: number; // Draw the billboard as a plain point of this size at this level
 }
 
 export interface LODComponent extends BaseComponent {
     type: ComponentType.LOD;
     levels: LODLevel[];
     strategy: LODStrategy;
+    size?: number; // Object diameter in km for SCREEN_SIZE (default 0.01)
+    level?: number; // Active level index, -1 when no level matches (written by LODSystem)
 }
 
 export interface TransformComponent extends BaseComponent {
@@ -184,6 +317,33 @@ export interface TransformComponent extends BaseComponent {
     matrix: THREE.Matrix4;
 }
 
+export type Quaternion = [number, number, number, number]; // [x, y, z, w]
+
+export interface AttitudeSample {
+    time: number; // UTC Unix ms
+    quaternion: Quaternion; // Body -> J2000
+}
+
+export interface AttitudeComponent extends BaseComponent {
+    type: ComponentType.ATTITUDE;
+    law: AttitudeLaw;
+    quaternion: Quaternion; // Current body -> J2000 orientation (written by AttitudeSystem)
+    angularRate: [number, number, number]; // Current body rates in rad/s (written by AttitudeSystem)
+    reference?: Quaternion; // INERTIAL: orientation at the epoch (default identity)
+    spin?: [number, number, number]; // INERTIAL: constant body rates in rad/s (default none)
+    epoch?: number; // INERTIAL: time the reference orientation applies at (default 0)
+    target?: EntityId; // TARGET: entity to point at
+    table?: AttitudeSample[]; // TABULATED: samples sorted by time; held at the ends
+}
+
+// Attaches an entity to a parent; TransformSystem places it relative to the parent's transform
+export interface HierarchyComponent extends BaseComponent {
+    type: ComponentType.HIERARCHY;
+    parent: EntityId;
+    offset?: { x: number; y: number; z: number }; // km, in the parent's local axes; J2000 axes under a root without an attitude (default: none)
+    rotation?: Quaternion; // Local orientation relative to the parent (default: identity)
+}
+
 export type Component =
     | PositionComponent
     | VelocityComponent
@@ -194,7 +354,15 @@ export type Component =
     | LabelComponent
     | TimeVisibilityComponent
     | LODComponent
-    | TransformComponent;
+    | TransformComponent
+    | AccessComponent
+    | ConjunctionComponent
+    | EclipseComponent
+    | SensorComponent
+    | HierarchyComponent
+    | AttitudeComponent
+    | ModelComponent
+    | TrailComponent;
 
 // ============================================================================
 // System Interface
@@ -219,6 +387,13 @@ export interface TimeConverter {
     convert(time: number, from: TimeSystem, to: TimeSystem): number;
 }
 
+export interface EOPEntry {
+    mjd: number; // Modified Julian Date (UTC)
+    ut1MinusUtc: number; // UT1 - UTC (s)
+    xp?: number; // Polar motion x (arcsec)
+    yp?: number; // Polar motion y (arcsec)
+}
+
 export interface ITimeService extends Service {
     getCurrentTime(): number;
     setTime(time: number): void;
@@ -226,6 +401,10 @@ export interface ITimeService extends Service {
     getRate(): number;
     addTimeSystem(name: TimeSystem, converter: TimeConverter): void;
     convert(time: number, from: TimeSystem, to: TimeSystem): number;
+    // Optional so custom services keep compiling; getTimeInScale/formatTimeInScale fall back to convert()
+    getTimeIn?(system: TimeSystem, time?: number): number;
+    formatTime?(system: TimeSystem, time?: number): string;
+    loadEOP?(entries: EOPEntry[]): void;
     play(): void;
     pause(): void;
     isPaused(): boolean;
@@ -249,6 +428,21 @@ export interface IRenderingService extends Service {
     resize(width: number, height: number): void;
 }
 
+export interface AssetDecoderOptions {
+    dracoDecoderPath?: string; // URL of the Draco decoder files (three/examples/jsm/libs/draco/); Draco disabled when unset
+    ktx2TranscoderPath?: string; // URL of the Basis transcoder (three/examples/jsm/libs/basis/); KTX2 disabled when unset
+    renderer?: THREE.WebGLRenderer; // Needed by KTX2 to pick a supported GPU format
+}
+
+export interface IAssetService extends Service {
+    configureDecoders(options: AssetDecoderOptions): void;
+    loadModel(id: string, source: string | ArrayBuffer): Promise<THREE.Object3D>;
+    hasModel(id: string): boolean;
+    getModel(id: string): THREE.Object3D | undefined;
+    createInstance(id: string): THREE.Object3D | null;
+    releaseModel(id: string): void;
+}
+
 export interface IQueryService extends Service {
     // Type-based queries
     findByComponents(...componentTypes: ComponentType[]): EntityId[];
@@ -262,6 +456,18 @@ export interface IQueryService extends Service {
     findVisibleAt(time: number): EntityId[];
     findInTimeRange(start: number, end: number): EntityId[];
 
+    // Access queries (intervals computed by the access service)
+    findInAccessAt(time: number, station?: EntityId): EntityId[];
+    getAccessIntervals(station: EntityId, target?: EntityId): AccessInterval[];
+
+    // Conjunction queries (events found by the conjunction service)
+    getConjunctions(entity?: EntityId): ConjunctionEvent[];
+    findConjunctionsInRange(start: number, end: number, maxMissDistance?: number): ConjunctionEvent[];
+
+    // Hierarchy queries
+    getChildren(entity: EntityId, recursive?: boolean): EntityId[];
+    getAncestors(entity: EntityId): EntityId[];
+
     // Spatial queries
     findInRadius(center: THREE.Vector3, radius: number, frame?: ReferenceFrame): EntityId[];
     findInFrustum(frustum: THREE.Frustum): EntityId[];
@@ -274,6 +480,109 @@ export interface IQueryService extends Service {
     setComponentRegistry(registry: IComponentRegistry): void;
 }
 
+export interface ElevationMaskPoint {
+    azimuth: number; // Degrees clockwise from north
+    elevation: number; // Minimum elevation at that azimuth (degrees)
+}
+
+export interface AccessOptions {
+    minElevation?: number; // Degrees (default 0)
+    terrainMask?: ElevationMaskPoint[]; // Azimuth-dependent horizon, linearly interpolated
+    step?: number; // Coarse search step in ms (default 60000); passes shorter than this may be missed
+    tolerance?: number; // Rise/set time precision in ms (default 100)
+    applyVisibility?: boolean; // Also set each target's TimeVisibilityComponent intervals to its passes (default false)
+}
+
+export interface GeodeticLocation {
+    lat: number; // Degrees
+    lon: number; // Degrees
+    alt: number; // km above the WGS84 ellipsoid
+}
+
+// A ground-station entity or a bare geodetic location
+export type AccessObserver = EntityId | GeodeticLocation;
+
+export interface LookAngles {
+    azimuth: number; // Degrees clockwise from north
+    elevation: number; // Degrees above the local horizon
+    range: number; // Slant range (km)
+    rangeRate: number; // km/s, positive when receding
+}
+
+export interface PassTrackPoint extends LookAngles {
+    time: number; // UTC Unix ms
+    doppler?: number; // Received frequency offset (Hz), when a carrier frequency was given
+}
+
+export interface SatellitePass {
+    target: EntityId;
+    aos: number; // Acquisition of signal (UTC Unix ms), clipped to the prediction window
+    tca: number; // Time of closest approach (range rate crosses zero)
+    los: number; // Loss of signal (UTC Unix ms), clipped to the prediction window
+    culminationTime: number; // Time of maximum elevation
+    maxElevation: number; // Degrees
+    aosAzimuth: number; // Degrees
+    losAzimuth: number; // Degrees
+    aosLook: PassTrackPoint;
+    tcaLook: PassTrackPoint;
+    losLook: PassTrackPoint;
+    track: PassTrackPoint[]; // Sampled from AOS to LOS
+}
+
+export interface PassPredictionOptions extends AccessOptions {
+    frequency?: number; // Carrier frequency (Hz) for Doppler offsets
+    trackStep?: number; // Track sample spacing in ms (default 10000)
+}
+
+export interface IAccessService extends Service {
+    computeAccess(station: EntityId, targets: EntityId[], start: number, end: number, options?: AccessOptions): AccessInterval[];
+    predictPasses(observer: AccessObserver, targets: EntityId[], start: number, hours: number, options?: PassPredictionOptions): SatellitePass[];
+    getLookAngles(observer: AccessObserver, target: EntityId, time: number): LookAngles | null;
+    clearAccess(station: EntityId): void;
+    setComponentRegistry(registry: IComponentRegistry): void;
+}
+
+export interface ConjunctionScreeningOptions {
+    threshold?: number; // Report pairs closer than this (km, default 5)
+    filterPad?: number; // Margin added to the apogee/perigee and orbit-path filters for SGP4 short-period terms (km, default 10)
+    minStep?: number; // Smallest search step in ms (default 1000)
+    tolerance?: number; // TCA precision in ms (default 1)
+}
+
+export interface ConjunctionProgress {
+    objects: number; // Objects with a usable TLE
+    screenedObjects: number; // Objects whose pairs have all been screened
+    apsisPairs: number; // Pairs passing the apogee/perigee filter
+    pathPairs: number; // Pairs also passing the orbit-path filter (fine-searched)
+    conjunctions: number;
+    done: boolean;
+}
+
+export interface IConjunctionService extends Service {
+    screenConjunctions(entities: EntityId[] | null, start: number, end: number, options?: ConjunctionScreeningOptions): Promise<ConjunctionEvent[]>;
+    cancelScreening(): void;
+    isScreening(): boolean;
+    getProgress(): ConjunctionProgress | null;
+    onProgress(callback: (progress: ConjunctionProgress, events: ConjunctionEvent[]) => void): () => void;
+    clearConjunctions(): void;
+    setComponentRegistry(registry: IComponentRegistry): void;
+}
+
+// Sensor axes at a time (J2000): Z is the boresight, X is the velocity (or body X) direction made perpendicular to it
+export interface SensorFrame {
+    origin: { x: number; y: number; z: number }; // km
+    boresight: [number, number, number];
+    xAxis: [number, number, number];
+    yAxis: [number, number, number];
+}
+
+export interface ISensorService extends Service {
+    getSensorFrame(sensor: EntityId, time: number): SensorFrame | null;
+    isInFieldOfView(sensor: EntityId, target: EntityId, time: number): boolean;
+    findInFieldOfView(sensor: EntityId, time: number, candidates?: EntityId[]): EntityId[];
+    setComponentRegistry(registry: IComponentRegistry): void;
+}
+
 export interface Service {
     update?(deltaTime: number): void;
     cleanup?(): void;
@@ -315,7 +624,7 @@ export interface ISystemManager {
 export interface IEngine {
     // Entity management
     createEntity(): EntityId;
-    destroyEntity(entity: EntityId): void;
+    destroyEntity(entity: EntityId, cascade?: boolean): void;
     getEntityCount(): number;
 
     // Component management
@@ -355,6 +664,7 @@ export interface EngineConfig {
         time?: ITimeService;
         rendering?: IRenderingService;
         query?: IQueryService;
+        frame?: IFrameConversionService;
     };
     systems?: System[];
     maxEntities?: number;
@@ -365,5 +675,33 @@ export interface EngineConfig {
 // ============================================================================
 
 export interface IFrameConverter {
-    convert(position: { x: number; y: number; z: number }, from: ReferenceFrame, to: ReferenceFrame, time?: number): { x: number; y: number; z: number };
+    // out, when given, is written and returned instead of a new object
+    convert(
+        position: { x: number; y: number; z: number },
+        from: ReferenceFrame,
+        to: ReferenceFrame,
+        time?: number,
+        out?: { x: number; y: number; z: number }
+    ): { x: number; y: number; z: number };
+}
+
+export interface RenderFrameConfig {
+    baseFrame: ReferenceFrame; // Frame the scene is anchored to (ECI keeps the scene inertial, ECEF keeps the globe fixed)
+    unitsPerKm: number; // Scene units per km
+    yUp: boolean; // Map the frame's Z (north) axis onto the scene's Y axis (default false: the frame's own axes)
+}
+
+export interface IFrameConversionService extends Service, IFrameConverter {
+    convertVelocity(
+        velocity: { vx: number; vy: number; vz: number },
+        position: { x: number; y: number; z: number },
+        from: ReferenceFrame,
+        to: ReferenceFrame,
+        time?: number,
+        out?: { vx: number; vy: number; vz: number }
+    ): { vx: number; vy: number; vz: number };
+    getRotationMatrix(from: ReferenceFrame, to: ReferenceFrame, time?: number): THREE.Matrix3;
+    getRenderMatrix(from: ReferenceFrame, time?: number): THREE.Matrix4;
+    setRenderFrameConfig(config: Partial<RenderFrameConfig>): void;
+    getRenderFrameConfig(): RenderFrameConfig;
 }
@@ -0,0 +1,282 @@
+// Attitude utilities: quaternion math, local-vertical body axes and attitude law evaluation
+// Quaternions are [x, y, z, w] and rotate body-frame vectors into J2000
+
+import type { AttitudeComponent, AttitudeSample, EntityId, HierarchyComponent, IComponentRegistry, IFrameConversionService, ITimeService, Quaternion } from "../types";
+import { AttitudeLaw, ComponentType, ReferenceFrame, TimeSystem } from "../types";
+import { sunPositionECI } from "./Ephemeris";
+import { EntityStateSampler } from "./EntityStateSampler";
+import { julianDateFromUnix } from "./ReferenceFrames";
+
+type Vec3 = [number, number, number];
+
+export interface BodyAxes {
+    x: Vec3;
+    y: Vec3;
+    z: Vec3;
+}
+
+// Lookahead for rates of the computed laws (ms)
+const RATE_STEP = 1000;
+
+export function multiplyQuaternions(a: Quaternion, b: Quaternion): Quaternion {
+    const [ax, ay, az, aw] = a;
+    const [bx, by, bz, bw] = b;
+    return [aw * bx + ax * bw + ay * bz - az * by, aw * by - ax * bz + ay * bw + az * bx, aw * bz + ax * by - ay * bx + az * bw, aw * bw - ax * bx - ay * by - az * bz];
+}
+
+export function normalizeQuaternion(q: Quaternion): Quaternion {
+    const length = Math.hypot(q[0], q[1], q[2], q[3]) || 1;
+    return [q[0] / length, q[1] / length, q[2] / length, q[3] / length];
+}
+
+/**
+ * Rotate a vector by a unit quaternion
+ */
+export function rotateVector(q: Quaternion, v: Vec3): Vec3 {
+    const [x, y, z, w] = q;
+    // v + 2w(q x v) + 2q x (q x v)
+    const tx = 2 * (y * v[2] - z * v[1]);
+    const ty = 2 * (z * v[0] - x * v[2]);
+    const tz = 2 * (x * v[1] - y * v[0]);
+    return [v[0] + w * tx + (y * tz - z * ty), v[1] + w * ty + (z * tx - x * tz), v[2] + w * tz + (x * ty - y * tx)];
+}
+
+/**
+ * Quaternion of the rotation whose columns are the given (orthonormal) body axes
+ */
+export function quaternionFromAxes(axes: BodyAxes): Quaternion {
+    const { x, y, z } = axes;
+    const trace = x[0] + y[1] + z[2];
+
+    // Shepperd's method: pivot on the largest diagonal term
+    if (trace > 0) {
+        const s = 2 * Math.sqrt(trace + 1);
+        return [(y[2] - z[1]) / s, (z[0] - x[2]) / s, (x[1] - y[0]) / s, s / 4];
+    }
+    if (x[0] > y[1] && x[0] > z[2]) {
+        const s = 2 * Math.sqrt(1 + x[0] - y[1] - z[2]);
+        return [s / 4, (y[0] + x[1]) / s, (z[0] + x[2]) / s, (y[2] - z[1]) / s];
+    }
+    if (y[1] > z[2]) {
+        const s = 2 * Math.sqrt(1 + y[1] - x[0] - z[2]);
+        return [(y[0] + x[1]) / s, s / 4, (z[1] + y[2]) / s, (z[0] - x[2]) / s];
+    }
+    const s = 2 * Math.sqrt(1 + z[2] - x[0] - y[1]);
+    return [(z[0] + x[2]) / s, (z[1] + y[2]) / s, s / 4, (x[1] - y[0]) / s];
+}
+
+/**
+ * Body axes (in J2000) of an orientation
+ */
+export function axesFromQuaternion(q: Quaternion): BodyAxes {
+    return { x: rotateVector(q, [1, 0, 0]), y: rotateVector(q, [0, 1, 0]), z: rotateVector(q, [0, 0, 1]) };
+}
+
+/**
+ * Spherical linear interpolation along the shorter arc
+ */
+export function slerp(a: Quaternion, b: Quaternion, f: number): Quaternion {
+    let cos = a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3];
+    const sign = cos < 0 ? -1 : 1;
+    cos *= sign;
+
+    // Nearly parallel: linear interpolation is exact enough and avoids dividing by sin(0)
+    if (cos > 0.9995) {
+        return normalizeQuaternion([a[0] + (sign * b[0] - a[0]) * f, a[1] + (sign * b[1] - a[1]) * f, a[2] + (sign * b[2] - a[2]) * f, a[3] + (sign * b[3] - a[3]) * f]);
+    }
+
+    const angle = Math.acos(cos);
+    const wa = Math.sin((1 - f) * angle) / Math.sin(angle);
+    const wb = (sign * Math.sin(f * angle)) / Math.sin(angle);
+    return [wa * a[0] + wb * b[0], wa * a[1] + wb * b[1], wa * a[2] + wb * b[2], wa * a[3] + wb * b[3]];
+}
+
+/**
+ * Body rates (rad/s) that carry orientation a into b over dt seconds
+ */
+export function angularRateBetween(a: Quaternion, b: Quaternion, dt: number): Vec3 {
+    // Body-frame delta: conj(a) * b
+    let delta = multiplyQuaternions([-a[0], -a[1], -a[2], a[3]], b);
+    if (delta[3] < 0) delta = [-delta[0], -delta[1], -delta[2], -delta[3]];
+
+    const sinHalf = Math.hypot(delta[0], delta[1], delta[2]);
+    if (sinHalf < 1e-12 || dt <= 0) return [0, 0, 0];
+
+    const scale = (2 * Math.atan2(sinHalf, delta[3])) / (sinHalf * dt);
+    return [delta[0] * scale, delta[1] * scale, delta[2] * scale];
+}
+
+/**
+ * Orientation after spinning at constant body rates for dt seconds
+ */
+export function propagateSpin(q: Quaternion, rate: Vec3, dt: number): Quaternion {
+    const speed = Math.hypot(rate[0], rate[1], rate[2]);
+    if (speed < 1e-15) return q;
+
+    const half = (speed * dt) / 2;
+    const s = Math.sin(half) / speed;
+    return normalizeQuaternion(multiplyQuaternions(q, [rate[0] * s, rate[1] * s, rate[2] * s, Math.cos(half)]));
+}
+
+/**
+ * Tabulated orientation at a time: slerp between the bracketing samples, held at the table ends
+ * @returns Orientation and body rates, or null for an empty table
+ */
+export function interpolateAttitude(table: AttitudeSample[], time: number): { quaternion: Quaternion; angularRate: Vec3 } | null {
+    if (table.length === 0) return null;
+    if (time <= table[0].time) return { quaternion: normalizeQuaternion(table[0].quaternion), angularRate: [0, 0, 0] };
+
+    const last = table[table.length - 1];
+    if (time >= last.time) return { quaternion: normalizeQuaternion(last.quaternion), angularRate: [0, 0, 0] };
+
+    // Last sample at or before the time
+    let low = 0;
+    let high = table.length - 1;
+    while (high - low > 1) {
+        const mid = (low + high) >> 1;
+        if (table[mid].time <= time) low = mid;
+        else high = mid;
+    }
+
+    const a = normalizeQuaternion(table[low].quaternion);
+    const b = normalizeQuaternion(table[high].quaternion);
+    const f = (time - table[low].time) / (table[high].time - table[low].time);
+    return { quaternion: slerp(a, b, f), angularRate: angularRateBetween(a, b, (table[high].time - table[low].time) / 1000) };
+}
+
+/**
+ * Axes with +Z along a direction and +X as close as possible to a reference direction
+ * Falls back to another reference when the two are (nearly) parallel
+ */
+export function alignedAxes(z: Vec3, xReference: Vec3): BodyAxes {
+    const zAxis = normalize(z);
+    let reference = xReference;
+    if (Math.abs(dot(normalize(reference), zAxis)) > 0.999) {
+        reference = Math.abs(zAxis[2]) < 0.9 ? [0, 0, 1] : [1, 0, 0];
+    }
+
+    const along = dot(reference, zAxis);
+    const x = normalize([reference[0] - zAxis[0] * along, reference[1] - zAxis[1] * along, reference[2] - zAxis[2] * along]);
+    return { x, y: cross(zAxis, x), z: zAxis };
+}
+
+/**
+ * Local vertical/local horizontal axes: +Z towards the Earth's centre, +Y against the orbit normal, +X along the velocity
+ * Without a velocity, +X points north (or along J2000 +X at the poles)
+ */
+export function lvlhAxes(position: Vec3, velocity: Vec3 | null): BodyAxes {
+    const z = normalize([-position[0], -position[1], -position[2]]);
+
+    let normal = velocity ? cross(position, velocity) : ([0, 0, 0] as Vec3);
+    if (dot(normal, normal) < 1e-12) {
+        const north: Vec3 = Math.abs(z[2]) < 0.999 ? [0, 0, 1] : [1, 0, 0];
+        normal = cross(position, north);
+    }
+
+    const y = normalize([-normal[0], -normal[1], -normal[2]]);
+    return { x: cross(y, z), y, z };
+}
+
+/**
+ * Evaluates attitude laws at arbitrary times, for analysis (sensor queries) and the per-frame AttitudeSystem
+ */
+export class AttitudeEvaluator {
+    private registry: IComponentRegistry;
+    private timeService: ITimeService | null;
+    private sampler: EntityStateSampler;
+
+    constructor(registry: IComponentRegistry, frameService: IFrameConversionService, timeService: ITimeService | null = null) {
+        this.registry = registry;
+        this.timeService = timeService;
+        this.sampler = new EntityStateSampler(registry, frameService);
+    }
+
+    /**
+     * Orientation (body -> J2000) and body rates of an entity with an attitude component
+     * @returns null without an attitude component, or when the law's inputs cannot be positioned
+     */
+    getAttitude(entity: EntityId, time: number): { quaternion: Quaternion; angularRate: Vec3 } | null {
+        const attitude = this.registry.getComponent<AttitudeComponent>(entity, ComponentType.ATTITUDE);
+        if (!attitude) return null;
+
+        switch (attitude.law) {
+            case AttitudeLaw.INERTIAL: {
+                const reference = normalizeQuaternion(attitude.reference ?? [0, 0, 0, 1]);
+                const spin = attitude.spin ?? [0, 0, 0];
+                return { quaternion: propagateSpin(reference, spin, (time - (attitude.epoch ?? 0)) / 1000), angularRate: [...spin] };
+            }
+            case AttitudeLaw.TABULATED:
+                return interpolateAttitude(attitude.table ?? [], time);
+            default: {
+                const quaternion = this.evaluatePointing(entity, attitude, time);
+                const next = quaternion && this.evaluatePointing(entity, attitude, time + RATE_STEP);
+                if (!quaternion) return null;
+                return { quaternion, angularRate: next ? angularRateBetween(quaternion, next, RATE_STEP / 1000) : [0, 0, 0] };
+            }
+        }
+    }
+
+    /**
+     * Orientation of an entity, following parent links: an entity without its own attitude takes its parent's,
+     * turned by its hierarchy rotation
+     * @returns null when no entity up the chain has an attitude
+     */
+    getOrientation(entity: EntityId, time: number): Quaternion | null {
+        const local: Quaternion[] = [];
+        const visited = new Set<EntityId>();
+        let current = entity;
+
+        while (!visited.has(current)) {
+            visited.add(current);
+
+            const attitude = this.getAttitude(current, time);
+            if (attitude) {
+                // Apply the collected local rotations, outermost first
+                return local.reduceRight((q, rotation) => multiplyQuaternions(q, normalizeQuaternion(rotation)), attitude.quaternion);
+            }
+
+            const hierarchy = this.registry.getComponent<HierarchyComponent>(current, ComponentType.HIERARCHY);
+            if (!hierarchy) return null;
+            if (hierarchy.rotation) local.push(hierarchy.rotation);
+            current = hierarchy.parent;
+        }
+
+        return null;
+    }
+
+    private evaluatePointing(entity: EntityId, attitude: AttitudeComponent, time: number): Quaternion | null {
+        const state = this.sampler.getState(entity, time, ReferenceFrame.J2000);
+        if (!state) return null;
+
+        const position: Vec3 = [state.position.x, state.position.y, state.position.z];
+        const lvlh = lvlhAxes(position, state.velocity ? [state.velocity.vx, state.velocity.vy, state.velocity.vz] : null);
+
+        if (attitude.law === AttitudeLaw.NADIR) {
+            return quaternionFromAxes(lvlh);
+        }
+
+        let towards: { x: number; y: number; z: number } | null;
+        if (attitude.law === AttitudeLaw.SUN) {
+            const tt = this.timeService ? this.timeService.convert(time, TimeSystem.UTC, TimeSystem.TT) : time;
+            towards = sunPositionECI(julianDateFromUnix(tt));
+        } else {
+            towards = attitude.target !== undefined ? this.sampler.getPosition(attitude.target, time, ReferenceFrame.J2000) : null;
+        }
+        if (!towards) return null;
+
+        return quaternionFromAxes(alignedAxes([towards.x - position[0], towards.y - position[1], towards.z - position[2]], lvlh.x));
+    }
+}
+
+function dot(a: Vec3, b: Vec3): number {
+    return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+    return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function normalize(v: Vec3): Vec3 {
+    const length = Math.sqrt(dot(v, v)) || 1;
+    return [v[0] / length, v[1] / length, v[2] / length];
+}
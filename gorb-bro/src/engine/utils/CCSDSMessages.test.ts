@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import * as satellite from "satellite.js";
+import { formatCCSDSEpoch, ommToTLE, parseCCSDSEpoch, parseOEM, parseOMM, parseOPM, writeOEM, writeOMM, writeOPM } from "./CCSDSMessages";
+import { TimeScaleConverter } from "./TimeScales";
+
+const timeScales = new TimeScaleConverter();
+
+// Examples from CCSDS 502.0-B-2 (Orbit Data Messages)
+const oemText = `CCSDS_OEM_VERS = 2.0
+CREATION_DATE = 1996-11-04T17:22:31
+ORIGINATOR = NASA/JPL
+
+META_START
+OBJECT_NAME = MARS GLOBAL SURVEYOR
+OBJECT_ID = 1996-062A
+CENTER_NAME = EARTH
+REF_FRAME = EME2000
+TIME_SYSTEM = UTC
+START_TIME = 1996-12-18T12:00:00.331
+USEABLE_START_TIME = 1996-12-18T12:10:00.331
+USEABLE_STOP_TIME = 1996-12-28T21:23:00.331
+STOP_TIME = 1996-12-28T21:28:00.331
+INTERPOLATION = HERMITE
+INTERPOLATION_DEGREE = 7
+META_STOP
+
+COMMENT This file was produced by M.R. Somebody
+1996-12-18T12:00:00.331 2789.619 -280.045 -1746.755 4.73372 -2.49586 -1.04195
+1996-12-18T12:01:00.331 2783.419 -308.143 -1877.071 5.18604 -2.42124 -1.99608
+1996-12-18T12:02:00.331 2776.033 -336.859 -2008.682 5.63678 -2.33951 -1.94687
+`;
+
+const opmText = `CCSDS_OPM_VERS = 2.0
+CREATION_DATE = 1998-11-06T09:23:57
+ORIGINATOR = JAXA
+OBJECT_NAME = GODZILLA 5
+OBJECT_ID = 1998-057A
+CENTER_NAME = EARTH
+REF_FRAME = ITRF-97
+TIME_SYSTEM = UTC
+EPOCH = 1998-12-18T14:28:15.1172
+X = 6503.514000
+Y = 1239.647000
+Z = -717.490000
+X_DOT = -0.873160
+Y_DOT = 8.740420
+Z_DOT = -4.191076
+MASS = 3000.000000 [kg]
+SOLAR_RAD_AREA = 18.770000
+SOLAR_RAD_COEFF = 1.000000
+DRAG_AREA = 18.770000
+DRAG_COEFF = 2.500000
+MAN_EPOCH_IGNITION = 2000-06-03T09:00:34.1
+MAN_DURATION = 132.60
+MAN_DELTA_MASS = -18.418
+MAN_REF_FRAME = EME2000
+MAN_DV_1 = -0.02325700
+MAN_DV_2 = 0.01683160
+MAN_DV_3 = -0.00893444
+`;
+
+const ommJSON = `[{"OBJECT_NAME":"ISS (ZARYA)","OBJECT_ID":"1998-067A","EPOCH":"2024-01-01T12:06:00.123456","MEAN_MOTION":15.49916358,"ECCENTRICITY":0.0002943,"INCLINATION":51.6416,"RA_OF_ASC_NODE":13.9906,"ARG_OF_PERICENTER":29.6517,"MEAN_ANOMALY":71.1458,"EPHEMERIS_TYPE":0,"CLASSIFICATION_TYPE":"U","NORAD_CAT_ID":25544,"ELEMENT_SET_NO":999,"REV_AT_EPOCH":43280,"BSTAR":0.00031606,"MEAN_MOTION_DOT":0.00017134,"MEAN_MOTION_DDOT":0}]`;
+
+describe("CCSDSMessages", () => {
+    it("converts epochs between CCSDS time systems and UTC", () => {
+        const utc = Date.UTC(2024, 0, 1);
+        expect(parseCCSDSEpoch("2024-01-01T00:01:09.184", "TT", timeScales)).toBe(utc);
+        expect(parseCCSDSEpoch("2024-01-01T00:00:18", "GPS", timeScales)).toBe(utc);
+        expect(formatCCSDSEpoch(utc, "TAI", timeScales)).toMatch(/^2024-01-01T00:00:37/);
+    });
+
+    it("parses an OEM", () => {
+        const oem = parseOEM(oemText, timeScales);
+        const [segment] = oem.segments;
+        expect(segment.metadata.objectName).toBe("MARS GLOBAL SURVEYOR");
+        expect(segment.metadata.interpolationDegree).toBe(7);
+        expect(segment.states).toHaveLength(3);
+        expect(segment.states[1].time).toBe(Date.UTC(1996, 11, 18, 12, 1, 0, 331));
+        expect(segment.states[1].position).toEqual([2783.419, -308.143, -1877.071]);
+        expect(segment.states[1].velocity).toEqual([5.18604, -2.42124, -1.99608]);
+    });
+
+    it("round-trips an OEM through KVN and XML", () => {
+        const oem = parseOEM(oemText, timeScales);
+        expect(parseOEM(writeOEM(oem, timeScales), timeScales)).toEqual(oem);
+        expect(parseOEM(writeOEM(oem, timeScales, "xml"), timeScales).segments).toEqual(oem.segments);
+    });
+
+    it("round-trips an OPM with spacecraft parameters and maneuvers through KVN and XML", () => {
+        const opm = parseOPM(opmText, timeScales);
+        expect(opm.epoch).toBeCloseTo(Date.UTC(1998, 11, 18, 14, 28, 15) + 117.2, 6);
+        expect(opm.spacecraft?.mass).toBe(3000);
+        expect(opm.maneuvers[0].deltaV).toEqual([-0.023257, 0.0168316, -0.00893444]);
+
+        expect(parseOPM(writeOPM(opm, timeScales), timeScales)).toEqual(opm);
+        expect(parseOPM(writeOPM(opm, timeScales, "xml"), timeScales)).toEqual(opm);
+    });
+
+    it("builds a TLE from an OMM that propagates like the OMM itself", () => {
+        const [omm] = parseOMM(ommJSON, timeScales);
+        const tle = ommToTLE(omm);
+        const time = new Date(Date.UTC(2024, 0, 2));
+        const fromTLE = satellite.propagate(satellite.twoline2satrec(tle.line1, tle.line2), time);
+        const fromOMM = satellite.propagate(satellite.json2satrec(JSON.parse(ommJSON)[0]), time);
+        if (!fromTLE?.position || !fromOMM?.position) throw new Error("SGP4 failed");
+
+        const { x, y, z } = fromTLE.position;
+        expect(Math.hypot(x - fromOMM.position.x, y - fromOMM.position.y, z - fromOMM.position.z)).toBeLessThan(0.1);
+        expect(parseOMM(writeOMM([omm], timeScales), timeScales)[0]).toEqual(omm);
+    });
+});
@@ -0,0 +1,1126 @@
+// CCSDS Orbit Data Messages (502.0-B): OEM, OPM and OMM in KVN and XML, plus the CelesTrak OMM JSON flavour
+// Epochs are converted to UTC Unix milliseconds on import and back to the message time system on export, through the
+// caller's TimeConverter (normally the engine's TimeService, so its leap seconds and EOP apply)
+
+import type { TimeConverter, TLE } from "../types";
+import { TimeSystem } from "../types";
+import { formatTLE, parseTLEFields } from "./TLEFormat";
+import type { EphemerisSample } from "../propagators/EphemerisPropagator";
+
+export type CCSDSFormat = "kvn" | "xml";
+
+export interface CCSDSHeader {
+    version: string;
+    creationDate: number; // UTC Unix ms
+    originator: string;
+    comments?: string[];
+}
+
+export interface CCSDSMetadata {
+    objectName: string;
+    objectId: string; // International designator, e.g. "1998-067A"
+    centerName: string; // Usually "EARTH"
+    refFrame: string; // e.g. "EME2000", "GCRF", "TEME", "ITRF2000"
+    timeSystem: string; // e.g. "UTC", "TAI", "TT", "GPS", "UT1", "TDB"
+}
+
+export interface OEMMetadata extends CCSDSMetadata {
+    startTime: number;
+    stopTime: number;
+    useableStartTime?: number;
+    useableStopTime?: number;
+    interpolation?: string; // e.g. "LAGRANGE", "HERMITE"
+    interpolationDegree?: number;
+}
+
+export interface OEMSegment {
+    metadata: OEMMetadata;
+    states: EphemerisSample[];
+}
+
+export interface OEMMessage {
+    header: CCSDSHeader;
+    segments: OEMSegment[];
+}
+
+export interface OPMKeplerianElements {
+    semiMajorAxis: number; // km
+    eccentricity: number;
+    inclination: number; // deg
+    raan: number; // deg
+    argumentOfPericenter: number; // deg
+    trueAnomaly?: number; // deg
+    meanAnomaly?: number; // deg
+    gm: number; // km^3/s^2
+}
+
+export interface OPMSpacecraftParameters {
+    mass?: number; // kg
+    solarRadArea?: number; // m^2
+    solarRadCoeff?: number;
+    dragArea?: number; // m^2
+    dragCoeff?: number;
+}
+
+export interface OPMManeuver {
+    epochIgnition: number; // UTC Unix ms
+    duration: number; // s
+    deltaMass: number; // kg
+    refFrame: string; // e.g. "EME2000", "RSW", "TNW"
+    deltaV: [number, number, number]; // km/s
+}
+
+export interface OPMMessage {
+    header: CCSDSHeader;
+    metadata: CCSDSMetadata;
+    epoch: number; // UTC Unix ms
+    position: [number, number, number]; // km
+    velocity: [number, number, number]; // km/s
+    keplerian?: OPMKeplerianElements;
+    spacecraft?: OPMSpacecraftParameters;
+    maneuvers: OPMManeuver[];
+}
+
+export interface OMMTLEParameters {
+    ephemerisType: number;
+    classificationType: string;
+    noradCatId: number;
+    elementSetNo: number;
+    revAtEpoch: number;
+    bstar: number;
+    meanMotionDot: number; // rev/day^2
+    meanMotionDdot: number; // rev/day^3
+}
+
+export interface OMMMessage {
+    header: CCSDSHeader;
+    metadata: CCSDSMetadata & { meanElementTheory: string };
+    epoch: number; // UTC Unix ms
+    meanMotion?: number; // rev/day (SGP/SGP4 theories)
+    semiMajorAxis?: number; // km (other theories)
+    eccentricity: number;
+    inclination: number; // deg
+    raan: number; // deg
+    argumentOfPericenter: number; // deg
+    meanAnomaly: number; // deg
+    gm?: number; // km^3/s^2
+    tle?: OMMTLEParameters;
+}
+
+// CCSDS time systems mapped onto the engine's scales (TDB is within 2 ms of TT)
+const TIME_SYSTEMS: Record<string, TimeSystem> = {
+    UTC: TimeSystem.UTC,
+    TAI: TimeSystem.TAI,
+    TT: TimeSystem.TT,
+    TDB: TimeSystem.TT,
+    GPS: TimeSystem.GPS,
+    UT1: TimeSystem.UT1,
+};
+
+function resolveTimeSystem(timeSystem: string): TimeSystem {
+    const system = TIME_SYSTEMS[timeSystem.trim().toUpperCase()];
+    if (!system) {
+        throw new Error(`Unsupported CCSDS time system: ${timeSystem}`);
+    }
+    return system;
+}
+
+/**
+ * Parse a CCSDS epoch (calendar or day-of-year form) on the given time system into UTC Unix ms
+ */
+export function parseCCSDSEpoch(value: string, timeSystem: string, timeScales: TimeConverter): number {
+    const text = value.trim().replace(/Z$/, "");
+    const calendar = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}):(\d{2}(?:\.\d*)?))?$/.exec(text);
+    const ordinal = /^(\d{4})-(\d{3})(?:T(\d{2}):(\d{2}):(\d{2}(?:\.\d*)?))?$/.exec(text);
+
+    let time: number;
+    if (calendar) {
+        const [, year, month, day, hours = "0", minutes = "0", seconds = "0"] = calendar;
+        time = Date.UTC(+year, +month - 1, +day, +hours, +minutes) + parseFloat(seconds) * 1000;
+    } else if (ordinal) {
+        const [, year, dayOfYear, hours = "0", minutes = "0", seconds = "0"] = ordinal;
+        time = Date.UTC(+year, 0, +dayOfYear, +hours, +minutes) + parseFloat(seconds) * 1000;
+    } else {
+        throw new Error(`Invalid CCSDS epoch: ${value}`);
+    }
+
+    return timeScales.convert(time, resolveTimeSystem(timeSystem), TimeSystem.UTC);
+}
+
+/**
+ * Format a UTC Unix ms timestamp as a CCSDS calendar epoch on the given time system
+ */
+export function formatCCSDSEpoch(time: number, timeSystem: string, timeScales: TimeConverter): string {
+    const scaled = timeScales.convert(time, TimeSystem.UTC, resolveTimeSystem(timeSystem));
+
+    // Keep microseconds when the value has them
+    const totalMicro = Math.round(scaled * 1000);
+    const wholeMs = Math.floor(totalMicro / 1000);
+    const micro = totalMicro - wholeMs * 1000;
+    const iso = new Date(wholeMs).toISOString().slice(0, 23);
+    return `${iso}${micro.toString().padStart(3, "0")}`;
+}
+
+// ============================================================================
+// KVN
+// ============================================================================
+
+interface KVNLine {
+    key: string;
+    value: string;
+}
+
+/**
+ * Split KVN text into trimmed lines, dropping blanks
+ */
+function kvnLines(text: string): string[] {
+    return text
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+}
+
+/**
+ * Parse "KEY = value [units]" (returns null for data lines and block markers)
+ */
+function parseKVNLine(line: string): KVNLine | null {
+    if (line.startsWith("COMMENT")) {
+        return { key: "COMMENT", value: line.slice(7).trim() };
+    }
+
+    const separator = line.indexOf("=");
+    if (separator < 0) return null;
+
+    return {
+        key: line.slice(0, separator).trim().toUpperCase(),
+        value: line
+            .slice(separator + 1)
+            .replace(/\[[^\]]*\]\s*$/, "")
+            .trim(),
+    };
+}
+
+function kvnPair(key: string, value: string | number): string {
+    return `${key.padEnd(20, " ")} = ${value}`;
+}
+
+function formatNumber(value: number, digits: number = 12): string {
+    return Number.isInteger(value) ? value.toString() : parseFloat(value.toPrecision(digits)).toString();
+}
+
+// ============================================================================
+// XML (minimal NDM/XML reader: elements, attributes ignored, text content)
+// ============================================================================
+
+interface XMLNode {
+    name: string;
+    children: XMLNode[];
+    text: string;
+}
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, "&");
+}
+
+function encodeEntities(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Parse XML into a tree of element names and text (namespaces prefixes are stripped)
+ */
+function parseXML(text: string): XMLNode {
+    const root: XMLNode = { name: "#document", children: [], text: "" };
+    const stack: XMLNode[] = [root];
+    const tokenPattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([\w:.-]+)[^>]*?(\/?)>|([^<]+)/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = tokenPattern.exec(text)) !== null) {
+        const [token, cdata, closing, qualifiedName, selfClosing, content] = match;
+        const current = stack[stack.length - 1];
+
+        if (cdata !== undefined) {
+            current.text += cdata;
+        } else if (content !== undefined) {
+            current.text += decodeEntities(content);
+        } else if (qualifiedName !== undefined) {
+            const name = qualifiedName.includes(":") ? qualifiedName.slice(qualifiedName.indexOf(":") + 1) : qualifiedName;
+            if (closing) {
+                if (stack.length <= 1 || current.name !== name) {
+                    throw new Error(`Malformed XML: unexpected </${name}>`);
+                }
+                current.text = current.text.trim();
+                stack.pop();
+            } else {
+                const node: XMLNode = { name, children: [], text: "" };
+                current.children.push(node);
+                if (!selfClosing) stack.push(node);
+            }
+        } else if (token.startsWith("<") && !token.startsWith("<!--") && !token.startsWith("<?")) {
+            throw new Error("Malformed XML");
+        }
+    }
+
+    if (stack.length !== 1) {
+        throw new Error(`Malformed XML: <${stack[stack.length - 1].name}> is not closed`);
+    }
+
+    return root;
+}
+
+function xmlChild(node: XMLNode | undefined, name: string): XMLNode | undefined {
+    return node?.children.find((child) => child.name === name);
+}
+
+function xmlChildren(node: XMLNode | undefined, name: string): XMLNode[] {
+    return node ? node.children.filter((child) => child.name === name) : [];
+}
+
+/**
+ * Depth-first search for every element with a name
+ */
+function xmlFindAll(node: XMLNode, name: string, found: XMLNode[] = []): XMLNode[] {
+    for (const child of node.children) {
+        if (child.name === name) {
+            found.push(child);
+        } else {
+            xmlFindAll(child, name, found);
+        }
+    }
+    return found;
+}
+
+/**
+ * Flatten an element's leaf children into KVN-style pairs
+ */
+function xmlPairs(node: XMLNode | undefined): KVNLine[] {
+    if (!node) return [];
+    return node.children
+        .filter((child) => child.children.length === 0)
+        .map((child) => ({ key: child.name.toUpperCase(), value: child.text.trim() }));
+}
+
+function xmlElement(name: string, content: string | number, indent: string): string {
+    return `${indent}<${name}>${encodeEntities(String(content))}</${name}>`;
+}
+
+function xmlHeader(header: CCSDSHeader, indent: string, timeScales: TimeConverter): string[] {
+    return [
+        `${indent}<header>`,
+        ...(header.comments ?? []).map((comment) => xmlElement("COMMENT", comment, indent + "  ")),
+        xmlElement("CREATION_DATE", formatCCSDSEpoch(header.creationDate, "UTC", timeScales), indent + "  "),
+        xmlElement("ORIGINATOR", header.originator, indent + "  "),
+        `${indent}</header>`,
+    ];
+}
+
+function isXML(text: string): boolean {
+    return text.trimStart().startsWith("<");
+}
+
+// ============================================================================
+// Shared field handling
+// ============================================================================
+
+function pairsToRecord(pairs: KVNLine[]): Record<string, string> {
+    const record: Record<string, string> = {};
+    for (const pair of pairs) {
+        if (pair.key !== "COMMENT") record[pair.key] = pair.value;
+    }
+    return record;
+}
+
+function requireField(record: Record<string, string>, key: string, message: string): string {
+    const value = record[key];
+    if (value === undefined || value === "") {
+        throw new Error(`${message}: missing ${key}`);
+    }
+    return value;
+}
+
+function requireNumber(record: Record<string, string>, key: string, message: string): number {
+    const value = parseFloat(requireField(record, key, message));
+    if (isNaN(value)) {
+        throw new Error(`${message}: ${key} is not a number`);
+    }
+    return value;
+}
+
+function optionalNumber(record: Record<string, string>, key: string): number | undefined {
+    const value = record[key] !== undefined ? parseFloat(record[key]) : NaN;
+    return isNaN(value) ? undefined : value;
+}
+
+function parseHeader(record: Record<string, string>, versionKey: string, comments: string[], timeScales: TimeConverter): CCSDSHeader {
+    return {
+        version: record[versionKey] ?? "2.0",
+        creationDate: record.CREATION_DATE ? parseCCSDSEpoch(record.CREATION_DATE, "UTC", timeScales) : Date.now(),
+        originator: record.ORIGINATOR ?? "",
+        comments: comments.length > 0 ? comments : undefined,
+    };
+}
+
+function parseMetadata(record: Record<string, string>, message: string): CCSDSMetadata {
+    return {
+        objectName: requireField(record, "OBJECT_NAME", message),
+        objectId: record.OBJECT_ID ?? "",
+        centerName: record.CENTER_NAME ?? "EARTH",
+        refFrame: requireField(record, "REF_FRAME", message),
+        timeSystem: requireField(record, "TIME_SYSTEM", message),
+    };
+}
+
+function metadataPairs(metadata: CCSDSMetadata): [string, string][] {
+    return [
+        ["OBJECT_NAME", metadata.objectName],
+        ["OBJECT_ID", metadata.objectId],
+        ["CENTER_NAME", metadata.centerName],
+        ["REF_FRAME", metadata.refFrame],
+        ["TIME_SYSTEM", metadata.timeSystem],
+    ];
+}
+
+function headerKVN(versionKey: string, header: CCSDSHeader, timeScales: TimeConverter): string[] {
+    return [
+        kvnPair(versionKey, header.version),
+        ...(header.comments ?? []).map((comment) => `COMMENT ${comment}`),
+        kvnPair("CREATION_DATE", formatCCSDSEpoch(header.creationDate, "UTC", timeScales)),
+        kvnPair("ORIGINATOR", header.originator),
+    ];
+}
+
+// ============================================================================
+// OEM
+// ============================================================================
+
+function parseOEMMetadata(record: Record<string, string>, timeScales: TimeConverter): OEMMetadata {
+    const metadata = parseMetadata(record, "Invalid OEM metadata");
+    const timeSystem = metadata.timeSystem;
+    return {
+        ...metadata,
+        startTime: parseCCSDSEpoch(requireField(record, "START_TIME", "Invalid OEM metadata"), timeSystem, timeScales),
+        stopTime: parseCCSDSEpoch(requireField(record, "STOP_TIME", "Invalid OEM metadata"), timeSystem, timeScales),
+        useableStartTime: record.USEABLE_START_TIME ? parseCCSDSEpoch(record.USEABLE_START_TIME, timeSystem, timeScales) : undefined,
+        useableStopTime: record.USEABLE_STOP_TIME ? parseCCSDSEpoch(record.USEABLE_STOP_TIME, timeSystem, timeScales) : undefined,
+        interpolation: record.INTERPOLATION,
+        interpolationDegree: optionalNumber(record, "INTERPOLATION_DEGREE"),
+    };
+}
+
+function parseOEMKVN(text: string, timeScales: TimeConverter): OEMMessage {
+    const lines = kvnLines(text);
+    const headerPairs: KVNLine[] = [];
+    const headerComments: string[] = [];
+    const segments: OEMSegment[] = [];
+
+    let i = 0;
+    while (i < lines.length && lines[i] !== "META_START") {
+        const pair = parseKVNLine(lines[i]);
+        if (pair?.key === "COMMENT") headerComments.push(pair.value);
+        else if (pair) headerPairs.push(pair);
+        i++;
+    }
+
+    const headerRecord = pairsToRecord(headerPairs);
+    if (!headerRecord.CCSDS_OEM_VERS) {
+        throw new Error("Invalid OEM: missing CCSDS_OEM_VERS");
+    }
+
+    while (i < lines.length) {
+        if (lines[i] !== "META_START") {
+            throw new Error(`Invalid OEM: expected META_START, found "${lines[i]}"`);
+        }
+        i++;
+
+        const metaPairs: KVNLine[] = [];
+        while (i < lines.length && lines[i] !== "META_STOP") {
+            const pair = parseKVNLine(lines[i]);
+            if (pair) metaPairs.push(pair);
+            i++;
+        }
+        if (i >= lines.length) {
+            throw new Error("Invalid OEM: META_START without META_STOP");
+        }
+        i++;
+
+        const metadata = parseOEMMetadata(pairsToRecord(metaPairs), timeScales);
+        const states: EphemerisSample[] = [];
+
+        while (i < lines.length && lines[i] !== "META_START") {
+            const line = lines[i];
+            i++;
+
+            if (line.startsWith("COMMENT")) continue;
+
+            // Covariance blocks are skipped
+            if (line === "COVARIANCE_START") {
+                while (i < lines.length && lines[i] !== "COVARIANCE_STOP") i++;
+                i++;
+                continue;
+            }
+
+            const fields = line.split(/\s+/);
+            if (fields.length < 7) {
+                throw new Error(`Invalid OEM ephemeris line: "${line}"`);
+            }
+            const values = fields.slice(1, 7).map((field) => parseFloat(field));
+            if (values.some((value) => isNaN(value))) {
+                throw new Error(`Invalid OEM ephemeris line: "${line}"`);
+            }
+
+            states.push({
+                time: parseCCSDSEpoch(fields[0], metadata.timeSystem, timeScales),
+                position: [values[0], values[1], values[2]],
+                velocity: [values[3], values[4], values[5]],
+            });
+        }
+
+        segments.push({ metadata, states });
+    }
+
+    return { header: parseHeader(headerRecord, "CCSDS_OEM_VERS", headerComments, timeScales), segments };
+}
+
+function parseOEMXML(text: string, timeScales: TimeConverter): OEMMessage {
+    const root = parseXML(text);
+    const oem = xmlFindAll(root, "oem")[0];
+    if (!oem) {
+        throw new Error("Invalid OEM XML: missing <oem> element");
+    }
+
+    const headerPairs = xmlPairs(xmlChild(oem, "header"));
+    const headerRecord = pairsToRecord(headerPairs);
+    const comments = headerPairs.filter((pair) => pair.key === "COMMENT").map((pair) => pair.value);
+
+    const segments = xmlChildren(xmlChild(oem, "body"), "segment").map((segment) => {
+        const metadata = parseOEMMetadata(pairsToRecord(xmlPairs(xmlChild(segment, "metadata"))), timeScales);
+        const states = xmlChildren(xmlChild(segment, "data"), "stateVector").map((vector) => {
+            const record = pairsToRecord(xmlPairs(vector));
+            const message = "Invalid OEM state vector";
+            return {
+                time: parseCCSDSEpoch(requireField(record, "EPOCH", message), metadata.timeSystem, timeScales),
+                position: [requireNumber(record, "X", message), requireNumber(record, "Y", message), requireNumber(record, "Z", message)],
+                velocity: [requireNumber(record, "X_DOT", message), requireNumber(record, "Y_DOT", message), requireNumber(record, "Z_DOT", message)],
+            } as EphemerisSample;
+        });
+        return { metadata, states };
+    });
+
+    return { header: parseHeader(headerRecord, "CCSDS_OEM_VERS", comments, timeScales), segments };
+}
+
+/**
+ * Parse an Orbit Ephemeris Message (KVN or XML, detected from the content)
+ */
+export function parseOEM(text: string, timeScales: TimeConverter): OEMMessage {
+    return isXML(text) ? parseOEMXML(text, timeScales) : parseOEMKVN(text, timeScales);
+}
+
+function oemMetadataPairs(metadata: OEMMetadata, timeScales: TimeConverter): [string, string][] {
+    const pairs = metadataPairs(metadata);
+    const timeSystem = metadata.timeSystem;
+    pairs.push(["START_TIME", formatCCSDSEpoch(metadata.startTime, timeSystem, timeScales)]);
+    if (metadata.useableStartTime !== undefined) pairs.push(["USEABLE_START_TIME", formatCCSDSEpoch(metadata.useableStartTime, timeSystem, timeScales)]);
+    if (metadata.useableStopTime !== undefined) pairs.push(["USEABLE_STOP_TIME", formatCCSDSEpoch(metadata.useableStopTime, timeSystem, timeScales)]);
+    pairs.push(["STOP_TIME", formatCCSDSEpoch(metadata.stopTime, timeSystem, timeScales)]);
+    if (metadata.interpolation) pairs.push(["INTERPOLATION", metadata.interpolation]);
+    if (metadata.interpolationDegree !== undefined) pairs.push(["INTERPOLATION_DEGREE", metadata.interpolationDegree.toString()]);
+    return pairs;
+}
+
+/**
+ * Write an Orbit Ephemeris Message
+ */
+export function writeOEM(message: OEMMessage, timeScales: TimeConverter, format: CCSDSFormat = "kvn"): string {
+    if (format === "xml") {
+        const lines = ['<?xml version="1.0" encoding="UTF-8"?>', `<oem id="CCSDS_OEM_VERS" version="${message.header.version}">`];
+        lines.push(...xmlHeader(message.header, "  ", timeScales), "  <body>");
+        for (const segment of message.segments) {
+            lines.push("    <segment>", "      <metadata>");
+            for (const [key, value] of oemMetadataPairs(segment.metadata, timeScales)) {
+                lines.push(xmlElement(key, value, "        "));
+            }
+            lines.push("      </metadata>", "      <data>");
+            for (const state of segment.states) {
+                const velocity = state.velocity ?? [0, 0, 0];
+                lines.push(
+                    "        <stateVector>",
+                    xmlElement("EPOCH", formatCCSDSEpoch(state.time, segment.metadata.timeSystem, timeScales), "          "),
+                    xmlElement("X", formatNumber(state.position[0]), "          "),
+                    xmlElement("Y", formatNumber(state.position[1]), "          "),
+                    xmlElement("Z", formatNumber(state.position[2]), "          "),
+                    xmlElement("X_DOT", formatNumber(velocity[0]), "          "),
+                    xmlElement("Y_DOT", formatNumber(velocity[1]), "          "),
+                    xmlElement("Z_DOT", formatNumber(velocity[2]), "          "),
+                    "        </stateVector>"
+                );
+            }
+            lines.push("      </data>", "    </segment>");
+        }
+        lines.push("  </body>", "</oem>");
+        return lines.join("\n") + "\n";
+    }
+
+    const lines = headerKVN("CCSDS_OEM_VERS", message.header, timeScales);
+    for (const segment of message.segments) {
+        lines.push("", "META_START");
+        for (const [key, value] of oemMetadataPairs(segment.metadata, timeScales)) {
+            lines.push(kvnPair(key, value));
+        }
+        lines.push("META_STOP", "");
+        for (const state of segment.states) {
+            const velocity = state.velocity ?? [0, 0, 0];
+            const values = [...state.position, ...velocity].map((value) => formatNumber(value));
+            lines.push(`${formatCCSDSEpoch(state.time, segment.metadata.timeSystem, timeScales)} ${values.join(" ")}`);
+        }
+    }
+    return lines.join("\n") + "\n";
+}
+
+// ============================================================================
+// OPM
+// ============================================================================
+
+function buildOPM(headerRecord: Record<string, string>, comments: string[], record: Record<string, string>, maneuverRecords: Record<string, string>[], timeScales: TimeConverter): OPMMessage {
+    const message = "Invalid OPM";
+    const metadata = parseMetadata(record, message);
+
+    const opm: OPMMessage = {
+        header: parseHeader(headerRecord, "CCSDS_OPM_VERS", comments, timeScales),
+        metadata,
+        epoch: parseCCSDSEpoch(requireField(record, "EPOCH", message), metadata.timeSystem, timeScales),
+        position: [requireNumber(record, "X", message), requireNumber(record, "Y", message), requireNumber(record, "Z", message)],
+        velocity: [requireNumber(record, "X_DOT", message), requireNumber(record, "Y_DOT", message), requireNumber(record, "Z_DOT", message)],
+        maneuvers: maneuverRecords.map((maneuver) => ({
+            epochIgnition: parseCCSDSEpoch(requireField(maneuver, "MAN_EPOCH_IGNITION", message), metadata.timeSystem, timeScales),
+            duration: optionalNumber(maneuver, "MAN_DURATION") ?? 0,
+            deltaMass: optionalNumber(maneuver, "MAN_DELTA_MASS") ?? 0,
+            refFrame: maneuver.MAN_REF_FRAME ?? metadata.refFrame,
+            deltaV: [requireNumber(maneuver, "MAN_DV_1", message), requireNumber(maneuver, "MAN_DV_2", message), requireNumber(maneuver, "MAN_DV_3", message)],
+        })),
+    };
+
+    if (record.SEMI_MAJOR_AXIS !== undefined) {
+        opm.keplerian = {
+            semiMajorAxis: requireNumber(record, "SEMI_MAJOR_AXIS", message),
+            eccentricity: requireNumber(record, "ECCENTRICITY", message),
+            inclination: requireNumber(record, "INCLINATION", message),
+            raan: requireNumber(record, "RA_OF_ASC_NODE", message),
+            argumentOfPericenter: requireNumber(record, "ARG_OF_PERICENTER", message),
+            trueAnomaly: optionalNumber(record, "TRUE_ANOMALY"),
+            meanAnomaly: optionalNumber(record, "MEAN_ANOMALY"),
+            gm: requireNumber(record, "GM", message),
+        };
+    }
+
+    const spacecraft: OPMSpacecraftParameters = {
+        mass: optionalNumber(record, "MASS"),
+        solarRadArea: optionalNumber(record, "SOLAR_RAD_AREA"),
+        solarRadCoeff: optionalNumber(record, "SOLAR_RAD_COEFF"),
+        dragArea: optionalNumber(record, "DRAG_AREA"),
+        dragCoeff: optionalNumber(record, "DRAG_COEFF"),
+    };
+    if (Object.values(spacecraft).some((value) => value !== undefined)) {
+        opm.spacecraft = spacecraft;
+    }
+
+    return opm;
+}
+
+function parseOPMKVN(text: string, timeScales: TimeConverter): OPMMessage {
+    const headerKeys = new Set(["CCSDS_OPM_VERS", "CREATION_DATE", "ORIGINATOR"]);
+    const headerRecord: Record<string, string> = {};
+    const comments: string[] = [];
+    const record: Record<string, string> = {};
+    const maneuvers: Record<string, string>[] = [];
+
+    for (const line of kvnLines(text)) {
+        const pair = parseKVNLine(line);
+        if (!pair) continue;
+
+        if (pair.key === "COMMENT") {
+            if (Object.keys(record).length === 0) comments.push(pair.value);
+        } else if (headerKeys.has(pair.key)) {
+            headerRecord[pair.key] = pair.value;
+        } else if (pair.key.startsWith("MAN_")) {
+            // Each maneuver block starts with its ignition epoch
+            if (pair.key === "MAN_EPOCH_IGNITION") maneuvers.push({});
+            if (maneuvers.length === 0) throw new Error("Invalid OPM: maneuver field before MAN_EPOCH_IGNITION");
+            maneuvers[maneuvers.length - 1][pair.key] = pair.value;
+        } else {
+            record[pair.key] = pair.value;
+        }
+    }
+
+    if (!headerRecord.CCSDS_OPM_VERS) {
+        throw new Error("Invalid OPM: missing CCSDS_OPM_VERS");
+    }
+
+    return buildOPM(headerRecord, comments, record, maneuvers, timeScales);
+}
+
+function parseOPMXML(text: string, timeScales: TimeConverter): OPMMessage {
+    const opm = xmlFindAll(parseXML(text), "opm")[0];
+    if (!opm) {
+        throw new Error("Invalid OPM XML: missing <opm> element");
+    }
+
+    const headerPairs = xmlPairs(xmlChild(opm, "header"));
+    const segment = xmlChild(xmlChild(opm, "body"), "segment");
+    const data = xmlChild(segment, "data");
+
+    const record = pairsToRecord([
+        ...xmlPairs(xmlChild(segment, "metadata")),
+        ...xmlPairs(xmlChild(data, "stateVector")),
+        ...xmlPairs(xmlChild(data, "keplerianElements")),
+        ...xmlPairs(xmlChild(data, "spacecraftParameters")),
+    ]);
+    const maneuvers = xmlChildren(data, "maneuverParameters").map((node) => pairsToRecord(xmlPairs(node)));
+
+    return buildOPM(
+        pairsToRecord(headerPairs),
+        headerPairs.filter((pair) => pair.key === "COMMENT").map((pair) => pair.value),
+        record,
+        maneuvers
+    , timeScales);
+}
+
+/**
+ * Parse an Orbit Parameter Message (KVN or XML, detected from the content)
+ */
+export function parseOPM(text: string, timeScales: TimeConverter): OPMMessage {
+    return isXML(text) ? parseOPMXML(text, timeScales) : parseOPMKVN(text, timeScales);
+}
+
+/**
+ * OPM data blocks as ordered key/value lists
+ */
+function opmBlocks(opm: OPMMessage, timeScales: TimeConverter): { name: string; pairs: [string, string][] }[] {
+    const timeSystem = opm.metadata.timeSystem;
+    const blocks: { name: string; pairs: [string, string][] }[] = [
+        {
+            name: "stateVector",
+            pairs: [
+                ["EPOCH", formatCCSDSEpoch(opm.epoch, timeSystem, timeScales)],
+                ["X", formatNumber(opm.position[0])],
+                ["Y", formatNumber(opm.position[1])],
+                ["Z", formatNumber(opm.position[2])],
+                ["X_DOT", formatNumber(opm.velocity[0])],
+                ["Y_DOT", formatNumber(opm.velocity[1])],
+                ["Z_DOT", formatNumber(opm.velocity[2])],
+            ],
+        },
+    ];
+
+    if (opm.keplerian) {
+        const k = opm.keplerian;
+        const pairs: [string, string][] = [
+            ["SEMI_MAJOR_AXIS", formatNumber(k.semiMajorAxis)],
+            ["ECCENTRICITY", formatNumber(k.eccentricity)],
+            ["INCLINATION", formatNumber(k.inclination)],
+            ["RA_OF_ASC_NODE", formatNumber(k.raan)],
+            ["ARG_OF_PERICENTER", formatNumber(k.argumentOfPericenter)],
+        ];
+        if (k.trueAnomaly !== undefined) pairs.push(["TRUE_ANOMALY", formatNumber(k.trueAnomaly)]);
+        else if (k.meanAnomaly !== undefined) pairs.push(["MEAN_ANOMALY", formatNumber(k.meanAnomaly)]);
+        pairs.push(["GM", formatNumber(k.gm)]);
+        blocks.push({ name: "keplerianElements", pairs });
+    }
+
+    if (opm.spacecraft) {
+        const s = opm.spacecraft;
+        const pairs: [string, string][] = [];
+        if (s.mass !== undefined) pairs.push(["MASS", formatNumber(s.mass)]);
+        if (s.solarRadArea !== undefined) pairs.push(["SOLAR_RAD_AREA", formatNumber(s.solarRadArea)]);
+        if (s.solarRadCoeff !== undefined) pairs.push(["SOLAR_RAD_COEFF", formatNumber(s.solarRadCoeff)]);
+        if (s.dragArea !== undefined) pairs.push(["DRAG_AREA", formatNumber(s.dragArea)]);
+        if (s.dragCoeff !== undefined) pairs.push(["DRAG_COEFF", formatNumber(s.dragCoeff)]);
+        blocks.push({ name: "spacecraftParameters", pairs });
+    }
+
+    for (const maneuver of opm.maneuvers) {
+        blocks.push({
+            name: "maneuverParameters",
+            pairs: [
+                ["MAN_EPOCH_IGNITION", formatCCSDSEpoch(maneuver.epochIgnition, timeSystem, timeScales)],
+                ["MAN_DURATION", formatNumber(maneuver.duration)],
+                ["MAN_DELTA_MASS", formatNumber(maneuver.deltaMass)],
+                ["MAN_REF_FRAME", maneuver.refFrame],
+                ["MAN_DV_1", formatNumber(maneuver.deltaV[0])],
+                ["MAN_DV_2", formatNumber(maneuver.deltaV[1])],
+                ["MAN_DV_3", formatNumber(maneuver.deltaV[2])],
+            ],
+        });
+    }
+
+    return blocks;
+}
+
+/**
+ * Write an Orbit Parameter Message
+ */
+export function writeOPM(opm: OPMMessage, timeScales: TimeConverter, format: CCSDSFormat = "kvn"): string {
+    const blocks = opmBlocks(opm, timeScales);
+
+    if (format === "xml") {
+        const lines = ['<?xml version="1.0" encoding="UTF-8"?>', `<opm id="CCSDS_OPM_VERS" version="${opm.header.version}">`];
+        lines.push(...xmlHeader(opm.header, "  ", timeScales), "  <body>", "    <segment>", "      <metadata>");
+        for (const [key, value] of metadataPairs(opm.metadata)) {
+            lines.push(xmlElement(key, value, "        "));
+        }
+        lines.push("      </metadata>", "      <data>");
+        for (const block of blocks) {
+            lines.push(`        <${block.name}>`);
+            for (const [key, value] of block.pairs) {
+                lines.push(xmlElement(key, value, "          "));
+            }
+            lines.push(`        </${block.name}>`);
+        }
+        lines.push("      </data>", "    </segment>", "  </body>", "</opm>");
+        return lines.join("\n") + "\n";
+    }
+
+    const lines = headerKVN("CCSDS_OPM_VERS", opm.header, timeScales);
+    lines.push("");
+    for (const [key, value] of metadataPairs(opm.metadata)) {
+        lines.push(kvnPair(key, value));
+    }
+    for (const block of blocks) {
+        lines.push("");
+        for (const [key, value] of block.pairs) {
+            lines.push(kvnPair(key, value));
+        }
+    }
+    return lines.join("\n") + "\n";
+}
+
+// ============================================================================
+// OMM
+// ============================================================================
+
+function buildOMM(headerRecord: Record<string, string>, comments: string[], record: Record<string, string>, timeScales: TimeConverter): OMMMessage {
+    const message = "Invalid OMM";
+    const metadata = {
+        ...parseMetadata({ CENTER_NAME: "EARTH", REF_FRAME: "TEME", TIME_SYSTEM: "UTC", ...record }, message),
+        meanElementTheory: record.MEAN_ELEMENT_THEORY ?? "SGP4",
+    };
+
+    const omm: OMMMessage = {
+        header: parseHeader(headerRecord, "CCSDS_OMM_VERS", comments, timeScales),
+        metadata,
+        epoch: parseCCSDSEpoch(requireField(record, "EPOCH", message), metadata.timeSystem, timeScales),
+        meanMotion: optionalNumber(record, "MEAN_MOTION"),
+        semiMajorAxis: optionalNumber(record, "SEMI_MAJOR_AXIS"),
+        eccentricity: requireNumber(record, "ECCENTRICITY", message),
+        inclination: requireNumber(record, "INCLINATION", message),
+        raan: requireNumber(record, "RA_OF_ASC_NODE", message),
+        argumentOfPericenter: requireNumber(record, "ARG_OF_PERICENTER", message),
+        meanAnomaly: requireNumber(record, "MEAN_ANOMALY", message),
+        gm: optionalNumber(record, "GM"),
+    };
+
+    if (omm.meanMotion === undefined && omm.semiMajorAxis === undefined) {
+        throw new Error(`${message}: missing MEAN_MOTION or SEMI_MAJOR_AXIS`);
+    }
+
+    if (record.NORAD_CAT_ID !== undefined) {
+        omm.tle = {
+            ephemerisType: optionalNumber(record, "EPHEMERIS_TYPE") ?? 0,
+            classificationType: record.CLASSIFICATION_TYPE ?? "U",
+            noradCatId: requireNumber(record, "NORAD_CAT_ID", message),
+            elementSetNo: optionalNumber(record, "ELEMENT_SET_NO") ?? 999,
+            revAtEpoch: optionalNumber(record, "REV_AT_EPOCH") ?? 0,
+            bstar: optionalNumber(record, "BSTAR") ?? 0,
+            meanMotionDot: optionalNumber(record, "MEAN_MOTION_DOT") ?? 0,
+            meanMotionDdot: optionalNumber(record, "MEAN_MOTION_DDOT") ?? 0,
+        };
+    }
+
+    return omm;
+}
+
+function parseOMMKVN(text: string, timeScales: TimeConverter): OMMMessage[] {
+    const headerKeys = new Set(["CCSDS_OMM_VERS", "CREATION_DATE", "ORIGINATOR"]);
+    const messages: OMMMessage[] = [];
+
+    let headerRecord: Record<string, string> = {};
+    let comments: string[] = [];
+    let record: Record<string, string> = {};
+
+    const flush = () => {
+        if (Object.keys(record).length > 0) {
+            messages.push(buildOMM(headerRecord, comments, record, timeScales));
+        }
+        headerRecord = {};
+        comments = [];
+        record = {};
+    };
+
+    for (const line of kvnLines(text)) {
+        const pair = parseKVNLine(line);
+        if (!pair) continue;
+
+        // Concatenated messages: a new version line starts the next one
+        if (pair.key === "CCSDS_OMM_VERS") flush();
+
+        if (pair.key === "COMMENT") {
+            if (Object.keys(record).length === 0) comments.push(pair.value);
+        } else if (headerKeys.has(pair.key)) {
+            headerRecord[pair.key] = pair.value;
+        } else {
+            record[pair.key] = pair.value;
+        }
+    }
+    flush();
+
+    if (messages.length === 0) {
+        throw new Error("Invalid OMM: no mean elements found");
+    }
+    return messages;
+}
+
+function parseOMMXML(text: string, timeScales: TimeConverter): OMMMessage[] {
+    const omms = xmlFindAll(parseXML(text), "omm");
+    if (omms.length === 0) {
+        throw new Error("Invalid OMM XML: missing <omm> element");
+    }
+
+    return omms.map((omm) => {
+        const headerPairs = xmlPairs(xmlChild(omm, "header"));
+        const segment = xmlChild(xmlChild(omm, "body"), "segment");
+        const data = xmlChild(segment, "data");
+
+        const record = pairsToRecord([
+            ...xmlPairs(xmlChild(segment, "metadata")),
+            ...xmlPairs(xmlChild(data, "meanElements")),
+            ...xmlPairs(xmlChild(data, "tleParameters")),
+        ]);
+
+        return buildOMM(
+            pairsToRecord(headerPairs),
+            headerPairs.filter((pair) => pair.key === "COMMENT").map((pair) => pair.value),
+            record
+        , timeScales);
+    });
+}
+
+function parseOMMJSON(text: string, timeScales: TimeConverter): OMMMessage[] {
+    const parsed: unknown = JSON.parse(text);
+    const entries = Array.isArray(parsed) ? parsed : [parsed];
+
+    return entries.map((entry, index) => {
+        if (typeof entry !== "object" || entry === null) {
+            throw new Error(`Invalid OMM JSON: entry ${index} is not an object`);
+        }
+        const record: Record<string, string> = {};
+        for (const [key, value] of Object.entries(entry as Record<string, unknown>)) {
+            if (value !== null && value !== undefined) record[key.toUpperCase()] = String(value);
+        }
+        return buildOMM({}, [], record, timeScales);
+    });
+}
+
+/**
+ * Parse Orbit Mean-Elements Messages (KVN, XML or CelesTrak JSON, detected from the content)
+ * KVN input may hold several concatenated messages; XML may be a single OMM or an NDM wrapper
+ */
+export function parseOMM(text: string, timeScales: TimeConverter): OMMMessage[] {
+    const trimmed = text.trimStart();
+    if (trimmed.startsWith("[") || trimmed.startsWith("{")) return parseOMMJSON(text, timeScales);
+    return isXML(text) ? parseOMMXML(text, timeScales) : parseOMMKVN(text, timeScales);
+}
+
+/**
+ * OMM data blocks as ordered key/value lists
+ */
+function ommBlocks(omm: OMMMessage, timeScales: TimeConverter): { name: string; pairs: [string, string][] }[] {
+    const meanElements: [string, string][] = [["EPOCH", formatCCSDSEpoch(omm.epoch, omm.metadata.timeSystem, timeScales)]];
+    if (omm.meanMotion !== undefined) meanElements.push(["MEAN_MOTION", formatNumber(omm.meanMotion)]);
+    else if (omm.semiMajorAxis !== undefined) meanElements.push(["SEMI_MAJOR_AXIS", formatNumber(omm.semiMajorAxis)]);
+    meanElements.push(
+        ["ECCENTRICITY", formatNumber(omm.eccentricity)],
+        ["INCLINATION", formatNumber(omm.inclination)],
+        ["RA_OF_ASC_NODE", formatNumber(omm.raan)],
+        ["ARG_OF_PERICENTER", formatNumber(omm.argumentOfPericenter)],
+        ["MEAN_ANOMALY", formatNumber(omm.meanAnomaly)]
+    );
+    if (omm.gm !== undefined) meanElements.push(["GM", formatNumber(omm.gm)]);
+
+    const blocks = [{ name: "meanElements", pairs: meanElements }];
+
+    if (omm.tle) {
+        const t = omm.tle;
+        blocks.push({
+            name: "tleParameters",
+            pairs: [
+                ["EPHEMERIS_TYPE", t.ephemerisType.toString()],
+                ["CLASSIFICATION_TYPE", t.classificationType],
+                ["NORAD_CAT_ID", t.noradCatId.toString()],
+                ["ELEMENT_SET_NO", t.elementSetNo.toString()],
+                ["REV_AT_EPOCH", t.revAtEpoch.toString()],
+                ["BSTAR", formatNumber(t.bstar)],
+                ["MEAN_MOTION_DOT", formatNumber(t.meanMotionDot)],
+                ["MEAN_MOTION_DDOT", formatNumber(t.meanMotionDdot)],
+            ],
+        });
+    }
+
+    return blocks;
+}
+
+/**
+ * Write Orbit Mean-Elements Messages (KVN messages are concatenated; XML uses an NDM wrapper for several)
+ */
+export function writeOMM(messages: OMMMessage[], timeScales: TimeConverter, format: CCSDSFormat | "json" = "kvn"): string {
+    if (format === "json") {
+        // CelesTrak flavour: flat objects with numeric values
+        const entries = messages.map((omm) => {
+            const entry: Record<string, string | number> = {
+                OBJECT_NAME: omm.metadata.objectName,
+                OBJECT_ID: omm.metadata.objectId,
+            };
+            for (const block of ommBlocks(omm, timeScales)) {
+                for (const [key, value] of block.pairs) {
+                    entry[key] = key === "EPOCH" || key === "CLASSIFICATION_TYPE" ? value : parseFloat(value);
+                }
+            }
+            return entry;
+        });
+        return JSON.stringify(entries, null, 2);
+    }
+
+    if (format === "xml") {
+        const wrapped = messages.length > 1;
+        const indent = wrapped ? "  " : "";
+        const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+        if (wrapped) lines.push("<ndm>");
+
+        for (const omm of messages) {
+            lines.push(`${indent}<omm id="CCSDS_OMM_VERS" version="${omm.header.version}">`);
+            lines.push(...xmlHeader(omm.header, indent + "  ", timeScales), `${indent}  <body>`, `${indent}    <segment>`, `${indent}      <metadata>`);
+            for (const [key, value] of [...metadataPairs(omm.metadata), ["MEAN_ELEMENT_THEORY", omm.metadata.meanElementTheory]]) {
+                lines.push(xmlElement(key, value, indent + "        "));
+            }
+            lines.push(`${indent}      </metadata>`, `${indent}      <data>`);
+            for (const block of ommBlocks(omm, timeScales)) {
+                lines.push(`${indent}        <${block.name}>`);
+                for (const [key, value] of block.pairs) {
+                    lines.push(xmlElement(key, value, indent + "          "));
+                }
+                lines.push(`${indent}        </${block.name}>`);
+            }
+            lines.push(`${indent}      </data>`, `${indent}    </segment>`, `${indent}  </body>`, `${indent}</omm>`);
+        }
+
+        if (wrapped) lines.push("</ndm>");
+        return lines.join("\n") + "\n";
+    }
+
+    const documents = messages.map((omm) => {
+        const lines = headerKVN("CCSDS_OMM_VERS", omm.header, timeScales);
+        lines.push("");
+        for (const [key, value] of [...metadataPairs(omm.metadata), ["MEAN_ELEMENT_THEORY", omm.metadata.meanElementTheory]]) {
+            lines.push(kvnPair(key, value));
+        }
+        for (const block of ommBlocks(omm, timeScales)) {
+            lines.push("");
+            for (const [key, value] of block.pairs) {
+                lines.push(kvnPair(key, value));
+            }
+        }
+        return lines.join("\n") + "\n";
+    });
+    return documents.join("\n");
+}
+
+// ============================================================================
+// TLE mapping
+// ============================================================================
+
+/**
+ * International designator in OMM form ("1998-067A") to TLE form ("98067A")
+ */
+function objectIdToDesignator(objectId: string): string {
+    const match = /^\d{2}(\d{2})-(\d{3}[A-Z]{0,3})$/.exec(objectId.trim());
+    return match ? match[1] + match[2] : "";
+}
+
+/**
+ * TLE designator ("98067A") to OMM object id ("1998-067A")
+ */
+function designatorToObjectId(designator: string): string {
+    const match = /^(\d{2})(\d{3}[A-Z]{0,3})$/.exec(designator.trim());
+    if (!match) return "";
+    const year = parseInt(match[1], 10);
+    return `${year < 57 ? 2000 + year : 1900 + year}-${match[2]}`;
+}
+
+/**
+ * Convert an SGP4 OMM (mean motion plus TLE parameters) into checksummed TLE lines
+ */
+export function ommToTLE(omm: OMMMessage): TLE {
+    if (omm.meanMotion === undefined || !omm.tle) {
+        throw new Error("OMM cannot be converted to a TLE: needs MEAN_MOTION and TLE parameters");
+    }
+
+    return formatTLE({
+        name: omm.metadata.objectName,
+        catalogNumber: omm.tle.noradCatId,
+        classification: omm.tle.classificationType,
+        internationalDesignator: objectIdToDesignator(omm.metadata.objectId),
+        epoch: omm.epoch,
+        meanMotionDot: omm.tle.meanMotionDot,
+        meanMotionDdot: omm.tle.meanMotionDdot,
+        bstar: omm.tle.bstar,
+        ephemerisType: omm.tle.ephemerisType,
+        elementSetNumber: omm.tle.elementSetNo,
+        inclination: omm.inclination,
+        raan: omm.raan,
+        eccentricity: omm.eccentricity,
+        argumentOfPerigee: omm.argumentOfPericenter,
+        meanAnomaly: omm.meanAnomaly,
+        meanMotion: omm.meanMotion,
+        revolutionNumber: omm.tle.revAtEpoch,
+    });
+}
+
+/**
+ * Convert TLE lines into an SGP4 OMM
+ */
+export function tleToOMM(tle: TLE, originator: string = "gorb-bro"): OMMMessage {
+    const fields = parseTLEFields(tle);
+
+    return {
+        header: { version: "2.0", creationDate: Date.now(), originator },
+        metadata: {
+            objectName: tle.name ?? `SAT ${fields.catalogNumber}`,
+            objectId: designatorToObjectId(fields.internationalDesignator),
+            centerName: "EARTH",
+            refFrame: "TEME",
+            timeSystem: "UTC",
+            meanElementTheory: "SGP4",
+        },
+        epoch: fields.epoch,
+        meanMotion: fields.meanMotion,
+        eccentricity: fields.eccentricity,
+        inclination: fields.inclination,
+        raan: fields.raan,
+        argumentOfPericenter: fields.argumentOfPerigee,
+        meanAnomaly: fields.meanAnomaly,
+        tle: {
+            ephemerisType: fields.ephemerisType,
+            classificationType: fields.classification,
+            noradCatId: fields.catalogNumber,
+            elementSetNo: fields.elementSetNumber,
+            revAtEpoch: fields.revolutionNumber,
+            bstar: fields.bstar,
+            meanMotionDot: fields.meanMotionDot,
+            meanMotionDdot: fields.meanMotionDdot,
+        },
+    };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import * as satellite from "satellite.js";
+import gpText from "../../assets/gp.txt?raw";
+import { ConjunctionScreener, type ConjunctionObject } from "./ConjunctionScreening";
+import { TLELoader } from "./TLELoader";
+import type { ConjunctionEvent } from "../types";
+
+const start = Date.UTC(2025, 9, 20);
+const end = start + 6 * 3600000;
+const threshold = 50;
+
+interface Approach {
+    primary: number;
+    secondary: number;
+    tca: number;
+    missDistance: number;
+}
+
+/**
+ * Every local minimum of the pair distances under the threshold: satellite.js states every 10 s for all pairs,
+ * each minimum refined to 1 ms by ternary search
+ */
+function bruteForceApproaches(objects: ConjunctionObject[]): Approach[] {
+    const satrecs = objects.map((object) => satellite.twoline2satrec(object.line1, object.line2));
+    const positionAt = (index: number, time: number) => {
+        const state = satellite.propagate(satrecs[index], new Date(time));
+        if (!state?.position) throw new Error("SGP4 failed");
+        return state.position;
+    };
+    const distance = (i: number, j: number, time: number) => {
+        const a = positionAt(i, time);
+        const b = positionAt(j, time);
+        return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+    };
+
+    const step = 10000;
+    const count = Math.floor((end - start) / step) + 1;
+    const sampled = satrecs.map((_, index) => {
+        const positions = new Float64Array(count * 3);
+        for (let k = 0; k < count; k++) {
+            const { x, y, z } = positionAt(index, start + k * step);
+            positions.set([x, y, z], k * 3);
+        }
+        return positions;
+    });
+    const sampledDistance = (i: number, j: number, k: number) =>
+        Math.hypot(sampled[i][k * 3] - sampled[j][k * 3], sampled[i][k * 3 + 1] - sampled[j][k * 3 + 1], sampled[i][k * 3 + 2] - sampled[j][k * 3 + 2]);
+
+    const approaches: Approach[] = [];
+    for (let i = 0; i < objects.length; i++) {
+        for (let j = i + 1; j < objects.length; j++) {
+            for (let k = 1; k < count - 1; k++) {
+                // Relative speeds reach ~15 km/s, so a sampled minimum can sit up to ~150 km above the true one
+                const d = sampledDistance(i, j, k);
+                if (d > threshold + 250 || d > sampledDistance(i, j, k - 1) || d > sampledDistance(i, j, k + 1)) continue;
+
+                let low = start + (k - 1) * step;
+                let high = start + (k + 1) * step;
+                while (high - low > 1) {
+                    const a = low + (high - low) / 3;
+                    const b = high - (high - low) / 3;
+                    if (distance(i, j, a) < distance(i, j, b)) {
+                        high = b;
+                    } else {
+                        low = a;
+                    }
+                }
+
+                const tca = (low + high) / 2;
+                const missDistance = distance(i, j, tca);
+                if (missDistance < threshold) {
+                    approaches.push({ primary: objects[i].id, secondary: objects[j].id, tca, missDistance });
+                }
+            }
+        }
+    }
+    return approaches;
+}
+
+describe("ConjunctionScreener", () => {
+    it("finds the same approaches, TCAs and miss distances as a brute-force search", () => {
+        const objects = TLELoader.parseTLEText(gpText)
+            .slice(0, 150)
+            .map((tle, id) => ({ id, line1: tle.line1, line2: tle.line2 }));
+
+        const screener = new ConjunctionScreener(objects, start, end, { threshold });
+        const events: ConjunctionEvent[] = [];
+        while (!screener.done) events.push(...screener.step(Infinity));
+
+        const expected = bruteForceApproaches(objects);
+        expect(expected.length).toBeGreaterThan(0);
+        expect(events).toHaveLength(expected.length);
+
+        for (const approach of expected) {
+            const event = events.find(
+                (e) =>
+                    Math.min(e.primary, e.secondary) === approach.primary &&
+                    Math.max(e.primary, e.secondary) === approach.secondary &&
+                    Math.abs(e.tca - approach.tca) < 100
+            );
+            expect(event, `approach of ${approach.primary} and ${approach.secondary}`).toBeDefined();
+            expect(event!.missDistance).toBeCloseTo(approach.missDistance, 3);
+        }
+    });
+});
@@ -0,0 +1,356 @@
+// Conjunction screening between TLE catalog objects
+// Apogee/perigee and orbit-path filters followed by a fine time-of-closest-approach search, run in time-budgeted slices
+
+import * as satellite from "satellite.js";
+import type { ConjunctionEvent, ConjunctionProgress, ConjunctionScreeningOptions, EntityId } from "../types";
+import { MU_EARTH, semiMajorAxisFromMeanMotion } from "./OrbitalMath";
+
+export interface ConjunctionObject {
+    id: EntityId;
+    line1: string;
+    line2: string;
+}
+
+// Orbit-path filter is re-evaluated at this spacing so J2 drift of the node and perigee is followed across long windows
+const PATH_FILTER_INTERVAL = 6 * 3600 * 1000;
+
+// Osculating speed exceeds the mean-element perigee speed slightly (short-period terms)
+const SPEED_MARGIN = 1.01;
+
+// Deadline is checked every this many propagations
+const BUDGET_CHECK_INTERVAL = 32;
+
+interface ScreenedObject {
+    id: EntityId;
+    satrec: satellite.SatRec;
+    epoch: number; // UTC Unix ms
+    a: number; // Semi-major axis (km)
+    e: number;
+    i: number; // rad
+    perigee: number; // Perigee radius (km)
+    apogee: number; // Apogee radius (km)
+    maxSpeed: number; // km/s
+}
+
+interface PairSearch {
+    primary: ScreenedObject;
+    secondary: ScreenedObject;
+    maxSpeed: number; // Bound on the relative speed (km/s)
+    time: number; // Next sample time
+    previousTime: number;
+    previousRangeRate: number;
+    previousFloored: boolean; // Previous step was not provably free of approaches under the threshold
+}
+
+/**
+ * Incremental conjunction screener over a fixed object set and time window
+ * Call step() repeatedly (each call spends at most about the given budget) until done
+ */
+export class ConjunctionScreener {
+    private objects: ScreenedObject[];
+    private start: number;
+    private end: number;
+    private threshold: number;
+    private filterPad: number;
+    private minStep: number;
+    private tolerance: number;
+
+    // Pair cursor over the perigee-sorted objects
+    private primaryIndex = 0;
+    private secondaryIndex = 1;
+    private search: PairSearch | null = null;
+
+    private apsisPairs = 0;
+    private pathPairs = 0;
+    private conjunctions = 0;
+    private finished = false;
+
+    // Scratch relative state [x, y, z, vx, vy, vz] plus both positions
+    private relative = new Float64Array(12);
+
+    /** Objects whose TLE could not be initialized */
+    readonly rejected: EntityId[] = [];
+
+    constructor(objects: ConjunctionObject[], start: number, end: number, options: ConjunctionScreeningOptions = {}) {
+        this.start = start;
+        this.end = end;
+        this.threshold = options.threshold ?? 5;
+        this.filterPad = options.filterPad ?? 10;
+        this.minStep = options.minStep ?? 1000;
+        this.tolerance = options.tolerance ?? 1;
+
+        this.objects = [];
+        for (const object of objects) {
+            const screened = prepareObject(object);
+            if (screened) {
+                this.objects.push(screened);
+            } else {
+                this.rejected.push(object.id);
+            }
+        }
+
+        // Sorting by perigee lets the apogee/perigee filter stop at the first object that starts too high
+        this.objects.sort((a, b) => a.perigee - b.perigee);
+        this.finished = this.objects.length < 2 || end <= start;
+    }
+
+    get done(): boolean {
+        return this.finished;
+    }
+
+    getProgress(): ConjunctionProgress {
+        return {
+            objects: this.objects.length,
+            screenedObjects: this.finished ? this.objects.length : this.primaryIndex,
+            apsisPairs: this.apsisPairs,
+            pathPairs: this.pathPairs,
+            conjunctions: this.conjunctions,
+            done: this.finished,
+        };
+    }
+
+    /**
+     * Screen for up to budget milliseconds
+     * @returns Conjunctions found during this slice
+     */
+    step(budget: number): ConjunctionEvent[] {
+        const deadline = performance.now() + budget;
+        const found: ConjunctionEvent[] = [];
+
+        while (!this.finished) {
+            if (!this.search && !this.nextCandidate()) {
+                this.finished = true;
+                break;
+            }
+
+            if (this.searchPair(this.search!, found, deadline)) {
+                this.search = null;
+            }
+
+            if (performance.now() >= deadline) break;
+        }
+
+        return found;
+    }
+
+    /**
+     * Advance the pair cursor to the next pair that passes both filters
+     * @returns false when all pairs have been visited
+     */
+    private nextCandidate(): boolean {
+        const objects = this.objects;
+        const reach = this.threshold + this.filterPad;
+
+        while (this.primaryIndex < objects.length - 1) {
+            const primary = objects[this.primaryIndex];
+
+            // Apogee/perigee filter: radial shells must overlap within the threshold
+            if (this.secondaryIndex < objects.length && objects[this.secondaryIndex].perigee - primary.apogee <= reach) {
+                const secondary = objects[this.secondaryIndex++];
+                this.apsisPairs++;
+
+                if (this.passesPathFilter(primary, secondary)) {
+                    this.pathPairs++;
+                    this.search = {
+                        primary,
+                        secondary,
+                        maxSpeed: primary.maxSpeed + secondary.maxSpeed,
+                        time: this.start,
+                        previousTime: this.start,
+                        previousRangeRate: 0,
+                        previousFloored: false,
+                    };
+                    return true;
+                }
+                continue;
+            }
+
+            this.primaryIndex++;
+            this.secondaryIndex = this.primaryIndex + 1;
+        }
+
+        return false;
+    }
+
+    /**
+     * Orbit-path filter: the orbits can only come within the threshold near their mutual line of nodes,
+     * so compare the two radii where each orbit crosses the other's plane
+     */
+    private passesPathFilter(primary: ScreenedObject, secondary: ScreenedObject): boolean {
+        const reach = this.threshold + this.filterPad;
+        const samples = Math.max(1, Math.ceil((this.end - this.start) / PATH_FILTER_INTERVAL));
+
+        for (let k = 0; k <= samples; k++) {
+            const time = this.start + ((this.end - this.start) * k) / samples;
+            const a = orbitGeometry(primary, time);
+            const b = orbitGeometry(secondary, time);
+
+            // Mutual line of nodes
+            const kx = a.h[1] * b.h[2] - a.h[2] * b.h[1];
+            const ky = a.h[2] * b.h[0] - a.h[0] * b.h[2];
+            const kz = a.h[0] * b.h[1] - a.h[1] * b.h[0];
+            const sinRelative = Math.hypot(kx, ky, kz);
+
+            // Within reach of the nodes the radii can differ from their nodal values by up to a·e per radian of arc;
+            // nearly coplanar orbits get a half-orbit arc and effectively bypass the filter
+            const arc = sinRelative > 0 ? Math.min(Math.PI, reach / (Math.min(primary.perigee, secondary.perigee) * sinRelative)) : Math.PI;
+            const margin = reach + (primary.a * primary.e + secondary.a * secondary.e) * arc;
+
+            const nodeA = Math.atan2(kx * a.q[0] + ky * a.q[1] + kz * a.q[2], kx * a.p[0] + ky * a.p[1] + kz * a.p[2]);
+            const nodeB = Math.atan2(kx * b.q[0] + ky * b.q[1] + kz * b.q[2], kx * b.p[0] + ky * b.p[1] + kz * b.p[2]);
+
+            const ascending = Math.abs(orbitRadius(primary, nodeA) - orbitRadius(secondary, nodeB));
+            const descending = Math.abs(orbitRadius(primary, nodeA + Math.PI) - orbitRadius(secondary, nodeB + Math.PI));
+            if (ascending <= margin || descending <= margin) return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Fine search over the window: the step is the time the pair needs to close from its current range to the
+     * threshold at the bounded relative speed, so no approach under the threshold is skipped
+     * @returns true when the pair is finished, false when the deadline interrupted it
+     */
+    private searchPair(search: PairSearch, found: ConjunctionEvent[], deadline: number): boolean {
+        let count = 0;
+
+        while (true) {
+            if (++count % BUDGET_CHECK_INTERVAL === 0 && performance.now() >= deadline) return false;
+
+            // Decayed or failed propagation ends the pair
+            if (!this.relativeState(search.primary, search.secondary, search.time)) return true;
+
+            const r = this.relative;
+            const range = Math.hypot(r[0], r[1], r[2]);
+            const rangeRate = (r[0] * r[3] + r[1] * r[4] + r[2] * r[5]) / range;
+
+            // A minimum under the threshold can only hide inside a step that was not provably clear
+            if (search.previousFloored && search.previousRangeRate < 0 && rangeRate >= 0) {
+                const event = this.refineApproach(search, search.previousTime, search.time);
+                if (event) {
+                    found.push(event);
+                    this.conjunctions++;
+                }
+            }
+
+            if (search.time >= this.end) return true;
+
+            const clearStep = ((range - this.threshold) / search.maxSpeed) * 1000;
+            search.previousFloored = clearStep < this.minStep;
+            search.previousTime = search.time;
+            search.previousRangeRate = rangeRate;
+            search.time = Math.min(this.end, search.time + Math.max(clearStep, this.minStep));
+        }
+    }
+
+    /**
+     * Bisect on the range rate between two samples to find TCA
+     */
+    private refineApproach(search: PairSearch, low: number, high: number): ConjunctionEvent | null {
+        const r = this.relative;
+
+        while (high - low > this.tolerance) {
+            const mid = (low + high) / 2;
+            if (!this.relativeState(search.primary, search.secondary, mid)) return null;
+            if (r[0] * r[3] + r[1] * r[4] + r[2] * r[5] < 0) {
+                low = mid;
+            } else {
+                high = mid;
+            }
+        }
+
+        const tca = (low + high) / 2;
+        if (!this.relativeState(search.primary, search.secondary, tca)) return null;
+
+        const missDistance = Math.hypot(r[0], r[1], r[2]);
+        if (missDistance > this.threshold) return null;
+
+        return {
+            primary: search.primary.id,
+            secondary: search.secondary.id,
+            tca,
+            missDistance,
+            relativeSpeed: Math.hypot(r[3], r[4], r[5]),
+            relativeVelocity: { vx: r[3], vy: r[4], vz: r[5] },
+            primaryPosition: { x: r[6], y: r[7], z: r[8] },
+            secondaryPosition: { x: r[9], y: r[10], z: r[11] },
+        };
+    }
+
+    /**
+     * Secondary relative to primary (TEME) into the scratch buffer
+     */
+    private relativeState(primary: ScreenedObject, secondary: ScreenedObject, time: number): boolean {
+        const a = satellite.sgp4(primary.satrec, (time - primary.epoch) / 60000);
+        const b = satellite.sgp4(secondary.satrec, (time - secondary.epoch) / 60000);
+        if (!a || !b || typeof a.position !== "object" || typeof b.position !== "object") return false;
+
+        const r = this.relative;
+        r[0] = b.position.x - a.position.x;
+        r[1] = b.position.y - a.position.y;
+        r[2] = b.position.z - a.position.z;
+        r[3] = b.velocity.x - a.velocity.x;
+        r[4] = b.velocity.y - a.velocity.y;
+        r[5] = b.velocity.z - a.velocity.z;
+        r[6] = a.position.x;
+        r[7] = a.position.y;
+        r[8] = a.position.z;
+        r[9] = b.position.x;
+        r[10] = b.position.y;
+        r[11] = b.position.z;
+        return !isNaN(r[0] + r[1] + r[2]);
+    }
+}
+
+function prepareObject(object: ConjunctionObject): ScreenedObject | null {
+    let satrec: satellite.SatRec;
+    try {
+        satrec = satellite.twoline2satrec(object.line1, object.line2);
+    } catch {
+        return null;
+    }
+    if (satrec.error !== 0 || !(satrec.no > 0)) return null;
+
+    const a = semiMajorAxisFromMeanMotion(satrec.no);
+    const e = satrec.ecco;
+    const perigee = a * (1 - e);
+
+    return {
+        id: object.id,
+        satrec,
+        epoch: (satrec.jdsatepoch - 2440587.5) * 86400000,
+        a,
+        e,
+        i: satrec.inclo,
+        perigee,
+        apogee: a * (1 + e),
+        maxSpeed: Math.sqrt(MU_EARTH * (2 / perigee - 1 / a)) * SPEED_MARGIN,
+    };
+}
+
+/**
+ * Orbit normal and perifocal axes at a time, with secular J2 drift of the node and argument of perigee
+ */
+function orbitGeometry(object: ScreenedObject, time: number): { h: number[]; p: number[]; q: number[] } {
+    const minutes = (time - object.epoch) / 60000;
+    const node = object.satrec.nodeo + object.satrec.nodedot * minutes;
+    const perigee = object.satrec.argpo + object.satrec.argpdot * minutes;
+
+    const cosO = Math.cos(node);
+    const sinO = Math.sin(node);
+    const cosW = Math.cos(perigee);
+    const sinW = Math.sin(perigee);
+    const cosI = Math.cos(object.i);
+    const sinI = Math.sin(object.i);
+
+    return {
+        h: [sinI * sinO, -sinI * cosO, cosI],
+        p: [cosO * cosW - sinO * sinW * cosI, sinO * cosW + cosO * sinW * cosI, sinW * sinI],
+        q: [-cosO * sinW - sinO * cosW * cosI, -sinO * sinW + cosO * cosW * cosI, cosW * sinI],
+    };
+}
+
+function orbitRadius(object: ScreenedObject, trueAnomaly: number): number {
+    return (object.a * (1 - object.e * object.e)) / (1 + object.e * Math.cos(trueAnomaly));
+}
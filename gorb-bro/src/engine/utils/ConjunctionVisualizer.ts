@@ -0,0 +1,114 @@
+// Conjunction visualization utilities
+// Draws a line between the two objects of each conjunction at their TCA positions, with end-point markers
+
+import * as THREE from "three";
+import type { ConjunctionEvent, IFrameConversionService } from "../types";
+import { ReferenceFrame } from "../types";
+
+export interface ConjunctionVisualizerOptions {
+    nearColor?: number; // Color at zero miss distance
+    farColor?: number; // Color at the largest miss distance shown
+    opacity?: number;
+    markerSize?: number; // End-point marker size in pixels
+}
+
+export class ConjunctionVisualizer {
+    private options: Required<ConjunctionVisualizerOptions>;
+    private lines: THREE.LineSegments | null = null;
+    private markers: THREE.Points | null = null;
+    private scene: THREE.Scene | null = null;
+
+    constructor(options: ConjunctionVisualizerOptions = {}) {
+        this.options = {
+            nearColor: options.nearColor ?? 0xff2020,
+            farColor: options.farColor ?? 0xffd020,
+            opacity: options.opacity ?? 0.9,
+            markerSize: options.markerSize ?? 6,
+        };
+    }
+
+    /**
+     * Show events in a single draw call for the lines and one for the markers
+     * The TEME positions are placed in render space (axes and scale) at each event's TCA
+     */
+    showConjunctions(events: ConjunctionEvent[], scene: THREE.Scene, frameService: IFrameConversionService): void {
+        this.scene = scene;
+
+        // Remove existing lines if any
+        this.removeConjunctions();
+
+        if (events.length === 0) return;
+
+        const positions = new Float32Array(events.length * 6);
+        const colors = new Float32Array(events.length * 6);
+        const near = new THREE.Color(this.options.nearColor);
+        const far = new THREE.Color(this.options.farColor);
+        const color = new THREE.Color();
+        // A loop rather than Math.max(...): screening results can exceed the argument limit
+        let maxMiss = 0;
+        for (const event of events) {
+            if (event.missDistance > maxMiss) maxMiss = event.missDistance;
+        }
+        if (maxMiss === 0) maxMiss = 1;
+
+        events.forEach((event, i) => {
+            const a = frameService.convert(event.primaryPosition, ReferenceFrame.TEME, ReferenceFrame.RENDER, event.tca);
+            const b = frameService.convert(event.secondaryPosition, ReferenceFrame.TEME, ReferenceFrame.RENDER, event.tca);
+            positions.set([a.x, a.y, a.z, b.x, b.y, b.z], i * 6);
+
+            color.lerpColors(near, far, event.missDistance / maxMiss);
+            colors.set([color.r, color.g, color.b, color.r, color.g, color.b], i * 6);
+        });
+
+        // Lines and markers share one geometry
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+        geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+
+        this.lines = new THREE.LineSegments(
+            geometry,
+            new THREE.LineBasicMaterial({ vertexColors: true, transparent: true, opacity: this.options.opacity })
+        );
+
+        // Miss distances are a few km, so fixed-size markers keep the pairs findable at any zoom
+        this.markers = new THREE.Points(
+            geometry,
+            new THREE.PointsMaterial({
+                vertexColors: true,
+                transparent: true,
+                opacity: this.options.opacity,
+                size: this.options.markerSize,
+                sizeAttenuation: false,
+            })
+        );
+
+        scene.add(this.lines);
+        scene.add(this.markers);
+    }
+
+    /**
+     * Remove conjunction lines from scene
+     */
+    removeConjunctions(): void {
+        if (this.lines && this.markers && this.scene) {
+            this.scene.remove(this.lines);
+            this.scene.remove(this.markers);
+            this.lines.geometry.dispose();
+            (this.lines.material as THREE.Material).dispose();
+            (this.markers.material as THREE.Material).dispose();
+        }
+        this.lines = null;
+        this.markers = null;
+    }
+
+    /**
+     * Update line and marker opacity
+     */
+    setOpacity(opacity: number): void {
+        this.options.opacity = opacity;
+        if (this.lines && this.markers) {
+            (this.lines.material as THREE.Material).opacity = opacity;
+            (this.markers.material as THREE.Material).opacity = opacity;
+        }
+    }
+}
@@ -0,0 +1,122 @@
+// Entity state sampling for analysis (access, passes, conjunctions)
+// Evaluates an entity's trajectory at arbitrary times without touching its real-time propagator
+
+import type { EntityId, HierarchyComponent, IComponentRegistry, IFrameConversionService, IPropagator, OrbitalData, OrbitalElementsComponent, PositionComponent, PropagatorComponent } from "../types";
+import { ComponentType, ReferenceFrame } from "../types";
+import { SGP4Propagator } from "../propagators/SGP4Propagator";
+
+export interface SampledState {
+    position: { x: number; y: number; z: number }; // km
+    velocity: { vx: number; vy: number; vz: number } | null; // km/s (null for entities without a propagator)
+}
+
+const SWEEP_MIN_SIZE = 256;
+
+export class EntityStateSampler {
+    private registry: IComponentRegistry;
+    private frameService: IFrameConversionService;
+
+    // TLE entities get their own SGP4 instance: the render propagators (e.g. hybrid K2/SGP4) keep
+    // step-to-step state and lose accuracy when queried out of order
+    private sgp4Cache: Map<EntityId, { data: OrbitalData; propagator: SGP4Propagator }> = new Map();
+    private sweepSize: number = SWEEP_MIN_SIZE; // Cache size at which destroyed entities are next evicted
+
+    constructor(registry: IComponentRegistry, frameService: IFrameConversionService) {
+        this.registry = registry;
+        this.frameService = frameService;
+    }
+
+    /**
+     * Entity state at a time in the requested frame
+     * Entities without a propagator use their current position component; child entities take their
+     * root ancestor's state (attachment offsets are body-scale and ignored here)
+     * @returns null when the entity cannot be positioned at the time
+     */
+    getState(entity: EntityId, time: number, frame: ReferenceFrame): SampledState | null {
+        const root = this.getRoot(entity);
+        if (root === null) return null;
+        entity = root;
+
+        const propagator = this.registry.getComponent<PropagatorComponent>(entity, ComponentType.PROPAGATOR);
+        const elements = this.registry.getComponent<OrbitalElementsComponent>(entity, ComponentType.ORBITAL_ELEMENTS);
+
+        if (!propagator || !elements) {
+            const position = this.registry.getComponent<PositionComponent>(entity, ComponentType.POSITION);
+            if (!position || position.frame === ReferenceFrame.RENDER) return null;
+            return { position: this.frameService.convert(position, position.frame, frame, time), velocity: null };
+        }
+
+        try {
+            const state = this.getPropagator(entity, propagator.propagator, elements.data).propagate(elements.data, time);
+            if (isNaN(state.position.x) || isNaN(state.position.y) || isNaN(state.position.z)) return null;
+
+            return {
+                position: this.frameService.convert(state.position, state.frame, frame, time),
+                velocity: this.frameService.convertVelocity(state.velocity, state.position, state.frame, frame, time),
+            };
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Entity position at a time in the requested frame (km)
+     */
+    getPosition(entity: EntityId, time: number, frame: ReferenceFrame): { x: number; y: number; z: number } | null {
+        return this.getState(entity, time, frame)?.position ?? null;
+    }
+
+    /**
+     * Drop cached propagators (all, or one entity's)
+     */
+    clear(entity?: EntityId): void {
+        if (entity === undefined) {
+            this.sgp4Cache.clear();
+        } else {
+            this.sgp4Cache.delete(entity);
+        }
+    }
+
+    /**
+     * Top of an entity's parent chain, or null for a parent cycle
+     */
+    private getRoot(entity: EntityId): EntityId | null {
+        let hierarchy = this.registry.getComponent<HierarchyComponent>(entity, ComponentType.HIERARCHY);
+        if (!hierarchy) return entity;
+
+        const visited = new Set<EntityId>();
+        while (hierarchy) {
+            if (visited.has(entity)) return null;
+            visited.add(entity);
+            entity = hierarchy.parent;
+            hierarchy = this.registry.getComponent<HierarchyComponent>(entity, ComponentType.HIERARCHY);
+        }
+        return entity;
+    }
+
+    private getPropagator(entity: EntityId, propagator: IPropagator, data: OrbitalData): IPropagator {
+        if (propagator instanceof SGP4Propagator || !("line1" in data && "line2" in data)) {
+            return propagator;
+        }
+
+        let cached = this.sgp4Cache.get(entity);
+        if (!cached || cached.data !== data) {
+            if (!cached && this.sgp4Cache.size >= this.sweepSize) this.evictStale();
+            cached = { data, propagator: new SGP4Propagator(data) };
+            this.sgp4Cache.set(entity, cached);
+        }
+        return cached.propagator;
+    }
+
+    /**
+     * Drop propagators of destroyed entities (or replaced orbits) so long sessions do not leak;
+     * runs when the cache has doubled since the last sweep, so the cost is amortized
+     */
+    private evictStale(): void {
+        for (const [entity, cached] of this.sgp4Cache) {
+            const elements = this.registry.getComponent<OrbitalElementsComponent>(entity, ComponentType.ORBITAL_ELEMENTS);
+            if (elements?.data !== cached.data) this.sgp4Cache.delete(entity);
+        }
+        this.sweepSize = Math.max(SWEEP_MIN_SIZE, this.sgp4Cache.size * 2);
+    }
+}
@@ -0,0 +1,140 @@
+// Analytic Sun and Moon ephemerides (Astronomical Almanac low-precision series, as given by Vallado)
+// Accuracy is ~0.01 deg for the Sun and ~0.3 deg for the Moon, plenty for lighting and shadow geometry
+
+import * as THREE from "three";
+import { degreesToRadians } from "./OrbitalMath";
+import { julianCenturies, precessionMatrix, WGS84_A } from "./ReferenceFrames";
+
+/**
+ * Astronomical unit in km
+ */
+export const AU = 149597870.7;
+
+/**
+ * Mean radius of the Sun in km
+ */
+export const SUN_RADIUS = 695700;
+
+/**
+ * Mean radius of the Moon in km
+ */
+export const MOON_RADIUS = 1737.4;
+
+const tempVector = new THREE.Vector3();
+
+/**
+ * Rotate a mean-of-date vector into J2000
+ */
+function meanOfDateToJ2000(x: number, y: number, z: number, tTT: number): { x: number; y: number; z: number } {
+    tempVector.set(x, y, z).applyMatrix3(precessionMatrix(tTT));
+    return { x: tempVector.x, y: tempVector.y, z: tempVector.z };
+}
+
+/**
+ * Geocentric Sun position in the J2000 (ECI) frame
+ * @param jdTT Julian Date on the TT scale
+ * @returns Position in km
+ */
+export function sunPositionECI(jdTT: number): { x: number; y: number; z: number } {
+    const t = julianCenturies(jdTT);
+
+    const meanLongitude = 280.46 + 36000.771 * t;
+    const meanAnomaly = degreesToRadians(357.5291092 + 35999.05034 * t);
+    const eclipticLongitude = degreesToRadians(
+        meanLongitude + 1.914666471 * Math.sin(meanAnomaly) + 0.019994643 * Math.sin(2 * meanAnomaly)
+    );
+    const obliquity = degreesToRadians(23.439291 - 0.0130042 * t);
+
+    const distance = (1.000140612 - 0.016708617 * Math.cos(meanAnomaly) - 0.000139589 * Math.cos(2 * meanAnomaly)) * AU;
+
+    return meanOfDateToJ2000(
+        distance * Math.cos(eclipticLongitude),
+        distance * Math.cos(obliquity) * Math.sin(eclipticLongitude),
+        distance * Math.sin(obliquity) * Math.sin(eclipticLongitude),
+        t
+    );
+}
+
+/**
+ * Geocentric Moon position in the J2000 (ECI) frame
+ * @param jdTT Julian Date on the TT scale
+ * @returns Position in km
+ */
+export function moonPositionECI(jdTT: number): { x: number; y: number; z: number } {
+    const t = julianCenturies(jdTT);
+    const sinDeg = (deg: number) => Math.sin(degreesToRadians(deg));
+    const cosDeg = (deg: number) => Math.cos(degreesToRadians(deg));
+
+    const eclipticLongitude = degreesToRadians(
+        218.32 +
+            481267.8813 * t +
+            6.29 * sinDeg(134.9 + 477198.85 * t) -
+            1.27 * sinDeg(259.2 - 413335.38 * t) +
+            0.66 * sinDeg(235.7 + 890534.23 * t) +
+            0.21 * sinDeg(269.9 + 954397.7 * t) -
+            0.19 * sinDeg(357.5 + 35999.05 * t) -
+            0.11 * sinDeg(186.6 + 966404.05 * t)
+    );
+
+    const eclipticLatitude = degreesToRadians(
+        5.13 * sinDeg(93.3 + 483202.03 * t) +
+            0.28 * sinDeg(228.2 + 960400.87 * t) -
+            0.28 * sinDeg(318.3 + 6003.18 * t) -
+            0.17 * sinDeg(217.6 - 407332.2 * t)
+    );
+
+    const horizontalParallax = degreesToRadians(
+        0.9508 +
+            0.0518 * cosDeg(134.9 + 477198.85 * t) +
+            0.0095 * cosDeg(259.2 - 413335.38 * t) +
+            0.0078 * cosDeg(235.7 + 890534.23 * t) +
+            0.0028 * cosDeg(269.9 + 954397.7 * t)
+    );
+
+    const obliquity = degreesToRadians(23.439291 - 0.0130042 * t);
+    const distance = WGS84_A / Math.sin(horizontalParallax);
+
+    const cosLat = Math.cos(eclipticLatitude);
+    const sinLat = Math.sin(eclipticLatitude);
+    const cosLon = Math.cos(eclipticLongitude);
+    const sinLon = Math.sin(eclipticLongitude);
+
+    return meanOfDateToJ2000(
+        distance * cosLat * cosLon,
+        distance * (Math.cos(obliquity) * cosLat * sinLon - Math.sin(obliquity) * sinLat),
+        distance * (Math.sin(obliquity) * cosLat * sinLon + Math.cos(obliquity) * sinLat),
+        t
+    );
+}
+
+/**
+ * Fraction of the solar disk visible from a position, using a conical Earth shadow
+ * (Montenbruck & Gill, section 3.4.2)
+ * @param position Observer position in km (geocentric, any inertial frame)
+ * @param sunPosition Geocentric Sun position in km (same frame)
+ * @returns 0 in umbra, 1 in full sunlight, in between in penumbra
+ */
+export function sunlightFraction(position: { x: number; y: number; z: number }, sunPosition: { x: number; y: number; z: number }): number {
+    const dx = sunPosition.x - position.x;
+    const dy = sunPosition.y - position.y;
+    const dz = sunPosition.z - position.z;
+    const sunDistance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    const r = Math.sqrt(position.x * position.x + position.y * position.y + position.z * position.z);
+
+    // Apparent radii of the Sun and Earth, and their apparent separation
+    const a = Math.asin(Math.min(1, SUN_RADIUS / sunDistance));
+    const b = Math.asin(Math.min(1, WGS84_A / r));
+    const cosC = -(position.x * dx + position.y * dy + position.z * dz) / (r * sunDistance);
+    const c = Math.acos(Math.max(-1, Math.min(1, cosC)));
+
+    if (c >= a + b) return 1;
+    if (c <= b - a) return 0;
+    if (c <= a - b) return 1 - (b * b) / (a * a);
+
+    // Partial occultation: overlap area of two circles
+    const x = (c * c + a * a - b * b) / (2 * c);
+    const y = Math.sqrt(Math.max(0, a * a - x * x));
+    const overlap = a * a * Math.acos(Math.max(-1, Math.min(1, x / a))) + b * b * Math.acos(Math.max(-1, Math.min(1, (c - x) / b))) - c * y;
+
+    return 1 - overlap / (Math.PI * a * a);
+}
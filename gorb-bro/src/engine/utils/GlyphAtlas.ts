@@ -0,0 +1,396 @@
+// Glyph atlases for label text: runtime SDF glyphs rendered from a canvas font, or pre-generated MSDF fonts
+// Distance fields encode the glyph edge at 0.5, so text stays sharp at any pixel size
+
+import * as THREE from "three";
+
+/**
+ * Glyph quad and metrics, in pixels at the atlas font size
+ */
+export interface Glyph {
+    left: number; // Pen position to quad left edge
+    top: number; // Baseline to quad top edge (up is positive)
+    width: number;
+    height: number;
+    advance: number;
+    u0: number;
+    v0: number; // Bottom edge
+    u1: number;
+    v1: number; // Top edge
+}
+
+export interface FontAtlas {
+    readonly texture: THREE.Texture;
+    readonly msdf: boolean; // Multi-channel field (median of RGB) instead of a single alpha channel
+    readonly fontSize: number; // Em size the glyph metrics are measured at
+    readonly lineHeight: number;
+    readonly distanceRange: number; // Atlas pixels spanned by the 0..1 field range
+    getGlyph(char: string): Glyph | undefined;
+    dispose(): void;
+}
+
+export interface SDFGlyphAtlasOptions {
+    /**
+     * Canvas font family
+     * Default: "sans-serif"
+     */
+    fontFamily?: string;
+
+    /**
+     * Canvas font weight
+     * Default: "normal"
+     */
+    fontWeight?: string;
+
+    /**
+     * Em size glyphs are rasterized at, in pixels
+     * Default: 32
+     */
+    fontSize?: number;
+
+    /**
+     * Distance field radius in pixels (also the padding around each glyph)
+     * Default: 8
+     */
+    radius?: number;
+
+    /**
+     * Atlas width and height in pixels
+     * Default: 1024
+     */
+    size?: number;
+}
+
+/**
+ * Single-channel SDF atlas filled lazily from a canvas font, so any character the labels use is available
+ */
+export class SDFGlyphAtlas implements FontAtlas {
+    readonly texture: THREE.CanvasTexture;
+    readonly msdf = false;
+    readonly fontSize: number;
+    readonly lineHeight: number;
+    readonly distanceRange: number;
+    private radius: number;
+    private canvas: HTMLCanvasElement;
+    private context: CanvasRenderingContext2D;
+    private glyphCanvas: HTMLCanvasElement;
+    private glyphContext: CanvasRenderingContext2D;
+    private glyphs: Map<string, Glyph> = new Map();
+    private missing: Set<string> = new Set(); // Characters that did not fit
+    private shelfX: number = 0;
+    private shelfY: number = 0;
+    private shelfHeight: number = 0;
+
+    constructor(options: SDFGlyphAtlasOptions = {}) {
+        this.fontSize = options.fontSize ?? 32;
+        this.radius = options.radius ?? 8;
+        this.distanceRange = this.radius * 2;
+        this.lineHeight = Math.ceil(this.fontSize * 1.2);
+
+        const size = options.size ?? 1024;
+        this.canvas = document.createElement("canvas");
+        this.canvas.width = this.canvas.height = size;
+        this.context = this.canvas.getContext("2d")!;
+
+        // Scratch canvas large enough for any glyph plus its field padding
+        this.glyphCanvas = document.createElement("canvas");
+        this.glyphCanvas.width = this.glyphCanvas.height = Math.ceil(this.fontSize * 2 + this.radius * 2);
+        this.glyphContext = this.glyphCanvas.getContext("2d", { willReadFrequently: true })!;
+        this.glyphContext.font = `${options.fontWeight ?? "normal"} ${this.fontSize}px ${options.fontFamily ?? "sans-serif"}`;
+        this.glyphContext.textBaseline = "alphabetic";
+        this.glyphContext.textAlign = "left";
+        this.glyphContext.fillStyle = "#000000";
+
+        // Distance fields interpolate well but mipmaps bleed neighbouring glyphs
+        this.texture = new THREE.CanvasTexture(this.canvas);
+        this.texture.generateMipmaps = false;
+        this.texture.minFilter = THREE.LinearFilter;
+        this.texture.magFilter = THREE.LinearFilter;
+    }
+
+    getGlyph(char: string): Glyph | undefined {
+        const glyph = this.glyphs.get(char);
+        if (glyph || this.missing.has(char)) return glyph;
+        return this.addGlyph(char);
+    }
+
+    private addGlyph(char: string): Glyph | undefined {
+        const context = this.glyphContext;
+        const metrics = context.measureText(char);
+        const pad = this.radius;
+        const limit = this.glyphCanvas.width - pad * 2;
+
+        // Tight ink box around the pen position (whitespace has none)
+        const ascent = Math.min(Math.ceil(metrics.actualBoundingBoxAscent), limit);
+        const descent = Math.min(Math.ceil(metrics.actualBoundingBoxDescent), limit - ascent);
+        const leftBearing = Math.min(Math.ceil(metrics.actualBoundingBoxLeft), limit);
+        const inkWidth = Math.min(Math.ceil(metrics.actualBoundingBoxRight) + leftBearing, limit);
+        const inkHeight = ascent + descent;
+
+        if (inkWidth <= 0 || inkHeight <= 0) {
+            const blank: Glyph = { left: 0, top: 0, width: 0, height: 0, advance: metrics.width, u0: 0, v0: 0, u1: 0, v1: 0 };
+            this.glyphs.set(char, blank);
+            return blank;
+        }
+
+        const width = inkWidth + pad * 2;
+        const height = inkHeight + pad * 2;
+        const atlasSize = this.canvas.width;
+
+        // Shelf packing: fill rows left to right, start a new row when one is full
+        if (this.shelfX + width > atlasSize) {
+            this.shelfX = 0;
+            this.shelfY += this.shelfHeight;
+            this.shelfHeight = 0;
+        }
+        if (this.shelfY + height > atlasSize) {
+            console.warn(`[SDFGlyphAtlas] ⚠️ Atlas is full, "${char}" will not be drawn`);
+            this.missing.add(char);
+            return undefined;
+        }
+
+        context.clearRect(0, 0, width, height);
+        context.fillText(char, pad + leftBearing, pad + ascent);
+        const alpha = context.getImageData(0, 0, width, height).data;
+
+        const coverage = new Uint8ClampedArray(width * height);
+        for (let i = 0; i < coverage.length; i++) coverage[i] = alpha[i * 4 + 3];
+        const field = computeSDF(coverage, width, height, this.radius);
+
+        // White texels with the field in alpha
+        const image = this.context.createImageData(width, height);
+        for (let i = 0; i < field.length; i++) {
+            image.data[i * 4] = image.data[i * 4 + 1] = image.data[i * 4 + 2] = 255;
+            image.data[i * 4 + 3] = field[i];
+        }
+
+        const x = this.shelfX;
+        const y = this.shelfY;
+        this.context.putImageData(image, x, y);
+        this.texture.needsUpdate = true;
+
+        this.shelfX += width;
+        this.shelfHeight = Math.max(this.shelfHeight, height);
+
+        const glyph: Glyph = {
+            left: -leftBearing - pad,
+            top: ascent + pad,
+            width,
+            height,
+            advance: metrics.width,
+            ...atlasUv(x, y, width, height, atlasSize, atlasSize),
+        };
+        this.glyphs.set(char, glyph);
+        return glyph;
+    }
+
+    dispose(): void {
+        this.texture.dispose();
+        this.glyphs.clear();
+        this.missing.clear();
+    }
+}
+
+/**
+ * BMFont JSON as written by msdf-bmfont-xml and msdf-atlas-gen (single page)
+ */
+export interface BMFontData {
+    info: { size: number };
+    common: { lineHeight: number; base: number; scaleW: number; scaleH: number };
+    distanceField?: { fieldType: string; distanceRange: number };
+    chars: Array<{ id: number; x: number; y: number; width: number; height: number; xoffset: number; yoffset: number; xadvance: number }>;
+}
+
+/**
+ * Pre-generated MSDF font: corners stay sharp at large sizes, but only the characters in the font file exist
+ */
+export class MSDFFontAtlas implements FontAtlas {
+    readonly texture: THREE.Texture;
+    readonly msdf: boolean;
+    readonly fontSize: number;
+    readonly lineHeight: number;
+    readonly distanceRange: number;
+    private glyphs: Map<string, Glyph> = new Map();
+
+    constructor(font: BMFontData, texture: THREE.Texture) {
+        this.texture = texture;
+        this.texture.generateMipmaps = false;
+        this.texture.minFilter = THREE.LinearFilter;
+        this.texture.magFilter = THREE.LinearFilter;
+        this.msdf = font.distanceField?.fieldType !== "sdf";
+        this.fontSize = font.info.size;
+        this.lineHeight = font.common.lineHeight;
+        this.distanceRange = font.distanceField?.distanceRange ?? 4;
+
+        const { base, scaleW, scaleH } = font.common;
+        for (const char of font.chars) {
+            this.glyphs.set(String.fromCodePoint(char.id), {
+                left: char.xoffset,
+                top: base - char.yoffset,
+                width: char.width,
+                height: char.height,
+                advance: char.xadvance,
+                ...atlasUv(char.x, char.y, char.width, char.height, scaleW, scaleH),
+            });
+        }
+    }
+
+    /**
+     * Load a BMFont JSON file and its page texture
+     * @param textureUrl Defaults to the first page named in the JSON, relative to the JSON URL
+     */
+    static async load(jsonUrl: string, textureUrl?: string): Promise<MSDFFontAtlas> {
+        const response = await fetch(jsonUrl);
+        if (!response.ok) {
+            throw new Error(`Failed to load font ${jsonUrl}: ${response.status} ${response.statusText}`);
+        }
+        const font = (await response.json()) as BMFontData & { pages?: string[] };
+
+        const page = textureUrl ?? new URL(font.pages?.[0] ?? "", new URL(jsonUrl, location.href)).href;
+        const texture = await new THREE.TextureLoader().loadAsync(page);
+        return new MSDFFontAtlas(font, texture);
+    }
+
+    getGlyph(char: string): Glyph | undefined {
+        return this.glyphs.get(char) ?? this.glyphs.get("?");
+    }
+
+    dispose(): void {
+        this.texture.dispose();
+        this.glyphs.clear();
+    }
+}
+
+/**
+ * Glyph quads for a line of text, scaled to a pixel size
+ */
+export interface TextLayout {
+    quads: Float32Array; // Per glyph: x, y, width, height (pixels from the bottom-left of the line box, y up), u0, v0, u1, v1
+    glyphCount: number;
+    width: number;
+    height: number;
+}
+
+export const TEXT_QUAD_STRIDE = 8;
+
+const FAR = 1e20; // Squared distance standing in for "no such pixel" (Infinity would give Infinity - Infinity)
+
+/**
+ * Lay out a single line of text; characters the atlas lacks are skipped
+ */
+export function layoutText(atlas: FontAtlas, text: string, fontSize: number): TextLayout {
+    const scale = fontSize / atlas.fontSize;
+    const height = atlas.lineHeight * scale;
+    // Baseline sits where the line box leaves room for descenders
+    const baseline = height * 0.25;
+
+    const quads = new Float32Array(text.length * TEXT_QUAD_STRIDE);
+    let glyphCount = 0;
+    let pen = 0;
+
+    for (const char of text) {
+        const glyph = atlas.getGlyph(char);
+        if (!glyph) continue;
+
+        if (glyph.width > 0) {
+            const o = glyphCount * TEXT_QUAD_STRIDE;
+            quads[o] = pen + glyph.left * scale;
+            quads[o + 1] = baseline + (glyph.top - glyph.height) * scale;
+            quads[o + 2] = glyph.width * scale;
+            quads[o + 3] = glyph.height * scale;
+            quads[o + 4] = glyph.u0;
+            quads[o + 5] = glyph.v0;
+            quads[o + 6] = glyph.u1;
+            quads[o + 7] = glyph.v1;
+            glyphCount++;
+        }
+        pen += glyph.advance * scale;
+    }
+
+    return { quads, glyphCount, width: pen, height };
+}
+
+/**
+ * Signed distance field of a coverage mask (felzenszwalb/huttenlocher exact Euclidean distance transform)
+ * @param coverage One byte per pixel, 255 inside the shape
+ * @param radius Distance in pixels mapped to the 0..1 range around the 0.5 edge
+ */
+export function computeSDF(coverage: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray {
+    const size = width * height;
+    const outer = new Float64Array(size); // Squared distance to the shape
+    const inner = new Float64Array(size); // Squared distance to the background
+
+    for (let i = 0; i < size; i++) {
+        const a = coverage[i] / 255;
+        if (a >= 1) {
+            outer[i] = 0;
+            inner[i] = FAR;
+        } else if (a <= 0) {
+            outer[i] = FAR;
+            inner[i] = 0;
+        } else {
+            // Anti-aliased edge pixels: sub-pixel offset from the coverage
+            const d = 0.5 - a;
+            outer[i] = d > 0 ? d * d : 0;
+            inner[i] = d < 0 ? d * d : 0;
+        }
+    }
+
+    const longest = Math.max(width, height);
+    const f = new Float64Array(longest);
+    const z = new Float64Array(longest + 1);
+    const v = new Uint16Array(longest);
+    distanceTransform2D(outer, width, height, f, v, z);
+    distanceTransform2D(inner, width, height, f, v, z);
+
+    const field = new Uint8ClampedArray(size);
+    for (let i = 0; i < size; i++) {
+        const distance = Math.sqrt(outer[i]) - Math.sqrt(inner[i]); // Positive outside
+        field[i] = Math.round(255 * (0.5 - distance / (2 * radius)));
+    }
+    return field;
+}
+
+function distanceTransform2D(grid: Float64Array, width: number, height: number, f: Float64Array, v: Uint16Array, z: Float64Array): void {
+    for (let x = 0; x < width; x++) distanceTransform1D(grid, x, width, height, f, v, z);
+    for (let y = 0; y < height; y++) distanceTransform1D(grid, y * width, 1, width, f, v, z);
+}
+
+/**
+ * 1D squared distance transform in place along a strided line (lower envelope of parabolas)
+ */
+function distanceTransform1D(grid: Float64Array, offset: number, stride: number, length: number, f: Float64Array, v: Uint16Array, z: Float64Array): void {
+    f[0] = grid[offset];
+    v[0] = 0;
+    z[0] = -FAR;
+    z[1] = FAR;
+
+    for (let q = 1, k = 0; q < length; q++) {
+        f[q] = grid[offset + q * stride];
+        let s: number;
+        do {
+            const r = v[k];
+            s = (f[q] - f[r] + q * q - r * r) / (q - r) / 2;
+        } while (s <= z[k] && --k > -1);
+
+        k++;
+        v[k] = q;
+        z[k] = s;
+        z[k + 1] = FAR;
+    }
+
+    for (let q = 0, k = 0; q < length; q++) {
+        while (z[k + 1] < q) k++;
+        const r = v[k];
+        grid[offset + q * stride] = f[r] + (q - r) * (q - r);
+    }
+}
+
+function atlasUv(x: number, y: number, width: number, height: number, atlasWidth: number, atlasHeight: number) {
+    // Textures are flipped in V on upload: the top row of the image is v = 1
+    return {
+        u0: x / atlasWidth,
+        v0: 1 - (y + height) / atlasHeight,
+        u1: (x + width) / atlasWidth,
+        v1: 1 - y / atlasHeight,
+    };
+}
@@ -0,0 +1,163 @@
+// Ground track utilities: sub-satellite points, antimeridian splitting and sensor swath edges
+// Latitudes/longitudes are geodetic degrees (WGS84), longitudes in [-180, 180]
+
+import { degreesToRadians, radiansToDegrees } from "./OrbitalMath";
+import { ecefToGeodetic, WGS84_A } from "./ReferenceFrames";
+
+export interface GroundTrackPoint {
+    time: number; // UTC Unix ms
+    lat: number; // Degrees
+    lon: number; // Degrees
+    alt: number; // km above the ellipsoid (0 for swath edges)
+    daylight: boolean; // Sun above the horizon at the ground point
+}
+
+export interface GroundSwath {
+    left: GroundTrackPoint[]; // Edge to the left of the direction of travel
+    right: GroundTrackPoint[];
+}
+
+/**
+ * Sample the sub-satellite track over [start, end]
+ * @param positionAt ECEF position (km) at a time, or null where unavailable
+ * @param sunAt ECEF Sun position (km) at a time
+ */
+export function computeGroundTrack(
+    positionAt: (time: number) => { x: number; y: number; z: number } | null,
+    sunAt: (time: number) => { x: number; y: number; z: number },
+    start: number,
+    end: number,
+    step: number
+): GroundTrackPoint[] {
+    const points: GroundTrackPoint[] = [];
+
+    for (let time = start; ; time = Math.min(time + step, end)) {
+        const position = positionAt(time);
+        if (position) {
+            const geodetic = ecefToGeodetic(position.x, position.y, position.z);
+            points.push({ time, ...geodetic, daylight: isDaylight(geodetic.lat, geodetic.lon, sunAt(time)) });
+        }
+        if (time >= end) break;
+    }
+
+    return points;
+}
+
+/**
+ * Split a track into runs that never cross the antimeridian, so map views do not draw lines across the whole map
+ * Crossing points are interpolated onto ±180° and close one run and open the next
+ */
+export function splitAtAntimeridian(points: GroundTrackPoint[]): GroundTrackPoint[][] {
+    const segments: GroundTrackPoint[][] = [];
+    let current: GroundTrackPoint[] = [];
+
+    for (let i = 0; i < points.length; i++) {
+        const point = points[i];
+        const previous = points[i - 1];
+
+        if (previous && Math.abs(point.lon - previous.lon) > 180) {
+            // Unwrap the new longitude next to the previous one and interpolate the crossing
+            const edge = previous.lon > 0 ? 180 : -180;
+            const unwrapped = point.lon + (previous.lon > 0 ? 360 : -360);
+            const f = (edge - previous.lon) / (unwrapped - previous.lon);
+            const crossing = {
+                time: previous.time + (point.time - previous.time) * f,
+                lat: previous.lat + (point.lat - previous.lat) * f,
+                alt: previous.alt + (point.alt - previous.alt) * f,
+                daylight: f < 0.5 ? previous.daylight : point.daylight,
+            };
+
+            current.push({ ...crossing, lon: edge });
+            segments.push(current);
+            current = [{ ...crossing, lon: -edge }];
+        }
+
+        current.push(point);
+    }
+
+    if (current.length > 0) {
+        segments.push(current);
+    }
+
+    return segments;
+}
+
+/**
+ * Ground half-width of a nadir-centred sensor, as an Earth central angle in degrees (spherical Earth)
+ * Sensors wider than the Earth's limb are clipped to the horizon
+ * @param altitude Sensor altitude in km
+ * @param halfAngle Sensor half-angle from nadir in degrees
+ */
+export function swathHalfWidth(altitude: number, halfAngle: number): number {
+    const sinRho = WGS84_A / (WGS84_A + altitude); // Angular radius of the Earth seen from the sensor
+    const sinEta = Math.sin(degreesToRadians(halfAngle));
+
+    if (sinEta >= sinRho) {
+        return radiansToDegrees(Math.acos(sinRho));
+    }
+
+    const elevation = Math.acos(sinEta / sinRho);
+    return 90 - halfAngle - radiansToDegrees(elevation);
+}
+
+/**
+ * Swath edges either side of a track, perpendicular to the direction of travel
+ */
+export function computeSwath(points: GroundTrackPoint[], halfAngle: number): GroundSwath {
+    const left: GroundTrackPoint[] = [];
+    const right: GroundTrackPoint[] = [];
+    if (points.length < 2) return { left, right };
+
+    for (let i = 0; i < points.length; i++) {
+        const point = points[i];
+        const from = points[Math.max(0, i - 1)];
+        const to = points[Math.min(points.length - 1, i + 1)];
+        const heading = initialBearing(from.lat, from.lon, to.lat, to.lon);
+        const width = swathHalfWidth(point.alt, halfAngle);
+
+        left.push({ ...point, ...destinationPoint(point.lat, point.lon, heading - 90, width), alt: 0 });
+        right.push({ ...point, ...destinationPoint(point.lat, point.lon, heading + 90, width), alt: 0 });
+    }
+
+    return { left, right };
+}
+
+/**
+ * Sun above the horizon at a ground point (spherical Earth)
+ */
+function isDaylight(lat: number, lon: number, sun: { x: number; y: number; z: number }): boolean {
+    const latRad = degreesToRadians(lat);
+    const lonRad = degreesToRadians(lon);
+    const cosLat = Math.cos(latRad);
+    return cosLat * Math.cos(lonRad) * sun.x + cosLat * Math.sin(lonRad) * sun.y + Math.sin(latRad) * sun.z > 0;
+}
+
+/**
+ * Great-circle bearing from one point to another (degrees clockwise from north)
+ */
+function initialBearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const phi1 = degreesToRadians(lat1);
+    const phi2 = degreesToRadians(lat2);
+    const dLon = degreesToRadians(lon2 - lon1);
+    const y = Math.sin(dLon) * Math.cos(phi2);
+    const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon);
+    return radiansToDegrees(Math.atan2(y, x));
+}
+
+/**
+ * Point at a central angle along a bearing from a start point (degrees)
+ */
+function destinationPoint(lat: number, lon: number, bearing: number, angle: number): { lat: number; lon: number } {
+    const phi1 = degreesToRadians(lat);
+    const lambda1 = degreesToRadians(lon);
+    const theta = degreesToRadians(bearing);
+    const delta = degreesToRadians(angle);
+
+    const sinPhi2 = Math.sin(phi1) * Math.cos(delta) + Math.cos(phi1) * Math.sin(delta) * Math.cos(theta);
+    const phi2 = Math.asin(Math.max(-1, Math.min(1, sinPhi2)));
+    const lambda2 = lambda1 + Math.atan2(Math.sin(theta) * Math.sin(delta) * Math.cos(phi1), Math.cos(delta) - Math.sin(phi1) * sinPhi2);
+
+    // Wrap into [-180, 180)
+    const lon2 = radiansToDegrees(lambda2);
+    return { lat: radiansToDegrees(phi2), lon: ((((lon2 + 180) % 360) + 360) % 360) - 180 };
+}
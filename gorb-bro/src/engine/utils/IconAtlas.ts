@@ -0,0 +1,182 @@
+// Icon atlas for instanced billboards: PNG/SVG/canvas icons packed into one grid texture
+// Icons are drawn white-on-transparent so the instance color can tint them
+
+import * as THREE from "three";
+
+export type IconSource = string | HTMLImageElement | HTMLCanvasElement | ImageBitmap; // URL, data URL or inline SVG markup
+
+export interface IconAtlasOptions {
+    /**
+     * Cell size in pixels; icons are scaled to fit, keeping their aspect ratio
+     * Default: 64
+     */
+    cellSize?: number;
+
+    /**
+     * Cells per row and column (capacity is columns²)
+     * Default: 8
+     */
+    columns?: number;
+}
+
+// Built-in category icons (see registerDefaultIcons)
+export enum DefaultIcon {
+    PAYLOAD = "payload",
+    DEBRIS = "debris",
+    ROCKET_BODY = "rocketBody",
+}
+
+export class IconAtlas {
+    readonly texture: THREE.CanvasTexture;
+    readonly columns: number;
+    private cellSize: number;
+    private canvas: HTMLCanvasElement;
+    private context: CanvasRenderingContext2D;
+    private icons: Map<string, number> = new Map();
+
+    constructor(options: IconAtlasOptions = {}) {
+        this.cellSize = options.cellSize ?? 64;
+        this.columns = options.columns ?? 8;
+
+        this.canvas = document.createElement("canvas");
+        this.canvas.width = this.canvas.height = this.cellSize * this.columns;
+        this.context = this.canvas.getContext("2d")!;
+
+        // No mipmaps: they would blend neighbouring cells at small sizes
+        this.texture = new THREE.CanvasTexture(this.canvas);
+        this.texture.generateMipmaps = false;
+        this.texture.minFilter = THREE.LinearFilter;
+        this.texture.magFilter = THREE.LinearFilter;
+    }
+
+    /**
+     * Load an image and store it under a name (re-registering a name replaces its icon in place)
+     * @returns The icon's atlas index
+     */
+    async registerIcon(name: string, source: IconSource): Promise<number> {
+        const image = typeof source === "string" ? await loadImage(source) : source;
+        return this.drawIcon(name, (context, size) => {
+            // SVGs without width/height attributes report no intrinsic size: fill the cell
+            const sourceWidth = image.width || size;
+            const sourceHeight = image.height || size;
+            const scale = size / Math.max(sourceWidth, sourceHeight);
+            const width = sourceWidth * scale;
+            const height = sourceHeight * scale;
+            context.drawImage(image, (size - width) / 2, (size - height) / 2, width, height);
+        });
+    }
+
+    /**
+     * Draw an icon procedurally into its cell
+     * @param draw Draws into a size x size area at the origin
+     * @returns The icon's atlas index
+     */
+    drawIcon(name: string, draw: (context: CanvasRenderingContext2D, size: number) => void): number {
+        let index = this.icons.get(name);
+        if (index === undefined) {
+            index = this.icons.size;
+            if (index >= this.columns * this.columns) {
+                throw new Error(`Icon atlas is full (${this.columns * this.columns} icons)`);
+            }
+            this.icons.set(name, index);
+        }
+
+        const x = (index % this.columns) * this.cellSize;
+        const y = Math.floor(index / this.columns) * this.cellSize;
+
+        const context = this.context;
+        context.save();
+        context.clearRect(x, y, this.cellSize, this.cellSize);
+        context.beginPath();
+        context.rect(x, y, this.cellSize, this.cellSize);
+        context.clip();
+        context.translate(x, y);
+        draw(context, this.cellSize);
+        context.restore();
+
+        this.texture.needsUpdate = true;
+        return index;
+    }
+
+    /**
+     * Register the built-in payload, debris and rocket body icons
+     */
+    registerDefaultIcons(): void {
+        this.drawIcon(DefaultIcon.PAYLOAD, (context, size) => {
+            // Bus with two solar panels
+            const s = size / 64;
+            context.fillStyle = "#ffffff";
+            context.fillRect(24 * s, 22 * s, 16 * s, 20 * s);
+            context.fillRect(4 * s, 27 * s, 18 * s, 10 * s);
+            context.fillRect(42 * s, 27 * s, 18 * s, 10 * s);
+        });
+
+        this.drawIcon(DefaultIcon.DEBRIS, (context, size) => {
+            // Irregular fragment
+            const s = size / 64;
+            context.fillStyle = "#ffffff";
+            context.beginPath();
+            context.moveTo(20 * s, 10 * s);
+            context.lineTo(44 * s, 16 * s);
+            context.lineTo(54 * s, 38 * s);
+            context.lineTo(36 * s, 54 * s);
+            context.lineTo(14 * s, 46 * s);
+            context.lineTo(22 * s, 32 * s);
+            context.closePath();
+            context.fill();
+        });
+
+        this.drawIcon(DefaultIcon.ROCKET_BODY, (context, size) => {
+            // Stage body with a nozzle, pointing up
+            const s = size / 64;
+            context.fillStyle = "#ffffff";
+            context.beginPath();
+            context.moveTo(32 * s, 4 * s);
+            context.lineTo(42 * s, 16 * s);
+            context.lineTo(42 * s, 48 * s);
+            context.lineTo(22 * s, 48 * s);
+            context.lineTo(22 * s, 16 * s);
+            context.closePath();
+            context.fill();
+            context.fillRect(26 * s, 50 * s, 12 * s, 10 * s);
+        });
+    }
+
+    /**
+     * Atlas index of a named icon
+     */
+    getIconIndex(name: string): number | undefined {
+        return this.icons.get(name);
+    }
+
+    dispose(): void {
+        this.texture.dispose();
+        this.icons.clear();
+    }
+}
+
+/**
+ * Default category icon for a catalog object name (CelesTrak/Space-Track naming: "DEB", "R/B")
+ */
+export function iconForObjectName(name: string): DefaultIcon {
+    const upper = name.toUpperCase();
+    if (/\bDEB\b/.test(upper)) return DefaultIcon.DEBRIS;
+    if (/\bR\/B\b/.test(upper)) return DefaultIcon.ROCKET_BODY;
+    return DefaultIcon.PAYLOAD;
+}
+
+async function loadImage(source: string): Promise<HTMLImageElement> {
+    // Inline SVG markup goes through a blob URL
+    const isMarkup = source.trimStart().startsWith("<svg");
+    const url = isMarkup ? URL.createObjectURL(new Blob([source], { type: "image/svg+xml" })) : source;
+
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.src = url;
+    try {
+        await image.decode();
+    } finally {
+        if (isMarkup) URL.revokeObjectURL(url);
+    }
+    return image;
+}
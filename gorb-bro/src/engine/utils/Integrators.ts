@@ -0,0 +1,176 @@
+// Adaptive-step embedded Runge-Kutta integrators (Dormand-Prince 5(4) and Fehlberg 7(8))
+// Scratch buffers are allocated once per integrator so stepping does not allocate
+
+/**
+ * Time derivative of a state: writes d(state)/dt into out
+ * @param t Time in seconds relative to the integrator's reference
+ */
+export type DerivativeFunction = (t: number, state: Float64Array, out: Float64Array) => void;
+
+export type IntegratorMethod = "rk45" | "rk78";
+
+export interface AdaptiveStepOptions {
+    relativeTolerance: number;
+    absoluteTolerance: number;
+    minStep: number; // seconds
+    maxStep: number; // seconds
+}
+
+interface ButcherTableau {
+    c: number[];
+    a: number[][];
+    b: number[]; // Solution weights (propagated order)
+    e: number[]; // Error weights (difference to the embedded order)
+    order: number; // Lower of the two orders, drives step-size control
+}
+
+const DORMAND_PRINCE_45: ButcherTableau = {
+    c: [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1],
+    a: [
+        [],
+        [1 / 5],
+        [3 / 40, 9 / 40],
+        [44 / 45, -56 / 15, 32 / 9],
+        [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+        [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+        [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+    ],
+    b: [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0],
+    e: [
+        35 / 384 - 5179 / 57600,
+        0,
+        500 / 1113 - 7571 / 16695,
+        125 / 192 - 393 / 640,
+        -2187 / 6784 + 92097 / 339200,
+        11 / 84 - 187 / 2100,
+        -1 / 40,
+    ],
+    order: 4,
+};
+
+const FEHLBERG_78: ButcherTableau = {
+    c: [0, 2 / 27, 1 / 9, 1 / 6, 5 / 12, 1 / 2, 5 / 6, 1 / 6, 2 / 3, 1 / 3, 1, 0, 1],
+    a: [
+        [],
+        [2 / 27],
+        [1 / 36, 1 / 12],
+        [1 / 24, 0, 1 / 8],
+        [5 / 12, 0, -25 / 16, 25 / 16],
+        [1 / 20, 0, 0, 1 / 4, 1 / 5],
+        [-25 / 108, 0, 0, 125 / 108, -65 / 27, 125 / 54],
+        [31 / 300, 0, 0, 0, 61 / 225, -2 / 9, 13 / 900],
+        [2, 0, 0, -53 / 6, 704 / 45, -107 / 9, 67 / 90, 3],
+        [-91 / 108, 0, 0, 23 / 108, -976 / 135, 311 / 54, -19 / 60, 17 / 6, -1 / 12],
+        [2383 / 4100, 0, 0, -341 / 164, 4496 / 1025, -301 / 82, 2133 / 4100, 45 / 82, 45 / 164, 18 / 41],
+        [3 / 205, 0, 0, 0, 0, -6 / 41, -3 / 205, -3 / 41, 3 / 41, 6 / 41, 0],
+        [-1777 / 4100, 0, 0, -341 / 164, 4496 / 1025, -289 / 82, 2193 / 4100, 51 / 82, 33 / 164, 12 / 41, 0, 1],
+    ],
+    b: [0, 0, 0, 0, 0, 34 / 105, 9 / 35, 9 / 35, 9 / 280, 9 / 280, 0, 41 / 840, 41 / 840],
+    e: [-41 / 840, 0, 0, 0, 0, 0, 0, 0, 0, 0, -41 / 840, 41 / 840, 41 / 840],
+    order: 7,
+};
+
+/**
+ * Embedded Runge-Kutta integrator with error-controlled step size
+ */
+export class AdaptiveIntegrator {
+    private tableau: ButcherTableau;
+    private dimension: number;
+    private stages: Float64Array[];
+    private stageState: Float64Array;
+    private candidate: Float64Array;
+
+    // Last accepted step size (seconds), reused as the next initial guess
+    private lastStep: number = 0;
+
+    // Statistics
+    public acceptedSteps: number = 0;
+    public rejectedSteps: number = 0;
+
+    constructor(method: IntegratorMethod = "rk78", dimension: number = 6) {
+        this.tableau = method === "rk45" ? DORMAND_PRINCE_45 : FEHLBERG_78;
+        this.dimension = dimension;
+        this.stages = this.tableau.c.map(() => new Float64Array(dimension));
+        this.stageState = new Float64Array(dimension);
+        this.candidate = new Float64Array(dimension);
+    }
+
+    /**
+     * Integrate state in place from t0 to t1 (either direction)
+     * @returns The last accepted step size in seconds
+     */
+    integrate(f: DerivativeFunction, t0: number, state: Float64Array, t1: number, options: AdaptiveStepOptions): number {
+        const direction = t1 >= t0 ? 1 : -1;
+        let t = t0;
+        let h = Math.min(Math.abs(this.lastStep) || options.maxStep / 10, options.maxStep);
+
+        while ((t1 - t) * direction > 1e-9) {
+            const remaining = Math.abs(t1 - t);
+            const last = h >= remaining;
+            const step = (last ? remaining : h) * direction;
+
+            const error = this.step(f, t, state, step, options);
+
+            if (error <= 1 || Math.abs(step) <= options.minStep) {
+                state.set(this.candidate);
+                t = last ? t1 : t + step;
+                this.acceptedSteps++;
+                if (!last) this.lastStep = h;
+            } else {
+                this.rejectedSteps++;
+            }
+
+            // Standard controller with safety factor and growth limits
+            const factor = error === 0 ? 5 : Math.min(5, Math.max(0.2, 0.9 * Math.pow(error, -1 / (this.tableau.order + 1))));
+            h = Math.min(options.maxStep, Math.max(options.minStep, Math.abs(step) * factor));
+        }
+
+        return this.lastStep;
+    }
+
+    /**
+     * Reset the step-size memory (e.g. after a discontinuity such as an impulsive maneuver)
+     */
+    reset(): void {
+        this.lastStep = 0;
+    }
+
+    /**
+     * Take one trial step into this.candidate
+     * @returns Scaled error norm (<= 1 means the step is acceptable)
+     */
+    private step(f: DerivativeFunction, t: number, state: Float64Array, h: number, options: AdaptiveStepOptions): number {
+        const { a, b, c, e } = this.tableau;
+        const n = this.dimension;
+        const k = this.stages;
+        const y = this.stageState;
+
+        for (let s = 0; s < c.length; s++) {
+            const row = a[s];
+            for (let j = 0; j < n; j++) {
+                let sum = 0;
+                for (let r = 0; r < row.length; r++) {
+                    sum += row[r] * k[r][j];
+                }
+                y[j] = state[j] + h * sum;
+            }
+            f(t + c[s] * h, y, k[s]);
+        }
+
+        let errorNorm = 0;
+        for (let j = 0; j < n; j++) {
+            let solution = 0;
+            let error = 0;
+            for (let s = 0; s < c.length; s++) {
+                solution += b[s] * k[s][j];
+                error += e[s] * k[s][j];
+            }
+            this.candidate[j] = state[j] + h * solution;
+
+            const scale = options.absoluteTolerance + options.relativeTolerance * Math.max(Math.abs(state[j]), Math.abs(this.candidate[j]));
+            errorNorm = Math.max(errorNorm, Math.abs(h * error) / scale);
+        }
+
+        return errorNorm;
+    }
+}
@@ -1,145 +1,261 @@
 // Orbit visualization utilities
-// Generates orbit geometry from Classical Orbital Elements (COEs)
+// Draws an entity's orbit by sampling its own propagator around the current time, split into past and future segments
 
 import * as THREE from "three";
-import type { OrbitalElementsComponent } from "../types";
-import { OrbitalFormat } from "../types";
-import * as satellite from "satellite.js";
+import type { EntityId, IEngine, IFrameConversionService, ITimeService, OrbitalData, OrbitalElementsComponent } from "../types";
+import { ComponentType, ReferenceFrame } from "../types";
+import type { RenderingService } from "../services/RenderingService";
+import { EntityStateSampler } from "./EntityStateSampler";
+import { MU_EARTH, orbitalPeriod, vectorMagnitude } from "./OrbitalMath";
 
 export interface OrbitVisualizerOptions {
-    color?: number;
+    color?: number; // Future segment color (default: 0x00ff00)
     lineWidth?: number;
-    segments?: number;
-    opacity?: number;
+    segments?: number; // Samples over the whole span (default: 128)
+    opacity?: number; // Future segment opacity (default: 0.6)
+
+    /**
+     * Past segment color and opacity
+     * Default: the future color at 40% of its opacity
+     */
+    pastColor?: number;
+    pastOpacity?: number;
+
+    /**
+     * Seconds of path drawn, centered according to pastFraction
+     * Default: one osculating orbital period (a closed ellipse), 3600 s for unbound trajectories
+     */
+    span?: number;
+
+    /**
+     * Fraction of the span drawn behind the entity
+     * Default: 0.5
+     */
+    pastFraction?: number;
 }
 
+type Vec3 = { x: number; y: number; z: number };
+
 export class OrbitVisualizer {
-    private line: THREE.Line | null = null;
-    private scene: THREE.Scene | null = null;
+    private options: Required<Omit<OrbitVisualizerOptions, "span">> & { span?: number };
+    private engine: IEngine | null = null;
+    private entity: EntityId | null = null;
+    private sampler: EntityStateSampler | null = null;
+    private frameService: IFrameConversionService | null = null;
+
+    private pastLine: THREE.Line | null = null;
+    private futureLine: THREE.Line | null = null;
+
+    // Inertial (J2000) samples on an absolute time grid, so only a grid shift triggers propagation
+    private data: OrbitalData | null = null;
+    private span: number = 0; // ms
+    private step: number = 0; // ms between samples
+    private firstIndex: number = NaN; // Grid index of samples[0]
+    private samples: (Vec3 | null)[] = [];
 
-    constructor(private options: OrbitVisualizerOptions = {}) {
+    constructor(options: OrbitVisualizerOptions = {}) {
+        const color = options.color ?? 0x00ff00;
+        const opacity = options.opacity ?? 0.6;
         this.options = {
-            color: options.color ?? 0x00ff00,
+            color,
             lineWidth: options.lineWidth ?? 2,
-            segments: options.segments ?? 128,
-            opacity: options.opacity ?? 0.6,
+            segments: Math.max(2, options.segments ?? 128),
+            opacity,
+            pastColor: options.pastColor ?? color,
+            pastOpacity: options.pastOpacity ?? opacity * 0.4,
+            span: options.span,
+            pastFraction: Math.min(1, Math.max(0, options.pastFraction ?? 0.5)),
         };
     }
 
     /**
-     * Create orbit visualization from orbital elements
+     * Show the orbit of an entity with orbital elements, replacing any orbit shown before
+     * Call update() every frame (or whenever simulation time changes) to keep the path centered on the entity
      */
-    createOrbit(orbitalElements: OrbitalElementsComponent, scene: THREE.Scene): void {
-        this.scene = scene;
-
-        // Remove existing orbit if any
+    createOrbit(engine: IEngine, entity: EntityId): void {
         this.removeOrbit();
 
-        // Generate orbit points
-        const points = this.generateOrbitPoints(orbitalElements);
-
-        if (points.length === 0) {
-            console.warn("[OrbitVisualizer] Failed to generate orbit points");
+        const renderingService = engine.getService<RenderingService>("rendering");
+        const frameService = engine.getService<IFrameConversionService>("frame");
+        if (!renderingService || !frameService) {
+            console.warn("[OrbitVisualizer] ⚠️ RenderingService and FrameConversionService are required");
+            return;
+        }
+        if (!engine.hasComponent(entity, ComponentType.ORBITAL_ELEMENTS)) {
+            console.warn("[OrbitVisualizer] Entity has no orbital elements");
             return;
         }
 
-        // Create line geometry
-        const geometry = new THREE.BufferGeometry().setFromPoints(points);
-
-        // Create line material
-        const material = new THREE.LineBasicMaterial({
-            color: this.options.color,
-            transparent: true,
-            opacity: this.options.opacity,
-            linewidth: this.options.lineWidth,
-        });
+        this.engine = engine;
+        this.entity = entity;
+        this.frameService = frameService;
+        this.sampler = new EntityStateSampler(engine.getComponentRegistry(), frameService);
 
-        // Create line
-        this.line = new THREE.Line(geometry, material);
-        scene.add(this.line);
-    }
+        // One vertex per sample plus the entity's current position, where the segments meet
+        const vertices = this.options.segments + 3;
+        this.pastLine = this.createLine(vertices, this.options.pastColor, this.options.pastOpacity);
+        this.futureLine = this.createLine(vertices, this.options.color, this.options.opacity);
+        renderingService.addObject(this.pastLine);
+        renderingService.addObject(this.futureLine);
 
-    /**
-     * Remove orbit visualization from scene
-     */
-    removeOrbit(): void {
-        if (this.line && this.scene) {
-            this.scene.remove(this.line);
-            this.line.geometry.dispose();
-            (this.line.material as THREE.Material).dispose();
-            this.line = null;
-        }
+        this.update();
     }
 
     /**
-     * Generate orbit points from orbital elements
+     * Regenerate the path for the current simulation time
+     * Resamples the propagator only when the window has moved by a sample step (either direction) or the orbit changed;
+     * otherwise just re-projects the cached samples, which keeps the ellipse right in rotating render frames
      */
-    private generateOrbitPoints(orbitalElements: OrbitalElementsComponent): THREE.Vector3[] {
-        const points: THREE.Vector3[] = [];
+    update(): void {
+        if (!this.engine || this.entity === null || !this.sampler || !this.frameService) return;
 
-        // Only support TLE format for now
-        if (orbitalElements.format !== OrbitalFormat.TLE) {
-            console.warn("[OrbitVisualizer] Only TLE format is currently supported");
-            return points;
+        const elements = this.engine.getComponent<OrbitalElementsComponent>(this.entity, ComponentType.ORBITAL_ELEMENTS);
+        if (!elements) {
+            this.removeOrbit();
+            return;
         }
 
-        // Type guard for TLE data
-        const tleData = orbitalElements.data as any;
-        if (!tleData.line1 || !tleData.line2) {
-            console.warn("[OrbitVisualizer] Invalid TLE data");
-            return points;
+        const time = this.engine.getService<ITimeService>("time")?.getCurrentTime() ?? Date.now();
+        if (elements.data !== this.data) {
+            this.data = elements.data;
+            this.sampler.clear(this.entity);
+            this.span = this.computeSpan(time);
+            this.step = this.span / this.options.segments;
+            this.firstIndex = NaN;
         }
 
-        try {
-            // Initialize satellite record from TLE
-            const satrec = satellite.twoline2satrec(tleData.line1, tleData.line2);
+        const past = this.span * this.options.pastFraction;
+        const start = time - past;
+        const end = start + this.span;
+        const first = Math.floor(start / this.step);
+        if (first !== this.firstIndex) this.resample(first);
 
-            // Get current time
-            const now = Date.now();
+        const current = this.sampler.getPosition(this.entity, time, ReferenceFrame.J2000);
+        const pastCount = this.fillLine(this.pastLine!, start, time, current, false, time);
+        const futureCount = this.fillLine(this.futureLine!, time, end, current, true, time);
+        this.pastLine!.visible = pastCount > 1;
+        this.futureLine!.visible = futureCount > 1;
+    }
+
+    /**
+     * Remove orbit visualization from scene
+     */
+    removeOrbit(): void {
+        const renderingService = this.engine?.getService<RenderingService>("rendering");
+        for (const line of [this.pastLine, this.futureLine]) {
+            if (!line) continue;
+            renderingService?.removeObject(line);
+            line.geometry.dispose();
+            (line.material as THREE.Material).dispose();
+        }
 
-            // Generate points for one complete orbit
-            // Approximate orbital period from mean motion (revolutions per day)
-            const meanMotion = satrec.no; // radians per minute
-            const orbitalPeriod = (2 * Math.PI) / meanMotion; // minutes
+        this.pastLine = null;
+        this.futureLine = null;
+        this.sampler = null;
+        this.frameService = null;
+        this.engine = null;
+        this.entity = null;
+        this.data = null;
+        this.samples = [];
+        this.firstIndex = NaN;
+    }
 
-            const segments = this.options.segments ?? 128;
-            const timeStep = orbitalPeriod / segments; // minutes
+    /**
+     * Update orbit color (both segments)
+     */
+    setColor(color: number): void {
+        this.options.color = color;
+        this.options.pastColor = color;
+        (this.futureLine?.material as THREE.LineBasicMaterial | undefined)?.color.setHex(color);
+        (this.pastLine?.material as THREE.LineBasicMaterial | undefined)?.color.setHex(color);
+    }
 
-            for (let i = 0; i <= segments; i++) {
-                const time = now + i * timeStep * 60 * 1000; // Convert to milliseconds
-                const date = new Date(time);
+    /**
+     * Update orbit opacity (the past segment is scaled by the same factor)
+     */
+    setOpacity(opacity: number): void {
+        const scale = this.options.opacity > 0 ? opacity / this.options.opacity : 1;
+        this.options.opacity = opacity;
+        this.options.pastOpacity *= scale;
+        if (this.futureLine) (this.futureLine.material as THREE.LineBasicMaterial).opacity = opacity;
+        if (this.pastLine) (this.pastLine.material as THREE.LineBasicMaterial).opacity = this.options.pastOpacity;
+    }
 
-                // Propagate satellite position
-                const positionAndVelocity = satellite.propagate(satrec, date);
+    /**
+     * Span in ms: the configured one, else the osculating period from the state at the given time
+     */
+    private computeSpan(time: number): number {
+        if (this.options.span !== undefined) return this.options.span * 1000;
 
-                if (positionAndVelocity && positionAndVelocity.position && typeof positionAndVelocity.position !== "boolean") {
-                    const pos = positionAndVelocity.position;
-                    // Positions are in km (ECI frame)
-                    points.push(new THREE.Vector3(pos.x, pos.y, pos.z));
-                }
-            }
-        } catch (error) {
-            console.error("[OrbitVisualizer] Error generating orbit:", error);
+        const state = this.sampler!.getState(this.entity!, time, ReferenceFrame.J2000);
+        if (state?.velocity) {
+            const r = vectorMagnitude(state.position.x, state.position.y, state.position.z);
+            const v = vectorMagnitude(state.velocity.vx, state.velocity.vy, state.velocity.vz);
+            const semiMajorAxis = 1 / (2 / r - (v * v) / MU_EARTH); // Vis-viva
+            if (semiMajorAxis > 0) return orbitalPeriod(semiMajorAxis) * 1000;
         }
-
-        return points;
+        return 3600 * 1000;
     }
 
     /**
-     * Update orbit color
+     * Propagate the grid samples covering the window starting at grid index first, reusing those already computed
      */
-    setColor(color: number): void {
-        if (this.line) {
-            (this.line.material as THREE.LineBasicMaterial).color.setHex(color);
+    private resample(first: number): void {
+        const count = this.options.segments + 2; // Grid points spanning [start, end] after flooring the start
+        const samples: (Vec3 | null)[] = new Array(count);
+
+        for (let i = 0; i < count; i++) {
+            const cached = i + first - this.firstIndex;
+            samples[i] =
+                cached >= 0 && cached < this.samples.length
+                    ? this.samples[cached]
+                    : this.sampler!.getPosition(this.entity!, (first + i) * this.step, ReferenceFrame.J2000);
         }
+
+        this.samples = samples;
+        this.firstIndex = first;
     }
 
     /**
-     * Update orbit opacity
+     * Write the samples in (from, to), widened by one step at the outer end so the path spans the whole window,
+     * plus the current position at the end nearest now, in render space
+     * @returns Vertex count drawn
      */
-    setOpacity(opacity: number): void {
-        if (this.line) {
-            (this.line.material as THREE.LineBasicMaterial).opacity = opacity;
+    private fillLine(line: THREE.Line, from: number, to: number, current: Vec3 | null, currentFirst: boolean, time: number): number {
+        const attribute = line.geometry.getAttribute("position") as THREE.BufferAttribute;
+        let count = 0;
+        const write = (position: Vec3): void => {
+            // The orbit as seen at the current time: inertial samples projected with the current render transform
+            const p = this.frameService!.convert(position, ReferenceFrame.J2000, ReferenceFrame.RENDER, time);
+            attribute.setXYZ(count++, p.x, p.y, p.z);
+        };
+
+        if (currentFirst && current) write(current);
+        for (let i = 0; i < this.samples.length; i++) {
+            const sampleTime = (this.firstIndex + i) * this.step;
+            const sample = this.samples[i];
+            const inside = currentFirst ? sampleTime > from && sampleTime < to + this.step : sampleTime > from - this.step && sampleTime < to;
+            if (sample && inside) write(sample);
         }
+        if (!currentFirst && current) write(current);
+
+        attribute.needsUpdate = true;
+        line.geometry.setDrawRange(0, count);
+        line.geometry.computeBoundingSphere();
+        return count;
+    }
+
+    private createLine(vertices: number, color: number, opacity: number): THREE.Line {
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute("position", new THREE.BufferAttribute(new Float32Array(vertices * 3), 3));
+
+        const material = new THREE.LineBasicMaterial({
+            color,
+            transparent: true,
+            opacity,
+            linewidth: this.options.lineWidth,
+        });
+
+        return new THREE.Line(geometry, material);
     }
 }
@@ -1,5 +1,7 @@
 // Common orbital mechanics math utilities
 
+import type { KeplerianElements } from "../types";
+
 /**
  * Earth's gravitational parameter in km^3/s^2
  */
@@ -10,6 +12,16 @@ export const MU_EARTH = 398600.4418;
  */
 export const EARTH_RADIUS = 6371.0;
 
+/**
+ * Earth's equatorial radius in km (used with the zonal harmonics)
+ */
+export const EARTH_EQUATORIAL_RADIUS = 6378.137;
+
+/**
+ * Earth's second zonal harmonic (oblateness)
+ */
+export const J2_EARTH = 1.08262668e-3;
+
 /**
  * Convert degrees to radians
  */
@@ -247,3 +259,133 @@ export function rk4Step(
     state[5] = vz + sixthDT * (k1az + 2 * k2az + 2 * k3az + k4az);
 }
 
+/**
+ * Solve Kepler's equation M = E - e*sin(E) for the eccentric anomaly (elliptical orbits)
+ * @param M Mean anomaly in radians
+ * @param e Eccentricity (0 <= e < 1)
+ * @returns Eccentric anomaly in radians
+ */
+export function solveKeplerEquation(M: number, e: number, tolerance: number = 1e-12): number {
+    const m = normalizeAngle(M);
+    let E = e < 0.8 ? m : Math.PI;
+
+    for (let i = 0; i < 50; i++) {
+        const f = E - e * Math.sin(E) - m;
+        const dE = f / (1 - e * Math.cos(E));
+        E -= dE;
+        if (Math.abs(dE) < tolerance) break;
+    }
+
+    return E;
+}
+
+/**
+ * Convert classical orbital elements to an inertial state vector
+ * @returns Position in km and velocity in km/s
+ */
+export function keplerianToCartesian(
+    elements: KeplerianElements,
+    mu: number = MU_EARTH
+): { position: [number, number, number]; velocity: [number, number, number] } {
+    const { a, e, i, omega, Omega, M } = elements;
+
+    const E = solveKeplerEquation(M, e);
+    const cosE = Math.cos(E);
+    const sinE = Math.sin(E);
+    const sqrtOneMinusE2 = Math.sqrt(1 - e * e);
+
+    // Perifocal position and velocity
+    const xp = a * (cosE - e);
+    const yp = a * sqrtOneMinusE2 * sinE;
+    const rMag = a * (1 - e * cosE);
+    const velocityScale = Math.sqrt(mu * a) / rMag;
+    const vxp = -velocityScale * sinE;
+    const vyp = velocityScale * sqrtOneMinusE2 * cosE;
+
+    // Perifocal -> inertial: R3(-Omega) * R1(-i) * R3(-omega)
+    const cosO = Math.cos(Omega);
+    const sinO = Math.sin(Omega);
+    const cosw = Math.cos(omega);
+    const sinw = Math.sin(omega);
+    const cosi = Math.cos(i);
+    const sini = Math.sin(i);
+
+    const r11 = cosO * cosw - sinO * sinw * cosi;
+    const r12 = -cosO * sinw - sinO * cosw * cosi;
+    const r21 = sinO * cosw + cosO * sinw * cosi;
+    const r22 = -sinO * sinw + cosO * cosw * cosi;
+    const r31 = sinw * sini;
+    const r32 = cosw * sini;
+
+    return {
+        position: [r11 * xp + r12 * yp, r21 * xp + r22 * yp, r31 * xp + r32 * yp],
+        velocity: [r11 * vxp + r12 * vyp, r21 * vxp + r22 * vyp, r31 * vxp + r32 * vyp],
+    };
+}
+
+/**
+ * Convert an inertial state vector to classical orbital elements (elliptical orbits)
+ * Circular orbits measure the anomaly from the node; equatorial orbits put the node on +X
+ * @param position Position in km
+ * @param velocity Velocity in km/s
+ */
+export function cartesianToKeplerian(
+    position: [number, number, number],
+    velocity: [number, number, number],
+    mu: number = MU_EARTH
+): KeplerianElements {
+    const [rx, ry, rz] = position;
+    const [vx, vy, vz] = velocity;
+    const r = vectorMagnitude(rx, ry, rz);
+    const v2 = vx * vx + vy * vy + vz * vz;
+    const rv = dotProduct(rx, ry, rz, vx, vy, vz);
+
+    // Angular momentum and node vectors
+    const h = crossProduct(rx, ry, rz, vx, vy, vz);
+    const hMag = vectorMagnitude(h.x, h.y, h.z);
+    const nx = -h.y;
+    const ny = h.x;
+    const nMag = Math.sqrt(nx * nx + ny * ny);
+
+    // Eccentricity vector
+    const ex = ((v2 - mu / r) * rx - rv * vx) / mu;
+    const ey = ((v2 - mu / r) * ry - rv * vy) / mu;
+    const ez = ((v2 - mu / r) * rz - rv * vz) / mu;
+    const e = vectorMagnitude(ex, ey, ez);
+
+    const energy = v2 / 2 - mu / r;
+    if (energy >= 0) {
+        throw new Error("State vector is not on an elliptical orbit");
+    }
+    const a = -mu / (2 * energy);
+    const i = Math.acos(Math.max(-1, Math.min(1, h.z / hMag)));
+
+    const small = 1e-10;
+    const equatorial = nMag < small * hMag;
+    const circular = e < small;
+
+    const Omega = equatorial ? 0 : normalizeAngle(Math.atan2(ny, nx));
+
+    // Reference direction for periapsis: the node, or +X for equatorial orbits
+    const refX = equatorial ? 1 : nx / nMag;
+    const refY = equatorial ? 0 : ny / nMag;
+
+    // Angle within the orbit plane measured from the reference direction, positive along motion
+    const inPlaneAngle = (x: number, y: number, z: number): number => {
+        const cos = refX * x + refY * y;
+        const cross = crossProduct(refX, refY, 0, x, y, z);
+        const sin = dotProduct(cross.x, cross.y, cross.z, h.x, h.y, h.z) / hMag;
+        return normalizeAngle(Math.atan2(sin, cos));
+    };
+
+    const omega = circular ? 0 : inPlaneAngle(ex, ey, ez);
+
+    // True anomaly from periapsis (or argument of latitude when circular)
+    const nu = normalizeAngle(inPlaneAngle(rx, ry, rz) - omega);
+
+    // True -> eccentric -> mean anomaly
+    const E = 2 * Math.atan2(Math.sqrt(1 - e) * Math.sin(nu / 2), Math.sqrt(1 + e) * Math.cos(nu / 2));
+    const M = normalizeAngle(E - e * Math.sin(E));
+
+    return { a, e, i, omega, Omega, M };
+}
@@ -0,0 +1,203 @@
+// Reference frame math: precession, nutation and Earth rotation (IAU-76/FK5)
+// Rotation matrices follow Vallado's conventions: r_target = M * r_source
+
+import * as THREE from "three";
+import { degreesToRadians, normalizeAngle } from "./OrbitalMath";
+
+/**
+ * Arcseconds to radians
+ */
+export const ARCSEC_TO_RAD = Math.PI / (180 * 3600);
+
+/**
+ * Earth's rotation rate in rad/s
+ */
+export const EARTH_ROTATION_RATE = 7.292115146706979e-5;
+
+/**
+ * WGS84 equatorial radius in km
+ */
+export const WGS84_A = 6378.137;
+
+/**
+ * WGS84 flattening
+ */
+export const WGS84_F = 1 / 298.257223563;
+
+/**
+ * Julian Date of the J2000 epoch (2000-01-01 12:00 TT)
+ */
+export const JD_J2000 = 2451545.0;
+
+/**
+ * Julian Date of the Unix epoch (1970-01-01 00:00)
+ */
+export const JD_UNIX_EPOCH = 2440587.5;
+
+export interface NutationAngles {
+    dPsi: number; // Nutation in longitude (rad)
+    dEps: number; // Nutation in obliquity (rad)
+    meanObliquity: number; // Mean obliquity of the ecliptic (rad)
+    trueObliquity: number; // True obliquity of the ecliptic (rad)
+}
+
+/**
+ * Convert a Unix timestamp (ms) to a Julian Date on the same time scale
+ */
+export function julianDateFromUnix(time: number): number {
+    return time / 86400000 + JD_UNIX_EPOCH;
+}
+
+/**
+ * Julian centuries elapsed since J2000
+ */
+export function julianCenturies(jd: number): number {
+    return (jd - JD_J2000) / 36525;
+}
+
+/**
+ * Passive rotation about the X axis
+ */
+export function rot1(angle: number, target: THREE.Matrix3 = new THREE.Matrix3()): THREE.Matrix3 {
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    return target.set(1, 0, 0, 0, c, s, 0, -s, c);
+}
+
+/**
+ * Passive rotation about the Y axis
+ */
+export function rot2(angle: number, target: THREE.Matrix3 = new THREE.Matrix3()): THREE.Matrix3 {
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    return target.set(c, 0, -s, 0, 1, 0, s, 0, c);
+}
+
+/**
+ * Passive rotation about the Z axis
+ */
+export function rot3(angle: number, target: THREE.Matrix3 = new THREE.Matrix3()): THREE.Matrix3 {
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    return target.set(c, s, 0, -s, c, 0, 0, 0, 1);
+}
+
+/**
+ * Greenwich Mean Sidereal Time (IAU 1982)
+ * @param jdUT1 Julian Date on the UT1 scale
+ * @returns GMST in radians [0, 2*PI)
+ */
+export function greenwichMeanSiderealTime(jdUT1: number): number {
+    const t = julianCenturies(jdUT1);
+    const seconds = 67310.54841 + (876600 * 3600 + 8640184.812866) * t + 0.093104 * t * t - 6.2e-6 * t * t * t;
+    // 240 seconds of time per degree
+    return normalizeAngle(degreesToRadians((seconds % 86400) / 240));
+}
+
+/**
+ * Nutation angles using the dominant IAU-1980 terms (Meeus, ~0.5" accuracy)
+ * @param tTT Julian centuries since J2000 on the TT scale
+ */
+export function nutationAngles(tTT: number): NutationAngles {
+    const omega = degreesToRadians(125.04452 - 1934.136261 * tTT);
+    const sunLongitude = degreesToRadians(280.4665 + 36000.7698 * tTT);
+    const moonLongitude = degreesToRadians(218.3165 + 481267.8813 * tTT);
+
+    const dPsi =
+        (-17.2 * Math.sin(omega) - 1.32 * Math.sin(2 * sunLongitude) - 0.23 * Math.sin(2 * moonLongitude) + 0.21 * Math.sin(2 * omega)) *
+        ARCSEC_TO_RAD;
+    const dEps =
+        (9.2 * Math.cos(omega) + 0.57 * Math.cos(2 * sunLongitude) + 0.1 * Math.cos(2 * moonLongitude) - 0.09 * Math.cos(2 * omega)) *
+        ARCSEC_TO_RAD;
+
+    const meanObliquity = (84381.448 - 46.815 * tTT - 0.00059 * tTT * tTT + 0.001813 * tTT * tTT * tTT) * ARCSEC_TO_RAD;
+
+    return {
+        dPsi,
+        dEps,
+        meanObliquity,
+        trueObliquity: meanObliquity + dEps,
+    };
+}
+
+/**
+ * Equation of the equinoxes (GAST - GMST) in radians
+ */
+export function equationOfEquinoxes(nutation: NutationAngles): number {
+    return nutation.dPsi * Math.cos(nutation.meanObliquity);
+}
+
+/**
+ * IAU-76 precession: Mean-of-Date -> J2000
+ * @param tTT Julian centuries since J2000 on the TT scale
+ */
+export function precessionMatrix(tTT: number, target: THREE.Matrix3 = new THREE.Matrix3()): THREE.Matrix3 {
+    const t2 = tTT * tTT;
+    const t3 = t2 * tTT;
+
+    const zeta = (2306.2181 * tTT + 0.30188 * t2 + 0.017998 * t3) * ARCSEC_TO_RAD;
+    const theta = (2004.3109 * tTT - 0.42665 * t2 - 0.041833 * t3) * ARCSEC_TO_RAD;
+    const z = (2306.2181 * tTT + 1.09468 * t2 + 0.018203 * t3) * ARCSEC_TO_RAD;
+
+    // P = ROT3(zeta) * ROT2(-theta) * ROT3(z)
+    return rot3(zeta, target).multiply(rot2(-theta)).multiply(rot3(z));
+}
+
+/**
+ * IAU-80 nutation: True-of-Date -> Mean-of-Date
+ */
+export function nutationMatrix(nutation: NutationAngles, target: THREE.Matrix3 = new THREE.Matrix3()): THREE.Matrix3 {
+    // N = ROT1(-meanObliquity) * ROT3(dPsi) * ROT1(trueObliquity)
+    return rot1(-nutation.meanObliquity, target).multiply(rot3(nutation.dPsi)).multiply(rot1(nutation.trueObliquity));
+}
+
+/**
+ * Convert geodetic coordinates to ECEF (WGS84)
+ * @param lat Latitude in degrees
+ * @param lon Longitude in degrees
+ * @param alt Altitude above the ellipsoid in km
+ * @returns ECEF position in km
+ */
+export function geodeticToECEF(lat: number, lon: number, alt: number): { x: number; y: number; z: number } {
+    const e2 = 2 * WGS84_F - WGS84_F * WGS84_F;
+
+    const latRad = degreesToRadians(lat);
+    const lonRad = degreesToRadians(lon);
+    const sinLat = Math.sin(latRad);
+
+    // Radius of curvature in the prime vertical
+    const N = WGS84_A / Math.sqrt(1 - e2 * sinLat * sinLat);
+
+    return {
+        x: (N + alt) * Math.cos(latRad) * Math.cos(lonRad),
+        y: (N + alt) * Math.cos(latRad) * Math.sin(lonRad),
+        z: (N * (1 - e2) + alt) * sinLat,
+    };
+}
+
+/**
+ * Convert an ECEF position to geodetic coordinates (WGS84, iterative)
+ * @returns Latitude/longitude in degrees, altitude in km
+ */
+export function ecefToGeodetic(x: number, y: number, z: number): { lat: number; lon: number; alt: number } {
+    const e2 = 2 * WGS84_F - WGS84_F * WGS84_F;
+    const p = Math.sqrt(x * x + y * y);
+    const lon = Math.atan2(y, x);
+
+    let lat = Math.atan2(z, p * (1 - e2));
+    let alt = 0;
+
+    for (let i = 0; i < 5; i++) {
+        const sinLat = Math.sin(lat);
+        const N = WGS84_A / Math.sqrt(1 - e2 * sinLat * sinLat);
+        // Stable at the poles, unlike p / cos(lat) - N
+        alt = p * Math.cos(lat) + z * sinLat - (WGS84_A * WGS84_A) / N;
+        lat = Math.atan2(z, p * (1 - (e2 * N) / (N + alt)));
+    }
+
+    return {
+        lat: (lat * 180) / Math.PI,
+        lon: (lon * 180) / Math.PI,
+        alt,
+    };
+}
@@ -0,0 +1,42 @@
+// Render-space entity positions for screen-space systems (labels, LOD)
+
+import type * as THREE from "three";
+import type { EntityId, IEngine, IFrameConversionService, PositionComponent, TransformComponent } from "../types";
+import { ComponentType, ReferenceFrame } from "../types";
+import type { InstancedSatelliteSystem } from "../systems/InstancedSatelliteSystem";
+
+/**
+ * Current render-space position: instanced position buffer, then transform, then the position converted to the render frame
+ * @param instanced Looked up once per frame by the caller; instanced satellites' position components are not kept current
+ * @returns false if the entity has no position at all
+ */
+export function readRenderPosition(
+    engine: IEngine,
+    entity: EntityId,
+    instanced: InstancedSatelliteSystem | undefined,
+    frameService: IFrameConversionService | null,
+    target: THREE.Vector3
+): boolean {
+    const index = instanced?.getEntityIndex(entity);
+    if (instanced && index !== undefined && index >= 0) {
+        const positions = instanced.getPositionArray();
+        target.set(positions[index * 3], positions[index * 3 + 1], positions[index * 3 + 2]);
+        return true;
+    }
+
+    const transform = engine.getComponent<TransformComponent>(entity, ComponentType.TRANSFORM);
+    if (transform) {
+        target.setFromMatrixPosition(transform.matrix);
+        return true;
+    }
+
+    const position = engine.getComponent<PositionComponent>(entity, ComponentType.POSITION);
+    if (!position) return false;
+
+    if (position.frame === ReferenceFrame.RENDER || !frameService) {
+        target.set(position.x, position.y, position.z);
+    } else {
+        frameService.convert(position, position.frame, ReferenceFrame.RENDER, undefined, target);
+    }
+    return true;
+}
@@ -0,0 +1,191 @@
+// Sensor field-of-view geometry: containment tests, boundary rays and globe footprints
+// Directions are in the sensor frame (+Z boresight) unless noted; FOV edges are straight lines in the Z = 1 tangent plane
+
+import type { SensorComponent } from "../types";
+import { SensorShape } from "../types";
+import { degreesToRadians } from "./OrbitalMath";
+
+type Vec3 = [number, number, number];
+
+/**
+ * Tangent-plane outline of a rectangular or polygonal FOV, in order
+ */
+function tangentOutline(sensor: SensorComponent): [number, number][] {
+    if (sensor.shape === SensorShape.RECTANGULAR) {
+        const w = Math.tan(degreesToRadians(sensor.halfWidth ?? 10));
+        const h = Math.tan(degreesToRadians(sensor.halfHeight ?? 10));
+        return [
+            [w, h],
+            [-w, h],
+            [-w, -h],
+            [w, -h],
+        ];
+    }
+
+    return (sensor.polygon ?? []).map(([x, y]) => [Math.tan(degreesToRadians(x)), Math.tan(degreesToRadians(y))]);
+}
+
+/**
+ * Whether a sensor-frame direction (need not be normalized) lies inside the FOV
+ */
+export function isDirectionInFieldOfView(sensor: SensorComponent, x: number, y: number, z: number): boolean {
+    if (z <= 0) return false;
+
+    if (sensor.shape === SensorShape.CONIC) {
+        const halfAngle = degreesToRadians(sensor.halfAngle ?? 10);
+        return Math.atan2(Math.sqrt(x * x + y * y), z) <= halfAngle;
+    }
+
+    if (sensor.shape === SensorShape.RECTANGULAR) {
+        return Math.abs(x / z) <= Math.tan(degreesToRadians(sensor.halfWidth ?? 10)) && Math.abs(y / z) <= Math.tan(degreesToRadians(sensor.halfHeight ?? 10));
+    }
+
+    // Even-odd rule in the tangent plane
+    const outline = tangentOutline(sensor);
+    const px = x / z;
+    const py = y / z;
+    let inside = false;
+    for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+        const [xi, yi] = outline[i];
+        const [xj, yj] = outline[j];
+        if (yi > py !== yj > py && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+/**
+ * Unit directions around the FOV edge (sensor frame), closed loop order without repeating the first point
+ * @param segments Points for a cone, or points per edge for rectangles and polygons
+ * @param target Array to fill (its entries are reused), so per-frame callers need not allocate
+ */
+export function fieldOfViewBoundary(sensor: SensorComponent, segments: number = 64, target: Vec3[] = []): Vec3[] {
+    let count = 0;
+    const write = (x: number, y: number, z: number): void => {
+        const direction = target[count];
+        if (direction) {
+            direction[0] = x;
+            direction[1] = y;
+            direction[2] = z;
+        } else {
+            target[count] = [x, y, z];
+        }
+        count++;
+    };
+
+    if (sensor.shape === SensorShape.CONIC) {
+        const halfAngle = degreesToRadians(sensor.halfAngle ?? 10);
+        const sin = Math.sin(halfAngle);
+        const cos = Math.cos(halfAngle);
+        for (let i = 0; i < segments; i++) {
+            const azimuth = (2 * Math.PI * i) / segments;
+            write(sin * Math.cos(azimuth), sin * Math.sin(azimuth), cos);
+        }
+        target.length = count;
+        return target;
+    }
+
+    const outline = tangentOutline(sensor);
+    const perEdge = Math.max(1, Math.round(segments / Math.max(outline.length, 1)));
+    for (let i = 0; i < outline.length; i++) {
+        const [x0, y0] = outline[i];
+        const [x1, y1] = outline[(i + 1) % outline.length];
+        for (let k = 0; k < perEdge; k++) {
+            const f = k / perEdge;
+            const x = x0 + (x1 - x0) * f;
+            const y = y0 + (y1 - y0) * f;
+            const length = Math.sqrt(x * x + y * y + 1);
+            write(x / length, y / length, 1 / length);
+        }
+    }
+    target.length = count;
+    return target;
+}
+
+/**
+ * Distance along a ray to its first intersection with a centred sphere, or null if it misses
+ */
+export function raySphereIntersection(origin: Vec3, direction: Vec3, radius: number): number | null {
+    const b = origin[0] * direction[0] + origin[1] * direction[1] + origin[2] * direction[2];
+    const c = origin[0] * origin[0] + origin[1] * origin[1] + origin[2] * origin[2] - radius * radius;
+    const discriminant = b * b - c;
+    if (discriminant < 0) return null;
+
+    const t = -b - Math.sqrt(discriminant);
+    return t >= 0 ? t : null;
+}
+
+/**
+ * Whether the straight segment between two points clears a centred sphere
+ */
+export function isLineOfSightClear(a: Vec3, b: Vec3, radius: number): boolean {
+    const dx = b[0] - a[0];
+    const dy = b[1] - a[1];
+    const dz = b[2] - a[2];
+    const lengthSq = dx * dx + dy * dy + dz * dz;
+    if (lengthSq === 0) return true;
+
+    // Closest point of the segment to the centre
+    const t = Math.max(0, Math.min(1, -(a[0] * dx + a[1] * dy + a[2] * dz) / lengthSq));
+    const cx = a[0] + dx * t;
+    const cy = a[1] + dy * t;
+    const cz = a[2] + dz * t;
+    return cx * cx + cy * cy + cz * cz >= radius * radius;
+}
+
+/**
+ * Ground point of a boundary ray: where it meets the globe, its distance from the origin, and whether it hit the sphere
+ */
+export interface FootprintPoint {
+    point: Vec3;
+    distance: number;
+    hit: boolean;
+}
+
+/**
+ * Where a ray meets the globe, clipped to the horizon: rays that miss the sphere land on the limb in their own azimuth
+ * @param target Result to fill, so per-frame callers need not allocate
+ */
+export function footprintPoint(
+    origin: Vec3,
+    direction: Vec3,
+    radius: number,
+    target: FootprintPoint = { point: [0, 0, 0], distance: 0, hit: false }
+): FootprintPoint {
+    const point = target.point;
+    const hit = raySphereIntersection(origin, direction, radius);
+    if (hit !== null) {
+        point[0] = origin[0] + direction[0] * hit;
+        point[1] = origin[1] + direction[1] * hit;
+        point[2] = origin[2] + direction[2] * hit;
+        target.distance = hit;
+        target.hit = true;
+        return target;
+    }
+
+    const r = Math.sqrt(origin[0] * origin[0] + origin[1] * origin[1] + origin[2] * origin[2]);
+    const ox = origin[0] / r;
+    const oy = origin[1] / r;
+    const oz = origin[2] / r;
+
+    // Horizontal part of the ray picks the azimuth; straight up/down has none, so any horizontal axis will do
+    const along = direction[0] * ox + direction[1] * oy + direction[2] * oz;
+    let px = direction[0] - along * ox;
+    let py = direction[1] - along * oy;
+    let pz = direction[2] - along * oz;
+    let length = Math.sqrt(px * px + py * py + pz * pz);
+    if (length < 1e-12) {
+        [px, py, pz] = Math.abs(oz) < 0.9 ? [-oy, ox, 0] : [0, -oz, oy];
+        length = Math.sqrt(px * px + py * py + pz * pz);
+    }
+
+    const cosLimb = Math.min(1, radius / r);
+    const sinLimb = Math.sqrt(1 - cosLimb * cosLimb);
+    point[0] = radius * (cosLimb * ox + (sinLimb * px) / length);
+    point[1] = radius * (cosLimb * oy + (sinLimb * py) / length);
+    point[2] = radius * (cosLimb * oz + (sinLimb * pz) / length);
+    target.distance = Math.hypot(point[0] - origin[0], point[1] - origin[1], point[2] - origin[2]);
+    target.hit = false;
+    return target;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import * as satellite from "satellite.js";
+import { fitTLEToEphemeris, fitTLEToState } from "./TLEFitting";
+import { parseTLEFields } from "./TLEFormat";
+import { validateTLELines } from "./TLEValidation";
+import type { EphemerisSample } from "../propagators/EphemerisPropagator";
+
+// ISS element set from the satellite.js documentation
+const iss = {
+    line1: "1 25544U 98067A   08264.51782528 -.00002182  00000-0 -11606-4 0  2927",
+    line2: "2 25544  51.6416 247.4627 0006703 130.5360 325.0288 15.72125391563537",
+};
+
+// A day of SGP4 states from the known TLE, every 10 minutes (TEME)
+function sgp4Samples(): EphemerisSample[] {
+    const satrec = satellite.twoline2satrec(iss.line1, iss.line2);
+    const epoch = parseTLEFields(iss).epoch;
+    const samples: EphemerisSample[] = [];
+    for (let minutes = 0; minutes <= 1440; minutes += 10) {
+        const state = satellite.sgp4(satrec, minutes);
+        if (!state?.position || !state.velocity) throw new Error("SGP4 failed");
+        samples.push({
+            time: epoch + minutes * 60000,
+            position: [state.position.x, state.position.y, state.position.z],
+            velocity: [state.velocity.x, state.velocity.y, state.velocity.z],
+        });
+    }
+    return samples;
+}
+
+// Columns 9-63 of line 2: inclination, RAAN, eccentricity, argument of perigee, mean anomaly, mean motion
+const meanElements = (line2: string) => line2.slice(8, 63);
+
+describe("TLEFitting", () => {
+    it("recovers the mean elements of a known TLE from its state at epoch", () => {
+        const [sample] = sgp4Samples();
+        const result = fitTLEToState({ epoch: sample.time, position: sample.position, velocity: sample.velocity! }, { catalogNumber: 25544 });
+
+        expect(result.converged).toBe(true);
+        expect(meanElements(result.tle.line2)).toBe(meanElements(iss.line2));
+        expect(result.rmsPosition).toBeLessThan(1e-3);
+        expect(validateTLELines(result.tle.line1, result.tle.line2).valid).toBe(true);
+    });
+
+    it("recovers the mean elements and BSTAR of a known TLE from a day of ephemeris", () => {
+        const result = fitTLEToEphemeris(sgp4Samples(), { catalogNumber: 25544, fitBStar: true });
+
+        expect(result.converged).toBe(true);
+        expect(meanElements(result.tle.line2)).toBe(meanElements(iss.line2));
+        expect(result.tle.line1.slice(53, 61)).toBe(iss.line1.slice(53, 61));
+        expect(result.maxPosition).toBeLessThan(1e-2);
+    });
+
+    it("fits position-only samples to within a few hundred metres", () => {
+        const samples = sgp4Samples().map(({ time, position }) => ({ time, position }));
+        const result = fitTLEToEphemeris(samples, { epoch: samples[72].time });
+
+        expect(result.converged).toBe(true);
+        expect(Number.isNaN(result.rmsVelocity)).toBe(true);
+        expect(result.maxPosition).toBeLessThan(0.3);
+    });
+});
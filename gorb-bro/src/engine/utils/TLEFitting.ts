@@ -0,0 +1,509 @@
+// TLE fitting: differential correction of SGP4 mean elements against a state vector or ephemeris points
+// Produces a checksummed TLE whose SGP4 propagation reproduces the observed trajectory, plus fit residuals
+
+import * as satellite from "satellite.js";
+import type { IFrameConversionService, TLE } from "../types";
+import { ReferenceFrame } from "../types";
+import { EphemerisPropagator, type EphemerisSample } from "../propagators/EphemerisPropagator";
+import { ZonalHarmonicsForce } from "../propagators/ForceModels";
+import { NumericalPropagator } from "../propagators/NumericalPropagator";
+import { cartesianToKeplerian, normalizeAngle } from "./OrbitalMath";
+import { formatTLE, parseTLEFields, type TLEElementSet } from "./TLEFormat";
+
+// WGS-72 gravitational parameter used by SGP4 (km^3/s^2)
+const MU_WGS72 = 398600.8;
+
+export interface TLEStateVector {
+    epoch: number; // UTC Unix timestamp in milliseconds
+    position: [number, number, number]; // km
+    velocity: [number, number, number]; // km/s
+}
+
+export interface TLEFitOptions {
+    /**
+     * Frame of the input positions/velocities; anything but TEME needs a frame service
+     * Default: ReferenceFrame.TEME
+     */
+    frame?: ReferenceFrame;
+    frameService?: IFrameConversionService;
+
+    /**
+     * TLE epoch (UTC Unix ms)
+     * Default: the state vector epoch, or the first ephemeris sample
+     */
+    epoch?: number;
+
+    /**
+     * Identification fields written to the TLE
+     * Default: catalog 99999, unclassified, blank designator
+     */
+    catalogNumber?: number;
+    classification?: string;
+    internationalDesignator?: string;
+    name?: string;
+
+    /**
+     * Solve for BSTAR as a seventh parameter; otherwise it is held at `bstar`
+     * Default: false, BSTAR 0
+     */
+    fitBStar?: boolean;
+    bstar?: number;
+
+    /**
+     * State vector fits only: span (ms, centred on the epoch) over which the state is propagated
+     * with zonal harmonics to produce fit points. 0 fits SGP4 to the single state
+     * Default: 0
+     */
+    fitSpan?: number;
+
+    /**
+     * Spacing of generated fit points for a state vector fit (ms)
+     * Default: 60000
+     */
+    sampleStep?: number;
+
+    /**
+     * Weight of velocity residuals relative to position (seconds; km/s * weight compares with km)
+     * Default: 1000
+     */
+    velocityWeight?: number;
+
+    /**
+     * Differential correction limits: iterations and relative change in the weighted RMS
+     * Default: 50 and 1e-8
+     */
+    maxIterations?: number;
+    tolerance?: number;
+}
+
+export interface TLEFitResidual {
+    time: number; // UTC Unix ms
+    position: number; // Position error of the fitted TLE (km)
+    velocity?: number; // Velocity error of the fitted TLE (km/s), when the point had a velocity
+}
+
+export interface TLEFitResult {
+    tle: TLE;
+    elements: TLEElementSet;
+    residuals: TLEFitResidual[]; // TEME, evaluated with the formatted (rounded) TLE
+    rmsPosition: number; // km
+    rmsVelocity: number; // km/s (NaN when no velocities were fitted)
+    maxPosition: number; // km
+    iterations: number;
+    converged: boolean;
+}
+
+/**
+ * Fitted parameters: [n (rad/min), e cos(w), e sin(w), i, RAAN, M + w, BSTAR]
+ * The eccentricity-vector form stays well conditioned for near-circular orbits
+ */
+type FitParameters = Float64Array;
+
+interface FitPoint {
+    tsince: number; // minutes from the TLE epoch
+    time: number;
+    position: [number, number, number];
+    velocity?: [number, number, number];
+}
+
+/**
+ * Fit a TLE to a single state vector, optionally extended over a span by numerical propagation
+ */
+export function fitTLEToState(state: TLEStateVector, options: TLEFitOptions = {}): TLEFitResult {
+    const teme = toTEME([{ time: state.epoch, position: state.position, velocity: state.velocity }], options)[0];
+    const epoch = options.epoch ?? state.epoch;
+    const span = options.fitSpan ?? 0;
+
+    if (span <= 0) {
+        return fitTLE([teme], epoch, options);
+    }
+
+    // TEME is treated as inertial over the span; zonal harmonics act about its (true) pole
+    const propagator = new NumericalPropagator(
+        { epoch: state.epoch, forces: [new ZonalHarmonicsForce(4)] },
+        { position: teme.position, velocity: teme.velocity! }
+    );
+
+    const step = options.sampleStep ?? 60000;
+    const count = Math.max(1, Math.round(span / step));
+    const start = state.epoch - (count * step) / 2;
+    const samples: EphemerisSample[] = [];
+    for (let k = 0; k <= count; k++) {
+        const time = start + k * step;
+        const s = propagator.getStateAt(time);
+        samples.push({ time, position: [s[0], s[1], s[2]], velocity: [s[3], s[4], s[5]] });
+    }
+
+    return fitTLE(samples, epoch, options);
+}
+
+/**
+ * Fit a TLE to a set of ephemeris points (velocities are used when present)
+ */
+export function fitTLEToEphemeris(samples: EphemerisSample[], options: TLEFitOptions = {}): TLEFitResult {
+    if (samples.length < 3) {
+        throw new Error("TLE fit needs at least three ephemeris points");
+    }
+
+    const teme = toTEME(samples, options).sort((a, b) => a.time - b.time);
+    return fitTLE(teme, options.epoch ?? teme[0].time, options);
+}
+
+/**
+ * Rotate input samples into TEME
+ */
+function toTEME(samples: EphemerisSample[], options: TLEFitOptions): EphemerisSample[] {
+    const frame = options.frame ?? ReferenceFrame.TEME;
+    if (frame === ReferenceFrame.TEME) {
+        return samples.map((sample) => ({ ...sample }));
+    }
+
+    const frameService = options.frameService;
+    if (!frameService) {
+        throw new Error(`TLE fit from ${frame} requires a frame conversion service`);
+    }
+
+    return samples.map((sample) => {
+        const p = { x: sample.position[0], y: sample.position[1], z: sample.position[2] };
+        const position = frameService.convert(p, frame, ReferenceFrame.TEME, sample.time);
+        const converted: EphemerisSample = { time: sample.time, position: [position.x, position.y, position.z] };
+
+        if (sample.velocity) {
+            const v = { vx: sample.velocity[0], vy: sample.velocity[1], vz: sample.velocity[2] };
+            const velocity = frameService.convertVelocity(v, p, frame, ReferenceFrame.TEME, sample.time);
+            converted.velocity = [velocity.vx, velocity.vy, velocity.vz];
+        }
+        return converted;
+    });
+}
+
+/**
+ * Differential correction (Levenberg-Marquardt) of SGP4 mean elements against TEME points
+ */
+function fitTLE(samples: EphemerisSample[], epoch: number, options: TLEFitOptions): TLEFitResult {
+    const fitBStar = options.fitBStar ?? false;
+    const velocityWeight = options.velocityWeight ?? 1000;
+    const maxIterations = options.maxIterations ?? 50;
+    const tolerance = options.tolerance ?? 1e-8;
+    const parameterCount = fitBStar ? 7 : 6;
+
+    const points: FitPoint[] = samples.map((sample) => ({
+        tsince: (sample.time - epoch) / 60000,
+        time: sample.time,
+        position: sample.position,
+        velocity: sample.velocity,
+    }));
+
+    const residualCount = points.reduce((sum, point) => sum + (point.velocity ? 6 : 3), 0);
+    if (residualCount < parameterCount) {
+        throw new Error("TLE fit has fewer observations than parameters");
+    }
+
+    const template: TLEElementSet = {
+        name: options.name,
+        catalogNumber: options.catalogNumber ?? 99999,
+        classification: options.classification ?? "U",
+        internationalDesignator: options.internationalDesignator ?? "",
+        epoch,
+        meanMotionDot: 0,
+        meanMotionDdot: 0,
+        bstar: options.bstar ?? 0,
+        ephemerisType: 0,
+        elementSetNumber: 999,
+        inclination: 0,
+        raan: 0,
+        eccentricity: 0,
+        argumentOfPerigee: 0,
+        meanAnomaly: 0,
+        meanMotion: 0,
+        revolutionNumber: 0,
+    };
+
+    let x = initialGuess(samples, epoch, template.bstar);
+    const residuals = new Float64Array(residualCount);
+    let cost = evaluate(x, template, points, velocityWeight, residuals);
+    if (!isFinite(cost)) {
+        throw new Error("TLE fit initial guess does not propagate with SGP4");
+    }
+
+    const jacobian = new Float64Array(residualCount * parameterCount);
+    const trial = new Float64Array(residualCount);
+    const perturbed = new Float64Array(residualCount);
+    let lambda = 1e-3;
+    let iterations = 0;
+    let converged = false;
+
+    while (iterations < maxIterations && !converged) {
+        iterations++;
+
+        // Forward-difference Jacobian of the residuals
+        for (let j = 0; j < parameterCount; j++) {
+            const delta = parameterStep(j, x);
+            const xj = new Float64Array(x);
+            xj[j] += delta;
+            evaluate(xj, template, points, velocityWeight, perturbed);
+            for (let k = 0; k < residualCount; k++) {
+                jacobian[k * parameterCount + j] = (perturbed[k] - residuals[k]) / delta;
+            }
+        }
+
+        // Normal equations J^T J dx = -J^T r
+        const normal = new Float64Array(parameterCount * parameterCount);
+        const gradient = new Float64Array(parameterCount);
+        for (let k = 0; k < residualCount; k++) {
+            for (let a = 0; a < parameterCount; a++) {
+                const ja = jacobian[k * parameterCount + a];
+                gradient[a] -= ja * residuals[k];
+                for (let b = 0; b < parameterCount; b++) {
+                    normal[a * parameterCount + b] += ja * jacobian[k * parameterCount + b];
+                }
+            }
+        }
+
+        // Raise damping until a step lowers the cost
+        let improved = false;
+        while (lambda < 1e12) {
+            const damped = new Float64Array(normal);
+            for (let a = 0; a < parameterCount; a++) {
+                damped[a * parameterCount + a] *= 1 + lambda;
+            }
+
+            const step = solveLinearSystem(damped, gradient, parameterCount);
+            const candidate = new Float64Array(x);
+            for (let a = 0; a < parameterCount; a++) {
+                candidate[a] += step[a];
+            }
+
+            const candidateCost = evaluate(candidate, template, points, velocityWeight, trial);
+            if (candidateCost < cost) {
+                converged = (cost - candidateCost) / cost < tolerance;
+                x = candidate;
+                cost = candidateCost;
+                residuals.set(trial);
+                lambda = Math.max(lambda / 10, 1e-12);
+                improved = true;
+                break;
+            }
+            lambda *= 10;
+        }
+
+        // No step reduces the cost: the fit is at its minimum
+        if (!improved) {
+            converged = true;
+        }
+    }
+
+    // Residuals are reported for the TLE as written, with its rounded fields
+    const tle = formatTLE(toElements(x, template));
+    const elements = parseTLEFields(tle);
+    if (options.name) {
+        elements.name = options.name;
+    }
+    const satrec = satellite.twoline2satrec(tle.line1, tle.line2);
+
+    const fitResiduals: TLEFitResidual[] = [];
+    let sumPosition = 0;
+    let sumVelocity = 0;
+    let velocityCount = 0;
+    let maxPosition = 0;
+
+    for (const point of points) {
+        // The written epoch is rounded to 1e-8 days, so measure time from it
+        const result = satellite.sgp4(satrec, (point.time - elements.epoch) / 60000);
+        if (!result || typeof result.position !== "object") {
+            throw new Error(`Fitted TLE does not propagate at ${new Date(point.time).toISOString()}`);
+        }
+
+        const p = result.position;
+        const position = Math.hypot(p.x - point.position[0], p.y - point.position[1], p.z - point.position[2]);
+        const residual: TLEFitResidual = { time: point.time, position };
+        sumPosition += position * position;
+        maxPosition = Math.max(maxPosition, position);
+
+        if (point.velocity) {
+            const v = result.velocity;
+            residual.velocity = Math.hypot(v.x - point.velocity[0], v.y - point.velocity[1], v.z - point.velocity[2]);
+            sumVelocity += residual.velocity * residual.velocity;
+            velocityCount++;
+        }
+
+        fitResiduals.push(residual);
+    }
+
+    return {
+        tle,
+        elements,
+        residuals: fitResiduals,
+        rmsPosition: Math.sqrt(sumPosition / points.length),
+        rmsVelocity: velocityCount > 0 ? Math.sqrt(sumVelocity / velocityCount) : NaN,
+        maxPosition,
+        iterations,
+        converged,
+    };
+}
+
+/**
+ * Osculating elements at the epoch as the starting point (interpolated from the points)
+ */
+function initialGuess(samples: EphemerisSample[], epoch: number, bstar: number): FitParameters {
+    let position: [number, number, number];
+    let velocity: [number, number, number];
+
+    if (samples.length === 1) {
+        position = samples[0].position;
+        velocity = samples[0].velocity!;
+    } else {
+        const interpolation = samples.every((sample) => sample.velocity) ? "hermite" : "lagrange";
+        const ephemeris = new EphemerisPropagator(samples, { interpolation, outOfCoverage: "clamp" });
+        const state = ephemeris.propagate({ position: [0, 0, 0], velocity: [0, 0, 0] }, epoch);
+        position = [state.position.x, state.position.y, state.position.z];
+        velocity = [state.velocity!.vx, state.velocity!.vy, state.velocity!.vz];
+    }
+
+    const k = cartesianToKeplerian(position, velocity, MU_WGS72);
+    const meanMotion = Math.sqrt(MU_WGS72 / (k.a * k.a * k.a)) * 60;
+
+    return new Float64Array([
+        meanMotion,
+        k.e * Math.cos(k.omega),
+        k.e * Math.sin(k.omega),
+        k.i,
+        k.Omega,
+        k.M + k.omega,
+        bstar,
+    ]);
+}
+
+/**
+ * Finite-difference step per parameter
+ */
+function parameterStep(index: number, x: FitParameters): number {
+    // Mean motion is scaled by its size; angles, eccentricity-vector terms and BSTAR take a fixed step
+    return index === 0 ? x[0] * 1e-7 : 1e-7;
+}
+
+/**
+ * Fit parameters to TLE fields (degrees, rev/day)
+ */
+function toElements(x: FitParameters, template: TLEElementSet): TLEElementSet {
+    const eccentricity = Math.hypot(x[1], x[2]);
+    const argumentOfPerigee = eccentricity > 0 ? Math.atan2(x[2], x[1]) : 0;
+
+    // Keep the inclination in [0, pi]; a negative one is the same plane with the node flipped
+    let inclination = normalizeAngle(x[3]);
+    let raan = x[4];
+    if (inclination > Math.PI) {
+        inclination = 2 * Math.PI - inclination;
+        raan += Math.PI;
+    }
+
+    const toDegrees = 180 / Math.PI;
+    return {
+        ...template,
+        bstar: x[6],
+        inclination: inclination * toDegrees,
+        raan: normalizeAngle(raan) * toDegrees,
+        eccentricity,
+        argumentOfPerigee: normalizeAngle(argumentOfPerigee) * toDegrees,
+        meanAnomaly: normalizeAngle(x[5] - argumentOfPerigee) * toDegrees,
+        meanMotion: (x[0] * 1440) / (2 * Math.PI),
+    };
+}
+
+/**
+ * Weighted residuals (observed - SGP4) into `out`; returns the sum of squares, or Infinity if SGP4 fails
+ */
+function evaluate(x: FitParameters, template: TLEElementSet, points: FitPoint[], velocityWeight: number, out: Float64Array): number {
+    const elements = toElements(x, template);
+    if (!(elements.eccentricity < 0.999) || !(elements.meanMotion > 0)) {
+        return Infinity;
+    }
+
+    const satrec = satellite.json2satrec({
+        OBJECT_NAME: elements.name ?? "",
+        OBJECT_ID: elements.internationalDesignator,
+        EPOCH: new Date(elements.epoch).toISOString(),
+        MEAN_MOTION: elements.meanMotion,
+        ECCENTRICITY: elements.eccentricity,
+        INCLINATION: elements.inclination,
+        RA_OF_ASC_NODE: elements.raan,
+        ARG_OF_PERICENTER: elements.argumentOfPerigee,
+        MEAN_ANOMALY: elements.meanAnomaly,
+        NORAD_CAT_ID: elements.catalogNumber,
+        ELEMENT_SET_NO: elements.elementSetNumber,
+        BSTAR: elements.bstar,
+        MEAN_MOTION_DOT: 0,
+        MEAN_MOTION_DDOT: 0,
+    });
+    if (satrec.error !== 0) {
+        return Infinity;
+    }
+
+    let sum = 0;
+    let k = 0;
+    for (const point of points) {
+        const result = satellite.sgp4(satrec, point.tsince);
+        if (!result || typeof result.position !== "object" || satrec.error !== 0) {
+            return Infinity;
+        }
+
+        const p = result.position;
+        out[k++] = point.position[0] - p.x;
+        out[k++] = point.position[1] - p.y;
+        out[k++] = point.position[2] - p.z;
+
+        if (point.velocity) {
+            const v = result.velocity;
+            out[k++] = (point.velocity[0] - v.x) * velocityWeight;
+            out[k++] = (point.velocity[1] - v.y) * velocityWeight;
+            out[k++] = (point.velocity[2] - v.z) * velocityWeight;
+        }
+    }
+
+    for (let i = 0; i < out.length; i++) {
+        sum += out[i] * out[i];
+    }
+    return sum;
+}
+
+/**
+ * Solve a small dense system by Gaussian elimination with partial pivoting
+ */
+function solveLinearSystem(matrix: Float64Array, rhs: Float64Array, n: number): Float64Array {
+    const a = new Float64Array(matrix);
+    const b = new Float64Array(rhs);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row * n + col]) > Math.abs(a[pivot * n + col])) pivot = row;
+        }
+        if (pivot !== col) {
+            for (let k = 0; k < n; k++) {
+                [a[col * n + k], a[pivot * n + k]] = [a[pivot * n + k], a[col * n + k]];
+            }
+            [b[col], b[pivot]] = [b[pivot], b[col]];
+        }
+
+        const diagonal = a[col * n + col];
+        if (diagonal === 0) continue;
+        for (let row = col + 1; row < n; row++) {
+            const factor = a[row * n + col] / diagonal;
+            for (let k = col; k < n; k++) {
+                a[row * n + k] -= factor * a[col * n + k];
+            }
+            b[row] -= factor * b[col];
+        }
+    }
+
+    const x = new Float64Array(n);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = b[row];
+        for (let k = row + 1; k < n; k++) {
+            sum -= a[row * n + k] * x[k];
+        }
+        const diagonal = a[row * n + row];
+        x[row] = diagonal === 0 ? 0 : sum / diagonal;
+    }
+    return x;
+}
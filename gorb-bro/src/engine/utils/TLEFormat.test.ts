@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import gpText from "../../assets/gp.txt?raw";
+import { formatTLE, parseTLEFields } from "./TLEFormat";
+import type { TLE } from "../types";
+
+function fixtureTLEs(): TLE[] {
+    const lines = gpText.split(/\r?\n/).filter((line) => line.trim().length > 0);
+    const tles: TLE[] = [];
+    for (let i = 0; i < lines.length - 1; i++) {
+        if (lines[i].startsWith("1 ") && lines[i + 1].startsWith("2 ")) {
+            tles.push({ name: i > 0 ? lines[i - 1].trim() : "", line1: lines[i].trimEnd(), line2: lines[i + 1].trimEnd() });
+            i++;
+        }
+    }
+    return tles;
+}
+
+describe("TLEFormat", () => {
+    it("round-trips every element set in gp.txt unchanged", () => {
+        const tles = fixtureTLEs();
+        expect(tles.length).toBeGreaterThan(1000);
+
+        const changed = tles.filter((tle) => {
+            const formatted = formatTLE(parseTLEFields(tle));
+            return formatted.line1 !== tle.line1 || formatted.line2 !== tle.line2;
+        });
+        expect(changed.map((tle) => tle.line1)).toEqual([]);
+    });
+
+    it("writes zero exponent fields as 00000+0", () => {
+        const [tle] = fixtureTLEs();
+        const formatted = formatTLE({ ...parseTLEFields(tle), meanMotionDdot: 0, bstar: 0 });
+        expect(formatted.line1.slice(44, 61)).toBe(" 00000+0  00000+0");
+    });
+});
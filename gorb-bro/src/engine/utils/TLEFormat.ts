@@ -0,0 +1,231 @@
+// TLE field formatting and column parsing (NORAD two-line element set layout)
+
+/**
+ * A two-line element set as text (re-exported from types; declared here so the TLE utilities have no engine imports
+ * and can be shared with the test-three and satellite-viz prototypes)
+ */
+export interface TLE {
+    line1: string;
+    line2: string;
+    name?: string;
+}
+
+/**
+ * Decoded fields of a two-line element set
+ * Angles are in degrees and mean motion in revolutions per day, as in the TLE itself
+ */
+export interface TLEElementSet {
+    name?: string;
+    catalogNumber: number;
+    classification: string; // "U", "C" or "S"
+    internationalDesignator: string; // e.g. "98067A"
+    epoch: number; // UTC Unix timestamp in milliseconds
+    meanMotionDot: number; // First derivative of mean motion / 2 (rev/day^2)
+    meanMotionDdot: number; // Second derivative of mean motion / 6 (rev/day^3)
+    bstar: number; // Drag term (1/earth radii)
+    ephemerisType: number;
+    elementSetNumber: number;
+    inclination: number; // deg
+    raan: number; // deg
+    eccentricity: number;
+    argumentOfPerigee: number; // deg
+    meanAnomaly: number; // deg
+    meanMotion: number; // rev/day
+    revolutionNumber: number;
+}
+
+// Alpha-5 letters skip I and O to avoid confusion with digits
+const ALPHA5_LETTERS = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+
+/**
+ * TLE line checksum: sum of digits plus one per minus sign, modulo 10 (over the first 68 columns)
+ */
+export function computeTLEChecksum(line: string): number {
+    let sum = 0;
+    for (let i = 0; i < Math.min(68, line.length); i++) {
+        const char = line[i];
+        if (char >= "0" && char <= "9") {
+            sum += char.charCodeAt(0) - 48;
+        } else if (char === "-") {
+            sum += 1;
+        }
+    }
+    return sum % 10;
+}
+
+/**
+ * Encode a catalog number into the 5-column field (Alpha-5 above 99999)
+ */
+export function encodeCatalogNumber(catalogNumber: number): string {
+    if (catalogNumber < 0 || catalogNumber > 339999 || !Number.isInteger(catalogNumber)) {
+        throw new Error(`Catalog number ${catalogNumber} cannot be represented in a TLE`);
+    }
+    if (catalogNumber <= 99999) {
+        return catalogNumber.toString().padStart(5, "0");
+    }
+    const leading = Math.floor(catalogNumber / 10000);
+    return ALPHA5_LETTERS[leading - 10] + (catalogNumber % 10000).toString().padStart(4, "0");
+}
+
+/**
+ * Decode a 5-column catalog field (plain digits or Alpha-5)
+ * @returns NaN when the field is not a valid catalog number
+ */
+export function decodeCatalogNumber(field: string): number {
+    const value = field.trim();
+    if (/^\d{1,5}$/.test(value)) {
+        return parseInt(value, 10);
+    }
+    if (/^[A-Z]\d{4}$/.test(value)) {
+        const index = ALPHA5_LETTERS.indexOf(value[0]);
+        if (index < 0) return NaN;
+        return (index + 10) * 10000 + parseInt(value.slice(1), 10);
+    }
+    return NaN;
+}
+
+/**
+ * Format a value in the TLE implied-decimal exponent notation (e.g. " 13182-3")
+ */
+function formatExponent(value: number): string {
+    // Zero is written " 00000+0", as in published element sets
+    if (value === 0) return " 00000+0";
+
+    const sign = value < 0 ? "-" : " ";
+    let exponent = Math.floor(Math.log10(Math.abs(value))) + 1;
+    let mantissa = Math.round((Math.abs(value) / Math.pow(10, exponent)) * 100000);
+    if (mantissa >= 100000) {
+        mantissa = Math.round(mantissa / 10);
+        exponent++;
+    }
+    if (exponent < -9) return " 00000+0"; // Below the field's resolution
+    if (exponent > 9) throw new Error(`Value ${value} does not fit the TLE exponent field`);
+
+    return `${sign}${mantissa.toString().padStart(5, "0")}${exponent < 0 ? "-" : "+"}${Math.abs(exponent)}`;
+}
+
+/**
+ * Parse the TLE implied-decimal exponent notation
+ */
+function parseExponent(field: string): number {
+    const value = field.trim();
+    if (value.length === 0) return 0;
+
+    const match = /^([+-]?)(\d+)([+-]\d)$/.exec(value);
+    if (!match) return NaN;
+
+    const mantissa = parseFloat(`0.${match[2]}`);
+    return (match[1] === "-" ? -1 : 1) * mantissa * Math.pow(10, parseInt(match[3], 10));
+}
+
+/**
+ * Format a fixed-point angle/rate field, right aligned
+ */
+function formatFixed(value: number, width: number, decimals: number): string {
+    const formatted = value.toFixed(decimals);
+    if (formatted.length > width) {
+        throw new Error(`Value ${value} does not fit a ${width}-column TLE field`);
+    }
+    return formatted.padStart(width, " ");
+}
+
+/**
+ * Format a UTC timestamp as a TLE epoch (YYDDD.DDDDDDDD)
+ */
+function formatEpoch(epoch: number): string {
+    const date = new Date(epoch);
+    const year = date.getUTCFullYear();
+    const dayOfYear = (epoch - Date.UTC(year, 0, 1)) / 86400000 + 1;
+    const day = dayOfYear.toFixed(8).padStart(12, "0");
+    return `${(year % 100).toString().padStart(2, "0")}${day}`;
+}
+
+/**
+ * Format a first-derivative field (" .00096953" / "-.00000123")
+ */
+function formatMeanMotionDot(value: number): string {
+    const sign = value < 0 ? "-" : " ";
+    const digits = Math.abs(value).toFixed(8);
+    if (Math.abs(value) >= 1) {
+        throw new Error(`Mean motion derivative ${value} does not fit the TLE field`);
+    }
+    return sign + digits.slice(1);
+}
+
+/**
+ * Build checksummed TLE lines from element fields
+ */
+export function formatTLE(elements: TLEElementSet): TLE {
+    const catalog = encodeCatalogNumber(elements.catalogNumber);
+
+    const body1 =
+        `1 ${catalog}${(elements.classification || "U").charAt(0)} ` +
+        `${elements.internationalDesignator.padEnd(8, " ").slice(0, 8)} ` +
+        `${formatEpoch(elements.epoch)} ` +
+        `${formatMeanMotionDot(elements.meanMotionDot)} ` +
+        `${formatExponent(elements.meanMotionDdot)} ` +
+        `${formatExponent(elements.bstar)} ` +
+        `${elements.ephemerisType} ` +
+        `${(elements.elementSetNumber % 10000).toString().padStart(4, " ")}`;
+
+    const eccentricity = Math.round(elements.eccentricity * 1e7);
+    if (eccentricity < 0 || eccentricity > 9999999) {
+        throw new Error(`Eccentricity ${elements.eccentricity} does not fit the TLE field`);
+    }
+
+    const body2 =
+        `2 ${catalog} ` +
+        `${formatFixed(elements.inclination, 8, 4)} ` +
+        `${formatFixed(elements.raan, 8, 4)} ` +
+        `${eccentricity.toString().padStart(7, "0")} ` +
+        `${formatFixed(elements.argumentOfPerigee, 8, 4)} ` +
+        `${formatFixed(elements.meanAnomaly, 8, 4)} ` +
+        `${formatFixed(elements.meanMotion, 11, 8)}` +
+        `${(elements.revolutionNumber % 100000).toString().padStart(5, " ")}`;
+
+    const tle: TLE = {
+        line1: body1 + computeTLEChecksum(body1),
+        line2: body2 + computeTLEChecksum(body2),
+    };
+    if (elements.name) {
+        tle.name = elements.name;
+    }
+    return tle;
+}
+
+/**
+ * Decode TLE lines into element fields by column (no checksum or consistency checks)
+ */
+export function parseTLEFields(tle: TLE): TLEElementSet {
+    const line1 = tle.line1;
+    const line2 = tle.line2;
+
+    // Two-digit years: 57-99 are 1900s, 00-56 are 2000s
+    const twoDigitYear = parseInt(line1.substring(18, 20), 10);
+    const year = twoDigitYear < 57 ? 2000 + twoDigitYear : 1900 + twoDigitYear;
+    const dayOfYear = parseFloat(line1.substring(20, 32));
+
+    const elements: TLEElementSet = {
+        catalogNumber: decodeCatalogNumber(line1.substring(2, 7)),
+        classification: line1.charAt(7),
+        internationalDesignator: line1.substring(9, 17).trim(),
+        epoch: Date.UTC(year, 0, 1) + (dayOfYear - 1) * 86400000,
+        meanMotionDot: parseFloat(line1.substring(33, 43).replace(/^(\s*[+-]?)\./, "$10.")),
+        meanMotionDdot: parseExponent(line1.substring(44, 52)),
+        bstar: parseExponent(line1.substring(53, 61)),
+        ephemerisType: parseInt(line1.charAt(62), 10) || 0,
+        elementSetNumber: parseInt(line1.substring(64, 68), 10) || 0,
+        inclination: parseFloat(line2.substring(8, 16)),
+        raan: parseFloat(line2.substring(17, 25)),
+        eccentricity: parseFloat(`0.${line2.substring(26, 33).trim()}`),
+        argumentOfPerigee: parseFloat(line2.substring(34, 42)),
+        meanAnomaly: parseFloat(line2.substring(43, 51)),
+        meanMotion: parseFloat(line2.substring(52, 63)),
+        revolutionNumber: parseInt(line2.substring(63, 68), 10) || 0,
+    };
+
+    if (tle.name) {
+        elements.name = tle.name;
+    }
+    return elements;
+}
@@ -1,57 +1,107 @@
 // Utility for loading and parsing TLE files
 
-import type { TLE } from "../types";
+import type { TLE } from "./TLEFormat";
+import { isTLEChecksumValid, validateTLELines, type TLEValidationError, type TLEValidationOptions } from "./TLEValidation";
 
 export interface ParsedTLE {
     name: string;
     line1: string;
     line2: string;
+    catalogNumber: number; // Decoded catalog number (Alpha-5 aware)
+}
+
+export interface RejectedTLE {
+    lineNumber: number; // 1-based line in the source text where the record starts
+    name?: string;
+    line1?: string;
+    line2?: string;
+    errors: TLEValidationError[];
+}
+
+export interface TLEParseReport {
+    tles: ParsedTLE[];
+    rejected: RejectedTLE[];
 }
 
 export class TLELoader {
     /**
      * Parse TLE data from text content
-     * Supports both 2-line and 3-line formats
+     * Supports both 2-line and 3-line formats; invalid records are dropped with a warning
+     */
+    static parseTLEText(text: string, options?: TLEValidationOptions): ParsedTLE[] {
+        const report = TLELoader.parseTLETextWithErrors(text, options);
+
+        if (report.rejected.length > 0) {
+            console.warn(`TLELoader: rejected ${report.rejected.length} TLE record(s)`, report.rejected);
+        }
+
+        return report.tles;
+    }
+
+    /**
+     * Parse TLE data from text content, reporting every rejected record and why
+     * Name lines may carry the "0 " prefix used by 3LE files
      */
-    static parseTLEText(text: string): ParsedTLE[] {
-        const lines = text
-            .split("\n")
-            .map((line) => line.trim())
-            .filter((line) => line.length > 0);
-        const tles: ParsedTLE[] = [];
+    static parseTLETextWithErrors(text: string, options?: TLEValidationOptions): TLEParseReport {
+        const lines = text.split("\n").map((line) => line.trim());
+        const report: TLEParseReport = { tles: [], rejected: [] };
+        let name: string | undefined;
 
         for (let i = 0; i < lines.length; i++) {
             const line = lines[i];
+            if (line.length === 0) continue;
+
+            if (line.startsWith("2 ")) {
+                report.rejected.push({
+                    lineNumber: i + 1,
+                    name,
+                    line2: line,
+                    errors: [{ line: 1, code: "MISSING_LINE", message: "Line 2 is not preceded by a line 1" }],
+                });
+                name = undefined;
+                continue;
+            }
 
-            // Check if this is a TLE line 1 (starts with "1 ")
-            if (line.startsWith("1 ")) {
-                const line1 = line;
-                const line2 = lines[i + 1];
-
-                // Validate line 2 exists and starts with "2 "
-                if (line2 && line2.startsWith("2 ")) {
-                    // Check if there's a name line before
-                    let name = "Unknown";
-                    if (i > 0 && !lines[i - 1].startsWith("1 ") && !lines[i - 1].startsWith("2 ")) {
-                        name = lines[i - 1];
-                    } else {
-                        // Try to extract satellite number from line 1
-                        const satNum = line1.substring(2, 7).trim();
-                        name = `SAT ${satNum}`;
-                    }
-
-                    tles.push({
-                        name,
-                        line1,
-                        line2,
-                    });
-
-                    i++; // Skip line 2
-                }
+            if (!line.startsWith("1 ")) {
+                name = line.startsWith("0 ") ? line.substring(2).trim() : line;
+                continue;
+            }
+
+            // Line 2 is the next non-empty line
+            let j = i + 1;
+            while (j < lines.length && lines[j].length === 0) j++;
+
+            if (j >= lines.length || !lines[j].startsWith("2 ")) {
+                report.rejected.push({
+                    lineNumber: i + 1,
+                    name,
+                    line1: line,
+                    errors: [{ line: 2, code: "MISSING_LINE", message: "Line 1 is not followed by a line 2" }],
+                });
+                name = undefined;
+                continue;
+            }
+
+            const line1 = line;
+            const line2 = lines[j];
+            const result = validateTLELines(line1, line2, options);
+
+            if (result.valid) {
+                report.tles.push({
+                    name: name ?? `SAT ${result.catalogNumber}`,
+                    line1,
+                    line2,
+                    catalogNumber: result.catalogNumber,
+                });
+            } else {
+                report.rejected.push({ lineNumber: i + 1, name, line1, line2, errors: result.errors });
             }
+
+            name = undefined;
+            i = j; // Skip line 2
         }
 
-        return tles;
+        return report;
     }
 
     /**
@@ -103,21 +153,6 @@ export class TLELoader {
      * Validate TLE checksum
      */
     static validateTLEChecksum(line: string): boolean {
-        if (line.length < 69) return false;
-
-        const checksum = parseInt(line[68], 10);
-        if (isNaN(checksum)) return false;
-
-        let sum = 0;
-        for (let i = 0; i < 68; i++) {
-            const char = line[i];
-            if (char >= "0" && char <= "9") {
-                sum += parseInt(char, 10);
-            } else if (char === "-") {
-                sum += 1;
-            }
-        }
-
-        return sum % 10 === checksum;
+        return isTLEChecksumValid(line);
     }
 }
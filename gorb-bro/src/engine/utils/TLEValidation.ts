@@ -0,0 +1,258 @@
+// TLE validation: checksums, column layout, epoch sanity and catalog-number agreement
+// Reports structured per-line errors so ingest can say exactly which records were rejected and why
+
+import { computeTLEChecksum, decodeCatalogNumber } from "./TLEFormat";
+
+export type TLEValidationErrorCode =
+    | "MISSING_LINE" // Line 1 without a line 2, or a line 2 without a line 1
+    | "LINE_NUMBER" // Column 1 is not "1" / "2"
+    | "LINE_LENGTH" // Line is not 69 columns
+    | "CHECKSUM" // Column 69 does not match the computed checksum
+    | "COLUMN_FORMAT" // A field does not match the fixed-column layout
+    | "CATALOG_NUMBER" // Catalog field is neither digits nor Alpha-5
+    | "CATALOG_MISMATCH" // Line 1 and line 2 catalog numbers differ
+    | "EPOCH" // Epoch day is not valid for its year, or outside the accepted age
+    | "ELEMENT_RANGE"; // An orbital element is out of its physical range
+
+export interface TLEValidationError {
+    line: 1 | 2; // TLE line the error refers to
+    column?: number; // 1-based column where the offending field starts
+    code: TLEValidationErrorCode;
+    message: string;
+}
+
+export interface TLEValidationResult {
+    valid: boolean;
+    catalogNumber: number; // Decoded from line 1 (NaN when undecodable)
+    epoch: number; // UTC Unix ms (NaN when undecodable)
+    errors: TLEValidationError[];
+}
+
+export interface TLEValidationOptions {
+    /**
+     * Reject epochs older than this many days before the reference time
+     * Default: no limit
+     */
+    maxEpochAgeDays?: number;
+
+    /**
+     * Reject epochs more than this many days after the reference time
+     * Default: no limit
+     */
+    maxEpochFutureDays?: number;
+
+    /**
+     * Time the epoch limits are measured from (UTC Unix ms)
+     * Default: Date.now()
+     */
+    referenceTime?: number;
+}
+
+// Fixed-column fields as [first column (1-based), pattern, description, error code]
+// Each field runs up to the next field or the checksum column
+type ColumnField = [number, RegExp, string, TLEValidationErrorCode?];
+
+// Plain digits (possibly blank padded) or Alpha-5 (letter excluding I and O, then four digits)
+const CATALOG_PATTERN = /^( {0,4}\d+|[A-HJ-NP-Z]\d{4})$/;
+
+const LINE1_FIELDS: ColumnField[] = [
+    [2, /^ $/, "separator"],
+    [3, CATALOG_PATTERN, "catalog number", "CATALOG_NUMBER"],
+    [8, /^[UCS ]$/, "classification"],
+    [9, /^ $/, "separator"],
+    [10, /^[0-9A-Z ]{8}$/, "international designator"],
+    [18, /^ $/, "separator"],
+    [19, /^\d{2}[\d ]{2}\d\.\d{8}$/, "epoch"],
+    [33, /^ $/, "separator"],
+    [34, /^[ +-]\.\d{8}$/, "mean motion first derivative"],
+    [44, /^ $/, "separator"],
+    [45, /^[ +-]\d{5}[+-]\d$/, "mean motion second derivative"],
+    [53, /^ $/, "separator"],
+    [54, /^[ +-]\d{5}[+-]\d$/, "BSTAR drag term"],
+    [62, /^ $/, "separator"],
+    [63, /^[\d ]$/, "ephemeris type"],
+    [64, /^ $/, "separator"],
+    [65, /^ {0,3}\d+$/, "element set number"],
+];
+
+const LINE2_FIELDS: ColumnField[] = [
+    [2, /^ $/, "separator"],
+    [3, CATALOG_PATTERN, "catalog number", "CATALOG_NUMBER"],
+    [8, /^ $/, "separator"],
+    [9, /^[ \d]{2}\d\.\d{4}$/, "inclination"],
+    [17, /^ $/, "separator"],
+    [18, /^[ \d]{2}\d\.\d{4}$/, "right ascension of ascending node"],
+    [26, /^ $/, "separator"],
+    [27, /^\d{7}$/, "eccentricity"],
+    [34, /^ $/, "separator"],
+    [35, /^[ \d]{2}\d\.\d{4}$/, "argument of perigee"],
+    [43, /^ $/, "separator"],
+    [44, /^[ \d]{2}\d\.\d{4}$/, "mean anomaly"],
+    [52, /^ $/, "separator"],
+    [53, /^[ \d]\d\.\d{8}$/, "mean motion"],
+    [64, /^ {0,4}\d+$/, "revolution number"],
+];
+
+/**
+ * Check one line's number, length, checksum and column layout
+ */
+function validateLine(line: string, lineNumber: 1 | 2, fields: ColumnField[], errors: TLEValidationError[]): boolean {
+    if (line.charAt(0) !== String(lineNumber)) {
+        errors.push({ line: lineNumber, column: 1, code: "LINE_NUMBER", message: `Line ${lineNumber} must start with "${lineNumber}"` });
+        return false;
+    }
+
+    if (line.length !== 69) {
+        errors.push({
+            line: lineNumber,
+            code: "LINE_LENGTH",
+            message: `Line ${lineNumber} has ${line.length} columns, expected 69`,
+        });
+        return false;
+    }
+
+    let layoutValid = true;
+
+    const checksum = line.charAt(68);
+    const expected = computeTLEChecksum(line);
+    if (checksum !== String(expected)) {
+        errors.push({
+            line: lineNumber,
+            column: 69,
+            code: "CHECKSUM",
+            message: `Line ${lineNumber} checksum is "${checksum}", computed ${expected}`,
+        });
+    }
+
+    for (let i = 0; i < fields.length; i++) {
+        const [column, pattern, description, code] = fields[i];
+        const end = i + 1 < fields.length ? fields[i + 1][0] : 69;
+        const value = line.substring(column - 1, end - 1);
+        if (!pattern.test(value)) {
+            errors.push({
+                line: lineNumber,
+                column,
+                code: code ?? "COLUMN_FORMAT",
+                message: `Line ${lineNumber} ${description} "${value}" at column ${column} is malformed`,
+            });
+            layoutValid = false;
+        }
+    }
+
+    return layoutValid;
+}
+
+/**
+ * Epoch (UTC Unix ms) from line 1, checking the day of year against its year
+ */
+function validateEpoch(line1: string, options: TLEValidationOptions, errors: TLEValidationError[]): number {
+    // Two-digit years: 57-99 are 1900s, 00-56 are 2000s
+    const twoDigitYear = parseInt(line1.substring(18, 20), 10);
+    const year = twoDigitYear < 57 ? 2000 + twoDigitYear : 1900 + twoDigitYear;
+    const dayOfYear = parseFloat(line1.substring(20, 32));
+    const daysInYear = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0 ? 366 : 365;
+
+    if (!(dayOfYear >= 1 && dayOfYear < daysInYear + 1)) {
+        errors.push({
+            line: 1,
+            column: 21,
+            code: "EPOCH",
+            message: `Epoch day ${dayOfYear} is not within year ${year}`,
+        });
+        return NaN;
+    }
+
+    const epoch = Date.UTC(year, 0, 1) + (dayOfYear - 1) * 86400000;
+    const referenceTime = options.referenceTime ?? Date.now();
+
+    if (options.maxEpochAgeDays !== undefined && referenceTime - epoch > options.maxEpochAgeDays * 86400000) {
+        errors.push({
+            line: 1,
+            column: 19,
+            code: "EPOCH",
+            message: `Epoch ${new Date(epoch).toISOString()} is more than ${options.maxEpochAgeDays} days old`,
+        });
+    }
+
+    if (options.maxEpochFutureDays !== undefined && epoch - referenceTime > options.maxEpochFutureDays * 86400000) {
+        errors.push({
+            line: 1,
+            column: 19,
+            code: "EPOCH",
+            message: `Epoch ${new Date(epoch).toISOString()} is more than ${options.maxEpochFutureDays} days in the future`,
+        });
+    }
+
+    return epoch;
+}
+
+/**
+ * Check that line 2 angles and mean motion are physically meaningful
+ */
+function validateElementRanges(line2: string, errors: TLEValidationError[]): void {
+    const ranges: [number, number, number, string][] = [
+        [9, 0, 180, "inclination"],
+        [18, 0, 360, "right ascension of ascending node"],
+        [35, 0, 360, "argument of perigee"],
+        [44, 0, 360, "mean anomaly"],
+    ];
+
+    for (const [column, min, max, description] of ranges) {
+        const value = parseFloat(line2.substring(column - 1, column + 7));
+        if (!(value >= min && value <= max)) {
+            errors.push({
+                line: 2,
+                column,
+                code: "ELEMENT_RANGE",
+                message: `${description} ${value} is outside [${min}, ${max}] degrees`,
+            });
+        }
+    }
+
+    const meanMotion = parseFloat(line2.substring(52, 63));
+    if (!(meanMotion > 0)) {
+        errors.push({
+            line: 2,
+            column: 53,
+            code: "ELEMENT_RANGE",
+            message: `Mean motion ${meanMotion} rev/day must be positive`,
+        });
+    }
+}
+
+/**
+ * Validate a TLE line pair
+ * Lines are expected without trailing whitespace
+ */
+export function validateTLELines(line1: string, line2: string, options: TLEValidationOptions = {}): TLEValidationResult {
+    const errors: TLEValidationError[] = [];
+
+    const line1Valid = validateLine(line1, 1, LINE1_FIELDS, errors);
+    const line2Valid = validateLine(line2, 2, LINE2_FIELDS, errors);
+
+    const catalogNumber = line1.length >= 7 ? decodeCatalogNumber(line1.substring(2, 7)) : NaN;
+    const catalogNumber2 = line2.length >= 7 ? decodeCatalogNumber(line2.substring(2, 7)) : NaN;
+    if (!isNaN(catalogNumber) && !isNaN(catalogNumber2) && catalogNumber !== catalogNumber2) {
+        errors.push({
+            line: 2,
+            column: 3,
+            code: "CATALOG_MISMATCH",
+            message: `Line 2 catalog number ${catalogNumber2} does not match line 1 catalog number ${catalogNumber}`,
+        });
+    }
+
+    // Field values are only meaningful once the layout is known to be right
+    const epoch = line1Valid ? validateEpoch(line1, options, errors) : NaN;
+    if (line2Valid) {
+        validateElementRanges(line2, errors);
+    }
+
+    return { valid: errors.length === 0, catalogNumber, epoch, errors };
+}
+
+/**
+ * Validate a single TLE line's checksum
+ */
+export function isTLEChecksumValid(line: string): boolean {
+    return line.length >= 69 && line.charAt(68) === String(computeTLEChecksum(line));
+}
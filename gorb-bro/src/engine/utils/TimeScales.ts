@@ -0,0 +1,275 @@
+// Time scale conversions: UTC, TAI, GPS, TT, UT1 and Julian/Modified Julian Dates
+// Continuous scales are milliseconds on a Unix-style count (1970-01-01 00:00 on that scale).
+// UNIX is the engine's native UTC millisecond count; JULIAN and MJD are day counts on the UTC scale.
+
+import type { EOPEntry, ITimeService, TimeConverter } from "../types";
+import { TimeSystem } from "../types";
+import { JD_UNIX_EPOCH } from "./ReferenceFrames";
+
+/**
+ * TT - TAI in seconds (fixed by definition)
+ */
+export const TT_MINUS_TAI = 32.184;
+
+/**
+ * TAI - GPS in seconds (fixed since the GPS epoch)
+ */
+export const TAI_MINUS_GPS = 19;
+
+/**
+ * Julian Date of the Modified Julian Date epoch
+ */
+export const MJD_OFFSET = 2400000.5;
+
+export interface LeapSecondEntry {
+    effective: number; // UTC Unix timestamp (ms) the offset takes effect
+    taiMinusUtc: number; // TAI - UTC in seconds
+}
+
+/**
+ * TAI - UTC since the 1972 introduction of integer leap seconds
+ */
+export const LEAP_SECONDS: LeapSecondEntry[] = [
+    [1972, 0, 10],
+    [1972, 6, 11],
+    [1973, 0, 12],
+    [1974, 0, 13],
+    [1975, 0, 14],
+    [1976, 0, 15],
+    [1977, 0, 16],
+    [1978, 0, 17],
+    [1979, 0, 18],
+    [1980, 0, 19],
+    [1981, 6, 20],
+    [1982, 6, 21],
+    [1983, 6, 22],
+    [1985, 6, 23],
+    [1988, 0, 24],
+    [1990, 0, 25],
+    [1991, 0, 26],
+    [1992, 6, 27],
+    [1993, 6, 28],
+    [1994, 6, 29],
+    [1996, 0, 30],
+    [1997, 6, 31],
+    [1999, 0, 32],
+    [2006, 0, 33],
+    [2009, 0, 34],
+    [2012, 6, 35],
+    [2015, 6, 36],
+    [2017, 0, 37],
+].map(([year, month, offset]) => ({ effective: Date.UTC(year, month, 1), taiMinusUtc: offset }));
+
+/**
+ * Parse an Earth Orientation Parameter table in CSV form (CelesTrak EOP-All.csv layout)
+ * Only the MJD, UT1-UTC and optional X/Y polar motion columns are read
+ */
+export function parseEOPCsv(text: string): EOPEntry[] {
+    const lines = text
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+
+    if (lines.length === 0) return [];
+
+    const header = lines[0].split(",").map((column) => column.trim().toUpperCase());
+    const mjdColumn = header.indexOf("MJD");
+    const dut1Column = header.indexOf("UT1-UTC");
+    const xColumn = header.indexOf("X");
+    const yColumn = header.indexOf("Y");
+
+    if (mjdColumn < 0 || dut1Column < 0) {
+        throw new Error("Invalid EOP table: expected MJD and UT1-UTC columns");
+    }
+
+    const entries: EOPEntry[] = [];
+    for (let i = 1; i < lines.length; i++) {
+        const fields = lines[i].split(",");
+        const mjd = parseFloat(fields[mjdColumn]);
+        const ut1MinusUtc = parseFloat(fields[dut1Column]);
+        if (isNaN(mjd) || isNaN(ut1MinusUtc)) continue;
+
+        const entry: EOPEntry = { mjd, ut1MinusUtc };
+        if (xColumn >= 0 && yColumn >= 0) {
+            const xp = parseFloat(fields[xColumn]);
+            const yp = parseFloat(fields[yColumn]);
+            if (!isNaN(xp) && !isNaN(yp)) {
+                entry.xp = xp;
+                entry.yp = yp;
+            }
+        }
+        entries.push(entry);
+    }
+
+    return entries;
+}
+
+/**
+ * Format a value on the given time scale for display
+ */
+export function formatTimeScale(value: number, system: TimeSystem): string {
+    switch (system) {
+        case TimeSystem.UNIX:
+            return `${(value / 1000).toFixed(3)} s`;
+        case TimeSystem.JULIAN:
+            return `JD ${value.toFixed(6)}`;
+        case TimeSystem.MJD:
+            return `MJD ${value.toFixed(6)}`;
+        default: {
+            // Calendar rendering of a Unix-style count on the scale
+            const iso = new Date(value).toISOString();
+            return `${iso.slice(0, 10)} ${iso.slice(11, 23)} ${system.toUpperCase()}`;
+        }
+    }
+}
+
+/**
+ * Simulation time (or a given UTC timestamp) on another scale, for any ITimeService
+ * Uses the service's getTimeIn when it has one, else its convert()
+ */
+export function getTimeInScale(service: ITimeService, system: TimeSystem, time: number = service.getCurrentTime()): number {
+    return service.getTimeIn ? service.getTimeIn(system, time) : service.convert(time, TimeSystem.UTC, system);
+}
+
+/**
+ * Format the simulation time (or a given UTC timestamp) on another scale, for any ITimeService
+ */
+export function formatTimeInScale(service: ITimeService, system: TimeSystem, time: number = service.getCurrentTime()): string {
+    return service.formatTime ? service.formatTime(system, time) : formatTimeScale(getTimeInScale(service, system, time), system);
+}
+
+/**
+ * Built-in converter between all TimeSystem scales, backed by a leap-second table
+ * and an optional UT1-UTC table
+ */
+export class TimeScaleConverter implements TimeConverter {
+    private leapSeconds: LeapSecondEntry[];
+    private eop: EOPEntry[] = [];
+
+    constructor(leapSeconds: LeapSecondEntry[] = LEAP_SECONDS) {
+        this.leapSeconds = [...leapSeconds].sort((a, b) => a.effective - b.effective);
+    }
+
+    /**
+     * Register a newly announced leap second
+     */
+    addLeapSecond(effective: number, taiMinusUtc: number): void {
+        this.leapSeconds.push({ effective, taiMinusUtc });
+        this.leapSeconds.sort((a, b) => a.effective - b.effective);
+    }
+
+    /**
+     * Replace the Earth Orientation Parameter table used for UT1
+     */
+    loadEOP(entries: EOPEntry[]): void {
+        this.eop = [...entries].sort((a, b) => a.mjd - b.mjd);
+    }
+
+    /**
+     * TAI - UTC in seconds at a UTC instant (10 s before 1972)
+     */
+    getTaiMinusUtc(utc: number): number {
+        for (let i = this.leapSeconds.length - 1; i >= 0; i--) {
+            if (utc >= this.leapSeconds[i].effective) {
+                return this.leapSeconds[i].taiMinusUtc;
+            }
+        }
+        return this.leapSeconds.length > 0 ? this.leapSeconds[0].taiMinusUtc : 0;
+    }
+
+    /**
+     * UT1 - UTC in seconds at a UTC instant, linearly interpolated from the EOP table
+     * Clamped to the table ends; 0 when no table is loaded
+     */
+    getUt1MinusUtc(utc: number): number {
+        const eop = this.eop;
+        if (eop.length === 0) return 0;
+
+        const mjd = utc / 86400000 + JD_UNIX_EPOCH - MJD_OFFSET;
+        if (mjd <= eop[0].mjd) return eop[0].ut1MinusUtc;
+        if (mjd >= eop[eop.length - 1].mjd) return eop[eop.length - 1].ut1MinusUtc;
+
+        // Binary search for the bracketing interval
+        let lo = 0;
+        let hi = eop.length - 1;
+        while (hi - lo > 1) {
+            const mid = (lo + hi) >> 1;
+            if (eop[mid].mjd <= mjd) {
+                lo = mid;
+            } else {
+                hi = mid;
+            }
+        }
+
+        const a = eop[lo];
+        const b = eop[hi];
+
+        // UT1-UTC steps by ~1 s across a leap second; hold the nearer value instead of interpolating the step
+        if (Math.abs(b.ut1MinusUtc - a.ut1MinusUtc) > 0.5) {
+            return mjd - a.mjd < b.mjd - mjd ? a.ut1MinusUtc : b.ut1MinusUtc;
+        }
+
+        return a.ut1MinusUtc + ((b.ut1MinusUtc - a.ut1MinusUtc) * (mjd - a.mjd)) / (b.mjd - a.mjd);
+    }
+
+    convert(time: number, from: TimeSystem, to: TimeSystem): number {
+        if (from === to) return time;
+        return this.fromUTC(this.toUTC(time, from), to);
+    }
+
+    private toUTC(time: number, from: TimeSystem): number {
+        switch (from) {
+            case TimeSystem.UTC:
+            case TimeSystem.UNIX:
+                return time;
+            case TimeSystem.JULIAN:
+                return (time - JD_UNIX_EPOCH) * 86400000;
+            case TimeSystem.MJD:
+                return (time + MJD_OFFSET - JD_UNIX_EPOCH) * 86400000;
+            case TimeSystem.TAI:
+                return this.taiToUTC(time);
+            case TimeSystem.GPS:
+                return this.taiToUTC(time + TAI_MINUS_GPS * 1000);
+            case TimeSystem.TT:
+                return this.taiToUTC(time - TT_MINUS_TAI * 1000);
+            case TimeSystem.UT1: {
+                // UT1 - UTC varies slowly, so one fixed-point step is enough
+                const guess = time - this.getUt1MinusUtc(time) * 1000;
+                return time - this.getUt1MinusUtc(guess) * 1000;
+            }
+        }
+    }
+
+    private fromUTC(utc: number, to: TimeSystem): number {
+        switch (to) {
+            case TimeSystem.UTC:
+            case TimeSystem.UNIX:
+                return utc;
+            case TimeSystem.JULIAN:
+                return utc / 86400000 + JD_UNIX_EPOCH;
+            case TimeSystem.MJD:
+                return utc / 86400000 + JD_UNIX_EPOCH - MJD_OFFSET;
+            case TimeSystem.TAI:
+                return utc + this.getTaiMinusUtc(utc) * 1000;
+            case TimeSystem.GPS:
+                return utc + (this.getTaiMinusUtc(utc) - TAI_MINUS_GPS) * 1000;
+            case TimeSystem.TT:
+                return utc + (this.getTaiMinusUtc(utc) + TT_MINUS_TAI) * 1000;
+            case TimeSystem.UT1:
+                return utc + this.getUt1MinusUtc(utc) * 1000;
+        }
+    }
+
+    /**
+     * TAI -> UTC using the offset in force at the resulting UTC instant
+     */
+    private taiToUTC(tai: number): number {
+        for (let i = this.leapSeconds.length - 1; i >= 0; i--) {
+            const utc = tai - this.leapSeconds[i].taiMinusUtc * 1000;
+            if (utc >= this.leapSeconds[i].effective) {
+                return utc;
+            }
+        }
+        return tai - (this.leapSeconds.length > 0 ? this.leapSeconds[0].taiMinusUtc : 0) * 1000;
+    }
+}
@@ -0,0 +1,51 @@
+// Availability interval tests for TimeVisibilityComponent (single window or sorted interval list)
+
+import type { EntityId, IEngine, PropagatorComponent, TimeVisibilityComponent } from "../types";
+import { ComponentType } from "../types";
+
+/**
+ * Whether the entity is available at a time (binary search over the intervals)
+ */
+export function isAvailableAt(visibility: TimeVisibilityComponent, time: number): boolean {
+    const intervals = visibility.intervals;
+    if (!intervals) {
+        return time >= (visibility.startTime ?? -Infinity) && time <= (visibility.endTime ?? Infinity);
+    }
+
+    // Last interval starting at or before the time
+    let low = 0;
+    let high = intervals.length - 1;
+    let found = -1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (intervals[mid].start <= time) {
+            found = mid;
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    return found >= 0 && time <= intervals[found].end;
+}
+
+/**
+ * Whether any availability overlaps [start, end]
+ */
+export function isAvailableDuring(visibility: TimeVisibilityComponent, start: number, end: number): boolean {
+    const intervals = visibility.intervals;
+    if (!intervals) {
+        return (visibility.startTime ?? -Infinity) <= end && (visibility.endTime ?? Infinity) >= start;
+    }
+
+    return intervals.some((interval) => interval.start <= end && interval.end >= start);
+}
+
+/**
+ * Whether rendering should skip an entity: outside its availability as of the last TimeVisibilitySystem update,
+ * or flagged out of range by the last PropagationSystem update
+ */
+export function isTimeHidden(engine: IEngine, entity: EntityId): boolean {
+    if (engine.getComponent<TimeVisibilityComponent>(entity, ComponentType.TIME_VISIBILITY)?.available === false) return true;
+    return engine.getComponent<PropagatorComponent>(entity, ComponentType.PROPAGATOR)?.outOfRange === true;
+}
@@ -0,0 +1,54 @@
+// Conjunction Worker - runs conjunction screening off the render thread
+// Screens in short slices and posts progress with the events found in each slice
+
+import type { ConjunctionEvent, ConjunctionProgress, ConjunctionScreeningOptions } from "../types";
+import { ConjunctionScreener, type ConjunctionObject } from "../utils/ConjunctionScreening";
+
+export interface ConjunctionWorkerRequest {
+    type: "start";
+    runId: number;
+    objects: ConjunctionObject[];
+    start: number;
+    end: number;
+    options: ConjunctionScreeningOptions;
+}
+
+export type ConjunctionWorkerResponse =
+    | { type: "progress"; runId: number; progress: ConjunctionProgress; events: ConjunctionEvent[] }
+    | { type: "error"; runId: number; message: string };
+
+// Slice length; yielding between slices keeps the worker responsive to new requests
+const SLICE_MS = 50;
+
+let currentRun = 0;
+
+self.onmessage = (event: MessageEvent<ConjunctionWorkerRequest>) => {
+    const request = event.data;
+    if (request.type !== "start") return;
+
+    currentRun = request.runId;
+    const screener = new ConjunctionScreener(request.objects, request.start, request.end, request.options);
+
+    const pump = () => {
+        // A newer request supersedes this run
+        if (currentRun !== request.runId) return;
+
+        try {
+            const events = screener.step(SLICE_MS);
+            post({ type: "progress", runId: request.runId, progress: screener.getProgress(), events });
+        } catch (error) {
+            post({ type: "error", runId: request.runId, message: error instanceof Error ? error.message : String(error) });
+            return;
+        }
+
+        if (!screener.done) {
+            setTimeout(pump, 0);
+        }
+    };
+
+    pump();
+};
+
+function post(response: ConjunctionWorkerResponse): void {
+    self.postMessage(response);
+}
@@ -8,6 +8,7 @@ import {
     Engine,
     RenderingService,
     TimeService,
+    FrameConversionService,
     PropagationSystem,
     RenderSystem,
     SelectionSystem,
@@ -76,10 +77,14 @@ function FullExample() {
             const timeService = new TimeService(Date.now());
             timeService.play();
 
+            // The scene is Y-up (OrbitControls), so map the frames' north axis onto Y
+            const frameService = new FrameConversionService(timeService, { yUp: true });
+
             const engine = new Engine({
                 services: {
                     rendering: renderingService,
                     time: timeService,
+                    frame: frameService,
                 },
                 maxEntities: 100000,
             });
@@ -185,7 +190,6 @@ function FullExample() {
             // ====================================================================
 
             // Initialize orbit visualizer
-            const scene = renderingService.getScene();
             const orbitVisualizer = new OrbitVisualizer({
                 color: 0x00ff00,
                 opacity: 0.5,
@@ -199,11 +203,8 @@ function FullExample() {
                     setSelectedEntity(entityId);
 
                     // Update orbit visualization
-                    if (entityId !== null) {
-                        const orbitalElements = engine.getComponent(entityId, ComponentType.ORBITAL_ELEMENTS);
-                        if (orbitalElements && "format" in orbitalElements) {
-                            orbitVisualizer.createOrbit(orbitalElements as any, scene);
-                        }
+                    if (entityId !== null && engine.hasComponent(entityId, ComponentType.ORBITAL_ELEMENTS)) {
+                        orbitVisualizer.createOrbit(engine, entityId);
                     } else {
                         orbitVisualizer.removeOrbit();
                     }
@@ -229,6 +230,11 @@ function FullExample() {
                     controlsRef.current.update();
                 }
 
+                // Keep the selected orbit centered on the current simulation time
+                if (orbitVisualizerRef.current) {
+                    orbitVisualizerRef.current.update();
+                }
+
                 // Get system timing data
                 const celestialSystem = engine.getSystem("celestialUpdate") as CelestialUpdateSystem | undefined;
                 const propagationSystem = engine.getSystem("propagation") as PropagationSystem | undefined;
@@ -4,6 +4,8 @@ import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
 import { DynOrbits } from "./DynOrbits";
 import { SatPoints } from "./SatPoints";
+import { TLELoader } from "../../gorb-bro/src/engine/utils/TLELoader";
+import { validateTLELines } from "../../gorb-bro/src/engine/utils/TLEValidation";
 
 // Constants
 const MU_EARTH = 0.000001536328985; // G*MassOfEarth in units of earth radius
@@ -15,43 +17,14 @@ interface TLEData {
   line2: string;
 }
 
-// TLE validation function
-function validateTLE(tle: TLEData): boolean {
-  if (!tle || !tle.line1 || !tle.line2) {
-    return false;
-  }
-
-  // Check TLE format
-  if (!tle.line1.startsWith('1 ') || !tle.line2.startsWith('2 ')) {
-    return false;
-  }
-
-  // Check line lengths (TLE lines should be 69 characters)
-  if (tle.line1.length !== 69 || tle.line2.length !== 69) {
-    return false;
-  }
-
-  return true;
-}
-
-// TLE parsing functions
+// TLE parsing: validation (checksums, column layout, epoch, catalog numbers) is shared with the gorb-bro engine
 function parseTLEFile(content: string): TLEData[] {
-  const lines = content.split("\n").filter((line) => line.trim());
-  const tles: TLEData[] = [];
-
-  for (let i = 0; i < lines.length; i += 3) {
-    if (i + 2 < lines.length) {
-      const name = lines[i].trim();
-      const line1 = lines[i + 1].trim();
-      const line2 = lines[i + 2].trim();
-
-      if (line1.startsWith("1 ") && line2.startsWith("2 ")) {
-        tles.push({ name, line1, line2 });
-      }
-    }
+  const report = TLELoader.parseTLETextWithErrors(content);
+  if (report.rejected.length > 0) {
+    console.warn(`Rejected ${report.rejected.length} TLE record(s):`, report.rejected);
   }
 
-  return tles;
+  return report.tles;
 }
 
 // Load TLE file
@@ -990,8 +963,15 @@ async function loadFromTurionAPI() {
         const sat = satellites[i];
 
         // Validate TLE before creating satrec
-        if (!validateTLE(sat.tle)) {
-          console.warn(`Invalid TLE data for satellite ${i} (${sat.name}):`, sat.tle);
+        if (!sat.tle) {
+          console.warn(`Missing TLE data for satellite ${i} (${sat.name})`);
+          satRecsBatch.push(null);
+          continue;
+        }
+
+        const validation = validateTLELines(sat.tle.line1, sat.tle.line2);
+        if (!validation.valid) {
+          console.warn(`Invalid TLE data for satellite ${i} (${sat.name}):`, validation.errors);
           satRecsBatch.push(null);
           continue;
         }
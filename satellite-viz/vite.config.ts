@@ -1,10 +1,13 @@
-import { defineConfig } from 'vite'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 
 // https://vitejs.dev/config/
 export default defineConfig({
     server: {
         port: 3000,
-        open: true
+        open: true,
+        fs: {
+            allow: [searchForWorkspaceRoot(process.cwd()), '../gorb-bro/src/engine/utils']
+        }
     },
     optimizeDeps: {
         include: ['three']
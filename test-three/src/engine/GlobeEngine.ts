@@ -261,13 +261,9 @@ export class GlobeEngine {
     }
 
     private calculateEarthRotation(): number {
-        const gmst = gstime(this.currentTime);
-
-        // GMST is in radians
-        const longitudeRadians = (this.longitude * Math.PI) / 180;
-        const rotationAngle = gmst + longitudeRadians;
-
-        return rotationAngle;
+        // The globe is the Earth-fixed frame: its prime meridian sits at GMST (radians) from the
+        // inertial X axis, independent of the observer location
+        return gstime(this.currentTime);
     }
 
     private createEarthTexture(): THREE.Texture {
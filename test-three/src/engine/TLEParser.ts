@@ -1,5 +1,6 @@
 import * as satellite from "satellite.js";
 import type { TLEData } from "./OrbitalElements";
+import { TLELoader } from "../../../gorb-bro/src/engine/utils/TLELoader";
 
 export interface ParsedTLE {
     name: string;
@@ -24,28 +25,18 @@ export class TLEParser {
      * @returns Array of parsed TLE objects
      */
     public static parseTLEFile(content: string, maxCount: number = 0): ParsedTLE[] {
-        const lines = content.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-        const tles: ParsedTLE[] = [];
-
-        // Process lines in pairs (line1 and line2)
-        for (let i = 0; i < lines.length - 1; i += 2) {
-            if (maxCount > 0 && tles.length >= maxCount) {
-                break;
-            }
+        const report = TLELoader.parseTLETextWithErrors(content);
+        if (report.rejected.length > 0) {
+            console.warn(`Rejected ${report.rejected.length} TLE record(s):`, report.rejected);
+        }
 
-            const line1 = lines[i];
-            const line2 = lines[i + 1];
+        const records = maxCount > 0 ? report.tles.slice(0, maxCount) : report.tles;
+        const tles: ParsedTLE[] = [];
 
-            // Validate TLE format
-            if (this.isValidTLE(line1, line2)) {
-                try {
-                    const parsed = this.parseTLEData(line1, line2);
-                    if (parsed) {
-                        tles.push(parsed);
-                    }
-                } catch (error) {
-                    console.warn(`Failed to parse TLE at line ${i + 1}:`, error);
-                }
+        for (const record of records) {
+            const parsed = this.parseTLEData(record.name, record.line1, record.line2, record.catalogNumber);
+            if (parsed) {
+                tles.push(parsed);
             }
         }
 
@@ -53,12 +44,12 @@ export class TLEParser {
     }
 
     /**
-     * Parse a single TLE pair
+     * Parse a single validated TLE pair
      */
-    private static parseTLEData(line1: string, line2: string): ParsedTLE | null {
+    private static parseTLEData(name: string, line1: string, line2: string, catalogNumber: number): ParsedTLE | null {
         try {
-            // Extract NORAD ID from line 1
-            const noradId = line1.substring(2, 7).trim();
+            // Decoded catalog number (Alpha-5 aware)
+            const noradId = String(catalogNumber);
 
             // Create satrec object using satellite.js
             const satrec = satellite.twoline2satrec(line1, line2);
@@ -76,7 +67,7 @@ export class TLEParser {
             const epoch = this.parseEpoch(epochStr);
 
             return {
-                name: `SAT-${noradId}`,
+                name,
                 line1,
                 line2,
                 satrec,
@@ -95,41 +86,6 @@ export class TLEParser {
         }
     }
 
-    /**
-     * Validate TLE format
-     */
-    private static isValidTLE(line1: string, line2: string): boolean {
-        // Basic validation
-        if (!line1 || !line2) return false;
-        if (line1.length < 68 || line2.length < 68) return false;
-        if (!line1.startsWith('1 ') || !line2.startsWith('2 ')) return false;
-
-        // Check checksums
-        const checksum1 = parseInt(line1.charAt(line1.length - 1));
-        const checksum2 = parseInt(line2.charAt(line2.length - 1));
-
-        const calculatedChecksum1 = this.calculateChecksum(line1.substring(0, line1.length - 1));
-        const calculatedChecksum2 = this.calculateChecksum(line2.substring(0, line2.length - 1));
-
-        return checksum1 === calculatedChecksum1 && checksum2 === calculatedChecksum2;
-    }
-
-    /**
-     * Calculate TLE checksum
-     */
-    private static calculateChecksum(line: string): number {
-        let checksum = 0;
-        for (let i = 0; i < line.length; i++) {
-            const char = line[i];
-            if (char >= '0' && char <= '9') {
-                checksum += parseInt(char);
-            } else if (char === '-') {
-                checksum += 1;
-            }
-        }
-        return checksum % 10;
-    }
-
     /**
      * Parse TLE epoch string to Date
      */
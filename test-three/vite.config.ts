@@ -1,5 +1,5 @@
 import react from "@vitejs/plugin-react-swc";
-import { defineConfig } from "vite";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import { viteSingleFile } from "vite-plugin-singlefile";
 
 // https://vite.dev/config/
@@ -19,6 +19,9 @@ export default defineConfig({
             "Cross-Origin-Embedder-Policy": "require-corp",
             "Cross-Origin-Opener-Policy": "same-origin",
         },
+        fs: {
+            allow: [searchForWorkspaceRoot(process.cwd()), "../gorb-bro/src/engine/utils"],
+        },
     },
     build: {
         outDir: "dist",